@@ -44,6 +44,12 @@ export function ClusterStatusCard() {
 					<span className="font-medium text-foreground">Endpoint</span>
 					<code className="inline-block break-all bg-card px-2 py-1">{cluster.endpoint}</code>
 				</div>
+				{cluster.activeEndpoint && cluster.activeEndpoint !== cluster.endpoint ? (
+					<div className="grid gap-1">
+						<span className="font-medium text-foreground">Serving from</span>
+						<code className="inline-block break-all bg-card px-2 py-1">{cluster.activeEndpoint}</code>
+					</div>
+				) : null}
 				{cluster.websocketEndpoint ? (
 					<div className="grid gap-1">
 						<span className="font-medium text-foreground">WebSocket</span>
@@ -44,13 +44,17 @@ export function WalletControls({ connectors }: Props) {
 	}, [disconnectWallet]);
 
 	const activeConnectorId =
-		wallet.status === 'connected' || wallet.status === 'connecting' ? wallet.connectorId : undefined;
+		wallet.status === 'connected' || wallet.status === 'connecting' || wallet.status === 'restoring'
+			? wallet.connectorId
+			: undefined;
 
 	let statusLabel = 'No wallet connected.';
 	if (wallet.status === 'connected') {
 		statusLabel = `Connected to ${wallet.connectorId}: ${wallet.session.account.address.toString()}`;
 	} else if (wallet.status === 'connecting') {
 		statusLabel = `Connecting to ${wallet.connectorId}…`;
+	} else if (wallet.status === 'restoring') {
+		statusLabel = `Restoring ${wallet.connectorId}…`;
 	} else if (wallet.status === 'error') {
 		statusLabel = `Error connecting to ${wallet.connectorId ?? 'wallet'}.`;
 	}
@@ -0,0 +1,85 @@
+import type { Address, Lamports } from '@solana/kit';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { AccountCacheEntry, ClientStore } from '../types';
+import { createAccountCache } from './accountCache';
+import { createDefaultClientStore } from './createClientStore';
+
+const ADDRESS = 'account' as Address;
+
+function writeEntry(store: ClientStore, entry: Partial<AccountCacheEntry> = {}) {
+	store.setState((state) => ({
+		...state,
+		accounts: {
+			...state.accounts,
+			[ADDRESS]: {
+				address: ADDRESS,
+				fetching: false,
+				lamports: 1n as Lamports,
+				lastFetchedAt: Date.now(),
+				slot: 1n,
+				...entry,
+			},
+		},
+	}));
+}
+
+describe('account cache', () => {
+	let store: ClientStore;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		store = createDefaultClientStore({ commitment: 'confirmed', endpoint: 'https://rpc.test' });
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('reports freshness using the client or per-call stale time', () => {
+		const cache = createAccountCache({ config: { staleTime: 1_000 }, store });
+		expect(cache.isFresh(ADDRESS)).toBe(false);
+
+		writeEntry(store);
+		expect(cache.isFresh(ADDRESS)).toBe(true);
+		expect(cache.isFresh(ADDRESS, 0)).toBe(false);
+
+		vi.advanceTimersByTime(1_000);
+		expect(cache.isFresh(ADDRESS)).toBe(false);
+		expect(cache.isFresh(ADDRESS, 5_000)).toBe(true);
+
+		writeEntry(store, { error: new Error('boom') });
+		expect(cache.isFresh(ADDRESS, 5_000)).toBe(false);
+		cache.stop();
+	});
+
+	it('evicts entries once the last reference is released', () => {
+		const cache = createAccountCache({ config: { cacheTime: 100 }, store });
+		const releaseFirst = cache.retain(ADDRESS);
+		const releaseSecond = cache.retain(ADDRESS, { cacheTime: 500 });
+		writeEntry(store);
+
+		releaseFirst();
+		vi.advanceTimersByTime(1_000);
+		expect(store.getState().accounts[ADDRESS]).toBeDefined();
+
+		releaseSecond();
+		vi.advanceTimersByTime(499);
+		expect(store.getState().accounts[ADDRESS]).toBeDefined();
+		vi.advanceTimersByTime(1);
+		expect(store.getState().accounts[ADDRESS]).toBeUndefined();
+		cache.stop();
+	});
+
+	it('collects entries that were written without any consumer', () => {
+		const cache = createAccountCache({ config: { cacheTime: 100 }, store });
+		writeEntry(store);
+		vi.advanceTimersByTime(100);
+		expect(store.getState().accounts[ADDRESS]).toBeUndefined();
+
+		writeEntry(store);
+		cache.stop();
+		vi.advanceTimersByTime(100);
+		expect(store.getState().accounts[ADDRESS]).toBeDefined();
+	});
+});
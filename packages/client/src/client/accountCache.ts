@@ -0,0 +1,188 @@
+import type { Address } from '@solana/kit';
+
+import type { AccountCacheConfig, AccountCacheController, AccountCacheRetainOptions, ClientStore } from '../types';
+import { now } from '../utils';
+
+type AccountCacheDeps = Readonly<{
+	config?: AccountCacheConfig;
+	store: ClientStore;
+}>;
+
+type RetentionEntry = {
+	cacheTime: number;
+	references: number;
+	timer?: ReturnType<typeof setTimeout>;
+};
+
+const DEFAULT_CACHE_TIME_MS = 5 * 60_000;
+const DEFAULT_STALE_TIME_MS = 0;
+
+/**
+ * Creates the controller that decides when cached accounts are fresh and evicts entries nobody uses.
+ *
+ * Consumers call {@link AccountCacheController.retain} while they render an account. Once the last reference is
+ * released (or an entry is written without any reference) the entry is removed after `cacheTime`.
+ *
+ * @param deps - Client store and optional cache configuration.
+ * @returns Account cache controller bound to the store.
+ */
+export function createAccountCache({ config = {}, store }: AccountCacheDeps): AccountCacheController {
+	const cacheTime = config.cacheTime ?? DEFAULT_CACHE_TIME_MS;
+	const staleTime = config.staleTime ?? DEFAULT_STALE_TIME_MS;
+	const retention = new Map<string, RetentionEntry>();
+
+	/**
+	 * Returns the retention record for an account key, creating it when missing.
+	 *
+	 * @param key - Account cache key.
+	 * @returns Mutable retention record.
+	 */
+	function getRetention(key: string): RetentionEntry {
+		let entry = retention.get(key);
+		if (!entry) {
+			entry = { cacheTime, references: 0 };
+			retention.set(key, entry);
+		}
+		return entry;
+	}
+
+	/**
+	 * Removes an entry from the store when it is still unreferenced.
+	 *
+	 * @param key - Account cache key.
+	 */
+	function collect(key: string): void {
+		const entry = retention.get(key);
+		if (!entry || entry.references > 0) {
+			return;
+		}
+		entry.timer = undefined;
+		const cached = store.getState().accounts[key];
+		if (cached?.fetching) {
+			scheduleCollection(key, entry);
+			return;
+		}
+		retention.delete(key);
+		if (!cached) {
+			return;
+		}
+		store.setState((state) => {
+			const { [key]: _evicted, ...accounts } = state.accounts;
+			return { ...state, accounts, lastUpdatedAt: now() };
+		});
+	}
+
+	/**
+	 * Schedules garbage collection for an unreferenced entry.
+	 *
+	 * @param key - Account cache key.
+	 * @param entry - Retention record for the key.
+	 */
+	function scheduleCollection(key: string, entry: RetentionEntry): void {
+		clearTimeout(entry.timer);
+		if (!Number.isFinite(entry.cacheTime)) {
+			entry.timer = undefined;
+			return;
+		}
+		entry.timer = setTimeout(() => collect(key), entry.cacheTime);
+	}
+
+	const unsubscribe = store.subscribe((state, previous) => {
+		if (state.accounts === previous.accounts) {
+			return;
+		}
+		for (const key of Object.keys(state.accounts)) {
+			const entry = getRetention(key);
+			if (entry.references === 0 && (!entry.timer || state.accounts[key] !== previous.accounts[key])) {
+				scheduleCollection(key, entry);
+			}
+		}
+	});
+
+	/**
+	 * Registers a consumer of an account so its cache entry is kept alive.
+	 *
+	 * @param address - Account address to retain.
+	 * @param options - Optional per-consumer cache time.
+	 * @returns Function that releases the reference.
+	 */
+	function retain(address: Address, options: AccountCacheRetainOptions = {}): () => void {
+		const key = address.toString();
+		const entry = getRetention(key);
+		entry.references += 1;
+		entry.cacheTime = Math.max(entry.references > 1 ? entry.cacheTime : 0, options.cacheTime ?? cacheTime);
+		clearTimeout(entry.timer);
+		entry.timer = undefined;
+		let released = false;
+		return () => {
+			if (released) {
+				return;
+			}
+			released = true;
+			entry.references -= 1;
+			if (entry.references === 0) {
+				scheduleCollection(key, entry);
+			}
+		};
+	}
+
+	/**
+	 * Returns whether the cached entry was fetched within the stale time.
+	 *
+	 * @param address - Account address to inspect.
+	 * @param staleTimeOverride - Optional per-call stale time.
+	 * @returns `true` when a network read can be skipped.
+	 */
+	function isFresh(address: Address, staleTimeOverride?: number): boolean {
+		const cached = store.getState().accounts[address.toString()];
+		const maxAge = staleTimeOverride ?? staleTime;
+		if (!cached || cached.fetching || cached.error || cached.lastFetchedAt === undefined || maxAge <= 0) {
+			return false;
+		}
+		return now() - cached.lastFetchedAt < maxAge;
+	}
+
+	/**
+	 * Removes an entry immediately, regardless of references.
+	 *
+	 * @param address - Account address to evict.
+	 */
+	function evict(address: Address): void {
+		const key = address.toString();
+		const entry = retention.get(key);
+		clearTimeout(entry?.timer);
+		if (entry) {
+			entry.timer = undefined;
+			if (entry.references === 0) {
+				retention.delete(key);
+			}
+		}
+		if (!store.getState().accounts[key]) {
+			return;
+		}
+		store.setState((state) => {
+			const { [key]: _evicted, ...accounts } = state.accounts;
+			return { ...state, accounts, lastUpdatedAt: now() };
+		});
+	}
+
+	/**
+	 * Cancels pending evictions and stops observing the store.
+	 */
+	function stop(): void {
+		unsubscribe();
+		for (const entry of retention.values()) {
+			clearTimeout(entry.timer);
+		}
+		retention.clear();
+	}
+
+	return Object.freeze({
+		cacheTime,
+		evict,
+		isFresh,
+		retain,
+		staleTime,
+		stop,
+	});
+}
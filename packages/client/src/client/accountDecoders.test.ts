@@ -0,0 +1,141 @@
+import {
+	type Address,
+	getBase64Decoder,
+	getStructDecoder,
+	getStructEncoder,
+	getU8Decoder,
+	getU8Encoder,
+	getU64Decoder,
+	getU64Encoder,
+	type ReadonlyUint8Array,
+} from '@solana/kit';
+import { AccountState, getMintEncoder, getTokenEncoder, TOKEN_PROGRAM_ADDRESS } from '@solana-program/token';
+import { describe, expect, it } from 'vitest';
+
+import {
+	createAccountDecoder,
+	createAccountDecoderRegistry,
+	decodeAccountInfo,
+	getAccountDataBytes,
+	STAKE_PROGRAM_ADDRESS,
+	TOKEN_2022_PROGRAM_ADDRESS,
+} from './accountDecoders';
+
+const MINT = 'So11111111111111111111111111111111111111112' as Address;
+const OWNER = '11111111111111111111111111111111' as Address;
+const PROGRAM = 'Counter111111111111111111111111111111111111' as Address;
+
+function encodeTokenAccount(amount: bigint): Uint8Array {
+	return new Uint8Array(
+		getTokenEncoder().encode({
+			amount,
+			closeAuthority: null,
+			delegate: null,
+			delegatedAmount: 0n,
+			isNative: null,
+			mint: MINT,
+			owner: OWNER,
+			state: AccountState.Initialized,
+		}),
+	);
+}
+
+function toBase64(bytes: ReadonlyUint8Array): [string, 'base64'] {
+	return [getBase64Decoder().decode(bytes), 'base64'];
+}
+
+describe('account decoders', () => {
+	it('decodes SPL token accounts from RPC account info', () => {
+		const registry = createAccountDecoderRegistry();
+		const decoded = decodeAccountInfo(registry, {
+			data: toBase64(encodeTokenAccount(42n)),
+			owner: TOKEN_PROGRAM_ADDRESS,
+		});
+
+		expect(decoded).toMatchObject({
+			data: { amount: 42n, mint: MINT },
+			programAddress: TOKEN_PROGRAM_ADDRESS,
+			type: 'token',
+		});
+	});
+
+	it('decodes the base state of Token-2022 accounts with extensions', () => {
+		const mint = new Uint8Array(
+			getMintEncoder().encode({
+				decimals: 6,
+				freezeAuthority: null,
+				isInitialized: true,
+				mintAuthority: OWNER,
+				supply: 1_000n,
+			}),
+		);
+		const extended = new Uint8Array(200);
+		extended.set(mint);
+		extended[165] = 1;
+		const registry = createAccountDecoderRegistry();
+
+		expect(registry.decode(TOKEN_2022_PROGRAM_ADDRESS, extended)).toMatchObject({
+			data: { decimals: 6, supply: 1_000n },
+			type: 'mint',
+		});
+		expect(registry.decode(TOKEN_PROGRAM_ADDRESS, extended)).toBeUndefined();
+	});
+
+	it('decodes delegated stake accounts', () => {
+		const data = new Uint8Array(200);
+		const view = new DataView(data.buffer);
+		view.setUint32(0, 2, true);
+		view.setBigUint64(4, 2_282_880n, true);
+		view.setBigUint64(124 + 32, 5_000_000_000n, true);
+		view.setFloat64(124 + 56, 0.25, true);
+		const registry = createAccountDecoderRegistry();
+
+		expect(registry.decode(STAKE_PROGRAM_ADDRESS, data)).toMatchObject({
+			data: {
+				meta: { rentExemptReserve: 2_282_880n },
+				stake: { delegation: { stake: 5_000_000_000n, warmupCooldownRate: 0.25 } },
+				state: 'delegated',
+			},
+			type: 'stake',
+		});
+	});
+
+	it('registers codec decoders matched by discriminator with precedence over earlier ones', () => {
+		const counter = createAccountDecoder({
+			decoder: getStructDecoder([
+				['discriminator', getU8Decoder()],
+				['count', getU64Decoder()],
+			]),
+			discriminator: new Uint8Array([7]),
+			programAddress: PROGRAM,
+			type: 'counter',
+		});
+		const registry = createAccountDecoderRegistry([counter]);
+		const bytes = new Uint8Array(
+			getStructEncoder([
+				['discriminator', getU8Encoder()],
+				['count', getU64Encoder()],
+			]).encode({ count: 3n, discriminator: 7 }),
+		);
+
+		expect(registry.decode(PROGRAM, bytes)).toEqual({
+			data: { count: 3n, discriminator: 7 },
+			programAddress: PROGRAM,
+			type: 'counter',
+		});
+		expect(registry.decode(PROGRAM, new Uint8Array(9))).toBeUndefined();
+
+		const unregister = registry.register({ decode: () => 'override', programAddress: PROGRAM, type: 'override' });
+		expect(registry.decode(PROGRAM, bytes)?.type).toBe('override');
+		unregister();
+		expect(registry.decode(PROGRAM, bytes)?.type).toBe('counter');
+	});
+
+	it('reads bytes from encoded tuples and account info objects', () => {
+		const bytes = new Uint8Array([1, 2, 3]);
+
+		expect(getAccountDataBytes(toBase64(bytes))).toEqual(bytes);
+		expect(getAccountDataBytes({ data: toBase64(bytes), lamports: 1n })).toEqual(bytes);
+		expect(getAccountDataBytes({ parsed: true })).toBeUndefined();
+	});
+});
@@ -0,0 +1,310 @@
+import {
+	type Address,
+	address,
+	type Decoder,
+	getAddressDecoder,
+	getBase58Encoder,
+	getBase64Encoder,
+	getF64Decoder,
+	getI64Decoder,
+	getStructDecoder,
+	getU8Decoder,
+	getU32Decoder,
+	getU64Decoder,
+	isFixedSize,
+	type ReadonlyUint8Array,
+} from '@solana/kit';
+import { getNonceDecoder, getNonceSize, SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import {
+	getMintDecoder,
+	getMintSize,
+	getMultisigDecoder,
+	getMultisigSize,
+	getTokenDecoder,
+	getTokenSize,
+	TOKEN_PROGRAM_ADDRESS,
+} from '@solana-program/token';
+
+import type { AccountDecoder, AccountDecoderRegistry, DecodedAccountData } from '../types';
+
+export const STAKE_PROGRAM_ADDRESS = address('Stake11111111111111111111111111111111111111');
+export const TOKEN_2022_PROGRAM_ADDRESS = address('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+
+export type CodecAccountDecoderConfig<TData> = Readonly<{
+	/** Codec decoder for the account layout, e.g. `getCounterDecoder()` from a Codama-generated client. */
+	decoder: Decoder<TData>;
+	/** Leading bytes that identify the account type (Anchor/Codama discriminators). */
+	discriminator?: ReadonlyUint8Array;
+	programAddress: Address;
+	/** Exact account size. Defaults to the decoder's fixed size, if any. */
+	size?: number;
+	type: string;
+}>;
+
+export type StakeMeta = Readonly<{
+	authorized: Readonly<{ staker: Address; withdrawer: Address }>;
+	lockup: Readonly<{ custodian: Address; epoch: bigint; unixTimestamp: bigint }>;
+	rentExemptReserve: bigint;
+}>;
+
+export type StakeDelegation = Readonly<{
+	delegation: Readonly<{
+		activationEpoch: bigint;
+		deactivationEpoch: bigint;
+		stake: bigint;
+		voter: Address;
+		warmupCooldownRate: number;
+	}>;
+	creditsObserved: bigint;
+}>;
+
+export type StakeAccount =
+	| Readonly<{ state: 'initialized'; meta: StakeMeta }>
+	| Readonly<{ flags: number; meta: StakeMeta; stake: StakeDelegation; state: 'delegated' }>
+	| Readonly<{ state: 'rewardsPool' }>
+	| Readonly<{ state: 'uninitialized' }>;
+
+// Token-2022 pads extended accounts past the base account size and stores the account type right after it.
+const TOKEN_2022_ACCOUNT_TYPE_OFFSET = getTokenSize();
+const TOKEN_2022_ACCOUNT_TYPE_MINT = 1;
+const TOKEN_2022_ACCOUNT_TYPE_ACCOUNT = 2;
+
+const stakeMetaDecoder: Decoder<StakeMeta> = getStructDecoder([
+	['rentExemptReserve', getU64Decoder()],
+	[
+		'authorized',
+		getStructDecoder([
+			['staker', getAddressDecoder()],
+			['withdrawer', getAddressDecoder()],
+		]),
+	],
+	[
+		'lockup',
+		getStructDecoder([
+			['unixTimestamp', getI64Decoder()],
+			['epoch', getU64Decoder()],
+			['custodian', getAddressDecoder()],
+		]),
+	],
+]);
+
+const stakeDelegationDecoder: Decoder<StakeDelegation> = getStructDecoder([
+	[
+		'delegation',
+		getStructDecoder([
+			['voter', getAddressDecoder()],
+			['stake', getU64Decoder()],
+			['activationEpoch', getU64Decoder()],
+			['deactivationEpoch', getU64Decoder()],
+			['warmupCooldownRate', getF64Decoder()],
+		]),
+	],
+	['creditsObserved', getU64Decoder()],
+]);
+
+/**
+ * Decodes a stake account (`StakeStateV2`) from its bincode layout.
+ *
+ * @param data - Raw stake account bytes.
+ * @returns Decoded stake state.
+ */
+export function decodeStakeAccount(data: ReadonlyUint8Array): StakeAccount {
+	const [tag, metaOffset] = getU32Decoder().read(data, 0);
+	switch (tag) {
+		case 0:
+			return { state: 'uninitialized' };
+		case 1:
+			return { meta: stakeMetaDecoder.read(data, metaOffset)[0], state: 'initialized' };
+		case 2: {
+			const [meta, stakeOffset] = stakeMetaDecoder.read(data, metaOffset);
+			const [stake, flagsOffset] = stakeDelegationDecoder.read(data, stakeOffset);
+			const flags = data.length > flagsOffset ? getU8Decoder().read(data, flagsOffset)[0] : 0;
+			return { flags, meta, stake, state: 'delegated' };
+		}
+		case 3:
+			return { state: 'rewardsPool' };
+		default:
+			throw new Error(`Unknown stake account state ${tag}.`);
+	}
+}
+
+/**
+ * Wraps a codec decoder, such as the account decoders generated by Codama, as an {@link AccountDecoder}.
+ *
+ * @param config - Decoder, owning program and the data used to recognise the account type.
+ * @returns Account decoder that can be registered with the client.
+ */
+export function createAccountDecoder<TData>({
+	decoder,
+	discriminator,
+	programAddress,
+	size = isFixedSize(decoder) ? decoder.fixedSize : undefined,
+	type,
+}: CodecAccountDecoderConfig<TData>): AccountDecoder<TData> {
+	return Object.freeze({
+		decode: (data: Uint8Array) => decoder.decode(data),
+		matches(data: Uint8Array) {
+			if (size !== undefined && data.length !== size) {
+				return false;
+			}
+			return !discriminator || discriminator.every((byte, index) => data[index] === byte);
+		},
+		programAddress,
+		type,
+	});
+}
+
+/**
+ * Builds the decoders for the base mint/account/multisig layouts shared by SPL Token and Token-2022.
+ *
+ * Token-2022 accounts with extensions are longer than the base layout; only the base state is decoded here.
+ *
+ * @param programAddress - Token program that owns the accounts.
+ * @param extended - Whether accounts may carry Token-2022 extensions.
+ * @returns Decoders for mints, token accounts and multisigs.
+ */
+function createTokenAccountDecoders(programAddress: Address, extended: boolean): readonly AccountDecoder[] {
+	const isExtended = (data: Uint8Array, accountType: number) =>
+		extended &&
+		data.length > TOKEN_2022_ACCOUNT_TYPE_OFFSET &&
+		data.length !== getMultisigSize() &&
+		data[TOKEN_2022_ACCOUNT_TYPE_OFFSET] === accountType;
+	return [
+		{
+			decode: (data) => getMultisigDecoder().decode(data),
+			matches: (data) => data.length === getMultisigSize(),
+			programAddress,
+			type: 'multisig',
+		},
+		{
+			decode: (data) => getMintDecoder().decode(data.subarray(0, getMintSize())),
+			matches: (data) => data.length === getMintSize() || isExtended(data, TOKEN_2022_ACCOUNT_TYPE_MINT),
+			programAddress,
+			type: 'mint',
+		},
+		{
+			decode: (data) => getTokenDecoder().decode(data.subarray(0, getTokenSize())),
+			matches: (data) => data.length === getTokenSize() || isExtended(data, TOKEN_2022_ACCOUNT_TYPE_ACCOUNT),
+			programAddress,
+			type: 'token',
+		},
+	];
+}
+
+const builtinAccountDecoders: readonly AccountDecoder[] = [
+	{
+		decode: (data) => getNonceDecoder().decode(data),
+		matches: (data) => data.length === getNonceSize(),
+		programAddress: SYSTEM_PROGRAM_ADDRESS,
+		type: 'nonce',
+	},
+	...createTokenAccountDecoders(TOKEN_PROGRAM_ADDRESS, false),
+	...createTokenAccountDecoders(TOKEN_2022_PROGRAM_ADDRESS, true),
+	{
+		decode: decodeStakeAccount,
+		programAddress: STAKE_PROGRAM_ADDRESS,
+		type: 'stake',
+	},
+];
+
+/**
+ * Extracts raw bytes from cached account data.
+ *
+ * Accepts encoded `[data, encoding]` tuples as returned by the RPC, raw bytes, or a full account info object.
+ *
+ * @param data - Cached account data.
+ * @returns Account bytes, or `undefined` when the data is not in a supported encoding.
+ */
+export function getAccountDataBytes(data: unknown): Uint8Array | undefined {
+	if (data instanceof Uint8Array) {
+		return data;
+	}
+	if (Array.isArray(data) && typeof data[0] === 'string') {
+		if (data[1] === 'base64') {
+			return new Uint8Array(getBase64Encoder().encode(data[0]));
+		}
+		if (data[1] === 'base58') {
+			return new Uint8Array(getBase58Encoder().encode(data[0]));
+		}
+		return undefined;
+	}
+	if (data && typeof data === 'object' && 'data' in data) {
+		return getAccountDataBytes(data.data);
+	}
+	return undefined;
+}
+
+/**
+ * Decodes an RPC account info object with the registry.
+ *
+ * @param registry - Registry used to look up a decoder for the owner program.
+ * @param account - Account info returned by the RPC, or `null` for missing accounts.
+ * @returns Decoded data, or `undefined` when no decoder understands the account.
+ */
+export function decodeAccountInfo(
+	registry: AccountDecoderRegistry,
+	account: Readonly<{ data: unknown; owner: Address }> | null | undefined,
+): DecodedAccountData | undefined {
+	if (!account) {
+		return undefined;
+	}
+	const bytes = getAccountDataBytes(account.data);
+	return bytes ? registry.decode(account.owner, bytes) : undefined;
+}
+
+/**
+ * Creates the registry that maps owner programs to account decoders.
+ *
+ * System nonce, SPL Token, Token-2022 and stake accounts are decoded out of the box. Decoders passed in or
+ * registered later take precedence over earlier ones for the same program.
+ *
+ * @param decoders - Additional decoders to register on top of the built-in ones.
+ * @returns Account decoder registry.
+ */
+export function createAccountDecoderRegistry(decoders: readonly AccountDecoder[] = []): AccountDecoderRegistry {
+	const entries: AccountDecoder[] = [...builtinAccountDecoders, ...decoders];
+
+	/**
+	 * Adds a decoder with the highest precedence.
+	 *
+	 * @param decoder - Decoder to register.
+	 * @returns Function that removes the decoder again.
+	 */
+	function register(decoder: AccountDecoder): () => void {
+		entries.push(decoder);
+		return () => {
+			const index = entries.lastIndexOf(decoder);
+			if (index !== -1) {
+				entries.splice(index, 1);
+			}
+		};
+	}
+
+	/**
+	 * Decodes account bytes with the most recently registered decoder that accepts them.
+	 *
+	 * @param owner - Program that owns the account.
+	 * @param data - Raw account bytes.
+	 * @returns Decoded data, or `undefined` when no decoder succeeds.
+	 */
+	function decode(owner: Address, data: Uint8Array): DecodedAccountData | undefined {
+		for (let index = entries.length - 1; index >= 0; index--) {
+			const decoder = entries[index];
+			if (decoder.programAddress !== owner || (decoder.matches && !decoder.matches(data))) {
+				continue;
+			}
+			try {
+				return { data: decoder.decode(data), programAddress: owner, type: decoder.type };
+			} catch {
+				// Fall through to decoders registered earlier.
+			}
+		}
+		return undefined;
+	}
+
+	return Object.freeze({
+		decode,
+		list: () => [...entries],
+		register,
+	});
+}
@@ -2,7 +2,8 @@ import type { Address, Lamports, SendableTransaction, Signature, Transaction } f
 import type { TransactionWithLastValidBlockHeight } from '@solana/transaction-confirmation';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
-import type { ClientActions, SolanaClientRuntime, WalletConnector, WalletRegistry } from '../types';
+import { TransactionFailedError } from '../transactions/programErrors';
+import type { ClientActions, SolanaClientRuntime, WalletConnector, WalletRegistry, WalletSession } from '../types';
 import { createActions } from './actions';
 import { createDefaultClientStore } from './createClientStore';
 
@@ -22,6 +23,9 @@ const createSolanaRpcClientMock = vi.hoisted(() =>
 	vi.fn(() => ({
 		commitment: 'confirmed',
 		endpoint: 'https://rpc.test',
+		getActiveEndpoint: () => 'https://rpc.test',
+		getEndpointHealth: () => [],
+		onActiveEndpointChange: () => () => undefined,
 		rpc: {} as SolanaClientRuntime['rpc'],
 		rpcSubscriptions: {} as SolanaClientRuntime['rpcSubscriptions'],
 		sendAndConfirmTransaction: vi.fn(),
@@ -30,7 +34,8 @@ const createSolanaRpcClientMock = vi.hoisted(() =>
 	})),
 );
 
-vi.mock('@solana/kit', () => ({
+vi.mock('@solana/kit', async (importOriginal) => ({
+	...(await importOriginal<typeof import('@solana/kit')>()),
 	getBase64EncodedWireTransaction: getBase64EncodedWireTransactionMock,
 	airdropFactory: airdropFactoryMock,
 }));
@@ -86,13 +91,10 @@ describe('client actions', () => {
 				send: vi.fn().mockResolvedValue({ value: { blockhash: 'abc', lastValidBlockHeight: 1n } }),
 			})),
 			requestAirdrop: vi.fn(),
-			getBalance: vi.fn(() => ({
-				send: vi.fn().mockResolvedValue({ value: 123n, context: { slot: 1n } }),
-			})),
-			getAccountInfo: vi.fn(() => ({
+			getMultipleAccounts: vi.fn((addresses: string[]) => ({
 				send: vi.fn().mockResolvedValue({
-					value: { lamports: 55n, data: { parsed: true } },
-					context: { slot: 2n },
+					value: addresses.map(() => ({ lamports: 123n, data: { parsed: true } })),
+					context: { slot: 1n },
 				}),
 			})),
 			sendTransaction: vi.fn(() => ({
@@ -112,6 +114,9 @@ describe('client actions', () => {
 		createSolanaRpcClientMock.mockImplementation(({ commitment, endpoint, websocketEndpoint }) => ({
 			commitment: commitment ?? 'confirmed',
 			endpoint,
+			getActiveEndpoint: () => endpoint,
+			getEndpointHealth: () => [],
+			onActiveEndpointChange: () => () => undefined,
 			rpc: { endpoint } as SolanaClientRuntime['rpc'],
 			rpcSubscriptions: { endpoint: websocketEndpoint ?? endpoint } as SolanaClientRuntime['rpcSubscriptions'],
 			sendAndConfirmTransaction: vi.fn(),
@@ -138,6 +143,8 @@ describe('client actions', () => {
 		registry = {
 			all: [walletConnector],
 			get: (id: string) => (id === walletConnector.id ? walletConnector : undefined),
+			register: vi.fn(() => () => undefined),
+			subscribe: vi.fn(() => () => undefined),
 		};
 
 		actions = createActions({ connectors: registry, logger: createLoggerMock(), runtime, store });
@@ -160,6 +167,34 @@ describe('client actions', () => {
 		});
 	});
 
+	it('tracks the endpoint serving requests after a failover', async () => {
+		let notify: (endpoint: string) => void = () => undefined;
+		createSolanaRpcClientMock.mockImplementationOnce(({ endpoint }) => ({
+			commitment: 'confirmed',
+			endpoint,
+			getActiveEndpoint: () => endpoint,
+			getEndpointHealth: () => [],
+			onActiveEndpointChange: (listener: (endpoint: string) => void) => {
+				notify = listener;
+				return () => undefined;
+			},
+			rpc: runtime.rpc,
+			rpcSubscriptions: runtime.rpcSubscriptions,
+			sendAndConfirmTransaction: vi.fn(),
+			simulateTransaction: vi.fn(),
+			websocketEndpoint: endpoint,
+		}));
+
+		await actions.setCluster('https://primary.rpc', { endpoints: ['https://backup.rpc'] });
+		expect(createSolanaRpcClientMock).toHaveBeenCalledWith(
+			expect.objectContaining({ endpoint: 'https://primary.rpc', endpoints: ['https://backup.rpc'] }),
+		);
+		expect(store.getState().cluster.activeEndpoint).toBe('https://primary.rpc');
+
+		notify('https://backup.rpc');
+		expect(store.getState().cluster.activeEndpoint).toBe('https://backup.rpc');
+	});
+
 	it('connects and disconnects a wallet, handling errors', async () => {
 		await actions.connectWallet('wallet-1');
 		let state = store.getState();
@@ -187,6 +222,80 @@ describe('client actions', () => {
 		await expect(actions.connectWallet('unsupported')).rejects.toThrow(/not supported/);
 	});
 
+	it('reports silent connections as restoring and falls back quietly on failure', async () => {
+		const session = await walletConnector.connect();
+		let resolveSession: (value: typeof session) => void = () => undefined;
+		vi.mocked(walletConnector.connect).mockImplementationOnce(
+			() =>
+				new Promise((resolve) => {
+					resolveSession = resolve;
+				}),
+		);
+		const pending = actions.connectWallet('wallet-1', { autoConnect: true });
+		expect(store.getState().wallet).toEqual({ connectorId: 'wallet-1', status: 'restoring' });
+		resolveSession(session);
+		await pending;
+		expect(store.getState().wallet.status).toBe('connected');
+		await actions.disconnectWallet();
+
+		vi.mocked(walletConnector.connect).mockRejectedValueOnce(new Error('not authorized'));
+		await expect(actions.connectWallet('wallet-1', { autoConnect: true })).rejects.toThrow('not authorized');
+		expect(store.getState().wallet).toEqual({ lastConnectorId: 'wallet-1', status: 'disconnected' });
+	});
+
+	it('disconnects sessions of superseded restores that resolve late', async () => {
+		const session = await walletConnector.connect();
+		let resolveSession: (value: typeof session) => void = () => undefined;
+		vi.mocked(walletConnector.connect).mockImplementationOnce(
+			() =>
+				new Promise((resolve) => {
+					resolveSession = resolve;
+				}),
+		);
+		const pending = actions.connectWallet('wallet-1', { autoConnect: true });
+		// The restore times out before the wallet answers.
+		store.setState((state) => ({ ...state, wallet: { lastConnectorId: 'wallet-1', status: 'disconnected' } }));
+		resolveSession(session);
+		await pending;
+
+		expect(session.disconnect).toHaveBeenCalledTimes(1);
+		expect(store.getState().wallet).toEqual({ lastConnectorId: 'wallet-1', status: 'disconnected' });
+	});
+
+	it('switches accounts and follows wallet account changes', async () => {
+		const second = { address: 'second' as Address, publicKey: new Uint8Array(32) };
+		const first = { address: ACCOUNT_ADDRESS, publicKey: new Uint8Array(32) };
+		let notify: (accounts: readonly (typeof first)[]) => void = () => undefined;
+		const unsubscribe = vi.fn();
+		const buildSession = (active: typeof first, accounts: readonly (typeof first)[]): WalletSession => ({
+			account: active,
+			accounts,
+			connector: { id: 'wallet-1', name: 'Wallet 1' },
+			disconnect: vi.fn(async () => undefined),
+			onAccountsChanged: (listener) => {
+				notify = listener;
+				return unsubscribe;
+			},
+			selectAccount: (address) => buildSession(address === second.address ? second : first, accounts),
+		});
+		vi.mocked(walletConnector.connect).mockResolvedValueOnce(buildSession(first, [first, second]));
+
+		expect(() => actions.selectWalletAccount(second.address)).toThrow(/Connect a wallet/);
+		await actions.connectWallet('wallet-1');
+		actions.selectWalletAccount(second.address);
+		let wallet = store.getState().wallet;
+		expect(wallet.status === 'connected' && wallet.session.account.address).toBe(second.address);
+		expect(() => actions.selectWalletAccount('unknown' as Address)).toThrow(/has not authorized/);
+
+		notify([first]);
+		wallet = store.getState().wallet;
+		expect(wallet.status === 'connected' && wallet.session.account.address).toBe(first.address);
+
+		notify([]);
+		expect(store.getState().wallet).toEqual({ status: 'disconnected' });
+		expect(unsubscribe).toHaveBeenCalled();
+	});
+
 	it('fetches balances and accounts, capturing failures', async () => {
 		await actions.fetchBalance(ACCOUNT_ADDRESS);
 		let cached = store.getState().accounts.addr;
@@ -194,13 +303,33 @@ describe('client actions', () => {
 
 		await actions.fetchAccount(ACCOUNT_ADDRESS);
 		cached = store.getState().accounts.addr;
-		expect(cached.data).toMatchObject({ lamports: 55n });
+		expect(cached.data).toMatchObject({ lamports: 123n });
 
 		const failingRpc = {
-			getBalance: vi.fn(() => ({ send: vi.fn().mockRejectedValue(new Error('fail')) })),
+			getMultipleAccounts: vi.fn(() => ({ send: vi.fn().mockRejectedValue(new Error('fail')) })),
 		} as unknown as SolanaClientRuntime['rpc'];
 		runtime.rpc = failingRpc;
 		await expect(actions.fetchBalance(ACCOUNT_ADDRESS)).rejects.toThrow('fail');
+		expect(store.getState().accounts.addr.error).toBeInstanceOf(Error);
+	});
+
+	it('coalesces concurrent reads into a single getMultipleAccounts call', async () => {
+		const other = 'other' as Address;
+		const [balance, account, duplicate] = await Promise.all([
+			actions.fetchBalance(ACCOUNT_ADDRESS),
+			actions.fetchAccount(other),
+			actions.fetchBalance(ACCOUNT_ADDRESS),
+		]);
+
+		expect(runtime.rpc.getMultipleAccounts).toHaveBeenCalledTimes(1);
+		expect(runtime.rpc.getMultipleAccounts).toHaveBeenCalledWith([ACCOUNT_ADDRESS, other], {
+			commitment: 'confirmed',
+			encoding: 'base64',
+		});
+		expect(balance).toBe(123n);
+		expect(duplicate).toBe(123n);
+		expect(account.lamports).toBe(123n);
+		expect(store.getState().accounts.other.fetching).toBe(false);
 	});
 
 	it('sends a transaction and tracks confirmation status', async () => {
@@ -217,6 +346,57 @@ describe('client actions', () => {
 		await expect(actions.sendTransaction(transaction, 'processed')).rejects.toThrow('confirmation failed');
 		const errored = store.getState().transactions[SIGNATURE.toString()];
 		expect(errored.status).toBe('failed');
+
+		actions.clearTransactions();
+		expect(store.getState().transactions).toEqual({});
+	});
+
+	it('throws a decoded failure when the transaction failed on-chain', async () => {
+		const transaction = {
+			lastValidBlockHeight: 1n,
+		} as unknown as SendableTransaction & Transaction & TransactionWithLastValidBlockHeight;
+		const cause = new Error('confirmation failed');
+		Object.assign(runtime.rpc, {
+			getSignatureStatuses: vi.fn(() => ({
+				send: vi.fn().mockResolvedValue({ value: [{ err: { InstructionError: [0, 'InvalidAccountData'] } }] }),
+			})),
+		});
+		waitForRecentTransactionConfirmationMock.mockRejectedValueOnce(cause);
+
+		const error = await actions.sendTransaction(transaction, 'processed').catch((reason: unknown) => reason);
+
+		expect(error).toBeInstanceOf(TransactionFailedError);
+		expect(error).toMatchObject({
+			cause,
+			message: 'Instruction 0 failed: InvalidAccountData: Invalid account data',
+		});
+		expect(store.getState().transactions[SIGNATURE.toString()].programError).toMatchObject({
+			instructionIndex: 0,
+			name: 'InvalidAccountData',
+		});
+	});
+
+	it('rebroadcasts signed transactions and records each attempt', async () => {
+		const transaction = {
+			lifetimeConstraint: { lastValidBlockHeight: 10n },
+			signatures: { payer: new Uint8Array(64).fill(1) },
+		} as unknown as SendableTransaction & Transaction & TransactionWithLastValidBlockHeight;
+		const statuses = [null, { confirmationStatus: 'confirmed', err: null }];
+		Object.assign(runtime.rpc, {
+			getBlockHeight: vi.fn(() => ({ send: vi.fn().mockResolvedValue(5n) })),
+			getSignatureStatuses: vi.fn(() => ({ send: vi.fn(async () => ({ value: [statuses.shift()] })) })),
+		});
+
+		const signature = await actions.sendTransaction(transaction, 'confirmed', { rebroadcast: { intervalMs: 1 } });
+
+		expect(waitForRecentTransactionConfirmationMock).not.toHaveBeenCalled();
+		expect(runtime.rpc.sendTransaction).toHaveBeenCalledTimes(2);
+		const record = store.getState().transactions[signature.toString()];
+		expect(record.status).toBe('confirmed');
+		expect(record.attempts?.map((attempt) => [attempt.attempt, attempt.signature])).toEqual([
+			[1, signature],
+			[2, signature],
+		]);
 	});
 
 	it('requests an airdrop through the runtime factory', async () => {
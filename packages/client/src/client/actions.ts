@@ -7,7 +7,7 @@ import type {
 	Signature,
 	Transaction,
 } from '@solana/kit';
-import { airdropFactory, getBase64EncodedWireTransaction } from '@solana/kit';
+import { airdropFactory, getBase64EncodedWireTransaction, getSignatureFromTransaction } from '@solana/kit';
 import type { TransactionWithLastValidBlockHeight } from '@solana/transaction-confirmation';
 import {
 	createBlockHeightExceedencePromiseFactory,
@@ -16,17 +16,35 @@ import {
 } from '@solana/transaction-confirmation';
 
 import { createLogger, formatError } from '../logging/logger';
+import { type AccountBatchingConfig, createAccountBatcher } from '../rpc/accountBatcher';
 import { createSolanaRpcClient } from '../rpc/createSolanaRpcClient';
-import type { ClientActions, ClientState, ClientStore, SolanaClientRuntime, WalletRegistry } from '../types';
+import { describeTransactionProgramError, TransactionFailedError } from '../transactions/programErrors';
+import { sendWithRebroadcast } from '../transactions/rebroadcast';
+import type {
+	AccountDecoderRegistry,
+	ClientActions,
+	ClientState,
+	ClientStore,
+	SendTransactionOptions,
+	SetClusterConfig,
+	SolanaClientRuntime,
+	WalletRegistry,
+	WalletSession,
+} from '../types';
 import { now } from '../utils';
+import { createAccountDecoderRegistry, decodeAccountInfo } from './accountDecoders';
+import { createTransactionRecorder, type TransactionRecorder } from './transactionRecords';
 
 type MutableRuntime = SolanaClientRuntime;
 
 type ActionDeps = Readonly<{
+	accountBatching?: AccountBatchingConfig;
+	accountDecoders?: AccountDecoderRegistry;
 	connectors: WalletRegistry;
 	logger?: ReturnType<typeof createLogger>;
 	runtime: MutableRuntime;
 	store: ClientStore;
+	transactionRecorder?: TransactionRecorder;
 }>;
 
 /**
@@ -50,8 +68,20 @@ function updateState(store: ClientStore, update: Partial<ClientState>): void {
  * @param deps - Dependencies required to build the action set.
  * @returns An immutable collection implementing {@link ClientActions}.
  */
-export function createActions({ connectors, logger: inputLogger, runtime, store }: ActionDeps): ClientActions {
+export function createActions({
+	accountBatching,
+	accountDecoders = createAccountDecoderRegistry(),
+	connectors,
+	logger: inputLogger,
+	runtime,
+	store,
+	transactionRecorder: inputTransactionRecorder,
+}: ActionDeps): ClientActions {
 	const logger = inputLogger ?? createLogger();
+	const transactionRecorder = inputTransactionRecorder ?? createTransactionRecorder({ logger, runtime, store });
+	const accountBatcher = createAccountBatcher(runtime, accountBatching);
+	let stopAccountsWatch: (() => void) | undefined;
+	let stopEndpointWatch: (() => void) | undefined;
 
 	/**
 	 * Returns the commitment to use for a request, falling back to the store default.
@@ -89,15 +119,14 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 	 * Reconfigures the client to target the specified cluster.
 	 *
 	 * @param endpoint - Base RPC endpoint URL.
-	 * @param config - Optional commitment and websocket overrides.
+	 * @param config - Optional commitment, websocket and failover overrides.
 	 * @returns Promise that resolves once the cluster has been reconfigured.
 	 */
-	async function setCluster(
-		endpoint: ClusterUrl,
-		config?: Readonly<{ commitment?: Commitment; websocketEndpoint?: ClusterUrl }>,
-	): Promise<void> {
+	async function setCluster(endpoint: ClusterUrl, config?: SetClusterConfig): Promise<void> {
 		const nextCommitment = config?.commitment ?? store.getState().cluster.commitment;
 		const websocketEndpoint = config?.websocketEndpoint ?? endpoint;
+		stopEndpointWatch?.();
+		stopEndpointWatch = undefined;
 		store.setState((state) => ({
 			...state,
 			cluster: {
@@ -112,14 +141,32 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 			const newRpcClient = createSolanaRpcClient({
 				commitment: nextCommitment,
 				endpoint,
+				endpoints: config?.endpoints,
+				failover: config?.failover,
 				websocketEndpoint,
 			});
 			runtime.rpc = newRpcClient.rpc;
 			runtime.rpcSubscriptions = newRpcClient.rpcSubscriptions;
+			stopEndpointWatch = newRpcClient.onActiveEndpointChange((activeEndpoint) => {
+				if (store.getState().cluster.endpoint !== endpoint) {
+					return;
+				}
+				store.setState((state) => ({
+					...state,
+					cluster: { ...state.cluster, activeEndpoint },
+					lastUpdatedAt: now(),
+				}));
+				logger({
+					data: { activeEndpoint, endpoint },
+					level: 'warn',
+					message: 'rpc endpoint switched',
+				});
+			});
 			const latencyMs = await warmupCluster(endpoint, nextCommitment);
 			store.setState((state) => ({
 				...state,
 				cluster: {
+					activeEndpoint: newRpcClient.getActiveEndpoint(),
 					commitment: nextCommitment,
 					endpoint,
 					status: { latencyMs, status: 'ready' },
@@ -128,7 +175,7 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 				lastUpdatedAt: now(),
 			}));
 			logger({
-				data: { endpoint, latencyMs, websocketEndpoint },
+				data: { activeEndpoint: newRpcClient.getActiveEndpoint(), endpoint, latencyMs, websocketEndpoint },
 				level: 'info',
 				message: 'cluster ready',
 			});
@@ -152,10 +199,48 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 		}
 	}
 
+	/**
+	 * Keeps the connected session in sync with the wallet's authorized accounts.
+	 *
+	 * @param connectorId - Connector that owns the session.
+	 * @param session - Freshly connected wallet session.
+	 */
+	function watchSessionAccounts(connectorId: string, session: WalletSession): void {
+		stopAccountsWatch?.();
+		stopAccountsWatch = session.onAccountsChanged?.((accounts) => {
+			const current = store.getState().wallet;
+			if (current.status !== 'connected' || current.connectorId !== connectorId) {
+				return;
+			}
+			const active =
+				accounts.find((account) => account.address === current.session.account.address) ?? accounts[0];
+			if (!active) {
+				stopAccountsWatch?.();
+				stopAccountsWatch = undefined;
+				updateState(store, { wallet: { status: 'disconnected' } });
+				logger({ data: { connectorId }, level: 'info', message: 'wallet accounts revoked' });
+				return;
+			}
+			const nextSession = current.session.selectAccount
+				? current.session.selectAccount(active.address)
+				: { ...current.session, accounts };
+			updateState(store, { wallet: { connectorId, session: nextSession, status: 'connected' } });
+			logger({
+				data: { address: active.address.toString(), connectorId, count: accounts.length },
+				level: 'debug',
+				message: 'wallet accounts changed',
+			});
+		});
+	}
+
 	/**
 	 * Initiates a wallet connection using a registered connector.
 	 *
+	 * Silent (`autoConnect`) attempts are reported as `restoring` and fall back to `disconnected` on failure so a
+	 * declined restore never surfaces as a user-facing error.
+	 *
 	 * @param connectorId - Identifier for the desired wallet connector.
+	 * @param options - Optional flags forwarded to the connector.
 	 * @returns Promise that resolves once the connection attempt has completed.
 	 */
 	async function connectWallet(
@@ -169,24 +254,56 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 		if (!connector.isSupported()) {
 			throw new Error(`Wallet connector "${connectorId}" is not supported in this environment.`);
 		}
+		const restoring = Boolean(options.autoConnect);
 		store.setState((state) => ({
 			...state,
 			lastUpdatedAt: now(),
-			wallet: { connectorId, status: 'connecting' },
+			wallet: { connectorId, status: restoring ? 'restoring' : 'connecting' },
 		}));
 		try {
 			const session = await connector.connect(options);
+			const current = store.getState().wallet;
+			if (restoring && (current.status !== 'restoring' || current.connectorId !== connectorId)) {
+				// The restore was superseded (timed out, cancelled, disconnected or replaced by a user-initiated
+				// connect). Close the late session unless the same wallet is in use again, which it would disconnect too.
+				const inUse =
+					(current.status === 'connected' || current.status === 'connecting') &&
+					current.connectorId === connectorId;
+				if (!inUse) {
+					await session.disconnect().catch((error: unknown) => {
+						logger({
+							data: { connectorId, ...formatError(error) },
+							level: 'debug',
+							message: 'superseded wallet session disconnect failed',
+						});
+					});
+				}
+				return;
+			}
 			store.setState((state) => ({
 				...state,
 				lastUpdatedAt: now(),
 				wallet: { connectorId, session, status: 'connected' },
 			}));
+			watchSessionAccounts(connectorId, session);
 			logger({
 				data: { address: session.account.address.toString(), connectorId },
 				level: 'info',
-				message: 'wallet connected',
+				message: restoring ? 'wallet restored' : 'wallet connected',
 			});
 		} catch (error) {
+			if (restoring) {
+				const current = store.getState().wallet;
+				if (current.status === 'restoring' && current.connectorId === connectorId) {
+					updateState(store, { wallet: { lastConnectorId: connectorId, status: 'disconnected' } });
+				}
+				logger({
+					data: { connectorId, ...formatError(error) },
+					level: 'warn',
+					message: 'wallet restore failed',
+				});
+				throw error;
+			}
 			store.setState((state) => ({
 				...state,
 				lastUpdatedAt: now(),
@@ -211,6 +328,8 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 		if (wallet.status === 'disconnected') {
 			return;
 		}
+		stopAccountsWatch?.();
+		stopAccountsWatch = undefined;
 		try {
 			if (wallet.status === 'connected') {
 				await wallet.session.disconnect();
@@ -218,7 +337,7 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 				if (connector) {
 					await connector.disconnect();
 				}
-			} else if (wallet.status === 'connecting') {
+			} else if (wallet.status === 'connecting' || wallet.status === 'restoring') {
 				const connector = connectors.get(wallet.connectorId);
 				if (connector) {
 					await connector.disconnect();
@@ -245,32 +364,34 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 				[key]: {
 					address,
 					data: state.accounts[key]?.data,
+					decoded: state.accounts[key]?.decoded,
 					error: undefined,
 					fetching: true,
 					lamports: state.accounts[key]?.lamports ?? null,
 					lastFetchedAt: now(),
+					owner: state.accounts[key]?.owner,
 					slot: state.accounts[key]?.slot ?? null,
 				},
 			},
 			lastUpdatedAt: now(),
 		}));
 		try {
-			const response = await runtime.rpc
-				.getBalance(address, { commitment: getCommitment(commitment) })
-				.send({ abortSignal: AbortSignal.timeout(10_000) });
-			const lamports = response.value;
+			const { slot, value } = await accountBatcher.load(address, getCommitment(commitment));
+			const lamports = value?.lamports ?? (0n as Lamports);
 			store.setState((state) => ({
 				...state,
 				accounts: {
 					...state.accounts,
 					[key]: {
 						address,
-						data: state.accounts[key]?.data,
+						data: value,
+						decoded: decodeAccountInfo(accountDecoders, value),
 						error: undefined,
 						fetching: false,
 						lamports,
 						lastFetchedAt: now(),
-						slot: response.context.slot,
+						owner: value?.owner,
+						slot,
 					},
 				},
 				lastUpdatedAt: now(),
@@ -284,10 +405,12 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 					[key]: {
 						address,
 						data: state.accounts[key]?.data,
+						decoded: state.accounts[key]?.decoded,
 						error,
 						fetching: false,
 						lamports: state.accounts[key]?.lamports ?? null,
 						lastFetchedAt: now(),
+						owner: state.accounts[key]?.owner,
 						slot: state.accounts[key]?.slot ?? null,
 					},
 				},
@@ -318,20 +441,19 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 				[key]: {
 					address,
 					data: state.accounts[key]?.data,
+					decoded: state.accounts[key]?.decoded,
 					error: undefined,
 					fetching: true,
 					lamports: state.accounts[key]?.lamports ?? null,
 					lastFetchedAt: now(),
+					owner: state.accounts[key]?.owner,
 					slot: state.accounts[key]?.slot ?? null,
 				},
 			},
 			lastUpdatedAt: now(),
 		}));
 		try {
-			const response = await runtime.rpc
-				.getAccountInfo(address, { commitment: getCommitment(commitment), encoding: 'base64' })
-				.send({ abortSignal: AbortSignal.timeout(10_000) });
-			const value = response.value;
+			const { slot, value } = await accountBatcher.load(address, getCommitment(commitment));
 			const lamports = value?.lamports ?? null;
 			store.setState((state) => ({
 				...state,
@@ -340,11 +462,13 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 					[key]: {
 						address,
 						data: value,
+						decoded: decodeAccountInfo(accountDecoders, value),
 						error: undefined,
 						fetching: false,
 						lamports,
 						lastFetchedAt: now(),
-						slot: response.context.slot,
+						owner: value?.owner,
+						slot,
 					},
 				},
 				lastUpdatedAt: now(),
@@ -358,10 +482,12 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 					[key]: {
 						address,
 						data: state.accounts[key]?.data,
+						decoded: state.accounts[key]?.decoded,
 						error,
 						fetching: false,
 						lamports: state.accounts[key]?.lamports ?? null,
 						lastFetchedAt: now(),
+						owner: state.accounts[key]?.owner,
 						slot: state.accounts[key]?.slot ?? null,
 					},
 				},
@@ -379,44 +505,61 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 	/**
 	 * Sends a transaction and waits for confirmation using the runtime helpers.
 	 *
+	 * With `options.rebroadcast`, the signed transaction is re-submitted on an interval until it confirms or its
+	 * blockhash expires, and every submission is recorded on the transaction record.
+	 *
 	 * @param transaction - Transaction to submit.
 	 * @param commitment - Optional commitment override for confirmation.
+	 * @param options - Optional rebroadcast policy.
 	 * @returns Promise resolving with the signature for the submitted transaction.
 	 */
 	async function sendTransaction(
 		transaction: SendableTransaction & Transaction & TransactionWithLastValidBlockHeight,
 		commitment?: Commitment,
+		options: SendTransactionOptions = {},
 	): Promise<Signature> {
 		const targetCommitment = getCommitment(commitment);
 		const abortController = new AbortController();
-		const signature = await runtime.rpc
-			.sendTransaction(getBase64EncodedWireTransaction(transaction), {
-				encoding: 'base64',
-				preflightCommitment: targetCommitment,
-			})
-			.send({ abortSignal: abortController.signal });
-		const key = signature.toString();
-		store.setState((state) => ({
-			...state,
-			lastUpdatedAt: now(),
-			transactions: {
-				...state.transactions,
-				[key]: {
-					lastUpdatedAt: now(),
-					signature,
-					status: 'sending',
-				},
-			},
-		}));
-		const getBlockHeightExceedencePromise = createBlockHeightExceedencePromiseFactory({
-			rpc: runtime.rpc,
-			rpcSubscriptions: runtime.rpcSubscriptions,
-		} as Parameters<typeof createBlockHeightExceedencePromiseFactory>[0]);
-		const getRecentSignatureConfirmationPromise = createRecentSignatureConfirmationPromiseFactory({
-			rpc: runtime.rpc,
-			rpcSubscriptions: runtime.rpcSubscriptions,
-		} as Parameters<typeof createRecentSignatureConfirmationPromiseFactory>[0]);
+		let sent: Signature | undefined;
 		try {
+			if (options.rebroadcast) {
+				const signature = getSignatureFromTransaction(transaction);
+				const recordKey = signature.toString();
+				sent = signature;
+				transactionRecorder.start(recordKey, signature, transaction);
+				await sendWithRebroadcast({
+					...options.rebroadcast,
+					abortSignal: abortController.signal,
+					commitment: targetCommitment,
+					onAttempt: (attempt) => transactionRecorder.recordAttempt(recordKey, attempt),
+					onStatus: (status, slot) => transactionRecorder.recordCommitment(recordKey, status, slot),
+					rpc: runtime.rpc,
+					transaction: {
+						lastValidBlockHeight: transaction.lifetimeConstraint.lastValidBlockHeight,
+						signature,
+						wireTransaction: getBase64EncodedWireTransaction(transaction),
+					},
+				});
+				transactionRecorder.confirm(recordKey, targetCommitment);
+				return signature;
+			}
+			const signature = await runtime.rpc
+				.sendTransaction(getBase64EncodedWireTransaction(transaction), {
+					encoding: 'base64',
+					preflightCommitment: targetCommitment,
+				})
+				.send({ abortSignal: abortController.signal });
+			sent = signature;
+			const key = signature.toString();
+			transactionRecorder.start(key, signature, transaction);
+			const getBlockHeightExceedencePromise = createBlockHeightExceedencePromiseFactory({
+				rpc: runtime.rpc,
+				rpcSubscriptions: runtime.rpcSubscriptions,
+			} as Parameters<typeof createBlockHeightExceedencePromiseFactory>[0]);
+			const getRecentSignatureConfirmationPromise = createRecentSignatureConfirmationPromiseFactory({
+				rpc: runtime.rpc,
+				rpcSubscriptions: runtime.rpcSubscriptions,
+			} as Parameters<typeof createRecentSignatureConfirmationPromiseFactory>[0]);
 			await waitForRecentTransactionConfirmation({
 				abortSignal: abortController.signal,
 				commitment: targetCommitment,
@@ -424,42 +567,57 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 				getRecentSignatureConfirmationPromise,
 				transaction,
 			});
-			store.setState((state) => ({
-				...state,
-				lastUpdatedAt: now(),
-				transactions: {
-					...state.transactions,
-					[key]: {
-						lastUpdatedAt: now(),
-						signature,
-						status: 'confirmed',
-					},
-				},
-			}));
+			transactionRecorder.confirm(key, targetCommitment);
 			return signature;
 		} catch (error) {
-			store.setState((state) => ({
-				...state,
-				lastUpdatedAt: now(),
-				transactions: {
-					...state.transactions,
-					[key]: {
-						error,
-						lastUpdatedAt: now(),
-						signature,
-						status: 'failed',
-					},
-				},
-			}));
+			if (sent === undefined) {
+				throw error;
+			}
+			const key = sent.toString();
+			const programError = await transactionRecorder.fail(key, error);
 			logger({
-				data: { signature: key, ...formatError(error) },
+				data: {
+					signature: key,
+					...formatError(error),
+					...(programError ? { programError: describeTransactionProgramError(programError) } : {}),
+				},
 				level: 'error',
 				message: 'transaction failed to confirm',
 			});
-			throw error;
+			throw programError ? new TransactionFailedError(sent, programError, error) : error;
 		}
 	}
 
+	/**
+	 * Switches the active account of the connected wallet session.
+	 *
+	 * @param address - Address of an account authorized by the connected wallet.
+	 * @throws When no wallet is connected, the address is not authorized or the connector cannot switch accounts.
+	 */
+	function selectWalletAccount(address: Address): void {
+		const wallet = store.getState().wallet;
+		if (wallet.status !== 'connected') {
+			throw new Error('Connect a wallet before selecting an account.');
+		}
+		const { connectorId, session } = wallet;
+		if (session.account.address === address) {
+			return;
+		}
+		const accounts = session.accounts ?? [session.account];
+		if (!accounts.some((account) => account.address === address)) {
+			throw new Error(`Wallet connector "${connectorId}" has not authorized account ${address}.`);
+		}
+		if (!session.selectAccount) {
+			throw new Error(`Wallet connector "${connectorId}" does not support switching accounts.`);
+		}
+		updateState(store, { wallet: { connectorId, session: session.selectAccount(address), status: 'connected' } });
+		logger({
+			data: { address: address.toString(), connectorId },
+			level: 'info',
+			message: 'wallet account selected',
+		});
+	}
+
 	/**
 	 * Requests an airdrop on supported clusters.
 	 *
@@ -488,12 +646,23 @@ export function createActions({ connectors, logger: inputLogger, runtime, store
 		return signature;
 	}
 
+	/**
+	 * Removes every transaction record from the store.
+	 *
+	 * @returns Nothing; clears `state.transactions`.
+	 */
+	function clearTransactions(): void {
+		transactionRecorder.clear();
+	}
+
 	return {
+		clearTransactions,
 		connectWallet,
 		disconnectWallet,
 		fetchAccount,
 		fetchBalance,
 		requestAirdrop,
+		selectWalletAccount,
 		sendTransaction,
 		setCluster,
 	};
@@ -1,5 +1,7 @@
 import { afterEach, describe, expect, it, vi } from 'vitest';
 
+import { serializePersistedState } from '../persistence/clientPersistence';
+import { createMemoryStorageAdapter } from '../persistence/storage';
 import type { SolanaRpcClient } from '../rpc/createSolanaRpcClient';
 import type { SolanaClientConfig } from '../types';
 import { createClient } from './createClient';
@@ -143,6 +145,33 @@ describe('createClient', () => {
 		expect(createSolanaRpcClientMock).not.toHaveBeenCalled();
 	});
 
+	it('rehydrates persisted state before configuring the cluster', async () => {
+		const storage = createMemoryStorageAdapter({
+			'solana-client:state': serializePersistedState(
+				{
+					cluster: {
+						commitment: 'processed',
+						endpoint: 'https://rpc.persisted',
+						websocketEndpoint: 'wss://rpc.persisted',
+					},
+				},
+				1,
+			),
+		});
+		const client = createClient({ ...config, persistence: { storage } });
+		const actions = createActionsMock.mock.results[0].value as ActionSet;
+		expect(actions.setCluster).not.toHaveBeenCalled();
+
+		await client.persistence?.hydrate();
+		await Promise.resolve();
+
+		expect(actions.setCluster).toHaveBeenCalledWith('https://rpc.persisted', {
+			commitment: 'processed',
+			websocketEndpoint: 'wss://rpc.persisted',
+		});
+		client.destroy();
+	});
+
 	it('logs errors when initial cluster setup fails', async () => {
 		const logger = vi.fn();
 		createLoggerMock.mockReturnValueOnce(logger as Logger);
@@ -1,13 +1,45 @@
 import { createLogger, formatError } from '../logging/logger';
+import { createClientPersistence } from '../persistence/clientPersistence';
 import { createSolanaRpcClient } from '../rpc/createSolanaRpcClient';
-import type { ClientStore, SolanaClient, SolanaClientConfig, SolanaClientRuntime } from '../types';
+import { createProgramErrorRegistry } from '../transactions/programErrors';
+import type { ClientStore, SolanaClient, SolanaClientConfig, SolanaClientRuntime, WalletRegistry } from '../types';
 import { now } from '../utils';
+import { startWalletAutoConnect } from '../wallet/autoConnect';
 import { createWalletRegistry } from '../wallet/registry';
+import { type WalletStandardDiscoveryOptions, watchWalletStandardConnectors } from '../wallet/standard';
+import { createAccountCache } from './accountCache';
+import { createAccountDecoderRegistry } from './accountDecoders';
 import { createActions } from './actions';
 import { createClientHelpers } from './createClientHelpers';
 import { createClientStore, createInitialClientState } from './createClientStore';
+import { createTransactionRecorder } from './transactionRecords';
 import { createWatchers } from './watchers';
 
+/**
+ * Keeps the registry in sync with wallets registered through Wallet Standard.
+ *
+ * @param connectors - Registry that should receive discovered connectors.
+ * @param options - Discovery toggle or Wallet Standard discovery options.
+ * @returns Cleanup function that stops watching and removes discovered connectors.
+ */
+function startWalletStandardDiscovery(
+	connectors: WalletRegistry,
+	options: true | WalletStandardDiscoveryOptions,
+): () => void {
+	let unregister: (() => void) | undefined;
+	const unwatch = watchWalletStandardConnectors(
+		(discovered) => {
+			unregister?.();
+			unregister = connectors.register(discovered);
+		},
+		options === true ? {} : options,
+	);
+	return () => {
+		unwatch();
+		unregister?.();
+	};
+}
+
 /**
  * Creates a Solana client instance using the provided configuration.
  *
@@ -28,17 +60,47 @@ export function createClient(config: SolanaClientConfig): SolanaClient {
 		createSolanaRpcClient({
 			commitment,
 			endpoint: config.endpoint,
+			endpoints: config.endpoints,
+			failover: config.rpcFailover,
 			websocketEndpoint,
 		});
 	const runtime: SolanaClientRuntime = {
 		rpc: rpcClient.rpc,
 		rpcSubscriptions: rpcClient.rpcSubscriptions,
 	};
+	const accountCache = createAccountCache({ config: config.accountCache, store });
+	const accountDecoders = createAccountDecoderRegistry(config.accountDecoders);
 	const connectors = createWalletRegistry(config.walletConnectors ?? []);
 	const logger = createLogger(config.logger);
-	const actions = createActions({ connectors, logger, runtime, store });
-	const watchers = createWatchers({ logger, runtime, store });
-	const helpers = createClientHelpers(runtime, store);
+	const programErrors = createProgramErrorRegistry(config.programErrors);
+	const transactionRecorder = createTransactionRecorder({
+		limit: config.transactionHistoryLimit,
+		logger,
+		programErrors,
+		runtime,
+		store,
+	});
+	const actions = createActions({
+		accountBatching: config.accountBatching,
+		accountDecoders,
+		connectors,
+		logger,
+		runtime,
+		store,
+		transactionRecorder,
+	});
+	const watchers = createWatchers({
+		accountDecoders,
+		logger,
+		reconnect: config.subscriptionReconnect,
+		runtime,
+		store,
+		transactionRecorder,
+	});
+	const helpers = createClientHelpers(runtime, store, transactionRecorder, config.tokenMetadata);
+	const persistence = config.persistence
+		? createClientPersistence({ config: config.persistence, logger, store })
+		: undefined;
 	store.setState((state) => ({
 		...state,
 		cluster: {
@@ -47,7 +109,46 @@ export function createClient(config: SolanaClientConfig): SolanaClient {
 		},
 		lastUpdatedAt: now(),
 	}));
-	actions.setCluster(config.endpoint, { commitment, websocketEndpoint }).catch((error) =>
+	const stopWalletStandard =
+		config.walletStandard && typeof window !== 'undefined'
+			? startWalletStandardDiscovery(connectors, config.walletStandard)
+			: undefined;
+	let stopAutoConnect: (() => void) | undefined;
+	let destroyed = false;
+	const restoreWallet = () => {
+		if (!destroyed) {
+			stopAutoConnect = startWalletAutoConnect({
+				actions,
+				config: config.autoConnect,
+				connectors,
+				logger,
+				store,
+			});
+		}
+	};
+	const initialCluster = persistence
+		? persistence.hydrate().then(() => {
+				restoreWallet();
+				// Rehydration may have restored a previously selected cluster, so read it back from the store.
+				const { cluster } = store.getState();
+				const isConfiguredCluster = cluster.endpoint === config.endpoint;
+				return actions.setCluster(cluster.endpoint, {
+					commitment: cluster.commitment,
+					endpoints: isConfiguredCluster ? config.endpoints : undefined,
+					failover: config.rpcFailover,
+					websocketEndpoint: cluster.websocketEndpoint,
+				});
+			})
+		: actions.setCluster(config.endpoint, {
+				commitment,
+				endpoints: config.endpoints,
+				failover: config.rpcFailover,
+				websocketEndpoint,
+			});
+	if (!persistence) {
+		restoreWallet();
+	}
+	initialCluster.catch((error) =>
 		logger({
 			data: formatError(error),
 			level: 'error',
@@ -60,9 +161,16 @@ export function createClient(config: SolanaClientConfig): SolanaClient {
 	 * @returns Nothing; resets store contents.
 	 */
 	function destroy(): void {
+		destroyed = true;
+		stopAutoConnect?.();
+		stopWalletStandard?.();
+		persistence?.stop();
+		accountCache.stop();
 		store.setState(() => initialState);
 	}
 	return {
+		accountCache,
+		accountDecoders,
 		actions,
 		config,
 		connectors,
@@ -70,6 +178,8 @@ export function createClient(config: SolanaClientConfig): SolanaClient {
 		get helpers() {
 			return helpers;
 		},
+		persistence,
+		programErrors,
 		runtime,
 		store,
 		get solTransfer() {
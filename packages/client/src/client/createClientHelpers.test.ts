@@ -1,8 +1,17 @@
-import type { TransactionSigner } from '@solana/kit';
+import {
+	addEncoderSizePrefix,
+	address,
+	getAddressEncoder,
+	getBase64Decoder,
+	getU32Encoder,
+	getUtf8Encoder,
+	type TransactionSigner,
+} from '@solana/kit';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import type { SolTransferPrepareConfig } from '../features/sol';
 import type { SplTokenHelperConfig } from '../features/spl';
+import { METAPLEX_TOKEN_METADATA_PROGRAM_ADDRESS } from '../features/tokenMetadata';
 import type { PrepareTransactionMessage } from '../transactions/prepareTransaction';
 import { createClientHelpers } from './createClientHelpers';
 import { createDefaultClientStore } from './createClientStore';
@@ -19,6 +28,7 @@ const createSplTokenHelperMock = vi.hoisted(() =>
 	vi.fn((_runtime, _config) => ({
 		deriveAssociatedTokenAddress: vi.fn(async () => 'ata'),
 		fetchBalance: vi.fn(async (_owner: unknown, _commitment?: unknown) => ({ balance: 1 })),
+		prepareBurn: vi.fn(async (config) => config),
 		prepareTransfer: vi.fn(async (config) => config),
 		sendPreparedTransfer: vi.fn(async () => 'sig'),
 		sendTransfer: vi.fn(async (config) => config),
@@ -36,6 +46,20 @@ const createTransactionHelperMock = vi.hoisted(() =>
 
 const prepareTransactionMock = vi.hoisted(() => vi.fn());
 
+const MINT = address('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+
+function encodeMetaplexMetadata(name: string): Uint8Array {
+	const stringEncoder = addEncoderSizePrefix(getUtf8Encoder(), getU32Encoder());
+	return new Uint8Array([
+		4,
+		...getAddressEncoder().encode(MINT),
+		...getAddressEncoder().encode(MINT),
+		...stringEncoder.encode(name),
+		...stringEncoder.encode(''),
+		...stringEncoder.encode(''),
+	]);
+}
+
 vi.mock('../features/sol', () => ({
 	createSolTransferHelper: createSolTransferHelperMock,
 }));
@@ -111,12 +135,57 @@ describe('client helpers', () => {
 		await splA.fetchBalance('owner');
 		const underlying = createSplTokenHelperMock.mock.results[0].value;
 		expect(underlying.fetchBalance).toHaveBeenCalledWith('owner', 'confirmed');
+		await splA.prepareBurn({ amount: 1n, authority: {} as never });
+		expect(underlying.prepareBurn).toHaveBeenCalledWith({ amount: 1n, authority: {}, commitment: 'confirmed' });
 
 		const splDifferentConfig: SplTokenHelperConfig = { mint: 'mint', commitment: 'finalized' };
 		const splDifferent = helpers.splToken({ ...splDifferentConfig });
 		expect(splDifferent).not.toBe(splA);
 	});
 
+	it('prepares mint transactions through the shared transaction helper', async () => {
+		const store = createDefaultClientStore(config);
+		const helpers = createClientHelpers(runtime as never, store);
+		expect(helpers.splMint).toBe(helpers.splMint);
+
+		await helpers.splMint.prepareSetAuthority({
+			authority: { address: 'authority' } as unknown as TransactionSigner,
+			authorityType: 'mintTokens',
+			mint: 'So11111111111111111111111111111111111111112',
+			newAuthority: null,
+		});
+		expect(helpers.transaction.prepare).toHaveBeenCalledWith(expect.objectContaining({ commitment: 'confirmed' }));
+	});
+
+	it('reads token metadata from the current cluster after a switch', async () => {
+		const store = createDefaultClientStore(config);
+		const createRpc = (name: string) => ({
+			getMultipleAccounts: vi.fn(() => ({
+				send: vi.fn(async () => ({
+					value: [
+						null,
+						{
+							data: [getBase64Decoder().decode(encodeMetaplexMetadata(name)), 'base64'],
+							owner: METAPLEX_TOKEN_METADATA_PROGRAM_ADDRESS,
+						},
+					],
+				})),
+			})),
+		});
+		const mainnet = createRpc('Mainnet');
+		const devnet = createRpc('Devnet');
+		const switchable = { ...runtime, rpc: mainnet };
+		const helpers = createClientHelpers(switchable as never, store, undefined, { fetchJson: null });
+
+		await expect(helpers.tokenMetadata.resolve(MINT)).resolves.toMatchObject({ name: 'Mainnet' });
+		switchable.rpc = devnet;
+		store.setState((state) => ({ ...state, cluster: { ...state.cluster, endpoint: 'https://devnet.rpc' } }));
+
+		await expect(helpers.tokenMetadata.resolve(MINT)).resolves.toMatchObject({ name: 'Devnet' });
+		expect(mainnet.getMultipleAccounts).toHaveBeenCalledTimes(1);
+		expect(devnet.getMultipleAccounts).toHaveBeenCalledTimes(1);
+	});
+
 	it('prepares transactions using the runtime RPC', async () => {
 		const store = createDefaultClientStore(config);
 		const rpc = { tag: 'rpc' };
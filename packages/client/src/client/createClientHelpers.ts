@@ -1,8 +1,19 @@
-import type { Commitment } from '@solana/kit';
+import type { Address, Commitment } from '@solana/kit';
 
+import type { TransactionRecorder } from '../client/transactionRecords';
+import { type AddressLookupTableHelper, createAddressLookupTableHelper } from '../features/addressLookupTable';
+import { createDurableNonceHelper, type DurableNonceHelper } from '../features/durableNonce';
 import { createSolTransferHelper, type SolTransferHelper } from '../features/sol';
 import { createSplTokenHelper, type SplTokenHelper, type SplTokenHelperConfig } from '../features/spl';
+import { createSplMintHelper, type SplMintHelper } from '../features/splMint';
+import {
+	createTokenMetadataResolver,
+	type TokenMetadataResolver,
+	type TokenMetadataResolverOptions,
+} from '../features/tokenMetadata';
+import { fetchTokenPortfolio, type TokenPortfolioConfig } from '../features/tokenPortfolio';
 import { createTransactionHelper, type TransactionHelper } from '../features/transactions';
+import { createAddressLookupTableCache } from '../transactions/addressLookupTables';
 import {
 	type PrepareTransactionMessage,
 	type PrepareTransactionOptions,
@@ -30,6 +41,33 @@ function withDefaultCommitment<T extends { commitment?: Commitment }>(
 	};
 }
 
+function wrapAddressLookupTableHelper(
+	helper: AddressLookupTableHelper,
+	getFallback: () => Commitment,
+): AddressLookupTableHelper {
+	return Object.freeze({
+		close: (config, options) => helper.close(withDefaultCommitment(config, getFallback), options),
+		create: (config, options) => helper.create(withDefaultCommitment(config, getFallback), options),
+		deactivate: (config, options) => helper.deactivate(withDefaultCommitment(config, getFallback), options),
+		extend: (config, options) => helper.extend(withDefaultCommitment(config, getFallback), options),
+		fetch: (lookupTable, commitment) => helper.fetch(lookupTable, commitment ?? getFallback()),
+		prepareClose: (config) => helper.prepareClose(withDefaultCommitment(config, getFallback)),
+		prepareCreate: (config) => helper.prepareCreate(withDefaultCommitment(config, getFallback)),
+		prepareDeactivate: (config) => helper.prepareDeactivate(withDefaultCommitment(config, getFallback)),
+		prepareExtend: (config) => helper.prepareExtend(withDefaultCommitment(config, getFallback)),
+		sendPrepared: helper.sendPrepared,
+	});
+}
+
+function wrapDurableNonceHelper(helper: DurableNonceHelper, getFallback: () => Commitment): DurableNonceHelper {
+	return Object.freeze({
+		create: (config, options) => helper.create(withDefaultCommitment(config, getFallback), options),
+		fetch: (nonceAccount, commitment) => helper.fetch(nonceAccount, commitment ?? getFallback()),
+		prepareCreate: (config) => helper.prepareCreate(withDefaultCommitment(config, getFallback)),
+		sendPrepared: helper.sendPrepared,
+	});
+}
+
 function wrapSolTransferHelper(helper: SolTransferHelper, getFallback: () => Commitment): SolTransferHelper {
 	return {
 		prepareTransfer: (config) => helper.prepareTransfer(withDefaultCommitment(config, getFallback)),
@@ -38,6 +76,14 @@ function wrapSolTransferHelper(helper: SolTransferHelper, getFallback: () => Com
 	};
 }
 
+function wrapSplMintHelper(helper: SplMintHelper, getFallback: () => Commitment): SplMintHelper {
+	return Object.freeze({
+		prepareCreateMint: (config) => helper.prepareCreateMint(withDefaultCommitment(config, getFallback)),
+		prepareMintTo: (config) => helper.prepareMintTo(withDefaultCommitment(config, getFallback)),
+		prepareSetAuthority: (config) => helper.prepareSetAuthority(withDefaultCommitment(config, getFallback)),
+	});
+}
+
 function wrapSplTokenHelper(
 	helper: SplTokenHelper,
 	getFallback: () => Commitment,
@@ -46,15 +92,48 @@ function wrapSplTokenHelper(
 	const resolveCommitment = (commitment?: Commitment) => commitment ?? baseCommitment ?? getFallback();
 
 	return {
+		calculateTransferFee: (amount, commitment) =>
+			helper.calculateTransferFee(amount, resolveCommitment(commitment)),
 		deriveAssociatedTokenAddress: helper.deriveAssociatedTokenAddress,
 		fetchBalance: (owner, commitment) => helper.fetchBalance(owner, resolveCommitment(commitment)),
+		fetchMintExtensions: (commitment) => helper.fetchMintExtensions(resolveCommitment(commitment)),
+		prepareApprove: (config) => helper.prepareApprove(withDefaultCommitment(config, getFallback, baseCommitment)),
+		prepareBurn: (config) => helper.prepareBurn(withDefaultCommitment(config, getFallback, baseCommitment)),
+		prepareCloseAccount: (config) =>
+			helper.prepareCloseAccount(withDefaultCommitment(config, getFallback, baseCommitment)),
+		prepareCreateAta: (config) =>
+			helper.prepareCreateAta(withDefaultCommitment(config, getFallback, baseCommitment)),
+		prepareFreeze: (config) => helper.prepareFreeze(withDefaultCommitment(config, getFallback, baseCommitment)),
+		prepareRevoke: (config) => helper.prepareRevoke(withDefaultCommitment(config, getFallback, baseCommitment)),
+		prepareThaw: (config) => helper.prepareThaw(withDefaultCommitment(config, getFallback, baseCommitment)),
 		prepareTransfer: (config) => helper.prepareTransfer(withDefaultCommitment(config, getFallback, baseCommitment)),
+		sendPrepared: helper.sendPrepared,
 		sendPreparedTransfer: helper.sendPreparedTransfer,
 		sendTransfer: (config, options) =>
 			helper.sendTransfer(withDefaultCommitment(config, getFallback, baseCommitment), options),
 	};
 }
 
+function wrapTokenMetadataResolver(
+	resolver: TokenMetadataResolver,
+	getFallback: () => Commitment,
+	getEndpoint: () => string,
+): TokenMetadataResolver {
+	// Cached metadata belongs to the cluster it was read from, so a cluster switch starts from an empty cache.
+	let endpoint = getEndpoint();
+	return Object.freeze({
+		clear: resolver.clear,
+		resolve: (mint, config = {}) => {
+			const currentEndpoint = getEndpoint();
+			if (currentEndpoint !== endpoint) {
+				endpoint = currentEndpoint;
+				resolver.clear();
+			}
+			return resolver.resolve(mint, withDefaultCommitment(config, getFallback));
+		},
+	});
+}
+
 function normaliseConfigValue(value: unknown): string | undefined {
 	if (value === null || value === undefined) {
 		return undefined;
@@ -78,12 +157,43 @@ function serialiseSplConfig(config: SplTokenHelperConfig): string {
 	});
 }
 
-export function createClientHelpers(runtime: SolanaClientRuntime, store: ClientStore): ClientHelpers {
+export function createClientHelpers(
+	runtime: SolanaClientRuntime,
+	store: ClientStore,
+	transactionRecorder?: TransactionRecorder,
+	tokenMetadataOptions?: TokenMetadataResolverOptions,
+): ClientHelpers {
 	const getFallbackCommitment = () => store.getState().cluster.commitment;
 	const splTokenCache = new Map<string, SplTokenCacheEntry>();
+	// Shared so tables changed through the lookup table helper are re-read by transaction preparation.
+	const lookupTableCache = createAddressLookupTableCache();
+	let addressLookupTable: AddressLookupTableHelper | undefined;
+	let durableNonce: DurableNonceHelper | undefined;
 	let solTransfer: SolTransferHelper | undefined;
+	let splMint: SplMintHelper | undefined;
+	let tokenMetadata: TokenMetadataResolver | undefined;
 	let transaction: TransactionHelper | undefined;
 
+	const getAddressLookupTable = () => {
+		if (!addressLookupTable) {
+			addressLookupTable = wrapAddressLookupTableHelper(
+				createAddressLookupTableHelper(runtime, getTransaction(), lookupTableCache),
+				getFallbackCommitment,
+			);
+		}
+		return addressLookupTable;
+	};
+
+	const getDurableNonce = () => {
+		if (!durableNonce) {
+			durableNonce = wrapDurableNonceHelper(
+				createDurableNonceHelper(runtime, getTransaction()),
+				getFallbackCommitment,
+			);
+		}
+		return durableNonce;
+	};
+
 	const getSolTransfer = () => {
 		if (!solTransfer) {
 			solTransfer = wrapSolTransferHelper(createSolTransferHelper(runtime), getFallbackCommitment);
@@ -91,9 +201,32 @@ export function createClientHelpers(runtime: SolanaClientRuntime, store: ClientS
 		return solTransfer;
 	};
 
+	const getSplMint = () => {
+		if (!splMint) {
+			splMint = wrapSplMintHelper(createSplMintHelper(runtime, getTransaction()), getFallbackCommitment);
+		}
+		return splMint;
+	};
+
+	const getTokenMetadata = () => {
+		if (!tokenMetadata) {
+			tokenMetadata = wrapTokenMetadataResolver(
+				createTokenMetadataResolver({ ...tokenMetadataOptions, rpc: () => runtime.rpc }),
+				getFallbackCommitment,
+				() => store.getState().cluster.endpoint,
+			);
+		}
+		return tokenMetadata;
+	};
+
 	const getTransaction = () => {
 		if (!transaction) {
-			transaction = createTransactionHelper(runtime, getFallbackCommitment);
+			transaction = createTransactionHelper(
+				runtime,
+				getFallbackCommitment,
+				transactionRecorder,
+				lookupTableCache,
+			);
 		}
 		return transaction;
 	};
@@ -113,6 +246,15 @@ export function createClientHelpers(runtime: SolanaClientRuntime, store: ClientS
 		return scoped;
 	}
 
+	const getTokenPortfolio = (owner: Address | string, config: TokenPortfolioConfig = {}) =>
+		fetchTokenPortfolio({
+			...config,
+			commitment: config.commitment ?? getFallbackCommitment(),
+			metadataResolver: getTokenMetadata(),
+			owner,
+			rpc: runtime.rpc,
+		});
+
 	const prepareTransactionWithRuntime = <TMessage extends PrepareTransactionMessage>(
 		options: PrepareTransactionOptions<TMessage>,
 	) =>
@@ -122,10 +264,23 @@ export function createClientHelpers(runtime: SolanaClientRuntime, store: ClientS
 		});
 
 	return Object.freeze({
+		get addressLookupTable() {
+			return getAddressLookupTable();
+		},
+		get durableNonce() {
+			return getDurableNonce();
+		},
 		get solTransfer() {
 			return getSolTransfer();
 		},
+		get splMint() {
+			return getSplMint();
+		},
 		splToken: getSplTokenHelper,
+		get tokenMetadata() {
+			return getTokenMetadata();
+		},
+		tokenPortfolio: getTokenPortfolio,
 		get transaction() {
 			return getTransaction();
 		},
@@ -39,7 +39,11 @@ export function createInitialClientState(config: ClientStoreConfig): ClientState
 		lastUpdatedAt: timestamp,
 		subscriptions: {
 			account: {},
+			logs: {},
+			programAccounts: {},
+			root: {},
 			signature: {},
+			slot: {},
 		},
 		transactions: {},
 		wallet: { status: 'disconnected' },
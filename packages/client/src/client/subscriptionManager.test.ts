@@ -0,0 +1,211 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ClientStore } from '../types';
+import { createDefaultClientStore } from './createClientStore';
+import { createSubscriptionManager, type SharedSubscriptionSource } from './subscriptionManager';
+
+function createPushIterable<T>() {
+	const queue: T[] = [];
+	let wake: (() => void) | undefined;
+	return {
+		iterable(signal: AbortSignal): AsyncIterable<T> {
+			return {
+				async *[Symbol.asyncIterator]() {
+					while (!signal.aborted) {
+						const next = queue.shift();
+						if (next !== undefined) {
+							yield next;
+							continue;
+						}
+						await new Promise<void>((resolve) => {
+							wake = resolve;
+							signal.addEventListener('abort', () => resolve(), { once: true });
+						});
+					}
+				},
+			};
+		},
+		push(value: T) {
+			queue.push(value);
+			wake?.();
+		},
+	};
+}
+
+function createDroppableIterable<T>() {
+	let reject: (error: unknown) => void = () => undefined;
+	const iterable: AsyncIterable<T> = {
+		[Symbol.asyncIterator]: () => ({
+			next: () =>
+				new Promise<IteratorResult<T>>((_resolve, innerReject) => {
+					reject = innerReject;
+				}),
+		}),
+	};
+	return {
+		drop(error: unknown) {
+			reject(error);
+		},
+		iterable,
+	};
+}
+
+describe('subscription manager', () => {
+	let store: ClientStore;
+	const flushAsync = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+	beforeEach(() => {
+		store = createDefaultClientStore({ commitment: 'confirmed', endpoint: 'https://rpc' });
+	});
+
+	it('shares one subscription per key, fans out notifications and ref-counts aborts', async () => {
+		const feed = createPushIterable<number>();
+		const subscribe = vi.fn(async (signal: AbortSignal) => feed.iterable(signal));
+		const map = vi.fn((value: number) => value * 2);
+		const source: SharedSubscriptionSource<number, number> = {
+			id: 'addr',
+			key: 'account:addr:confirmed',
+			kind: 'account',
+			map,
+			subscribe,
+		};
+		const manager = createSubscriptionManager({ logger: vi.fn(), store });
+		const first = vi.fn();
+		const second = vi.fn();
+
+		const firstHandle = manager.subscribe(source, first);
+		const secondHandle = manager.subscribe(source, second);
+		await flushAsync();
+		feed.push(1);
+		await flushAsync();
+
+		expect(subscribe).toHaveBeenCalledTimes(1);
+		expect(map).toHaveBeenCalledTimes(1);
+		expect(first).toHaveBeenCalledWith(2);
+		expect(second).toHaveBeenCalledWith(2);
+		expect(store.getState().subscriptions.account.addr).toEqual({ status: 'active' });
+
+		firstHandle.abort();
+		firstHandle.abort();
+		expect(store.getState().subscriptions.account.addr).toEqual({ status: 'active' });
+		feed.push(2);
+		await flushAsync();
+		expect(first).toHaveBeenCalledTimes(1);
+		expect(second).toHaveBeenLastCalledWith(4);
+
+		secondHandle.abort();
+		expect(subscribe.mock.calls[0]?.[0].aborted).toBe(true);
+		expect(store.getState().subscriptions.account.addr).toEqual({ status: 'inactive' });
+
+		manager.subscribe(source, vi.fn());
+		expect(subscribe).toHaveBeenCalledTimes(2);
+	});
+
+	it('reports failures and lets later watchers open a new subscription', async () => {
+		const logger = vi.fn();
+		const subscribe = vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue([]);
+		const source: SharedSubscriptionSource<number, number> = {
+			id: 'sig',
+			key: 'signature:sig',
+			kind: 'signature',
+			map: (value) => value,
+			subscribe,
+		};
+		const manager = createSubscriptionManager({ logger, store });
+
+		manager.subscribe(source, vi.fn());
+		await flushAsync();
+
+		expect(store.getState().subscriptions.signature.sig).toMatchObject({ status: 'error' });
+		expect(logger).toHaveBeenCalledWith(expect.objectContaining({ message: 'signature subscription failed' }));
+		manager.subscribe(source, vi.fn());
+		expect(subscribe).toHaveBeenCalledTimes(2);
+	});
+
+	it('resubscribes dropped subscriptions with backoff and backfills once', async () => {
+		vi.useFakeTimers();
+		const logger = vi.fn();
+		const feed = createPushIterable<number>();
+		const connection = createDroppableIterable<number>();
+		const subscribe = vi
+			.fn()
+			.mockImplementationOnce(async () => connection.iterable)
+			.mockRejectedValueOnce(new Error('still offline'))
+			.mockImplementation(async (signal: AbortSignal) => feed.iterable(signal));
+		const backfill = vi.fn(async () => 10);
+		const listener = vi.fn();
+		const manager = createSubscriptionManager({ logger, reconnect: { backoffMs: 100 }, store });
+
+		const handle = manager.subscribe(
+			{ backfill, id: 'addr', key: 'account:addr', kind: 'account', map: (value: number) => value, subscribe },
+			listener,
+		);
+		await vi.advanceTimersByTimeAsync(0);
+		connection.drop(new Error('socket closed'));
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(store.getState().subscriptions.account.addr).toMatchObject({ attempt: 1, status: 'reconnecting' });
+		expect(logger).toHaveBeenCalledWith(
+			expect.objectContaining({ message: 'account subscription lost, reconnecting' }),
+		);
+
+		await vi.advanceTimersByTimeAsync(100);
+		expect(store.getState().subscriptions.account.addr).toMatchObject({ attempt: 2, status: 'reconnecting' });
+		await vi.advanceTimersByTimeAsync(199);
+		expect(subscribe).toHaveBeenCalledTimes(2);
+		await vi.advanceTimersByTimeAsync(1);
+
+		expect(subscribe).toHaveBeenCalledTimes(3);
+		expect(store.getState().subscriptions.account.addr).toEqual({ status: 'active' });
+		expect(backfill).toHaveBeenCalledTimes(1);
+		expect(listener).toHaveBeenCalledWith(10);
+
+		handle.abort();
+		vi.useRealTimers();
+	});
+
+	it('gives up after the configured number of attempts', async () => {
+		vi.useFakeTimers();
+		const connection = createDroppableIterable<number>();
+		const subscribe = vi
+			.fn()
+			.mockImplementationOnce(async () => connection.iterable)
+			.mockRejectedValue(new Error('offline'));
+		const manager = createSubscriptionManager({
+			logger: vi.fn(),
+			reconnect: { backoffMs: 10, maxAttempts: 1 },
+			store,
+		});
+
+		manager.subscribe({ id: 'addr', key: 'k', kind: 'account', map: (value: number) => value, subscribe }, vi.fn());
+		await vi.advanceTimersByTimeAsync(0);
+		connection.drop(new Error('socket closed'));
+		await vi.advanceTimersByTimeAsync(10);
+
+		expect(subscribe).toHaveBeenCalledTimes(2);
+		expect(store.getState().subscriptions.account.addr).toMatchObject({ status: 'error' });
+		vi.useRealTimers();
+	});
+
+	it('opens a separate subscription for watchers added after a cluster switch', async () => {
+		const subscribe = vi.fn(async (signal: AbortSignal) => createPushIterable<number>().iterable(signal));
+		const source: SharedSubscriptionSource<number, number> = {
+			id: 'slot',
+			key: 'slot',
+			kind: 'slot',
+			map: (value: number) => value,
+			subscribe,
+		};
+		const manager = createSubscriptionManager({ logger: vi.fn(), store });
+
+		manager.subscribe(source, vi.fn());
+		store.setState((state) => ({
+			...state,
+			cluster: { ...state.cluster, endpoint: 'https://devnet.rpc', websocketEndpoint: 'wss://devnet.rpc' },
+		}));
+		manager.subscribe(source, vi.fn());
+		await flushAsync();
+
+		expect(subscribe).toHaveBeenCalledTimes(2);
+	});
+});
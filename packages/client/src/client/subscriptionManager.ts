@@ -0,0 +1,292 @@
+import { createLogger, formatError } from '../logging/logger';
+import type {
+	ClientStore,
+	SubscriptionReconnectConfig,
+	SubscriptionState,
+	SubscriptionStatus,
+	WatchSubscription,
+} from '../types';
+import { now, wait } from '../utils';
+
+export type SubscriptionKind = keyof SubscriptionState;
+
+export type SharedSubscriptionSource<TNotification, TValue> = Readonly<{
+	/** Reads the current state after a reconnect so updates missed while disconnected are not lost. */
+	backfill?(abortSignal: AbortSignal): Promise<TNotification | undefined>;
+	/** Identifier reported in `state.subscriptions[kind]`, e.g. the account address. */
+	id: string;
+	/**
+	 * Multiplexing key; watchers with the same key on the same cluster share one underlying subscription. The manager
+	 * scopes it to the websocket endpoint itself.
+	 */
+	key: string;
+	kind: SubscriptionKind;
+	/** Extra context attached to log entries. */
+	logData?: Record<string, unknown>;
+	/**
+	 * Processes a notification once per underlying subscription (e.g. to update the store) and returns the value
+	 * forwarded to every listener.
+	 */
+	map(notification: TNotification): TValue;
+	/** Opens the underlying RPC subscription. */
+	subscribe(abortSignal: AbortSignal): Promise<AsyncIterable<TNotification>>;
+}>;
+
+export type SubscriptionManager = Readonly<{
+	subscribe<TNotification, TValue>(
+		source: SharedSubscriptionSource<TNotification, TValue>,
+		listener: (value: TValue) => void,
+	): WatchSubscription;
+}>;
+
+type SubscriptionManagerDeps = Readonly<{
+	logger?: ReturnType<typeof createLogger>;
+	reconnect?: false | SubscriptionReconnectConfig;
+	store: ClientStore;
+}>;
+
+type SharedSubscription = {
+	abortController: AbortController;
+	id: string;
+	key: string;
+	kind: SubscriptionKind;
+	listeners: Set<{ listener(value: unknown): void }>;
+};
+
+const DEFAULT_RECONNECT_BACKOFF_MS = 500;
+const DEFAULT_RECONNECT_MAX_ATTEMPTS = 10;
+const DEFAULT_RECONNECT_MAX_BACKOFF_MS = 30_000;
+
+/**
+ * Creates the manager that multiplexes RPC subscriptions across watchers.
+ *
+ * Watchers that share a key (kind, target and commitment) on the same websocket endpoint share a single underlying
+ * subscription, so watchers opened after a cluster switch never join a stream of the previous cluster. Notifications
+ * are processed once and fanned out to every listener, and the subscription is closed when the last listener aborts.
+ * When an established subscription drops, it is resubscribed with exponential backoff and backfilled once.
+ *
+ * @param deps - Store receiving subscription status, reconnect policy and an optional logger.
+ * @returns Subscription manager.
+ */
+export function createSubscriptionManager({
+	logger: inputLogger,
+	reconnect = {},
+	store,
+}: SubscriptionManagerDeps): SubscriptionManager {
+	const logger = inputLogger ?? createLogger();
+	const backoffMs = reconnect ? (reconnect.backoffMs ?? DEFAULT_RECONNECT_BACKOFF_MS) : 0;
+	const maxAttempts = reconnect ? (reconnect.maxAttempts ?? DEFAULT_RECONNECT_MAX_ATTEMPTS) : 0;
+	const maxBackoffMs = reconnect ? (reconnect.maxBackoffMs ?? DEFAULT_RECONNECT_MAX_BACKOFF_MS) : 0;
+	const active = new Map<string, SharedSubscription>();
+
+	/**
+	 * Updates subscription metadata in the store for the provided subscription kind and identifier.
+	 *
+	 * @param kind - Subscription bucket being updated.
+	 * @param id - Identifier for the subscription instance.
+	 * @param status - Status descriptor to store.
+	 */
+	function setSubscriptionStatus(kind: SubscriptionKind, id: string, status: SubscriptionStatus): void {
+		store.setState((state) => ({
+			...state,
+			lastUpdatedAt: now(),
+			subscriptions: {
+				...state.subscriptions,
+				[kind]: {
+					...state.subscriptions[kind],
+					[id]: status,
+				},
+			},
+		}));
+	}
+
+	/**
+	 * Returns whether another shared subscription still reports status under the same identifier.
+	 *
+	 * @param shared - Subscription being torn down.
+	 * @returns `true` when the identifier is still in use.
+	 */
+	function isIdInUse(shared: SharedSubscription): boolean {
+		for (const other of active.values()) {
+			if (other !== shared && other.kind === shared.kind && other.id === shared.id) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * Aborts the underlying subscription once nobody listens anymore.
+	 *
+	 * @param shared - Subscription to close.
+	 */
+	function close(shared: SharedSubscription): void {
+		if (active.get(shared.key) === shared) {
+			active.delete(shared.key);
+		}
+		shared.abortController.abort();
+		if (!isIdInUse(shared)) {
+			setSubscriptionStatus(shared.kind, shared.id, { status: 'inactive' });
+		}
+	}
+
+	/**
+	 * Processes a notification and forwards the result to every listener.
+	 *
+	 * @param shared - Shared subscription record.
+	 * @param source - Source describing how to process notifications.
+	 * @param notification - Notification received from the RPC.
+	 */
+	function dispatch<TNotification, TValue>(
+		shared: SharedSubscription,
+		source: SharedSubscriptionSource<TNotification, TValue>,
+		notification: TNotification,
+	): void {
+		const value = source.map(notification);
+		for (const entry of [...shared.listeners]) {
+			try {
+				entry.listener(value);
+			} catch (error) {
+				logger({
+					data: { ...source.logData, ...formatError(error) },
+					level: 'error',
+					message: `${shared.kind} listener failed`,
+				});
+			}
+		}
+	}
+
+	/**
+	 * Refetches the subscription target after a reconnect.
+	 *
+	 * @param shared - Shared subscription record.
+	 * @param source - Source providing the backfill read.
+	 */
+	async function backfill<TNotification, TValue>(
+		shared: SharedSubscription,
+		source: SharedSubscriptionSource<TNotification, TValue>,
+	): Promise<void> {
+		if (!source.backfill) {
+			return;
+		}
+		try {
+			const notification = await source.backfill(shared.abortController.signal);
+			if (notification !== undefined && !shared.abortController.signal.aborted) {
+				dispatch(shared, source, notification);
+			}
+		} catch (error) {
+			logger({
+				data: { ...source.logData, ...formatError(error) },
+				level: 'warn',
+				message: `${shared.kind} backfill failed`,
+			});
+		}
+	}
+
+	/**
+	 * Consumes notifications for a shared subscription, resubscribing when an established subscription drops.
+	 *
+	 * @param shared - Shared subscription record.
+	 * @param source - Source describing how to open and process the subscription.
+	 */
+	async function run<TNotification, TValue>(
+		shared: SharedSubscription,
+		source: SharedSubscriptionSource<TNotification, TValue>,
+	): Promise<void> {
+		const { signal } = shared.abortController;
+		let attempt = 0;
+		let established = false;
+		setSubscriptionStatus(shared.kind, shared.id, { status: 'activating' });
+		try {
+			while (!signal.aborted) {
+				try {
+					const iterator = await source.subscribe(signal);
+					if (signal.aborted) {
+						return;
+					}
+					setSubscriptionStatus(shared.kind, shared.id, { status: 'active' });
+					if (attempt > 0) {
+						attempt = 0;
+						void backfill(shared, source);
+					}
+					established = true;
+					for await (const notification of iterator) {
+						dispatch(shared, source, notification);
+					}
+					return;
+				} catch (error) {
+					if (signal.aborted) {
+						return;
+					}
+					attempt += 1;
+					if (!established || attempt > maxAttempts) {
+						logger({
+							data: { ...source.logData, ...formatError(error) },
+							level: 'error',
+							message: `${shared.kind} subscription failed`,
+						});
+						setSubscriptionStatus(shared.kind, shared.id, { error, status: 'error' });
+						return;
+					}
+					logger({
+						data: { ...source.logData, attempt, ...formatError(error) },
+						level: 'warn',
+						message: `${shared.kind} subscription lost, reconnecting`,
+					});
+					setSubscriptionStatus(shared.kind, shared.id, { attempt, error, status: 'reconnecting' });
+					await wait(Math.min(backoffMs * 2 ** (attempt - 1), maxBackoffMs), signal);
+				}
+			}
+		} finally {
+			if (active.get(shared.key) === shared) {
+				active.delete(shared.key);
+			}
+		}
+	}
+
+	/**
+	 * Attaches a listener to the shared subscription for the source key, opening it when needed.
+	 *
+	 * @param source - Source describing the subscription.
+	 * @param listener - Callback invoked with each processed notification.
+	 * @returns Handle whose `abort` releases this listener only.
+	 */
+	function subscribe<TNotification, TValue>(
+		source: SharedSubscriptionSource<TNotification, TValue>,
+		listener: (value: TValue) => void,
+	): WatchSubscription {
+		const { endpoint, websocketEndpoint } = store.getState().cluster;
+		const key = `${websocketEndpoint ?? endpoint}|${source.key}`;
+		let shared = active.get(key);
+		if (!shared) {
+			const created: SharedSubscription = {
+				abortController: new AbortController(),
+				id: source.id,
+				key,
+				kind: source.kind,
+				listeners: new Set(),
+			};
+			active.set(key, created);
+			shared = created;
+			void run(created, source);
+		}
+		const entry = { listener: listener as (value: unknown) => void };
+		shared.listeners.add(entry);
+		const owner = shared;
+		let released = false;
+		return {
+			abort() {
+				if (released) {
+					return;
+				}
+				released = true;
+				owner.listeners.delete(entry);
+				if (owner.listeners.size === 0) {
+					close(owner);
+				}
+			},
+		};
+	}
+
+	return Object.freeze({ subscribe });
+}
@@ -0,0 +1,151 @@
+import type { Signature } from '@solana/kit';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ClientStore, SolanaClientRuntime } from '../types';
+import { createDefaultClientStore } from './createClientStore';
+import { createTransactionRecorder } from './transactionRecords';
+
+const nowMock = vi.hoisted(() => {
+	let current = 1_000;
+	return vi.fn(() => ++current);
+});
+
+vi.mock('../utils', async (original) => ({
+	...(await original()),
+	now: nowMock,
+}));
+
+function createRuntime(response: unknown = null) {
+	return {
+		rpc: {
+			getTransaction: vi.fn(() => ({ send: vi.fn().mockResolvedValue(response) })),
+		},
+	} as unknown as SolanaClientRuntime;
+}
+
+describe('transaction recorder', () => {
+	let store: ClientStore;
+
+	beforeEach(() => {
+		store = createDefaultClientStore({ commitment: 'confirmed', endpoint: 'https://rpc.test' });
+	});
+
+	it('stamps each commitment once and keeps the latest slot', () => {
+		const recorder = createTransactionRecorder({ logger: vi.fn(), runtime: createRuntime(), store });
+
+		recorder.start('a', 'sig-a' as Signature);
+		recorder.recordCommitment('a', 'processed', 10n);
+		const { processedAt } = store.getState().transactions.a;
+		recorder.recordCommitment('a', 'finalized', 11n);
+
+		const record = store.getState().transactions.a;
+		expect(record.processedAt).toBe(processedAt);
+		expect(record.confirmedAt).toBe(record.finalizedAt);
+		expect(record.slot).toBe(11n);
+		expect(record.sentAt).toBeLessThan(processedAt ?? 0);
+	});
+
+	it('loads the fee, slot and decoded program error of failed transactions', async () => {
+		const runtime = createRuntime({
+			meta: { err: { InstructionError: [0, { Custom: 1 }] }, fee: 5_000n },
+			slot: 99n,
+		});
+		const recorder = createTransactionRecorder({ logger: vi.fn(), runtime, store });
+
+		recorder.start('a', 'sig-a' as Signature);
+		recorder.fail('a', new Error('failed'));
+
+		await vi.waitFor(() => expect(store.getState().transactions.a.fee).toBe(5_000n));
+		expect(runtime.rpc.getTransaction).toHaveBeenCalledWith('sig-a', {
+			commitment: 'confirmed',
+			encoding: 'base64',
+			maxSupportedTransactionVersion: 0,
+		});
+		expect(store.getState().transactions.a).toMatchObject({
+			programError: { code: 1, instructionIndex: 0 },
+			slot: 99n,
+			status: 'failed',
+		});
+	});
+
+	it('resolves the decoded failure from the signature status', async () => {
+		const runtime = createRuntime();
+		Object.assign(runtime.rpc, {
+			getSignatureStatuses: vi.fn(() => ({
+				send: vi.fn().mockResolvedValue({ value: [{ err: { InstructionError: [0, { Custom: 1 }] } }] }),
+			})),
+		});
+		const recorder = createTransactionRecorder({ logger: vi.fn(), runtime, store });
+
+		recorder.start('a', 'sig-a' as Signature);
+		const programError = await recorder.fail('a', new Error('failed'));
+
+		expect(programError).toMatchObject({ code: 1, instructionIndex: 0, message: 'Custom program error 1' });
+		expect(store.getState().transactions.a.programError).toBe(programError);
+		await expect(
+			createTransactionRecorder({ logger: vi.fn(), runtime: createRuntime(), store }).fail('a', 1),
+		).resolves.toBeUndefined();
+	});
+
+	it('keeps polling confirmed transactions until they finalize', async () => {
+		vi.useFakeTimers();
+		try {
+			const runtime = createRuntime();
+			const getSignatureStatuses = vi
+				.fn()
+				.mockReturnValueOnce({
+					send: vi.fn().mockResolvedValue({ value: [{ confirmationStatus: 'confirmed' }] }),
+				})
+				.mockReturnValueOnce({
+					send: vi.fn().mockResolvedValue({ value: [{ confirmationStatus: 'finalized', slot: 12n }] }),
+				});
+			Object.assign(runtime.rpc, { getSignatureStatuses });
+			const recorder = createTransactionRecorder({ logger: vi.fn(), runtime, store });
+
+			recorder.start('a', 'sig-a' as Signature);
+			recorder.confirm('a', 'confirmed');
+			expect(store.getState().transactions.a.finalizedAt).toBeUndefined();
+			await vi.advanceTimersByTimeAsync(4_000);
+
+			expect(getSignatureStatuses).toHaveBeenCalledTimes(2);
+			expect(getSignatureStatuses).toHaveBeenCalledWith(['sig-a']);
+			expect(store.getState().transactions.a).toMatchObject({ slot: 12n, status: 'confirmed' });
+			expect(store.getState().transactions.a.finalizedAt).toBeDefined();
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it('settles unknown transactions that land after their confirmation timed out', () => {
+		const recorder = createTransactionRecorder({ logger: vi.fn(), runtime: createRuntime(), store });
+
+		recorder.start('a', 'sig-a' as Signature);
+		recorder.expire('a');
+		expect(store.getState().transactions.a.status).toBe('unknown');
+		recorder.confirm('a', 'finalized');
+
+		expect(store.getState().transactions.a.status).toBe('confirmed');
+	});
+
+	it('drops the oldest settled records beyond the limit and keeps in-flight ones', () => {
+		const recorder = createTransactionRecorder({ limit: 2, logger: vi.fn(), runtime: createRuntime(), store });
+
+		recorder.start('pending', 'sig-pending' as Signature);
+		for (const key of ['a', 'b', 'c']) {
+			recorder.start(key, `sig-${key}` as Signature);
+			recorder.confirm(key, 'confirmed');
+		}
+
+		expect(Object.keys(store.getState().transactions).sort()).toEqual(['b', 'c', 'pending']);
+	});
+
+	it('clears every record and ignores later updates for cleared transactions', () => {
+		const recorder = createTransactionRecorder({ logger: vi.fn(), runtime: createRuntime(), store });
+
+		recorder.start('a', 'sig-a' as Signature);
+		recorder.clear();
+		recorder.confirm('a', 'confirmed');
+
+		expect(store.getState().transactions).toEqual({});
+	});
+});
@@ -0,0 +1,289 @@
+import type { Commitment, Signature, Transaction } from '@solana/kit';
+
+import { createLogger, formatError } from '../logging/logger';
+import { createProgramErrorRegistry } from '../transactions/programErrors';
+import { decodeTransactionError, summarizeTransaction } from '../transactions/transactionDetails';
+import type {
+	ClientStore,
+	ProgramErrorRegistry,
+	SolanaClientRuntime,
+	TransactionProgramError,
+	TransactionRecord,
+	TransactionSendAttempt,
+	TransactionState,
+} from '../types';
+import { now, wait } from '../utils';
+
+type TransactionRecordUpdate = Partial<Omit<TransactionRecord, 'lastUpdatedAt'>>;
+
+export type TransactionRecorder = Readonly<{
+	/** Removes every record; updates for in-flight transactions that were cleared are dropped. */
+	clear(): void;
+	/**
+	 * Marks the record as confirmed at `commitment` and loads the fee, slot and program error in the background. Below
+	 * `finalized`, the signature keeps being polled until it finalizes so `finalizedAt` is filled in as well.
+	 */
+	confirm(key: string, commitment: Commitment): void;
+	/** Marks the record as `unknown` when confirmation was not observed in time; a later `confirm` still settles it. */
+	expire(key: string): void;
+	/**
+	 * Marks the record as failed and, when the transaction landed, loads its fee, slot and program error.
+	 *
+	 * @returns The decoded on-chain failure, or `undefined` when the transaction did not fail on-chain.
+	 */
+	fail(key: string, error: unknown): Promise<TransactionProgramError | undefined>;
+	/**
+	 * Notes a signature reported by a watcher: adds a `waiting` record when there is none, otherwise keeps every
+	 * recorded detail and only moves an unsettled record to `waiting`.
+	 */
+	observe(key: string, signature: Signature): void;
+	recordAttempt(key: string, attempt: TransactionSendAttempt): void;
+	/** Stamps the first time the signature was seen at `commitment`. */
+	recordCommitment(key: string, commitment: Commitment, slot?: bigint): void;
+	/** Replaces the record under `key` with a fresh `sending` record, summarising the transaction when provided. */
+	start(key: string, signature: Signature, transaction?: Pick<Transaction, 'messageBytes'>): void;
+}>;
+
+type TransactionRecorderDeps = Readonly<{
+	limit?: number;
+	logger?: ReturnType<typeof createLogger>;
+	programErrors?: ProgramErrorRegistry;
+	runtime: SolanaClientRuntime;
+	store: ClientStore;
+}>;
+
+const DEFAULT_TRANSACTION_HISTORY_LIMIT = 100;
+const FINALIZATION_POLL_INTERVAL_MS = 2_000;
+/** Finalization usually follows confirmation within about 15 seconds; give up well after that. */
+const FINALIZATION_MAX_POLLS = 30;
+
+const COMMITMENT_TIMESTAMPS: Record<Commitment, readonly ('confirmedAt' | 'finalizedAt' | 'processedAt')[]> = {
+	confirmed: ['processedAt', 'confirmedAt'],
+	finalized: ['processedAt', 'confirmedAt', 'finalizedAt'],
+	processed: ['processedAt'],
+};
+
+function isSettled(record: TransactionRecord): boolean {
+	return record.status === 'confirmed' || record.status === 'failed';
+}
+
+function isPrunable(record: TransactionRecord): boolean {
+	return isSettled(record) || record.status === 'unknown';
+}
+
+/**
+ * Drops the oldest settled or unknown records until at most `limit` remain. In-flight records are always kept.
+ *
+ * @param transactions - Current transaction records.
+ * @param limit - Maximum number of settled records.
+ * @returns Pruned records, or the same object when nothing was dropped.
+ */
+function pruneTransactions(transactions: TransactionState, limit: number): TransactionState {
+	const settled = Object.entries(transactions).filter(([, record]) => isPrunable(record));
+	if (settled.length <= limit) {
+		return transactions;
+	}
+	settled.sort(([, left], [, right]) => (left.sentAt ?? left.lastUpdatedAt) - (right.sentAt ?? right.lastUpdatedAt));
+	const next = { ...transactions };
+	for (const [key] of settled.slice(0, settled.length - limit)) {
+		delete next[key];
+	}
+	return next;
+}
+
+/**
+ * Creates the writer for `state.transactions`, shared by actions and the transaction helper.
+ *
+ * @param deps - Store, runtime used to read landed transactions, retention limit and optional logger.
+ * @returns Transaction recorder.
+ */
+export function createTransactionRecorder({
+	limit = DEFAULT_TRANSACTION_HISTORY_LIMIT,
+	logger: inputLogger,
+	programErrors = createProgramErrorRegistry(),
+	runtime,
+	store,
+}: TransactionRecorderDeps): TransactionRecorder {
+	const logger = inputLogger ?? createLogger();
+
+	function write(key: string, record: TransactionRecord): void {
+		store.setState((state) => ({
+			...state,
+			lastUpdatedAt: now(),
+			transactions: pruneTransactions({ ...state.transactions, [key]: record }, limit),
+		}));
+	}
+
+	function update(key: string, patch: TransactionRecordUpdate): void {
+		const previous = store.getState().transactions[key];
+		if (previous) {
+			write(key, { ...previous, ...patch, lastUpdatedAt: now() });
+		}
+	}
+
+	async function loadDetails(key: string, commitment: Commitment): Promise<void> {
+		const signature = store.getState().transactions[key]?.signature;
+		if (!signature) {
+			return;
+		}
+		try {
+			const response = await runtime.rpc
+				.getTransaction(signature, {
+					commitment: commitment === 'processed' ? 'confirmed' : commitment,
+					encoding: 'base64',
+					maxSupportedTransactionVersion: 0,
+				})
+				.send();
+			if (!response) {
+				return;
+			}
+			const err = response.meta?.err;
+			update(key, {
+				fee: response.meta?.fee,
+				programError: err
+					? decodeTransactionError(err, store.getState().transactions[key]?.instructions, programErrors)
+					: undefined,
+				slot: response.slot,
+			});
+		} catch (error) {
+			logger({
+				data: { signature, ...formatError(error) },
+				level: 'warn',
+				message: 'transaction details fetch failed',
+			});
+		}
+	}
+
+	async function fail(key: string, error: unknown): Promise<TransactionProgramError | undefined> {
+		update(key, { error, status: 'failed' });
+		void loadDetails(key, 'confirmed');
+		const signature = store.getState().transactions[key]?.signature;
+		if (!signature) {
+			return undefined;
+		}
+		try {
+			const {
+				value: [status],
+			} = await runtime.rpc.getSignatureStatuses([signature]).send();
+			if (!status?.err) {
+				return undefined;
+			}
+			const programError = decodeTransactionError(
+				status.err,
+				store.getState().transactions[key]?.instructions,
+				programErrors,
+			);
+			update(key, { programError });
+			return programError;
+		} catch (lookupError) {
+			logger({
+				data: { signature, ...formatError(lookupError) },
+				level: 'debug',
+				message: 'transaction status lookup failed',
+			});
+			return undefined;
+		}
+	}
+
+	function recordCommitment(key: string, commitment: Commitment, slot?: bigint): void {
+		const previous = store.getState().transactions[key];
+		if (!previous) {
+			return;
+		}
+		const timestamp = now();
+		const patch: { -readonly [K in keyof TransactionRecordUpdate]: TransactionRecordUpdate[K] } = {};
+		for (const field of COMMITMENT_TIMESTAMPS[commitment]) {
+			if (previous[field] === undefined) {
+				patch[field] = timestamp;
+			}
+		}
+		if (slot !== undefined) {
+			patch.slot = slot;
+		}
+		update(key, patch);
+	}
+
+	function observe(key: string, signature: Signature): void {
+		const previous = store.getState().transactions[key];
+		if (!previous) {
+			write(key, { lastUpdatedAt: now(), signature, status: 'waiting' });
+			return;
+		}
+		update(key, { signature, status: isSettled(previous) ? previous.status : 'waiting' });
+	}
+
+	async function trackFinalization(key: string): Promise<void> {
+		for (let poll = 0; poll < FINALIZATION_MAX_POLLS; poll++) {
+			await wait(FINALIZATION_POLL_INTERVAL_MS);
+			const record = store.getState().transactions[key];
+			// Cleared, re-sent under the same key or already stamped: nothing left to track.
+			if (!record?.signature || record.status !== 'confirmed' || record.finalizedAt !== undefined) {
+				return;
+			}
+			try {
+				const {
+					value: [status],
+				} = await runtime.rpc.getSignatureStatuses([record.signature]).send();
+				if (status?.confirmationStatus === 'finalized') {
+					recordCommitment(key, 'finalized', status.slot);
+					return;
+				}
+			} catch (error) {
+				logger({
+					data: { signature: record.signature, ...formatError(error) },
+					level: 'debug',
+					message: 'transaction finalization lookup failed',
+				});
+				return;
+			}
+		}
+	}
+
+	function start(key: string, signature: Signature, transaction?: Pick<Transaction, 'messageBytes'>): void {
+		let summary: Partial<ReturnType<typeof summarizeTransaction>> = {};
+		if (transaction) {
+			try {
+				summary = summarizeTransaction(transaction);
+			} catch (error) {
+				logger({
+					data: { signature, ...formatError(error) },
+					level: 'debug',
+					message: 'transaction summary unavailable',
+				});
+			}
+		}
+		write(key, {
+			feePayer: summary.feePayer,
+			instructions: summary.instructions,
+			lastUpdatedAt: now(),
+			sentAt: now(),
+			signature,
+			status: 'sending',
+		});
+	}
+
+	return Object.freeze({
+		clear() {
+			store.setState((state) => ({ ...state, lastUpdatedAt: now(), transactions: {} }));
+		},
+		confirm(key: string, commitment: Commitment) {
+			recordCommitment(key, commitment);
+			update(key, { status: 'confirmed' });
+			void loadDetails(key, commitment);
+			if (commitment !== 'finalized') {
+				void trackFinalization(key);
+			}
+		},
+		expire(key: string) {
+			update(key, { status: 'unknown' });
+		},
+		fail,
+		observe,
+		recordAttempt(key: string, attempt: TransactionSendAttempt) {
+			const attempts = store.getState().transactions[key]?.attempts ?? [];
+			update(key, { attempts: [...attempts, attempt], signature: attempt.signature });
+		},
+		recordCommitment,
+		start,
+	});
+}
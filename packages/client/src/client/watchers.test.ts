@@ -18,6 +18,21 @@ describe('client watchers', () => {
 	let runtime: SolanaClientRuntime;
 	const accountNotifications = vi.fn();
 	const signatureNotifications = vi.fn();
+	const logsNotifications = vi.fn();
+	const programNotifications = vi.fn();
+	const rootNotifications = vi.fn();
+	const slotNotifications = vi.fn();
+
+	function mockNotifications(mock: ReturnType<typeof vi.fn>, items: readonly unknown[]) {
+		mock.mockReturnValue({
+			subscribe: vi.fn(async () => {
+				async function* iterator() {
+					yield* items;
+				}
+				return iterator();
+			}),
+		});
+	}
 
 	const flushAsync = () => new Promise((resolve) => setTimeout(resolve, 0));
 
@@ -32,7 +47,11 @@ describe('client watchers', () => {
 			rpc: {} as never,
 			rpcSubscriptions: {
 				accountNotifications,
+				logsNotifications,
+				programNotifications,
+				rootNotifications,
 				signatureNotifications,
+				slotNotifications,
 			} as unknown as SolanaClientRuntime['rpcSubscriptions'],
 		};
 	});
@@ -105,6 +124,37 @@ describe('client watchers', () => {
 		expect(record?.status).toBe('waiting');
 	});
 
+	it('keeps recorded details and settled statuses of watched signatures', async () => {
+		const signature = 'sig456' as Signature;
+		mockNotifications(signatureNotifications, [{ context: { slot: 11n }, value: { err: null } }]);
+		const watchers = createWatchers({ runtime, store, logger: createLoggerMock() });
+		store.setState((state) => ({
+			...state,
+			transactions: {
+				sig456: {
+					confirmedAt: 5,
+					feePayer: 'payer' as Address,
+					lastUpdatedAt: 5,
+					sentAt: 1,
+					signature,
+					slot: 11n,
+					status: 'confirmed',
+				},
+			},
+		}));
+
+		watchers.watchSignature({ signature }, vi.fn());
+		await flushAsync();
+
+		expect(store.getState().transactions.sig456).toMatchObject({
+			confirmedAt: 5,
+			feePayer: 'payer',
+			sentAt: 1,
+			slot: 11n,
+			status: 'confirmed',
+		});
+	});
+
 	it('logs subscription errors when not aborted', async () => {
 		const address = { toString: () => 'addr' } as unknown as Address;
 		const logger = vi.fn();
@@ -123,4 +173,77 @@ describe('client watchers', () => {
 			}),
 		);
 	});
+
+	it('shares one account subscription between watchers with the same commitment', async () => {
+		const address = { toString: () => 'shared' } as unknown as Address;
+		accountNotifications.mockReturnValue({
+			subscribe: vi.fn(async () => {
+				async function* iterator() {
+					yield { value: { lamports: 7n }, context: { slot: 4n } };
+				}
+				return iterator();
+			}),
+		});
+		const watchers = createWatchers({ runtime, store, logger: createLoggerMock() });
+		const accountListener = vi.fn();
+		const balanceListener = vi.fn();
+		const account = watchers.watchAccount({ address }, accountListener);
+		const balance = watchers.watchBalance({ address }, balanceListener);
+		watchers.watchAccount({ address, commitment: 'finalized' }, () => undefined).abort();
+		await flushAsync();
+
+		expect(accountNotifications).toHaveBeenCalledTimes(2);
+		expect(accountListener).toHaveBeenCalledWith(expect.objectContaining({ lamports: 7n }));
+		expect(balanceListener).toHaveBeenCalledWith(7n);
+
+		account.abort();
+		expect(store.getState().subscriptions.account.shared).not.toMatchObject({ status: 'inactive' });
+		balance.abort();
+		expect(store.getState().subscriptions.account.shared).toMatchObject({ status: 'inactive' });
+	});
+
+	it('watches logs, program accounts, slots and roots', async () => {
+		const program = 'program' as Address;
+		const changed = 'changed' as Address;
+		mockNotifications(logsNotifications, [
+			{ context: { slot: 5n }, value: { err: null, logs: ['Program log: hi'], signature: 'sig' } },
+		]);
+		mockNotifications(programNotifications, [
+			{
+				context: { slot: 6n },
+				value: { account: { data: ['', 'base64'], lamports: 3n, owner: program }, pubkey: changed },
+			},
+		]);
+		mockNotifications(slotNotifications, [{ parent: 6n, root: 1n, slot: 7n }]);
+		mockNotifications(rootNotifications, [2n]);
+		const watchers = createWatchers({ runtime, store, logger: createLoggerMock() });
+		const onLogs = vi.fn();
+		const onAccount = vi.fn();
+		const onSlot = vi.fn();
+		const onRoot = vi.fn();
+
+		watchers.watchLogs({ mentions: program }, onLogs);
+		watchers.watchProgramAccounts({ filters: [{ dataSize: 0n }], programAddress: program }, onAccount);
+		watchers.watchSlot(onSlot);
+		watchers.watchRoot(onRoot);
+		await flushAsync();
+
+		expect(logsNotifications).toHaveBeenCalledWith({ mentions: [program] }, { commitment: 'confirmed' });
+		expect(onLogs).toHaveBeenCalledWith({ err: null, logs: ['Program log: hi'], signature: 'sig', slot: 5n });
+		expect(programNotifications).toHaveBeenCalledWith(program, {
+			commitment: 'confirmed',
+			encoding: 'base64',
+			filters: [{ dataSize: 0n }],
+		});
+		expect(onAccount).toHaveBeenCalledWith(expect.objectContaining({ address: changed, lamports: 3n, slot: 6n }));
+		expect(store.getState().accounts.changed?.lamports).toBe(3n);
+		expect(onSlot).toHaveBeenCalledWith({ parent: 6n, root: 1n, slot: 7n });
+		expect(onRoot).toHaveBeenCalledWith(2n);
+		expect(store.getState().subscriptions).toMatchObject({
+			logs: { program: { status: 'active' } },
+			programAccounts: { program: { status: 'active' } },
+			root: { root: { status: 'active' } },
+			slot: { slot: { status: 'active' } },
+		});
+	});
 });
@@ -1,143 +1,107 @@
-import type { Lamports, SolanaRpcSubscriptionsApi } from '@solana/kit';
+import type {
+	AccountInfoBase,
+	AccountInfoWithBase64EncodedData,
+	AccountInfoWithPubkey,
+	Address,
+	Lamports,
+	SolanaRpcResponse,
+	SolanaRpcSubscriptionsApi,
+} from '@solana/kit';
 
-import { createLogger, formatError } from '../logging/logger';
+import { createLogger } from '../logging/logger';
 import type {
 	AccountCacheEntry,
+	AccountDecoderRegistry,
 	AccountWatcherConfig,
 	BalanceWatcherConfig,
 	ClientStore,
 	ClientWatchers,
+	LogsNotification,
+	LogsWatcherConfig,
+	ProgramAccountsWatcherConfig,
 	SignatureWatcherConfig,
+	SlotNotification,
 	SolanaClientRuntime,
-	SubscriptionStatus,
+	SubscriptionReconnectConfig,
 } from '../types';
 import { now } from '../utils';
+import { stableStringify } from '../utils/stableStringify';
+import { createAccountDecoderRegistry, decodeAccountInfo } from './accountDecoders';
+import { createSubscriptionManager } from './subscriptionManager';
+import { createTransactionRecorder, type TransactionRecorder } from './transactionRecords';
+
+type EncodedAccountInfo = AccountInfoBase & AccountInfoWithBase64EncodedData;
+
+type AccountNotification = SolanaRpcResponse<EncodedAccountInfo | null>;
 
-type SubscriptionKind = 'account' | 'signature';
+type LogsSubscriptionNotification = SolanaRpcResponse<Omit<LogsNotification, 'slot'>>;
+
+type ProgramAccountNotification = SolanaRpcResponse<AccountInfoWithPubkey<EncodedAccountInfo>>;
 
 type WatcherDeps = Readonly<{
+	accountDecoders?: AccountDecoderRegistry;
 	logger?: ReturnType<typeof createLogger>;
+	reconnect?: false | SubscriptionReconnectConfig;
 	runtime: SolanaClientRuntime;
 	store: ClientStore;
+	/** Writer for `state.transactions`; shared with the actions and transaction helper so records are merged. */
+	transactionRecorder?: TransactionRecorder;
 }>;
 
 /**
  * Creates watcher helpers that wrap RPC subscriptions and keep store metadata in sync.
  *
+ * Watchers for the same target and commitment share one underlying subscription; each returned handle only
+ * releases its own listener. Dropped subscriptions are resubscribed and accounts are refetched once to cover the gap.
+ *
  * @param deps - Dependencies required to construct watcher helpers.
  * @returns Collection of watcher functions.
  */
-export function createWatchers({ logger: inputLogger, runtime, store }: WatcherDeps): ClientWatchers {
+export function createWatchers({
+	accountDecoders = createAccountDecoderRegistry(),
+	logger: inputLogger,
+	reconnect,
+	runtime,
+	store,
+	transactionRecorder: inputTransactionRecorder,
+}: WatcherDeps): ClientWatchers {
 	const logger = inputLogger ?? createLogger();
+	const transactionRecorder = inputTransactionRecorder ?? createTransactionRecorder({ logger, runtime, store });
+	const subscriptions = createSubscriptionManager({ logger, reconnect, store });
 
 	/**
-	 * Updates subscription metadata in the store for the provided subscription kind and identifier.
+	 * Writes an account received from a subscription to the cache.
 	 *
-	 * @param kind - Subscription bucket being updated.
-	 * @param id - Identifier for the subscription instance.
-	 * @param status - Status descriptor to store.
-	 * @returns Nothing; mutates the provided store.
+	 * @param address - Account address.
+	 * @param account - Account info, or `null` when the account was closed.
+	 * @param slot - Slot the notification was observed at.
+	 * @returns The cache entry that was written.
 	 */
-	function setSubscriptionStatus(kind: SubscriptionKind, id: string, status: SubscriptionStatus): void {
+	function writeAccount(
+		address: Address,
+		account: EncodedAccountInfo | null,
+		slot: bigint | null,
+	): AccountCacheEntry {
+		const entry: AccountCacheEntry = {
+			address,
+			data: account?.data,
+			decoded: decodeAccountInfo(accountDecoders, account),
+			error: undefined,
+			fetching: false,
+			lamports: account?.lamports ?? null,
+			lastFetchedAt: now(),
+			owner: account?.owner,
+			slot,
+		};
 		store.setState((state) => ({
 			...state,
-			lastUpdatedAt: now(),
-			subscriptions: {
-				...state.subscriptions,
-				[kind]: {
-					...state.subscriptions[kind],
-					[id]: status,
-				},
+			accounts: {
+				...state.accounts,
+				[address.toString()]: entry,
 			},
+			lastUpdatedAt: now(),
 		}));
-	}
-
-	/**
-	 * Handles abort events from active subscriptions.
-	 *
-	 * @param kind - Subscription category that was aborted.
-	 * @param id - Identifier for the subscription instance.
-	 * @returns Nothing; updates store status.
-	 */
-	function onAbort(kind: SubscriptionKind, id: string): void {
-		setSubscriptionStatus(kind, id, { status: 'inactive' });
-	}
-
-	/**
-	 * Creates a subscription handle that exposes an abort method.
-	 *
-	 * @param kind - Subscription category.
-	 * @param id - Identifier for the subscription instance.
-	 * @param abortController - Controller associated with the subscription.
-	 * @returns Handle with an `abort` method.
-	 */
-	function createSubscriptionHandle(kind: SubscriptionKind, id: string, abortController: AbortController) {
-		/**
-		 * Cancels the underlying subscription and updates store metadata.
-		 *
-		 * @returns Nothing; aborts the subscription.
-		 */
-		function abort(): void {
-			abortController.abort();
-			onAbort(kind, id);
-		}
-
-		return { abort };
-	}
-
-	/**
-	 * Consumes account notifications and synchronizes store cache with on-chain updates.
-	 *
-	 * @param config - Watcher configuration specifying the target account.
-	 * @param listener - Callback invoked with each account cache entry.
-	 * @param abortController - Abort controller tied to the subscription lifecycle.
-	 * @returns Promise that resolves when the subscription naturally completes.
-	 */
-	async function handleAccountNotifications(
-		config: AccountWatcherConfig,
-		listener: (account: AccountCacheEntry) => void,
-		abortController: AbortController,
-	): Promise<void> {
-		const commitment = config.commitment ?? store.getState().cluster.commitment;
-		const plan = runtime.rpcSubscriptions.accountNotifications(config.address, { commitment });
-		const key = config.address.toString();
-		setSubscriptionStatus('account', key, { status: 'activating' });
-		abortController.signal.addEventListener('abort', () => onAbort('account', key));
-		try {
-			const iterator = await plan.subscribe({ abortSignal: abortController.signal });
-			setSubscriptionStatus('account', key, { status: 'active' });
-			for await (const notification of iterator) {
-				const lamports = notification.value?.lamports ?? null;
-				const slot = notification.context?.slot ?? null;
-				const entry: AccountCacheEntry = {
-					address: config.address,
-					data: notification.value?.data,
-					error: undefined,
-					fetching: false,
-					lamports,
-					lastFetchedAt: now(),
-					slot,
-				};
-				listener(entry);
-				store.setState((state) => ({
-					...state,
-					accounts: {
-						...state.accounts,
-						[key]: entry,
-					},
-					lastUpdatedAt: now(),
-				}));
-			}
-		} catch (error) {
-			if (!abortController.signal.aborted) {
-				logger({
-					data: { address: key, ...formatError(error) },
-					level: 'error',
-					message: 'account subscription failed',
-				});
-				setSubscriptionStatus('account', key, { error, status: 'error' });
-			}
-		}
+		return entry;
 	}
 
 	/**
@@ -145,20 +109,33 @@ export function createWatchers({ logger: inputLogger, runtime, store }: WatcherD
 	 *
 	 * @param config - Watcher configuration specifying the target account.
 	 * @param listener - Callback invoked with updated account cache entries.
-	 * @returns Subscription handle that allows aborting the subscription.
+	 * @returns Subscription handle that releases this listener.
 	 */
 	function watchAccount(config: AccountWatcherConfig, listener: (account: AccountCacheEntry) => void) {
-		const abortController = new AbortController();
-		handleAccountNotifications(config, listener, abortController).catch((error) => {
-			if (!abortController.signal.aborted) {
-				logger({
-					data: { address: config.address.toString(), ...formatError(error) },
-					level: 'error',
-					message: 'account watcher error',
-				});
-			}
-		});
-		return createSubscriptionHandle('account', config.address.toString(), abortController);
+		const commitment = config.commitment ?? store.getState().cluster.commitment;
+		const key = config.address.toString();
+		return subscriptions.subscribe(
+			{
+				async backfill(abortSignal): Promise<AccountNotification | undefined> {
+					const response = await runtime.rpc
+						.getAccountInfo(config.address, { commitment, encoding: 'base64' })
+						.send({ abortSignal });
+					const cachedSlot = store.getState().accounts[key]?.slot;
+					return cachedSlot != null && cachedSlot > response.context.slot ? undefined : response;
+				},
+				id: key,
+				key: `account:${key}:${commitment}`,
+				kind: 'account',
+				logData: { address: key },
+				map: (notification: AccountNotification) =>
+					writeAccount(config.address, notification.value ?? null, notification.context?.slot ?? null),
+				subscribe: (abortSignal) =>
+					runtime.rpcSubscriptions
+						.accountNotifications(config.address, { commitment, encoding: 'base64' })
+						.subscribe({ abortSignal }),
+			},
+			listener,
+		);
 	}
 
 	/**
@@ -166,7 +143,7 @@ export function createWatchers({ logger: inputLogger, runtime, store }: WatcherD
 	 *
 	 * @param config - Watcher configuration specifying the target account.
 	 * @param listener - Callback invoked with balance updates.
-	 * @returns Subscription handle that allows aborting the subscription.
+	 * @returns Subscription handle that releases this listener.
 	 */
 	function watchBalance(config: BalanceWatcherConfig, listener: (lamports: Lamports) => void) {
 		return watchAccount(config, (account) => {
@@ -177,80 +154,148 @@ export function createWatchers({ logger: inputLogger, runtime, store }: WatcherD
 	}
 
 	/**
-	 * Consumes signature notifications and updates transaction metadata.
+	 * Subscribes to signature status updates for a submitted transaction.
 	 *
 	 * @param config - Watcher configuration containing the signature to observe.
-	 * @param listener - Callback invoked with each subscription notification payload.
-	 * @param abortController - Abort controller tied to the subscription lifecycle.
-	 * @returns Promise that resolves when the subscription naturally completes.
+	 * @param listener - Callback invoked for each notification received.
+	 * @returns Subscription handle that releases this listener.
 	 */
-	async function handleSignatureNotifications(
-		config: SignatureWatcherConfig,
-		listener: (notification: unknown) => void,
-		abortController: AbortController,
-	): Promise<void> {
+	function watchSignature(config: SignatureWatcherConfig, listener: (notification: unknown) => void) {
 		const commitment = config.commitment ?? store.getState().cluster.commitment;
-		const plan = runtime.rpcSubscriptions.signatureNotifications(config.signature, {
-			commitment,
-			enableReceivedNotification: config.enableReceivedNotification,
-		} as Parameters<SolanaRpcSubscriptionsApi['signatureNotifications']>[1]);
 		const key = config.signature.toString();
-		setSubscriptionStatus('signature', key, { status: 'activating' });
-		abortController.signal.addEventListener('abort', () => onAbort('signature', key));
-		try {
-			const iterator = await plan.subscribe({ abortSignal: abortController.signal });
-			setSubscriptionStatus('signature', key, { status: 'active' });
-			for await (const notification of iterator) {
-				listener(notification);
-				store.setState((state) => ({
-					...state,
-					lastUpdatedAt: now(),
-					transactions: {
-						...state.transactions,
-						[key]: {
-							lastUpdatedAt: now(),
-							signature: config.signature,
-							status: 'waiting',
-						},
-					},
-				}));
-			}
-		} catch (error) {
-			if (!abortController.signal.aborted) {
-				logger({
-					data: { signature: key, ...formatError(error) },
-					level: 'error',
-					message: 'signature subscription failed',
-				});
-				setSubscriptionStatus('signature', key, { error, status: 'error' });
-			}
-		}
+		return subscriptions.subscribe(
+			{
+				id: key,
+				key: `signature:${key}:${commitment}:${config.enableReceivedNotification ? 'received' : 'processed'}`,
+				kind: 'signature',
+				logData: { signature: key },
+				map(notification: unknown) {
+					transactionRecorder.observe(key, config.signature);
+					return notification;
+				},
+				subscribe: (abortSignal) =>
+					runtime.rpcSubscriptions
+						.signatureNotifications(config.signature, {
+							commitment,
+							enableReceivedNotification: config.enableReceivedNotification,
+						} as Parameters<SolanaRpcSubscriptionsApi['signatureNotifications']>[1])
+						.subscribe({ abortSignal }),
+			},
+			listener,
+		);
 	}
 
 	/**
-	 * Subscribes to signature status updates for a submitted transaction.
+	 * Subscribes to transaction logs, optionally limited to transactions mentioning an address.
 	 *
-	 * @param config - Watcher configuration containing the signature to observe.
-	 * @param listener - Callback invoked for each notification received.
-	 * @returns Subscription handle that allows aborting the subscription.
+	 * @param config - Watcher configuration with the optional address filter.
+	 * @param listener - Callback invoked with each log notification.
+	 * @returns Subscription handle that releases this listener.
 	 */
-	function watchSignature(config: SignatureWatcherConfig, listener: (notification: unknown) => void) {
-		const abortController = new AbortController();
-		handleSignatureNotifications(config, listener, abortController).catch((error) => {
-			if (!abortController.signal.aborted) {
-				logger({
-					data: { signature: config.signature.toString(), ...formatError(error) },
-					level: 'error',
-					message: 'signature watcher error',
-				});
-			}
-		});
-		return createSubscriptionHandle('signature', config.signature.toString(), abortController);
+	function watchLogs(config: LogsWatcherConfig, listener: (notification: LogsNotification) => void) {
+		const commitment = config.commitment ?? store.getState().cluster.commitment;
+		const id = config.mentions?.toString() ?? 'all';
+		return subscriptions.subscribe(
+			{
+				id,
+				key: `logs:${id}:${commitment}`,
+				kind: 'logs',
+				logData: { mentions: id },
+				map: (notification: LogsSubscriptionNotification): LogsNotification => ({
+					err: notification.value.err,
+					logs: notification.value.logs,
+					signature: notification.value.signature,
+					slot: notification.context.slot,
+				}),
+				subscribe: (abortSignal) =>
+					(config.mentions
+						? runtime.rpcSubscriptions.logsNotifications({ mentions: [config.mentions] }, { commitment })
+						: runtime.rpcSubscriptions.logsNotifications('all', { commitment })
+					).subscribe({ abortSignal }),
+			},
+			listener,
+		);
+	}
+
+	/**
+	 * Subscribes to changes of accounts owned by a program and keeps the account cache in sync.
+	 *
+	 * @param config - Watcher configuration with the program address and optional filters.
+	 * @param listener - Callback invoked with each changed account.
+	 * @returns Subscription handle that releases this listener.
+	 */
+	function watchProgramAccounts(
+		config: ProgramAccountsWatcherConfig,
+		listener: (account: AccountCacheEntry) => void,
+	) {
+		const commitment = config.commitment ?? store.getState().cluster.commitment;
+		const id = config.programAddress.toString();
+		return subscriptions.subscribe(
+			{
+				id,
+				key: `programAccounts:${id}:${commitment}:${stableStringify(config.filters ?? [])}`,
+				kind: 'programAccounts',
+				logData: { programAddress: id },
+				map: (notification: ProgramAccountNotification) =>
+					writeAccount(notification.value.pubkey, notification.value.account, notification.context.slot),
+				subscribe: (abortSignal) =>
+					runtime.rpcSubscriptions
+						.programNotifications(config.programAddress, {
+							commitment,
+							encoding: 'base64',
+							filters: config.filters,
+						})
+						.subscribe({ abortSignal }),
+			},
+			listener,
+		);
+	}
+
+	/**
+	 * Subscribes to slot updates from the connected validator.
+	 *
+	 * @param listener - Callback invoked with each processed slot.
+	 * @returns Subscription handle that releases this listener.
+	 */
+	function watchSlot(listener: (notification: SlotNotification) => void) {
+		return subscriptions.subscribe(
+			{
+				id: 'slot',
+				key: 'slot',
+				kind: 'slot',
+				map: (notification: SlotNotification) => notification,
+				subscribe: (abortSignal) => runtime.rpcSubscriptions.slotNotifications().subscribe({ abortSignal }),
+			},
+			listener,
+		);
+	}
+
+	/**
+	 * Subscribes to root slot updates from the connected validator.
+	 *
+	 * @param listener - Callback invoked with each new root.
+	 * @returns Subscription handle that releases this listener.
+	 */
+	function watchRoot(listener: (root: bigint) => void) {
+		return subscriptions.subscribe(
+			{
+				id: 'root',
+				key: 'root',
+				kind: 'root',
+				map: (root: bigint) => root,
+				subscribe: (abortSignal) => runtime.rpcSubscriptions.rootNotifications().subscribe({ abortSignal }),
+			},
+			listener,
+		);
 	}
 
 	return {
 		watchAccount,
 		watchBalance,
+		watchLogs,
+		watchProgramAccounts,
+		watchRoot,
 		watchSignature,
+		watchSlot,
 	};
 }
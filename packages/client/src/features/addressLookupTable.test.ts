@@ -0,0 +1,122 @@
+import {
+	address,
+	getAddressEncoder,
+	getProgramDerivedAddress,
+	getU64Encoder,
+	type Signature,
+	type TransactionSigner,
+} from '@solana/kit';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { AddressLookupTableCache } from '../transactions/addressLookupTables';
+import type { SolanaClientRuntime } from '../types';
+import {
+	ADDRESS_LOOKUP_TABLE_PROGRAM_ADDRESS,
+	createAddressLookupTableHelper,
+	decodeAddressLookupTable,
+} from './addressLookupTable';
+import { createTransactionHelper } from './transactions';
+
+const AUTHORITY = address('9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin');
+const TABLE = address('SysvarC1ock11111111111111111111111111111111');
+const ENTRY = address('So11111111111111111111111111111111111111112');
+
+function createRuntime() {
+	return {
+		rpc: {
+			getAccountInfo: vi.fn(),
+			getLatestBlockhash: vi.fn(() => ({
+				send: vi.fn().mockResolvedValue({ value: { blockhash: ENTRY, lastValidBlockHeight: 10n } }),
+			})),
+			getSlot: vi.fn(() => ({ send: vi.fn().mockResolvedValue(500n) })),
+		},
+	} as unknown as SolanaClientRuntime;
+}
+
+function createCache(): AddressLookupTableCache {
+	return { clear: vi.fn(), fetch: vi.fn(), invalidate: vi.fn() };
+}
+
+function createHelper(runtime = createRuntime(), cache = createCache()) {
+	const transactions = createTransactionHelper(runtime, () => 'confirmed', undefined, cache);
+	const send = vi.fn(async () => '5'.repeat(88) as Signature);
+	const helper = createAddressLookupTableHelper(runtime, { ...transactions, send }, cache);
+	return { cache, helper, runtime, send };
+}
+
+describe('address lookup table helper', () => {
+	const authority = { address: AUTHORITY, signTransactions: vi.fn() } as unknown as TransactionSigner;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('derives the table from the authority and a finalized slot and extends it in the same transaction', async () => {
+		const { helper, runtime } = createHelper();
+
+		const prepared = await helper.prepareCreate({ addresses: [ENTRY], authority });
+
+		const [expected, bump] = await getProgramDerivedAddress({
+			programAddress: ADDRESS_LOOKUP_TABLE_PROGRAM_ADDRESS,
+			seeds: [getAddressEncoder().encode(AUTHORITY), getU64Encoder().encode(500n)],
+		});
+		expect(runtime.rpc.getSlot).toHaveBeenCalledWith({ commitment: 'finalized' });
+		expect(prepared.lookupTable).toBe(expected);
+		expect(prepared.feePayer).toBe(AUTHORITY);
+		const [create, extend] = prepared.instructions;
+		expect([...(create.data ?? [])]).toEqual([0, 0, 0, 0, ...getU64Encoder().encode(500n), bump]);
+		expect([...(extend.data ?? [])].slice(0, 12)).toEqual([2, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0]);
+		expect(extend.accounts?.[0]).toEqual({ address: expected, role: 1 });
+	});
+
+	it('rejects initial addresses that do not fit in one transaction and says how many do', async () => {
+		const { helper } = createHelper();
+		const addresses = Array.from({ length: 40 }, () => ENTRY);
+
+		const error = await helper.prepareCreate({ addresses, authority }).catch((reason: Error) => reason);
+
+		expect(error).toBeInstanceOf(Error);
+		const fitting = Number((error as Error).message.match(/at most (\d+) fit/)?.[1]);
+		expect(fitting).toBeGreaterThan(0);
+		await expect(
+			helper.prepareCreate({ addresses: addresses.slice(0, fitting), authority }),
+		).resolves.toBeDefined();
+		await expect(helper.prepareCreate({ addresses: addresses.slice(0, fitting + 1), authority })).rejects.toThrow(
+			'add the rest with `extend`',
+		);
+	});
+
+	it('sends through the transaction helper and invalidates the cached table after a change', async () => {
+		const { cache, helper, send } = createHelper();
+
+		await helper.deactivate({ authority, lookupTable: TABLE }, { skipPreflight: true });
+
+		expect(send).toHaveBeenCalledWith(expect.objectContaining({ lookupTable: TABLE, operation: 'deactivate' }), {
+			skipPreflight: true,
+		});
+		expect(cache.invalidate).toHaveBeenCalledWith(TABLE);
+		await expect(helper.extend({ addresses: [], authority, lookupTable: TABLE })).rejects.toThrow(
+			'Provide at least one address',
+		);
+	});
+
+	it('decodes table metadata and stored addresses', () => {
+		const data = new Uint8Array(56 + 32);
+		const view = new DataView(data.buffer);
+		view.setUint32(0, 1, true);
+		view.setBigUint64(4, 0xffff_ffff_ffff_ffffn, true);
+		view.setBigUint64(12, 42n, true);
+		data[21] = 1;
+		data.set(getAddressEncoder().encode(AUTHORITY), 22);
+		data.set(getAddressEncoder().encode(ENTRY), 56);
+
+		expect(decodeAddressLookupTable(TABLE, data)).toEqual({
+			address: TABLE,
+			addresses: [ENTRY],
+			authority: AUTHORITY,
+			deactivationSlot: undefined,
+			lastExtendedSlot: 42n,
+		});
+		expect(() => decodeAddressLookupTable(TABLE, new Uint8Array(8))).toThrow('is not an address lookup table');
+	});
+});
@@ -0,0 +1,299 @@
+import {
+	type Address,
+	type Commitment,
+	getBase64Encoder,
+	isSome,
+	type Slot,
+	type signature,
+	TRANSACTION_SIZE_LIMIT,
+	type TransactionSigner,
+} from '@solana/kit';
+import {
+	ADDRESS_LOOKUP_TABLE_PROGRAM_ADDRESS,
+	getAddressLookupTableDecoder,
+	getCloseLookupTableInstruction,
+	getCreateLookupTableInstructionAsync,
+	getDeactivateLookupTableInstruction,
+	getExtendLookupTableInstruction,
+} from '@solana-program/address-lookup-table';
+
+import { type AddressLookupTableCache, createAddressLookupTableCache } from '../transactions/addressLookupTables';
+import type { SolanaClientRuntime } from '../types';
+import { type AddressLike, toAddress } from '../utils/addressLike';
+import {
+	type HelperAuthority,
+	type HelperTransactionOptions,
+	prepareHelperTransaction,
+	resolveHelperSigner,
+	toPrepareRequest,
+} from './helperTransactions';
+import type { TransactionHelper, TransactionPrepared, TransactionSendOptions } from './transactions';
+
+export { ADDRESS_LOOKUP_TABLE_PROGRAM_ADDRESS };
+
+type AddressLookupTableOperationConfig = HelperTransactionOptions &
+	Readonly<{
+		/** Signs the transaction, pays its fee and must be the table's authority. */
+		authority: HelperAuthority;
+	}>;
+
+export type AddressLookupTableCreateConfig = AddressLookupTableOperationConfig &
+	Readonly<{
+		/**
+		 * Addresses appended in the same transaction. Rejected when they do not fit alongside the create instruction;
+		 * add the rest with `extend`.
+		 */
+		addresses?: readonly AddressLike[];
+		/** Recent slot the table address is derived from. Defaults to the latest finalized slot. */
+		recentSlot?: Slot;
+	}>;
+
+export type AddressLookupTableExtendConfig = AddressLookupTableOperationConfig &
+	Readonly<{
+		addresses: readonly AddressLike[];
+		lookupTable: AddressLike;
+	}>;
+
+export type AddressLookupTableDeactivateConfig = AddressLookupTableOperationConfig &
+	Readonly<{
+		lookupTable: AddressLike;
+	}>;
+
+export type AddressLookupTableCloseConfig = AddressLookupTableOperationConfig &
+	Readonly<{
+		lookupTable: AddressLike;
+		/** Receives the reclaimed rent. Defaults to the authority. */
+		recipient?: AddressLike;
+	}>;
+
+export type AddressLookupTableAccount = Readonly<{
+	address: Address;
+	addresses: readonly Address[];
+	/** `undefined` once the table has been frozen. */
+	authority?: Address;
+	/** Slot the table was deactivated in; `undefined` while it is active. */
+	deactivationSlot?: Slot;
+	lastExtendedSlot: Slot;
+}>;
+
+export type PreparedAddressLookupTableOperation = TransactionPrepared &
+	Readonly<{
+		lookupTable: Address;
+		operation: 'close' | 'create' | 'deactivate' | 'extend';
+	}>;
+
+export type AddressLookupTableHelper = Readonly<{
+	close(
+		config: AddressLookupTableCloseConfig,
+		options?: TransactionSendOptions,
+	): Promise<ReturnType<typeof signature>>;
+	create(
+		config: AddressLookupTableCreateConfig,
+		options?: TransactionSendOptions,
+	): Promise<Readonly<{ lookupTable: Address; signature: ReturnType<typeof signature> }>>;
+	deactivate(
+		config: AddressLookupTableDeactivateConfig,
+		options?: TransactionSendOptions,
+	): Promise<ReturnType<typeof signature>>;
+	extend(
+		config: AddressLookupTableExtendConfig,
+		options?: TransactionSendOptions,
+	): Promise<ReturnType<typeof signature>>;
+	/** Reads and decodes a lookup table; resolves to `null` when the account does not exist. */
+	fetch(lookupTable: AddressLike, commitment?: Commitment): Promise<AddressLookupTableAccount | null>;
+	prepareClose(config: AddressLookupTableCloseConfig): Promise<PreparedAddressLookupTableOperation>;
+	prepareCreate(config: AddressLookupTableCreateConfig): Promise<PreparedAddressLookupTableOperation>;
+	prepareDeactivate(config: AddressLookupTableDeactivateConfig): Promise<PreparedAddressLookupTableOperation>;
+	prepareExtend(config: AddressLookupTableExtendConfig): Promise<PreparedAddressLookupTableOperation>;
+	sendPrepared(
+		prepared: PreparedAddressLookupTableOperation,
+		options?: TransactionSendOptions,
+	): Promise<ReturnType<typeof signature>>;
+}>;
+
+/** Size of the table metadata that precedes the stored addresses. */
+const LOOKUP_TABLE_META_SIZE = 56;
+const ACTIVE_DEACTIVATION_SLOT = 0xffff_ffff_ffff_ffffn;
+/** Bytes each address adds to an extend instruction. */
+const ADDRESS_SIZE = 32;
+
+/**
+ * Decodes the raw bytes of an address lookup table account.
+ *
+ * @param lookupTable - Address of the table.
+ * @param data - Account data.
+ * @returns Decoded table.
+ */
+export function decodeAddressLookupTable(lookupTable: Address, data: Uint8Array): AddressLookupTableAccount {
+	if (data.length < LOOKUP_TABLE_META_SIZE) {
+		throw new Error(`Account ${lookupTable} is not an address lookup table.`);
+	}
+	const table = getAddressLookupTableDecoder().decode(data);
+	return Object.freeze({
+		address: lookupTable,
+		addresses: Object.freeze(table.addresses),
+		authority: isSome(table.authority) ? table.authority.value : undefined,
+		deactivationSlot: table.deactivationSlot === ACTIVE_DEACTIVATION_SLOT ? undefined : table.deactivationSlot,
+		lastExtendedSlot: table.lastExtendedSlot,
+	});
+}
+
+/**
+ * Creates helpers that create, extend, deactivate, close and read address lookup tables. Operations are prepared and
+ * sent through the given transaction helper.
+ *
+ * @param runtime - Client runtime.
+ * @param transactionHelper - Helper preparing and sending the transactions.
+ * @param lookupTableCache - Cache used by transaction preparation; tables are invalidated after every change.
+ * @returns Address lookup table helper.
+ */
+export function createAddressLookupTableHelper(
+	runtime: SolanaClientRuntime,
+	transactionHelper: TransactionHelper,
+	lookupTableCache: AddressLookupTableCache = createAddressLookupTableCache(),
+): AddressLookupTableHelper {
+	async function prepareOperation(
+		config: AddressLookupTableOperationConfig,
+		operation: PreparedAddressLookupTableOperation['operation'],
+		lookupTable: Address,
+		signer: TransactionSigner,
+		instructions: Parameters<typeof prepareHelperTransaction>[3],
+	): Promise<PreparedAddressLookupTableOperation> {
+		const prepared = await prepareHelperTransaction(transactionHelper, config, signer, instructions);
+		return Object.freeze({ ...prepared, lookupTable, operation });
+	}
+
+	async function assertAddressesFit(
+		config: AddressLookupTableOperationConfig,
+		signer: TransactionSigner,
+		instructions: Parameters<typeof prepareHelperTransaction>[3],
+		count: number,
+		advice: string,
+	): Promise<void> {
+		const size = await transactionHelper.measure(toPrepareRequest(config, signer, instructions));
+		if (size <= TRANSACTION_SIZE_LIMIT) {
+			return;
+		}
+		const fitting = Math.max(0, count - Math.ceil((size - TRANSACTION_SIZE_LIMIT) / ADDRESS_SIZE));
+		throw new Error(
+			`Adding ${count} addresses makes the transaction ${size} bytes, over the ${TRANSACTION_SIZE_LIMIT}-byte limit; at most ${fitting} fit in one transaction. ${advice}`,
+		);
+	}
+
+	async function prepareCreate(config: AddressLookupTableCreateConfig): Promise<PreparedAddressLookupTableOperation> {
+		const signer = resolveHelperSigner(config.authority, config.commitment);
+		const recentSlot = config.recentSlot ?? (await runtime.rpc.getSlot({ commitment: 'finalized' }).send());
+		const create = await getCreateLookupTableInstructionAsync({ authority: signer, payer: signer, recentSlot });
+		const lookupTable = create.accounts[0].address;
+		const addresses = (config.addresses ?? []).map(toAddress);
+		if (!addresses.length) {
+			return prepareOperation(config, 'create', lookupTable, signer, [create]);
+		}
+		const instructions = [
+			create,
+			getExtendLookupTableInstruction({ address: lookupTable, addresses, authority: signer, payer: signer }),
+		];
+		await assertAddressesFit(
+			config,
+			signer,
+			instructions,
+			addresses.length,
+			'Create the table with fewer `addresses` and add the rest with `extend`.',
+		);
+		return prepareOperation(config, 'create', lookupTable, signer, instructions);
+	}
+
+	async function prepareExtend(config: AddressLookupTableExtendConfig): Promise<PreparedAddressLookupTableOperation> {
+		if (!config.addresses.length) {
+			throw new Error('Provide at least one address to add to the lookup table.');
+		}
+		const lookupTable = toAddress(config.lookupTable);
+		const signer = resolveHelperSigner(config.authority, config.commitment);
+		const instructions = [
+			getExtendLookupTableInstruction({
+				address: lookupTable,
+				addresses: config.addresses.map(toAddress),
+				authority: signer,
+				payer: signer,
+			}),
+		];
+		await assertAddressesFit(
+			config,
+			signer,
+			instructions,
+			config.addresses.length,
+			'Split them across several `extend` calls.',
+		);
+		return prepareOperation(config, 'extend', lookupTable, signer, instructions);
+	}
+
+	function prepareDeactivate(
+		config: AddressLookupTableDeactivateConfig,
+	): Promise<PreparedAddressLookupTableOperation> {
+		const lookupTable = toAddress(config.lookupTable);
+		const signer = resolveHelperSigner(config.authority, config.commitment);
+		return prepareOperation(config, 'deactivate', lookupTable, signer, [
+			getDeactivateLookupTableInstruction({ address: lookupTable, authority: signer }),
+		]);
+	}
+
+	function prepareClose(config: AddressLookupTableCloseConfig): Promise<PreparedAddressLookupTableOperation> {
+		const lookupTable = toAddress(config.lookupTable);
+		const signer = resolveHelperSigner(config.authority, config.commitment);
+		return prepareOperation(config, 'close', lookupTable, signer, [
+			getCloseLookupTableInstruction({
+				address: lookupTable,
+				authority: signer,
+				recipient: config.recipient ? toAddress(config.recipient) : signer.address,
+			}),
+		]);
+	}
+
+	async function sendPrepared(
+		prepared: PreparedAddressLookupTableOperation,
+		options?: TransactionSendOptions,
+	): Promise<ReturnType<typeof signature>> {
+		try {
+			return await transactionHelper.send(prepared, options);
+		} finally {
+			lookupTableCache.invalidate(prepared.lookupTable);
+		}
+	}
+
+	async function fetch(lookupTable: AddressLike, commitment?: Commitment): Promise<AddressLookupTableAccount | null> {
+		const tableAddress = toAddress(lookupTable);
+		const { value } = await runtime.rpc.getAccountInfo(tableAddress, { commitment, encoding: 'base64' }).send();
+		if (!value) {
+			return null;
+		}
+		if (value.owner !== ADDRESS_LOOKUP_TABLE_PROGRAM_ADDRESS) {
+			throw new Error(`Account ${tableAddress} is not owned by the address lookup table program.`);
+		}
+		return decodeAddressLookupTable(tableAddress, new Uint8Array(getBase64Encoder().encode(value.data[0])));
+	}
+
+	return Object.freeze({
+		async close(config: AddressLookupTableCloseConfig, options?: TransactionSendOptions) {
+			return sendPrepared(await prepareClose(config), options);
+		},
+		async create(config: AddressLookupTableCreateConfig, options?: TransactionSendOptions) {
+			const prepared = await prepareCreate(config);
+			return Object.freeze({
+				lookupTable: prepared.lookupTable,
+				signature: await sendPrepared(prepared, options),
+			});
+		},
+		async deactivate(config: AddressLookupTableDeactivateConfig, options?: TransactionSendOptions) {
+			return sendPrepared(await prepareDeactivate(config), options);
+		},
+		async extend(config: AddressLookupTableExtendConfig, options?: TransactionSendOptions) {
+			return sendPrepared(await prepareExtend(config), options);
+		},
+		fetch,
+		prepareClose,
+		prepareCreate,
+		prepareDeactivate,
+		prepareExtend,
+		sendPrepared,
+	});
+}
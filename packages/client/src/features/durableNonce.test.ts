@@ -0,0 +1,80 @@
+import {
+	address,
+	generateKeyPairSigner,
+	getAddressEncoder,
+	getSignersFromTransactionMessage,
+	type Signature,
+	type TransactionSigner,
+} from '@solana/kit';
+import { getNonceSize, SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { SolanaClientRuntime } from '../types';
+import { createDurableNonceHelper } from './durableNonce';
+import { createTransactionHelper } from './transactions';
+
+const PAYER = address('9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin');
+const OTHER_AUTHORITY = address('So11111111111111111111111111111111111111112');
+
+function createHelper() {
+	const runtime = {
+		rpc: {
+			getLatestBlockhash: vi.fn(() => ({
+				send: vi.fn().mockResolvedValue({ value: { blockhash: PAYER, lastValidBlockHeight: 10n } }),
+			})),
+			getMinimumBalanceForRentExemption: vi.fn(() => ({ send: vi.fn().mockResolvedValue(1_447_680n) })),
+		},
+	} as unknown as SolanaClientRuntime;
+	const send = vi.fn(async () => '5'.repeat(88) as Signature);
+	const helper = createDurableNonceHelper(runtime, {
+		...createTransactionHelper(runtime, () => 'confirmed'),
+		send,
+	});
+	return { helper, runtime, send };
+}
+
+describe('durable nonce helper', () => {
+	const payer = { address: PAYER, signTransactions: vi.fn() } as unknown as TransactionSigner;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('creates a rent-exempt account and initializes it as a nonce', async () => {
+		const { helper, runtime } = createHelper();
+		const nonceAccount = await generateKeyPairSigner();
+
+		const prepared = await helper.prepareCreate({
+			authority: payer,
+			nonceAccount,
+			nonceAuthority: OTHER_AUTHORITY,
+		});
+
+		expect(runtime.rpc.getMinimumBalanceForRentExemption).toHaveBeenCalledWith(BigInt(getNonceSize()), {
+			commitment: undefined,
+		});
+		expect(prepared.nonceAccount).toBe(nonceAccount.address);
+		const [create, initialize] = prepared.instructions;
+		expect(create.programAddress).toBe(SYSTEM_PROGRAM_ADDRESS);
+		expect(create.accounts?.[1]?.address).toBe(nonceAccount.address);
+		expect(initialize.accounts?.[0]?.address).toBe(nonceAccount.address);
+		expect([...(initialize.data ?? [])].slice(4)).toEqual([...getAddressEncoder().encode(OTHER_AUTHORITY)]);
+		expect(getSignersFromTransactionMessage(prepared.message).map((signer) => signer.address)).toEqual(
+			expect.arrayContaining([PAYER, nonceAccount.address]),
+		);
+	});
+
+	it('generates the nonce account keypair, skips the rent lookup when lamports are given and sends with priority fees', async () => {
+		const { helper, runtime, send } = createHelper();
+
+		const result = await helper.create({ authority: payer, computeUnitPrice: 5n, lamports: 2_000_000 });
+
+		expect(runtime.rpc.getMinimumBalanceForRentExemption).not.toHaveBeenCalled();
+		expect(send).toHaveBeenCalledWith(
+			expect.objectContaining({ computeUnitPrice: 5n, nonceAccount: result.nonceAccount }),
+			undefined,
+		);
+		expect(result.nonceAccount).not.toBe(PAYER);
+		expect(result.signature).toBe('5'.repeat(88));
+	});
+});
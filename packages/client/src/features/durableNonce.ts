@@ -0,0 +1,107 @@
+import {
+	type Address,
+	type Commitment,
+	generateKeyPairSigner,
+	lamports,
+	type signature,
+	type TransactionSigner,
+} from '@solana/kit';
+import {
+	getCreateAccountInstruction,
+	getInitializeNonceAccountInstruction,
+	getNonceSize,
+	SYSTEM_PROGRAM_ADDRESS,
+} from '@solana-program/system';
+
+import { fetchNonceAccount, type NonceAccount } from '../transactions/nonceLifetime';
+import type { SolanaClientRuntime } from '../types';
+import { type AddressLike, toAddress } from '../utils/addressLike';
+import {
+	type HelperAuthority,
+	type HelperTransactionOptions,
+	prepareHelperTransaction,
+	resolveHelperSigner,
+} from './helperTransactions';
+import type { TransactionHelper, TransactionPrepared, TransactionSendOptions } from './transactions';
+
+export type DurableNonceCreateConfig = HelperTransactionOptions &
+	Readonly<{
+		/** Funds the new account, pays the fee and becomes the nonce authority unless `nonceAuthority` is set. */
+		authority: HelperAuthority;
+		/** Lamports moved into the account. Defaults to the rent-exempt minimum. */
+		lamports?: bigint | number;
+		/** Keypair of the new account. A fresh one is generated when omitted. */
+		nonceAccount?: TransactionSigner;
+		/** Account allowed to advance the nonce. Defaults to the authority. */
+		nonceAuthority?: AddressLike;
+	}>;
+
+export type PreparedDurableNonceCreate = TransactionPrepared & Readonly<{ nonceAccount: Address }>;
+
+export type DurableNonceHelper = Readonly<{
+	create(
+		config: DurableNonceCreateConfig,
+		options?: TransactionSendOptions,
+	): Promise<Readonly<{ nonceAccount: Address; signature: ReturnType<typeof signature> }>>;
+	/** Reads a nonce account; resolves to `null` when the account does not exist. */
+	fetch(nonceAccount: AddressLike, commitment?: Commitment): Promise<NonceAccount | null>;
+	/** Creates and initializes a nonce account. Its keypair signs alongside the authority when the result is sent. */
+	prepareCreate(config: DurableNonceCreateConfig): Promise<PreparedDurableNonceCreate>;
+	sendPrepared(
+		prepared: PreparedDurableNonceCreate,
+		options?: TransactionSendOptions,
+	): Promise<ReturnType<typeof signature>>;
+}>;
+
+/**
+ * Creates helpers that set up and read durable nonce accounts, used as transaction lifetimes that do not expire.
+ * Accounts are created through the given transaction helper.
+ *
+ * @param runtime - Client runtime.
+ * @param transactionHelper - Helper preparing and sending the transactions.
+ * @returns Durable nonce helper.
+ */
+export function createDurableNonceHelper(
+	runtime: SolanaClientRuntime,
+	transactionHelper: TransactionHelper,
+): DurableNonceHelper {
+	async function prepareCreate(config: DurableNonceCreateConfig): Promise<PreparedDurableNonceCreate> {
+		const signer = resolveHelperSigner(config.authority, config.commitment);
+		const nonceAccount = config.nonceAccount ?? (await generateKeyPairSigner());
+		const space = getNonceSize();
+		const rent =
+			config.lamports === undefined
+				? await runtime.rpc
+						.getMinimumBalanceForRentExemption(BigInt(space), { commitment: config.commitment })
+						.send({ abortSignal: config.abortSignal })
+				: lamports(BigInt(config.lamports));
+		const prepared = await prepareHelperTransaction(transactionHelper, config, signer, [
+			getCreateAccountInstruction({
+				lamports: rent,
+				newAccount: nonceAccount,
+				payer: signer,
+				programAddress: SYSTEM_PROGRAM_ADDRESS,
+				space,
+			}),
+			getInitializeNonceAccountInstruction({
+				nonceAccount: nonceAccount.address,
+				nonceAuthority: config.nonceAuthority ? toAddress(config.nonceAuthority) : signer.address,
+			}),
+		]);
+		return Object.freeze({ ...prepared, nonceAccount: nonceAccount.address });
+	}
+
+	return Object.freeze({
+		async create(config: DurableNonceCreateConfig, options?: TransactionSendOptions) {
+			const prepared = await prepareCreate(config);
+			return Object.freeze({
+				nonceAccount: prepared.nonceAccount,
+				signature: await transactionHelper.send(prepared, options),
+			});
+		},
+		fetch: (nonceAccount: AddressLike, commitment?: Commitment) =>
+			fetchNonceAccount(runtime.rpc, nonceAccount, { commitment }),
+		prepareCreate,
+		sendPrepared: transactionHelper.send,
+	});
+}
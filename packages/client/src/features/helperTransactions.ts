@@ -0,0 +1,70 @@
+import type { Commitment, Instruction, TransactionSigner } from '@solana/kit';
+
+import { createWalletTransactionSigner, isWalletSession } from '../signers/walletTransactionSigner';
+import type { WalletSession } from '../types';
+import type { TransactionHelper, TransactionPrepared, TransactionPrepareRequest } from './transactions';
+
+export type HelperAuthority = TransactionSigner<string> | WalletSession;
+
+/** Transaction options feature helpers forward to {@link TransactionHelper.prepare}. */
+export type HelperTransactionOptions = Pick<
+	TransactionPrepareRequest,
+	'abortSignal' | 'commitment' | 'computeUnitLimit' | 'computeUnitPrice' | 'lifetime' | 'version'
+>;
+
+/**
+ * Resolves the authority of a feature helper to a single signer, so the instructions and the fee payer share it.
+ *
+ * @param authority - Signer or wallet session.
+ * @param commitment - Commitment used when the wallet sends the transaction itself.
+ * @returns Transaction signer.
+ */
+export function resolveHelperSigner(authority: HelperAuthority, commitment?: Commitment): TransactionSigner {
+	if (isWalletSession(authority)) {
+		return createWalletTransactionSigner(authority, { commitment }).signer;
+	}
+	return authority;
+}
+
+/**
+ * Prepares the instructions of a feature helper with the transaction helper, paid for by `signer`.
+ *
+ * @param transactionHelper - Helper preparing the transaction.
+ * @param options - Transaction options given to the feature helper.
+ * @param signer - Resolved authority.
+ * @param instructions - Instructions to send.
+ * @returns Prepared transaction.
+ */
+export function prepareHelperTransaction(
+	transactionHelper: TransactionHelper,
+	options: HelperTransactionOptions,
+	signer: TransactionSigner,
+	instructions: readonly Instruction[],
+): Promise<TransactionPrepared> {
+	return transactionHelper.prepare(toPrepareRequest(options, signer, instructions));
+}
+
+/**
+ * Builds the prepare request for the instructions of a feature helper, e.g. to measure it first.
+ *
+ * @param options - Transaction options given to the feature helper.
+ * @param signer - Resolved authority.
+ * @param instructions - Instructions to send.
+ * @returns Prepare request.
+ */
+export function toPrepareRequest(
+	options: HelperTransactionOptions,
+	signer: TransactionSigner,
+	instructions: readonly Instruction[],
+): TransactionPrepareRequest {
+	return {
+		abortSignal: options.abortSignal,
+		authority: signer,
+		commitment: options.commitment,
+		computeUnitLimit: options.computeUnitLimit,
+		computeUnitPrice: options.computeUnitPrice,
+		instructions,
+		lifetime: options.lifetime,
+		version: options.version,
+	};
+}
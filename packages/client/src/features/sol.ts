@@ -11,7 +11,6 @@ import {
 	pipe,
 	type Slot,
 	setTransactionMessageFeePayer,
-	setTransactionMessageLifetimeUsingBlockhash,
 	signAndSendTransactionMessageWithSigners,
 	signature,
 	signTransactionMessageWithSigners,
@@ -22,6 +21,13 @@ import { getTransferSolInstruction } from '@solana-program/system';
 
 import { lamportsMath } from '../numeric/lamports';
 import { createWalletTransactionSigner, isWalletSession, resolveSignerMode } from '../signers/walletTransactionSigner';
+import {
+	type DurableNonceLifetime,
+	type DurableNonceLifetimeConfig,
+	isDurableNonceLifetime,
+	resolveDurableNonceLifetime,
+	setTransactionMessageLifetime,
+} from '../transactions/nonceLifetime';
 import type { SolanaClientRuntime, WalletSession } from '../types';
 
 type BlockhashLifetime = Readonly<{
@@ -40,7 +46,8 @@ export type SolTransferPrepareConfig = Readonly<{
 	authority: SolTransferAuthority;
 	commitment?: Commitment;
 	destination: Address | string;
-	lifetime?: BlockhashLifetime;
+	/** Recent blockhash, or a durable nonce for transfers signed long before they are sent. */
+	lifetime?: BlockhashLifetime | DurableNonceLifetimeConfig;
 	transactionVersion?: TransactionVersion;
 }>;
 
@@ -54,7 +61,7 @@ export type SolTransferSendOptions = Readonly<{
 
 type PreparedSolTransfer = Readonly<{
 	commitment?: Commitment;
-	lifetime: BlockhashLifetime;
+	lifetime: BlockhashLifetime | DurableNonceLifetime;
 	message: SignableSolTransactionMessage;
 	mode: 'partial' | 'send';
 	signer: TransactionSigner;
@@ -67,8 +74,11 @@ function ensureAddress(value: Address | string): Address {
 async function resolveLifetime(
 	runtime: SolanaClientRuntime,
 	commitment?: Commitment,
-	fallback?: BlockhashLifetime,
-): Promise<BlockhashLifetime> {
+	fallback?: BlockhashLifetime | DurableNonceLifetimeConfig,
+): Promise<BlockhashLifetime | DurableNonceLifetime> {
+	if (isDurableNonceLifetime(fallback)) {
+		return resolveDurableNonceLifetime({ commitment, lifetime: fallback, rpc: runtime.rpc });
+	}
 	if (fallback) {
 		return fallback;
 	}
@@ -115,7 +125,7 @@ export function createSolTransferHelper(runtime: SolanaClientRuntime): SolTransf
 		const message = pipe(
 			createTransactionMessage({ version: config.transactionVersion ?? 0 }),
 			(m) => setTransactionMessageFeePayer(signer.address, m),
-			(m) => setTransactionMessageLifetimeUsingBlockhash(lifetime, m),
+			(m) => setTransactionMessageLifetime(lifetime, m),
 			(m) =>
 				appendTransactionMessageInstruction(
 					getTransferSolInstruction({ amount, destination, source: signer }),
@@ -0,0 +1,109 @@
+import { AccountRole, address, getU64Decoder, type TransactionSigner } from '@solana/kit';
+import { ASSOCIATED_TOKEN_PROGRAM_ADDRESS, findAssociatedTokenPda, TOKEN_PROGRAM_ADDRESS } from '@solana-program/token';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TOKEN_2022_PROGRAM_ADDRESS } from '../client/accountDecoders';
+import type { SolanaClientRuntime } from '../types';
+import { createSplTokenHelper } from './spl';
+
+const signTransactionMessageWithSignersMock = vi.hoisted(() => vi.fn(async () => ({ signed: true })));
+
+vi.mock('@solana/kit', async (original) => ({
+	...(await original()),
+	getBase64EncodedWireTransaction: vi.fn(() => 'wire-data'),
+	signTransactionMessageWithSigners: signTransactionMessageWithSignersMock,
+}));
+
+const MINT = address('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+const OWNER = address('9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin');
+const OTHER = address('So11111111111111111111111111111111111111112');
+const TOKEN_ACCOUNT = address('SysvarRent111111111111111111111111111111111');
+
+function createRuntime() {
+	return {
+		rpc: {
+			getLatestBlockhash: vi.fn(() => ({
+				send: vi.fn().mockResolvedValue({ value: { blockhash: OWNER, lastValidBlockHeight: 10n } }),
+			})),
+			sendTransaction: vi.fn(() => ({ send: vi.fn().mockResolvedValue('5'.repeat(88)) })),
+		},
+	} as unknown as SolanaClientRuntime;
+}
+
+describe('SPL token account lifecycle', () => {
+	const authority = { address: OWNER, signTransactions: vi.fn() } as unknown as TransactionSigner;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('creates the associated token account idempotently unless asked to fail', async () => {
+		const helper = createSplTokenHelper(createRuntime(), { mint: MINT });
+		const [ata] = await findAssociatedTokenPda({ mint: MINT, owner: OTHER, tokenProgram: TOKEN_PROGRAM_ADDRESS });
+
+		const idempotent = await helper.prepareCreateAta({ authority, owner: OTHER });
+		const strict = await helper.prepareCreateAta({ authority, failIfExists: true, owner: OTHER });
+
+		expect(idempotent.tokenAccount).toBe(ata);
+		const [create] = idempotent.message.instructions;
+		expect(create.programAddress).toBe(ASSOCIATED_TOKEN_PROGRAM_ADDRESS);
+		expect(create.data?.[0]).toBe(1);
+		expect(strict.message.instructions[0].data?.[0]).toBe(0);
+	});
+
+	it('closes the authority associated account and reclaims rent to the destination', async () => {
+		const helper = createSplTokenHelper(createRuntime(), { mint: MINT, tokenProgram: TOKEN_2022_PROGRAM_ADDRESS });
+		const [ata] = await findAssociatedTokenPda({
+			mint: MINT,
+			owner: OWNER,
+			tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+		});
+
+		const prepared = await helper.prepareCloseAccount({ authority, destination: OTHER });
+
+		const [close] = prepared.message.instructions;
+		expect(close.programAddress).toBe(TOKEN_2022_PROGRAM_ADDRESS);
+		expect(close.accounts?.map((account) => account.address)).toEqual([ata, OTHER, OWNER]);
+	});
+
+	it('burns and approves amounts in decimal units and revokes delegations', async () => {
+		const helper = createSplTokenHelper(createRuntime(), { decimals: 6, mint: MINT });
+
+		const burn = await helper.prepareBurn({ amount: '1.5', authority, tokenAccount: TOKEN_ACCOUNT });
+		const approve = await helper.prepareApprove({
+			amount: 2_000_000n,
+			amountInBaseUnits: true,
+			authority,
+			delegate: OTHER,
+			tokenAccount: TOKEN_ACCOUNT,
+		});
+		const revoke = await helper.prepareRevoke({ authority, tokenAccount: TOKEN_ACCOUNT });
+
+		const [burnChecked] = burn.message.instructions;
+		expect(burnChecked.data?.[0]).toBe(15);
+		expect(getU64Decoder().decode(burnChecked.data ?? new Uint8Array(), 1)).toBe(1_500_000n);
+		const [approveChecked] = approve.message.instructions;
+		expect(approveChecked.data?.[0]).toBe(13);
+		expect(approveChecked.accounts?.[2]).toEqual({ address: OTHER, role: AccountRole.READONLY });
+		expect(revoke.message.instructions[0].data?.[0]).toBe(5);
+	});
+
+	it('requires the frozen account or its owner and sends prepared operations', async () => {
+		const runtime = createRuntime();
+		const helper = createSplTokenHelper(runtime, { mint: MINT });
+
+		await expect(helper.prepareFreeze({ authority })).rejects.toThrow('Provide the `owner` or `tokenAccount`');
+		const freeze = await helper.prepareFreeze({ authority, tokenAccount: TOKEN_ACCOUNT });
+		const thaw = await helper.prepareThaw({ authority, tokenAccount: TOKEN_ACCOUNT });
+
+		expect(freeze.message.instructions[0].accounts?.map((account) => account.address)).toEqual([
+			TOKEN_ACCOUNT,
+			MINT,
+			OWNER,
+		]);
+		expect(thaw.message.instructions[0].data?.[0]).toBe(11);
+		await expect(helper.sendPrepared(freeze)).resolves.toBe('5'.repeat(88));
+		expect(signTransactionMessageWithSignersMock).toHaveBeenCalledWith(freeze.message, expect.anything());
+		expect(runtime.rpc.sendTransaction).toHaveBeenCalledTimes(1);
+	});
+});
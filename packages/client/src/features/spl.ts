@@ -7,12 +7,12 @@ import {
 	type Commitment,
 	createTransactionMessage,
 	getBase64EncodedWireTransaction,
+	getBase64Encoder,
 	isSolanaError,
 	isTransactionSendingSigner,
 	pipe,
 	SOLANA_ERROR__TRANSACTION_ERROR__ALREADY_PROCESSED,
 	setTransactionMessageFeePayer,
-	setTransactionMessageLifetimeUsingBlockhash,
 	signAndSendTransactionMessageWithSigners,
 	signature,
 	signTransactionMessageWithSigners,
@@ -22,15 +22,41 @@ import {
 import {
 	fetchMint,
 	findAssociatedTokenPda,
+	getApproveCheckedInstruction,
+	getBurnCheckedInstruction,
+	getCloseAccountInstruction,
+	getCreateAssociatedTokenIdempotentInstruction,
 	getCreateAssociatedTokenInstruction,
+	getFreezeAccountInstruction,
+	getRevokeInstruction,
+	getThawAccountInstruction,
 	getTransferCheckedInstruction,
 	TOKEN_PROGRAM_ADDRESS,
 } from '@solana-program/token';
 
+import { TOKEN_2022_PROGRAM_ADDRESS } from '../client/accountDecoders';
 import { createTokenAmount, type TokenAmountMath } from '../numeric/amounts';
 import { createWalletTransactionSigner, isWalletSession, resolveSignerMode } from '../signers/walletTransactionSigner';
+import {
+	type DurableNonceLifetime,
+	type DurableNonceLifetimeConfig,
+	isDurableNonceLifetime,
+	resolveDurableNonceLifetime,
+	setTransactionMessageLifetime,
+} from '../transactions/nonceLifetime';
 import type { SolanaClientRuntime, WalletSession } from '../types';
 import type { SolTransferSendOptions } from './sol';
+import {
+	calculateTransferFee,
+	decodeMintExtensions,
+	decodeTokenAccountExtensions,
+	getEpochTransferFee,
+	getMemoInstruction,
+	getTransferCheckedWithFeeInstruction,
+	resolveTransferHookAccounts,
+	type TokenAccountExtensions,
+	type TokenMintExtensions,
+} from './token2022';
 
 type BlockhashLifetime = Readonly<{
 	blockhash: Blockhash;
@@ -41,6 +67,8 @@ type SplTokenAuthority = TransactionSigner<string> | WalletSession;
 
 type SignableSplTransactionMessage = Parameters<typeof signTransactionMessageWithSigners>[0];
 
+type SplInstruction = Parameters<typeof appendTransactionMessageInstruction>[0];
+
 export type SplTokenHelperConfig = Readonly<{
 	associatedTokenProgram?: Address | string;
 	commitment?: Commitment;
@@ -54,9 +82,16 @@ export type SplTokenBalance = Readonly<{
 	ataAddress: Address;
 	decimals: number;
 	exists: boolean;
+	/** Token-2022 extensions of the mint and, when it exists, the token account. Only set for Token-2022 mints. */
+	extensions?: SplTokenBalanceExtensions;
 	uiAmount: string;
 }>;
 
+export type SplTokenBalanceExtensions = Readonly<{
+	account?: TokenAccountExtensions;
+	mint: TokenMintExtensions;
+}>;
+
 export type SplTransferPrepareConfig = Readonly<{
 	amount: bigint | number | string;
 	amountInBaseUnits?: boolean;
@@ -65,24 +100,88 @@ export type SplTransferPrepareConfig = Readonly<{
 	destinationOwner: Address | string;
 	destinationToken?: Address | string;
 	ensureDestinationAta?: boolean;
-	lifetime?: BlockhashLifetime;
+	/** Recent blockhash, or a durable nonce for transfers signed long before they are sent. */
+	lifetime?: BlockhashLifetime | DurableNonceLifetimeConfig;
+	/** Memo placed right before the transfer. Required by Token-2022 accounts that only accept transfers with memos. */
+	memo?: string;
 	sourceOwner?: Address | string;
 	sourceToken?: Address | string;
 	transactionVersion?: TransactionVersion;
 }>;
 
+type SplTokenOperationConfig = Readonly<{
+	authority: SplTokenAuthority;
+	commitment?: Commitment;
+	lifetime?: BlockhashLifetime | DurableNonceLifetimeConfig;
+	transactionVersion?: TransactionVersion;
+}>;
+
+type SplTokenAccountTarget = Readonly<{
+	/** Owner of the token account. Defaults to the authority. */
+	owner?: Address | string;
+	/** Token account to act on. Defaults to the associated token account of `owner`. */
+	tokenAccount?: Address | string;
+}>;
+
+type SplTokenAmountInput = Readonly<{
+	amount: bigint | number | string;
+	amountInBaseUnits?: boolean;
+}>;
+
+export type SplCreateAtaPrepareConfig = SplTokenOperationConfig &
+	Readonly<{
+		/** Fails when the account already exists instead of succeeding without changes. Defaults to `false`. */
+		failIfExists?: boolean;
+		/** Owner of the new associated token account. Defaults to the authority, which always pays the rent. */
+		owner?: Address | string;
+	}>;
+
+export type SplCloseAccountPrepareConfig = SplTokenOperationConfig &
+	SplTokenAccountTarget &
+	Readonly<{
+		/** Receives the reclaimed rent. Defaults to the authority. */
+		destination?: Address | string;
+	}>;
+
+export type SplBurnPrepareConfig = SplTokenOperationConfig & SplTokenAccountTarget & SplTokenAmountInput;
+
+export type SplApprovePrepareConfig = SplTokenOperationConfig &
+	SplTokenAccountTarget &
+	SplTokenAmountInput &
+	Readonly<{
+		delegate: Address | string;
+	}>;
+
+export type SplRevokePrepareConfig = SplTokenOperationConfig & SplTokenAccountTarget;
+
+/** `authority` is the mint's freeze authority, so `owner` or `tokenAccount` is required. */
+export type SplFreezePrepareConfig = SplTokenOperationConfig & SplTokenAccountTarget;
+
+export type PreparedSplTokenOperation = Readonly<{
+	commitment?: Commitment;
+	lifetime: BlockhashLifetime | DurableNonceLifetime;
+	message: SignableSplTransactionMessage;
+	mode: 'partial' | 'send';
+	signer: TransactionSigner;
+	tokenAccount: Address;
+}>;
+
 type PreparedSplTransfer = Readonly<{
 	amount: bigint;
 	commitment?: Commitment;
 	decimals: number;
 	destinationAta: Address;
-	lifetime: BlockhashLifetime;
+	/** Transfer fee withheld from `amount` by the mint, in base units. */
+	fee: bigint;
+	lifetime: BlockhashLifetime | DurableNonceLifetime;
 	message: SignableSplTransactionMessage;
 	mode: 'partial' | 'send';
 	signer: TransactionSigner;
 	sourceAta: Address;
 }>;
 
+const EMPTY_MINT_EXTENSIONS: TokenMintExtensions = Object.freeze({ names: [], nonTransferable: false });
+
 function ensureAddress(value: Address | string | undefined, fallback?: Address): Address {
 	if (value) {
 		return typeof value === 'string' ? address(value) : value;
@@ -96,8 +195,11 @@ function ensureAddress(value: Address | string | undefined, fallback?: Address):
 async function resolveLifetime(
 	runtime: SolanaClientRuntime,
 	commitment?: Commitment,
-	fallback?: BlockhashLifetime,
-): Promise<BlockhashLifetime> {
+	fallback?: BlockhashLifetime | DurableNonceLifetimeConfig,
+): Promise<BlockhashLifetime | DurableNonceLifetime> {
+	if (isDurableNonceLifetime(fallback)) {
+		return resolveDurableNonceLifetime({ commitment, lifetime: fallback, rpc: runtime.rpc });
+	}
 	if (fallback) {
 		return fallback;
 	}
@@ -116,10 +218,44 @@ function resolveSigner(
 	return { mode: resolveSignerMode(authority), signer: authority };
 }
 
+function buildMessage(
+	signer: TransactionSigner,
+	lifetime: BlockhashLifetime | DurableNonceLifetime,
+	instructions: readonly SplInstruction[],
+	version: TransactionVersion = 0,
+): SignableSplTransactionMessage {
+	let message: SignableSplTransactionMessage = pipe(
+		createTransactionMessage({ version }),
+		(m) => setTransactionMessageFeePayer(signer.address, m),
+		(m) => setTransactionMessageLifetime(lifetime, m),
+	);
+	for (const instruction of instructions) {
+		message = appendTransactionMessageInstruction(instruction, message);
+	}
+	return message;
+}
+
 export type SplTokenHelper = Readonly<{
+	/** Transfer fee the mint withholds from `amount` (in base units) in the current epoch; `0n` without a fee. */
+	calculateTransferFee(amount: bigint, commitment?: Commitment): Promise<bigint>;
 	deriveAssociatedTokenAddress(owner: Address | string): Promise<Address>;
 	fetchBalance(owner: Address | string, commitment?: Commitment): Promise<SplTokenBalance>;
+	/** Reads the Token-2022 extensions of the mint; SPL Token mints have none. */
+	fetchMintExtensions(commitment?: Commitment): Promise<TokenMintExtensions>;
+	prepareApprove(config: SplApprovePrepareConfig): Promise<PreparedSplTokenOperation>;
+	prepareBurn(config: SplBurnPrepareConfig): Promise<PreparedSplTokenOperation>;
+	/** Closes an empty token account and sends its rent to `destination`. */
+	prepareCloseAccount(config: SplCloseAccountPrepareConfig): Promise<PreparedSplTokenOperation>;
+	prepareCreateAta(config: SplCreateAtaPrepareConfig): Promise<PreparedSplTokenOperation>;
+	prepareFreeze(config: SplFreezePrepareConfig): Promise<PreparedSplTokenOperation>;
+	prepareRevoke(config: SplRevokePrepareConfig): Promise<PreparedSplTokenOperation>;
+	prepareThaw(config: SplFreezePrepareConfig): Promise<PreparedSplTokenOperation>;
 	prepareTransfer(config: SplTransferPrepareConfig): Promise<PreparedSplTransfer>;
+	/** Signs and sends any prepared operation of this helper. */
+	sendPrepared(
+		prepared: PreparedSplTokenOperation,
+		options?: SolTransferSendOptions,
+	): Promise<ReturnType<typeof signature>>;
 	sendPreparedTransfer(
 		prepared: PreparedSplTransfer,
 		options?: SolTransferSendOptions,
@@ -134,6 +270,7 @@ export type SplTokenHelper = Readonly<{
 export function createSplTokenHelper(runtime: SolanaClientRuntime, config: SplTokenHelperConfig): SplTokenHelper {
 	const mintAddress = ensureAddress(config.mint);
 	const tokenProgram = ensureAddress(config.tokenProgram, address(TOKEN_PROGRAM_ADDRESS));
+	const isToken2022 = tokenProgram === TOKEN_2022_PROGRAM_ADDRESS;
 
 	let cachedDecimals: number | undefined = config.decimals;
 	let cachedMath: TokenAmountMath | undefined;
@@ -156,6 +293,52 @@ export function createSplTokenHelper(runtime: SolanaClientRuntime, config: SplTo
 		return cachedMath;
 	}
 
+	async function fetchAccountBytes(account: Address, commitment?: Commitment): Promise<Uint8Array | null> {
+		const { value } = await runtime.rpc.getAccountInfo(account, { commitment, encoding: 'base64' }).send();
+		return value ? new Uint8Array(getBase64Encoder().encode(value.data[0])) : null;
+	}
+
+	// Not cached: fee and hook settings can change while the helper is alive.
+	async function fetchMintExtensions(commitment?: Commitment): Promise<TokenMintExtensions> {
+		if (!isToken2022) {
+			return EMPTY_MINT_EXTENSIONS;
+		}
+		const data = await fetchAccountBytes(mintAddress, commitment);
+		if (!data) {
+			throw new Error(`Mint ${mintAddress} does not exist.`);
+		}
+		return decodeMintExtensions(data);
+	}
+
+	async function resolveTransferFee(
+		extensions: TokenMintExtensions,
+		amount: bigint,
+		commitment?: Commitment,
+	): Promise<bigint> {
+		if (!extensions.transferFee) {
+			return 0n;
+		}
+		const { epoch } = await runtime.rpc.getEpochInfo({ commitment }).send();
+		return calculateTransferFee(getEpochTransferFee(extensions.transferFee, epoch), amount);
+	}
+
+	async function parseAmount(input: SplTokenAmountInput, commitment?: Commitment): Promise<bigint> {
+		const math = await getTokenMath(commitment);
+		return input.amountInBaseUnits
+			? math.fromBaseUnits(input.amount, 'amount')
+			: math.fromDecimal(input.amount as number | string, { label: 'amount' });
+	}
+
+	async function resolveTokenAccount(target: SplTokenAccountTarget, fallbackOwner?: Address): Promise<Address> {
+		if (target.tokenAccount) {
+			return ensureAddress(target.tokenAccount);
+		}
+		if (!target.owner && !fallbackOwner) {
+			throw new Error('Provide the `owner` or `tokenAccount` of the token account to act on.');
+		}
+		return deriveAssociatedTokenAddress(ensureAddress(target.owner, fallbackOwner));
+	}
+
 	async function deriveAssociatedTokenAddress(owner: Address | string): Promise<Address> {
 		const [ata] = await findAssociatedTokenPda({
 			mint: mintAddress,
@@ -168,16 +351,22 @@ export function createSplTokenHelper(runtime: SolanaClientRuntime, config: SplTo
 	async function fetchBalance(owner: Address | string, commitment?: Commitment): Promise<SplTokenBalance> {
 		const ataAddress = await deriveAssociatedTokenAddress(owner);
 		const decimals = await resolveDecimals(commitment);
+		const mintExtensions = isToken2022 ? await fetchMintExtensions(commitment) : undefined;
 		try {
 			const { value } = await runtime.rpc.getTokenAccountBalance(ataAddress, { commitment }).send();
 			const math = await getTokenMath(commitment);
 			const amount = math.fromBaseUnits(value.amount, 'balance');
 			const uiAmount = value.uiAmountString ?? value.amount;
+			const accountData = mintExtensions && (await fetchAccountBytes(ataAddress, commitment));
 			return {
 				amount,
 				ataAddress,
 				decimals,
 				exists: true,
+				extensions: mintExtensions && {
+					account: accountData ? decodeTokenAccountExtensions(accountData) : undefined,
+					mint: mintExtensions,
+				},
 				uiAmount,
 			};
 		} catch {
@@ -186,6 +375,7 @@ export function createSplTokenHelper(runtime: SolanaClientRuntime, config: SplTo
 				ataAddress,
 				decimals,
 				exists: false,
+				extensions: mintExtensions && { mint: mintExtensions },
 				uiAmount: '0',
 			};
 		}
@@ -204,22 +394,27 @@ export function createSplTokenHelper(runtime: SolanaClientRuntime, config: SplTo
 			await deriveAssociatedTokenAddress(destinationOwner),
 		);
 
-		const math = await getTokenMath(commitment);
 		const decimals = await resolveDecimals(commitment);
-		const amount = config.amountInBaseUnits
-			? math.fromBaseUnits(config.amount, 'amount')
-			: math.fromDecimal(config.amount as number | string, { label: 'amount' });
+		const amount = await parseAmount(config, commitment);
 
-		const instructionList: Parameters<typeof appendTransactionMessageInstruction>[0][] = [];
-		if (config.ensureDestinationAta ?? true) {
+		const instructionList: SplInstruction[] = [];
+		const ensureDestinationAta = config.ensureDestinationAta ?? true;
+		let destinationExtensions: TokenAccountExtensions | undefined;
+		if (ensureDestinationAta || isToken2022) {
+			// Token-2022 destinations may require a memo, so read the whole account; otherwise existence is enough.
 			const { value } = await runtime.rpc
 				.getAccountInfo(destinationAta, {
 					commitment,
-					dataSlice: { length: 0, offset: 0 },
+					dataSlice: isToken2022 ? undefined : { length: 0, offset: 0 },
 					encoding: 'base64',
 				})
 				.send();
-			if (!value) {
+			if (value && isToken2022) {
+				destinationExtensions = decodeTokenAccountExtensions(
+					new Uint8Array(getBase64Encoder().encode(value.data[0])),
+				);
+			}
+			if (!value && ensureDestinationAta) {
 				instructionList.push(
 					getCreateAssociatedTokenInstruction({
 						ata: destinationAta,
@@ -232,42 +427,190 @@ export function createSplTokenHelper(runtime: SolanaClientRuntime, config: SplTo
 			}
 		}
 
-		instructionList.push(
-			getTransferCheckedInstruction({
+		if (config.memo !== undefined) {
+			instructionList.push(getMemoInstruction(config.memo));
+		} else if (destinationExtensions?.memoTransferRequired) {
+			throw new Error(`Token account ${destinationAta} only accepts transfers with a memo. Pass \`memo\`.`);
+		}
+
+		const mintExtensions = await fetchMintExtensions(commitment);
+		const fee = await resolveTransferFee(mintExtensions, amount, commitment);
+		const transferInput = {
+			amount,
+			authority: signer,
+			decimals,
+			destination: destinationAta,
+			mint: mintAddress,
+			source: sourceAta,
+		};
+		let transfer: SplInstruction = mintExtensions.transferFee
+			? getTransferCheckedWithFeeInstruction({ ...transferInput, fee }, tokenProgram)
+			: getTransferCheckedInstruction(transferInput, { programAddress: tokenProgram });
+		const hookProgram = mintExtensions.transferHook?.programId;
+		if (hookProgram) {
+			const extraAccounts = await resolveTransferHookAccounts({
 				amount,
-				authority: signer,
-				decimals,
+				authority: signer.address,
+				commitment,
 				destination: destinationAta,
+				hookProgram,
 				mint: mintAddress,
+				rpc: runtime.rpc,
 				source: sourceAta,
-			}),
-		);
-
-		let message: SignableSplTransactionMessage = pipe(
-			createTransactionMessage({ version: config.transactionVersion ?? 0 }),
-			(m) => setTransactionMessageFeePayer(signer.address, m),
-			(m) => setTransactionMessageLifetimeUsingBlockhash(lifetime, m),
-		);
-
-		for (const instruction of instructionList) {
-			message = appendTransactionMessageInstruction(instruction, message);
+			});
+			transfer = { ...transfer, accounts: [...(transfer.accounts ?? []), ...extraAccounts] };
 		}
+		instructionList.push(transfer);
 
 		return {
 			amount,
 			commitment,
 			decimals,
 			destinationAta,
+			fee,
 			lifetime,
-			message,
+			message: buildMessage(signer, lifetime, instructionList, config.transactionVersion),
 			mode,
 			signer,
 			sourceAta,
 		};
 	}
 
-	async function sendPreparedTransfer(
-		prepared: PreparedSplTransfer,
+	async function prepareOperation(
+		config: SplTokenOperationConfig,
+		build: (signer: TransactionSigner) => Promise<{ instructions: SplInstruction[]; tokenAccount: Address }>,
+	): Promise<PreparedSplTokenOperation> {
+		const commitment = config.commitment;
+		const lifetime = await resolveLifetime(runtime, commitment, config.lifetime);
+		const { signer, mode } = resolveSigner(config.authority, commitment);
+		const { instructions, tokenAccount } = await build(signer);
+		return Object.freeze({
+			commitment,
+			lifetime,
+			message: buildMessage(signer, lifetime, instructions, config.transactionVersion),
+			mode,
+			signer,
+			tokenAccount,
+		});
+	}
+
+	function prepareCreateAta(config: SplCreateAtaPrepareConfig): Promise<PreparedSplTokenOperation> {
+		return prepareOperation(config, async (signer) => {
+			const owner = ensureAddress(config.owner, signer.address);
+			const ata = await deriveAssociatedTokenAddress(owner);
+			const input = { ata, mint: mintAddress, owner, payer: signer, tokenProgram };
+			return {
+				instructions: [
+					config.failIfExists
+						? getCreateAssociatedTokenInstruction(input)
+						: getCreateAssociatedTokenIdempotentInstruction(input),
+				],
+				tokenAccount: ata,
+			};
+		});
+	}
+
+	function prepareCloseAccount(config: SplCloseAccountPrepareConfig): Promise<PreparedSplTokenOperation> {
+		return prepareOperation(config, async (signer) => {
+			const tokenAccount = await resolveTokenAccount(config, signer.address);
+			const destination = ensureAddress(config.destination, signer.address);
+			return {
+				instructions: [
+					getCloseAccountInstruction(
+						{ account: tokenAccount, destination, owner: signer },
+						{ programAddress: tokenProgram },
+					),
+				],
+				tokenAccount,
+			};
+		});
+	}
+
+	function prepareBurn(config: SplBurnPrepareConfig): Promise<PreparedSplTokenOperation> {
+		return prepareOperation(config, async (signer) => {
+			const tokenAccount = await resolveTokenAccount(config, signer.address);
+			const amount = await parseAmount(config, config.commitment);
+			const decimals = await resolveDecimals(config.commitment);
+			return {
+				instructions: [
+					getBurnCheckedInstruction(
+						{ account: tokenAccount, amount, authority: signer, decimals, mint: mintAddress },
+						{ programAddress: tokenProgram },
+					),
+				],
+				tokenAccount,
+			};
+		});
+	}
+
+	function prepareApprove(config: SplApprovePrepareConfig): Promise<PreparedSplTokenOperation> {
+		return prepareOperation(config, async (signer) => {
+			const tokenAccount = await resolveTokenAccount(config, signer.address);
+			const amount = await parseAmount(config, config.commitment);
+			const decimals = await resolveDecimals(config.commitment);
+			return {
+				instructions: [
+					getApproveCheckedInstruction(
+						{
+							amount,
+							decimals,
+							delegate: ensureAddress(config.delegate),
+							mint: mintAddress,
+							owner: signer,
+							source: tokenAccount,
+						},
+						{ programAddress: tokenProgram },
+					),
+				],
+				tokenAccount,
+			};
+		});
+	}
+
+	function prepareRevoke(config: SplRevokePrepareConfig): Promise<PreparedSplTokenOperation> {
+		return prepareOperation(config, async (signer) => {
+			const tokenAccount = await resolveTokenAccount(config, signer.address);
+			return {
+				instructions: [
+					getRevokeInstruction({ owner: signer, source: tokenAccount }, { programAddress: tokenProgram }),
+				],
+				tokenAccount,
+			};
+		});
+	}
+
+	function prepareFreeze(config: SplFreezePrepareConfig): Promise<PreparedSplTokenOperation> {
+		return prepareOperation(config, async (signer) => {
+			const tokenAccount = await resolveTokenAccount(config);
+			return {
+				instructions: [
+					getFreezeAccountInstruction(
+						{ account: tokenAccount, mint: mintAddress, owner: signer },
+						{ programAddress: tokenProgram },
+					),
+				],
+				tokenAccount,
+			};
+		});
+	}
+
+	function prepareThaw(config: SplFreezePrepareConfig): Promise<PreparedSplTokenOperation> {
+		return prepareOperation(config, async (signer) => {
+			const tokenAccount = await resolveTokenAccount(config);
+			return {
+				instructions: [
+					getThawAccountInstruction(
+						{ account: tokenAccount, mint: mintAddress, owner: signer },
+						{ programAddress: tokenProgram },
+					),
+				],
+				tokenAccount,
+			};
+		});
+	}
+
+	async function sendPrepared(
+		prepared: Pick<PreparedSplTokenOperation, 'commitment' | 'message' | 'mode' | 'signer'>,
 		options: SolTransferSendOptions = {},
 	): Promise<ReturnType<typeof signature>> {
 		if (prepared.mode === 'send' && isTransactionSendingSigner(prepared.signer)) {
@@ -307,21 +650,37 @@ export function createSplTokenHelper(runtime: SolanaClientRuntime, config: SplTo
 	): Promise<ReturnType<typeof signature>> {
 		const prepared = await prepareTransfer(config);
 		try {
-			return await sendPreparedTransfer(prepared, options);
+			return await sendPrepared(prepared, options);
 		} catch (error) {
 			if (isSolanaError(error, SOLANA_ERROR__TRANSACTION_ERROR__ALREADY_PROCESSED)) {
-				const retriedPrepared = await prepareTransfer({ ...config, lifetime: undefined });
-				return await sendPreparedTransfer(retriedPrepared, options);
+				// Fetch a fresh blockhash, or re-read the nonce in case it has already been advanced.
+				const lifetime = isDurableNonceLifetime(config.lifetime)
+					? { ...config.lifetime, nonce: undefined }
+					: undefined;
+				const retriedPrepared = await prepareTransfer({ ...config, lifetime });
+				return await sendPrepared(retriedPrepared, options);
 			}
 			throw error;
 		}
 	}
 
 	return {
+		async calculateTransferFee(amount: bigint, commitment?: Commitment) {
+			return resolveTransferFee(await fetchMintExtensions(commitment), amount, commitment);
+		},
 		deriveAssociatedTokenAddress,
 		fetchBalance,
+		fetchMintExtensions,
+		prepareApprove,
+		prepareBurn,
+		prepareCloseAccount,
+		prepareCreateAta,
+		prepareFreeze,
+		prepareRevoke,
+		prepareThaw,
 		prepareTransfer,
-		sendPreparedTransfer,
+		sendPrepared,
+		sendPreparedTransfer: sendPrepared,
 		sendTransfer,
 	};
 }
@@ -0,0 +1,119 @@
+import { AccountRole, address, generateKeyPairSigner, getU16Decoder, type TransactionSigner } from '@solana/kit';
+import { SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import { ASSOCIATED_TOKEN_PROGRAM_ADDRESS, findAssociatedTokenPda, TOKEN_PROGRAM_ADDRESS } from '@solana-program/token';
+import { describe, expect, it, vi } from 'vitest';
+
+import { TOKEN_2022_PROGRAM_ADDRESS } from '../client/accountDecoders';
+import type { SolanaClientRuntime } from '../types';
+import { createSplMintHelper } from './splMint';
+import { getMintSizeWithExtensions } from './token2022';
+import type { TransactionHelper, TransactionPrepareRequest } from './transactions';
+
+const OWNER = address('9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin');
+const MINT = address('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+const OTHER = address('So11111111111111111111111111111111111111112');
+
+function createHelper() {
+	const runtime = {
+		rpc: {
+			getMinimumBalanceForRentExemption: vi.fn(() => ({ send: vi.fn().mockResolvedValue(1_000_000n) })),
+		},
+	} as unknown as SolanaClientRuntime;
+	const prepare = vi.fn(async (request: TransactionPrepareRequest) => ({ instructions: request.instructions }));
+	const helper = createSplMintHelper(runtime, { prepare } as unknown as TransactionHelper);
+	return { helper, prepare, runtime };
+}
+
+describe('SPL mint helper', () => {
+	const authority = { address: OWNER, signTransactions: vi.fn() } as unknown as TransactionSigner;
+
+	it('creates the mint account with the new keypair as a signer and initializes it', async () => {
+		const { helper, prepare, runtime } = createHelper();
+		const mint = await generateKeyPairSigner();
+
+		const prepared = await helper.prepareCreateMint({ authority, decimals: 6, freezeAuthority: OTHER, mint });
+
+		expect(prepared.mint).toBe(mint.address);
+		expect(runtime.rpc.getMinimumBalanceForRentExemption).toHaveBeenCalledWith(82n, { commitment: undefined });
+		expect(prepare).toHaveBeenCalledWith(expect.objectContaining({ authority }));
+		const [create, initialize] = prepared.instructions;
+		expect(create.programAddress).toBe(SYSTEM_PROGRAM_ADDRESS);
+		expect(create.accounts?.[1]).toMatchObject({ address: mint.address, signer: mint });
+		expect(initialize.programAddress).toBe(TOKEN_PROGRAM_ADDRESS);
+		expect(initialize.data?.[0]).toBe(20);
+		expect(initialize.data?.[1]).toBe(6);
+	});
+
+	it('initializes Token-2022 extensions before the mint and sizes the account for them', async () => {
+		const { helper, runtime } = createHelper();
+		const extensions = {
+			metadataPointer: { authority: OWNER },
+			transferFee: { basisPoints: 50, maximumFee: 5_000n },
+		};
+
+		const prepared = await helper.prepareCreateMint({
+			authority,
+			decimals: 2,
+			extensions,
+			lamports: 5n,
+			tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+		});
+
+		expect(getMintSizeWithExtensions(extensions)).toBe(166 + 4 + 64 + 4 + 108);
+		expect(runtime.rpc.getMinimumBalanceForRentExemption).not.toHaveBeenCalled();
+		const [, metadataPointer, transferFee, initialize] = prepared.instructions;
+		expect(metadataPointer.data?.slice(0, 2)).toEqual(new Uint8Array([39, 0]));
+		expect(transferFee.data?.slice(0, 4)).toEqual(new Uint8Array([26, 0, 0, 0]));
+		expect(getU16Decoder().decode(transferFee.data ?? new Uint8Array(), 4)).toBe(50);
+		expect(initialize.programAddress).toBe(TOKEN_2022_PROGRAM_ADDRESS);
+		await expect(helper.prepareCreateMint({ authority, decimals: 2, extensions })).rejects.toThrow(
+			'Mint extensions require the Token-2022 program',
+		);
+	});
+
+	it('mints to the associated token account of the destination owner', async () => {
+		const { helper } = createHelper();
+		const [ata] = await findAssociatedTokenPda({ mint: MINT, owner: OTHER, tokenProgram: TOKEN_PROGRAM_ADDRESS });
+
+		const prepared = await helper.prepareMintTo({
+			amount: '1.5',
+			authority,
+			decimals: 6,
+			destinationOwner: OTHER,
+			mint: MINT,
+		});
+
+		const [createAta, mintTo] = prepared.instructions;
+		expect(createAta.programAddress).toBe(ASSOCIATED_TOKEN_PROGRAM_ADDRESS);
+		expect(mintTo.data?.[0]).toBe(14);
+		expect(mintTo.accounts?.map((account) => account.address)).toEqual([MINT, ata, OWNER]);
+	});
+
+	it('sets or removes mint authorities and rejects Token-2022 authorities on legacy mints', async () => {
+		const { helper } = createHelper();
+
+		const rotate = await helper.prepareSetAuthority({
+			authority,
+			authorityType: 'mintTokens',
+			mint: MINT,
+			newAuthority: OTHER,
+		});
+		const revoke = await helper.prepareSetAuthority({
+			authority,
+			authorityType: 'transferFeeConfig',
+			mint: MINT,
+			newAuthority: null,
+			tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+		});
+
+		expect(rotate.instructions[0].data?.slice(0, 3)).toEqual(new Uint8Array([6, 0, 1]));
+		expect(rotate.instructions[0].accounts?.[1]).toMatchObject({
+			address: OWNER,
+			role: AccountRole.READONLY_SIGNER,
+		});
+		expect(revoke.instructions[0].data).toEqual(new Uint8Array([6, 4, 0]));
+		await expect(
+			helper.prepareSetAuthority({ authority, authorityType: 'closeMint', mint: MINT, newAuthority: null }),
+		).rejects.toThrow('only exists on Token-2022 mints');
+	});
+});
@@ -0,0 +1,273 @@
+import {
+	AccountRole,
+	type Address,
+	address,
+	generateKeyPairSigner,
+	getAddressEncoder,
+	type Instruction,
+	lamports,
+	type TransactionSigner,
+} from '@solana/kit';
+import { getCreateAccountInstruction, SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import {
+	AuthorityType,
+	fetchMint,
+	findAssociatedTokenPda,
+	getCreateAssociatedTokenIdempotentInstruction,
+	getInitializeMint2Instruction,
+	getMintToCheckedInstruction,
+	getSetAuthorityInstruction as getTokenSetAuthorityInstruction,
+	TOKEN_PROGRAM_ADDRESS,
+} from '@solana-program/token';
+
+import { TOKEN_2022_PROGRAM_ADDRESS } from '../client/accountDecoders';
+import { createTokenAmount } from '../numeric/amounts';
+import type { SolanaClientRuntime } from '../types';
+import {
+	type HelperAuthority,
+	type HelperTransactionOptions,
+	prepareHelperTransaction,
+	resolveHelperSigner,
+} from './helperTransactions';
+import {
+	getInitializeMintExtensionInstructions,
+	getMintSizeWithExtensions,
+	type TokenMintExtensionsInput,
+} from './token2022';
+import type { TransactionHelper, TransactionPrepared } from './transactions';
+
+export type SplMintAuthorityType =
+	| 'closeMint'
+	| 'freezeAccount'
+	| 'metadataPointer'
+	| 'mintTokens'
+	| 'permanentDelegate'
+	| 'transferFeeConfig'
+	| 'transferHookProgramId'
+	| 'withheldWithdraw';
+
+export type SplCreateMintPrepareConfig = HelperTransactionOptions &
+	Readonly<{
+		/** Pays for the new account and the fee, and becomes the mint authority unless `mintAuthority` is set. */
+		authority: HelperAuthority;
+		decimals: number;
+		/** Token-2022 extensions to initialize; requires `tokenProgram` to be the Token-2022 program. */
+		extensions?: TokenMintExtensionsInput;
+		/** Account allowed to freeze token accounts. The mint has no freeze authority when omitted. */
+		freezeAuthority?: Address | string | null;
+		/** Lamports moved into the account. Defaults to the rent-exempt minimum. */
+		lamports?: bigint | number;
+		/** Keypair of the new mint. A fresh one is generated when omitted. */
+		mint?: TransactionSigner;
+		mintAuthority?: Address | string;
+		tokenProgram?: Address | string;
+	}>;
+
+export type SplMintToPrepareConfig = HelperTransactionOptions &
+	Readonly<{
+		amount: bigint | number | string;
+		amountInBaseUnits?: boolean;
+		/** Mint authority; also pays the fee and, when needed, the destination account rent. */
+		authority: HelperAuthority;
+		/** Mint decimals. Fetched from the mint when omitted. */
+		decimals?: number;
+		/** Owner whose associated token account receives the tokens. */
+		destinationOwner?: Address | string;
+		/** Token account receiving the tokens; takes precedence over `destinationOwner`. */
+		destinationToken?: Address | string;
+		/** Creates the destination associated token account if it does not exist. Defaults to `true`. */
+		ensureDestinationAta?: boolean;
+		mint: Address | string;
+		tokenProgram?: Address | string;
+	}>;
+
+export type SplSetAuthorityPrepareConfig = HelperTransactionOptions &
+	Readonly<{
+		/** Current holder of the authority being changed; also pays the fee. */
+		authority: HelperAuthority;
+		authorityType: SplMintAuthorityType;
+		mint: Address | string;
+		/** New holder of the authority, or `null` to remove it for good. */
+		newAuthority: Address | string | null;
+		tokenProgram?: Address | string;
+	}>;
+
+export type PreparedSplCreateMint = TransactionPrepared & Readonly<{ mint: Address }>;
+
+export type SplMintHelper = Readonly<{
+	/** Creates and initializes a mint. The new mint keypair signs alongside the authority when the result is sent. */
+	prepareCreateMint(config: SplCreateMintPrepareConfig): Promise<PreparedSplCreateMint>;
+	prepareMintTo(config: SplMintToPrepareConfig): Promise<TransactionPrepared>;
+	prepareSetAuthority(config: SplSetAuthorityPrepareConfig): Promise<TransactionPrepared>;
+}>;
+
+type LegacyMintAuthorityType = 'freezeAccount' | 'mintTokens';
+
+const SET_AUTHORITY = 6;
+
+// Mint authorities the original token program knows about; Token-2022 accepts them too.
+const LEGACY_AUTHORITY_TYPE: Record<LegacyMintAuthorityType, AuthorityType> = {
+	freezeAccount: AuthorityType.FreezeAccount,
+	mintTokens: AuthorityType.MintTokens,
+};
+
+// Authorities only the Token-2022 program knows about.
+const TOKEN_2022_AUTHORITY_TYPE: Record<Exclude<SplMintAuthorityType, LegacyMintAuthorityType>, number> = {
+	closeMint: 6,
+	metadataPointer: 12,
+	permanentDelegate: 8,
+	transferFeeConfig: 4,
+	transferHookProgramId: 10,
+	withheldWithdraw: 5,
+};
+
+function isLegacyAuthorityType(authorityType: SplMintAuthorityType): authorityType is LegacyMintAuthorityType {
+	return authorityType in LEGACY_AUTHORITY_TYPE;
+}
+
+function ensureAddress(value: Address | string): Address {
+	return typeof value === 'string' ? address(value) : value;
+}
+
+function getSetAuthorityInstruction(
+	mint: Address,
+	authority: TransactionSigner,
+	authorityType: SplMintAuthorityType,
+	newAuthority: Address | null,
+	programAddress: Address,
+): Instruction {
+	if (isLegacyAuthorityType(authorityType)) {
+		return getTokenSetAuthorityInstruction(
+			{ authorityType: LEGACY_AUTHORITY_TYPE[authorityType], newAuthority, owned: mint, owner: authority },
+			{ programAddress },
+		);
+	}
+	// `@solana-program/token` only encodes the authority types of the original program, so the Token-2022 extension
+	// authorities are encoded by hand with the same layout.
+	return {
+		accounts: [
+			{ address: mint, role: AccountRole.WRITABLE },
+			{ address: authority.address, role: AccountRole.READONLY_SIGNER, signer: authority },
+		] as Instruction['accounts'],
+		data: new Uint8Array([
+			SET_AUTHORITY,
+			TOKEN_2022_AUTHORITY_TYPE[authorityType],
+			...(newAuthority ? [1, ...getAddressEncoder().encode(newAuthority)] : [0]),
+		]),
+		programAddress,
+	};
+}
+
+/**
+ * Creates helpers that create mints, mint supply and rotate mint authorities. Every method returns a transaction
+ * prepared by the given transaction helper, ready for its `send`.
+ *
+ * @param runtime - Client runtime.
+ * @param transactionHelper - Helper preparing the transactions.
+ * @returns SPL mint helper.
+ */
+export function createSplMintHelper(runtime: SolanaClientRuntime, transactionHelper: TransactionHelper): SplMintHelper {
+	async function prepareCreateMint(config: SplCreateMintPrepareConfig): Promise<PreparedSplCreateMint> {
+		const tokenProgram = ensureAddress(config.tokenProgram ?? TOKEN_PROGRAM_ADDRESS);
+		const extensions = config.extensions ?? {};
+		const signer = resolveHelperSigner(config.authority, config.commitment);
+		const mint = config.mint ?? (await generateKeyPairSigner());
+		const extensionInstructions = getInitializeMintExtensionInstructions(mint.address, extensions);
+		if (extensionInstructions.length && tokenProgram !== TOKEN_2022_PROGRAM_ADDRESS) {
+			throw new Error('Mint extensions require the Token-2022 program; set `tokenProgram` accordingly.');
+		}
+		const space = getMintSizeWithExtensions(extensions);
+		const rent =
+			config.lamports === undefined
+				? await runtime.rpc
+						.getMinimumBalanceForRentExemption(BigInt(space), { commitment: config.commitment })
+						.send({ abortSignal: config.abortSignal })
+				: lamports(BigInt(config.lamports));
+		const prepared = await prepareHelperTransaction(transactionHelper, config, signer, [
+			getCreateAccountInstruction({
+				lamports: rent,
+				newAccount: mint,
+				payer: signer,
+				programAddress: SYSTEM_PROGRAM_ADDRESS,
+				space,
+			}),
+			...extensionInstructions,
+			getInitializeMint2Instruction(
+				{
+					decimals: config.decimals,
+					freezeAuthority: config.freezeAuthority ? ensureAddress(config.freezeAuthority) : null,
+					mint: mint.address,
+					mintAuthority: ensureAddress(config.mintAuthority ?? signer.address),
+				},
+				{ programAddress: tokenProgram },
+			),
+		]);
+		return Object.freeze({ ...prepared, mint: mint.address });
+	}
+
+	async function prepareMintTo(config: SplMintToPrepareConfig): Promise<TransactionPrepared> {
+		const mint = ensureAddress(config.mint);
+		const tokenProgram = ensureAddress(config.tokenProgram ?? TOKEN_PROGRAM_ADDRESS);
+		const signer = resolveHelperSigner(config.authority, config.commitment);
+		const decimals =
+			config.decimals ?? (await fetchMint(runtime.rpc, mint, { commitment: config.commitment })).data.decimals;
+		const math = createTokenAmount(decimals);
+		const amount = config.amountInBaseUnits
+			? math.fromBaseUnits(config.amount, 'amount')
+			: math.fromDecimal(config.amount as number | string, { label: 'amount' });
+		const instructions: Instruction[] = [];
+		let destination: Address;
+		if (config.destinationToken) {
+			destination = ensureAddress(config.destinationToken);
+		} else {
+			if (!config.destinationOwner) {
+				throw new Error('Provide the `destinationOwner` or `destinationToken` receiving the minted tokens.');
+			}
+			const owner = ensureAddress(config.destinationOwner);
+			[destination] = await findAssociatedTokenPda({ mint, owner, tokenProgram });
+			if (config.ensureDestinationAta ?? true) {
+				instructions.push(
+					getCreateAssociatedTokenIdempotentInstruction({
+						ata: destination,
+						mint,
+						owner,
+						payer: signer,
+						tokenProgram,
+					}),
+				);
+			}
+		}
+		instructions.push(
+			getMintToCheckedInstruction(
+				{ amount, decimals, mint, mintAuthority: signer, token: destination },
+				{ programAddress: tokenProgram },
+			),
+		);
+		return prepareHelperTransaction(transactionHelper, config, signer, instructions);
+	}
+
+	function prepareSetAuthority(config: SplSetAuthorityPrepareConfig): Promise<TransactionPrepared> {
+		const tokenProgram = ensureAddress(config.tokenProgram ?? TOKEN_PROGRAM_ADDRESS);
+		if (tokenProgram !== TOKEN_2022_PROGRAM_ADDRESS && !isLegacyAuthorityType(config.authorityType)) {
+			return Promise.reject(
+				new Error(`The \`${config.authorityType}\` authority only exists on Token-2022 mints.`),
+			);
+		}
+		const signer = resolveHelperSigner(config.authority, config.commitment);
+		return prepareHelperTransaction(transactionHelper, config, signer, [
+			getSetAuthorityInstruction(
+				ensureAddress(config.mint),
+				signer,
+				config.authorityType,
+				config.newAuthority === null ? null : ensureAddress(config.newAuthority),
+				tokenProgram,
+			),
+		]);
+	}
+
+	return Object.freeze({
+		prepareCreateMint,
+		prepareMintTo,
+		prepareSetAuthority,
+	});
+}
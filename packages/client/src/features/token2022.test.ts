@@ -0,0 +1,214 @@
+import {
+	AccountRole,
+	address,
+	getAddressEncoder,
+	getBase64Decoder,
+	getProgramDerivedAddress,
+	getStructEncoder,
+	getU16Encoder,
+	getU32Encoder,
+	getU64Encoder,
+	type TransactionSigner,
+} from '@solana/kit';
+import { getTokenSize } from '@solana-program/token';
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+	calculateTransferFee,
+	decodeMintExtensions,
+	decodeTokenAccountExtensions,
+	getEpochTransferFee,
+	getTransferCheckedWithFeeInstruction,
+	resolveTransferHookAccounts,
+} from './token2022';
+
+const MINT = address('So11111111111111111111111111111111111111112');
+const AUTHORITY = address('9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin');
+const HOOK_PROGRAM = address('SysvarC1ock11111111111111111111111111111111');
+const SOURCE = address('SysvarRent111111111111111111111111111111111');
+const DESTINATION = address('Stake11111111111111111111111111111111111111');
+const EXTRA = address('SysvarS1otHashes111111111111111111111111111');
+const EXECUTE_DISCRIMINATOR = [105, 37, 101, 197, 75, 251, 102, 26];
+
+function literalAccountMeta(account: string, isSigner: boolean, isWritable: boolean): Uint8Array {
+	const meta = new Uint8Array(35);
+	meta.set(getAddressEncoder().encode(address(account)), 1);
+	meta[33] = Number(isSigner);
+	meta[34] = Number(isWritable);
+	return meta;
+}
+
+async function createHookRpc(metas: readonly Uint8Array[]) {
+	const [validation] = await getProgramDerivedAddress({
+		programAddress: HOOK_PROGRAM,
+		seeds: ['extra-account-metas', getAddressEncoder().encode(MINT)],
+	});
+	const list = new Uint8Array([
+		...EXECUTE_DISCRIMINATOR,
+		...getU32Encoder().encode(4 + metas.length * 35),
+		...getU32Encoder().encode(metas.length),
+		...metas.flatMap((meta) => [...meta]),
+	]);
+	const rpc = {
+		getAccountInfo: vi.fn((account: string) => ({
+			send: vi.fn().mockResolvedValue({
+				value: account === validation ? { data: [getBase64Decoder().decode(list), 'base64'] } : null,
+			}),
+		})),
+	};
+	return { rpc, validation };
+}
+
+function withExtensions(accountType: number, extensions: readonly [number, Uint8Array][]): Uint8Array {
+	const parts = [new Uint8Array(getTokenSize()), new Uint8Array([accountType])];
+	for (const [type, data] of extensions) {
+		parts.push(new Uint8Array([...getU16Encoder().encode(type), ...getU16Encoder().encode(data.length)]), data);
+	}
+	return new Uint8Array(parts.flatMap((part) => [...part]));
+}
+
+const transferFeeEncoder = getStructEncoder([
+	['epoch', getU64Encoder()],
+	['maximumFee', getU64Encoder()],
+	['basisPoints', getU16Encoder()],
+]);
+
+describe('token-2022 extensions', () => {
+	it('decodes transfer fee and transfer hook extensions of a mint', () => {
+		const transferFee = new Uint8Array([
+			...new Uint8Array(32),
+			...getAddressEncoder().encode(AUTHORITY),
+			...getU64Encoder().encode(7n),
+			...transferFeeEncoder.encode({ basisPoints: 50, epoch: 0n, maximumFee: 1_000n }),
+			...transferFeeEncoder.encode({ basisPoints: 100, epoch: 12n, maximumFee: 5_000n }),
+		]);
+		const transferHook = new Uint8Array([...new Uint8Array(32), ...getAddressEncoder().encode(HOOK_PROGRAM)]);
+
+		const extensions = decodeMintExtensions(
+			withExtensions(1, [
+				[1, transferFee],
+				[14, transferHook],
+				[9, new Uint8Array()],
+			]),
+		);
+
+		expect(extensions.names).toEqual(['transferFeeConfig', 'transferHook', 'nonTransferable']);
+		expect(extensions.nonTransferable).toBe(true);
+		expect(extensions.transferHook).toEqual({ authority: undefined, programId: HOOK_PROGRAM });
+		expect(extensions.transferFee).toMatchObject({
+			transferFeeConfigAuthority: undefined,
+			withdrawWithheldAuthority: AUTHORITY,
+			withheldAmount: 7n,
+		});
+		const config = extensions.transferFee as NonNullable<typeof extensions.transferFee>;
+		expect(getEpochTransferFee(config, 11n).basisPoints).toBe(50);
+		expect(getEpochTransferFee(config, 12n).basisPoints).toBe(100);
+		expect(decodeMintExtensions(new Uint8Array(82)).names).toEqual([]);
+	});
+
+	it('rounds fees up and caps them at the maximum fee', () => {
+		const fee = { basisPoints: 50, epoch: 0n, maximumFee: 1_000n };
+
+		expect(calculateTransferFee(fee, 1_001n)).toBe(6n);
+		expect(calculateTransferFee(fee, 1_000_000n)).toBe(1_000n);
+		expect(calculateTransferFee({ ...fee, basisPoints: 0 }, 1_000n)).toBe(0n);
+	});
+
+	it('reads memo requirements and withheld fees of a token account', () => {
+		const extensions = decodeTokenAccountExtensions(
+			withExtensions(2, [
+				[8, new Uint8Array([1])],
+				[2, new Uint8Array(getU64Encoder().encode(42n))],
+			]),
+		);
+
+		expect(extensions).toEqual({
+			memoTransferRequired: true,
+			names: ['memoTransfer', 'transferFeeAmount'],
+			withheldAmount: 42n,
+		});
+	});
+
+	it('encodes transfers with a fee', () => {
+		const authority = { address: AUTHORITY } as TransactionSigner;
+		const instruction = getTransferCheckedWithFeeInstruction({
+			amount: 1_000n,
+			authority,
+			decimals: 6,
+			destination: DESTINATION,
+			fee: 5n,
+			mint: MINT,
+			source: SOURCE,
+		});
+
+		expect([...instruction.data]).toEqual([
+			26,
+			1,
+			...getU64Encoder().encode(1_000n),
+			6,
+			...getU64Encoder().encode(5n),
+		]);
+		expect(instruction.accounts[3]).toEqual({
+			address: AUTHORITY,
+			role: AccountRole.READONLY_SIGNER,
+			signer: authority,
+		});
+	});
+
+	it('resolves literal and derived extra accounts of a transfer hook', async () => {
+		// PDA of the hook program seeded with the literal "counter" and the source account (index 0).
+		const derived = new Uint8Array(35);
+		derived.set([1, 1, 7, ...new TextEncoder().encode('counter'), 3, 0], 0);
+		derived[34] = 1;
+		const { rpc, validation } = await createHookRpc([literalAccountMeta(EXTRA, false, true), derived]);
+
+		const accounts = await resolveTransferHookAccounts({
+			amount: 10n,
+			authority: AUTHORITY,
+			destination: DESTINATION,
+			hookProgram: HOOK_PROGRAM,
+			mint: MINT,
+			rpc: rpc as never,
+			source: SOURCE,
+		});
+
+		const [counter] = await getProgramDerivedAddress({
+			programAddress: HOOK_PROGRAM,
+			seeds: ['counter', getAddressEncoder().encode(SOURCE)],
+		});
+		expect(accounts).toEqual([
+			{ address: EXTRA, role: AccountRole.WRITABLE },
+			{ address: counter, role: AccountRole.WRITABLE },
+			{ address: HOOK_PROGRAM, role: AccountRole.READONLY },
+			{ address: validation, role: AccountRole.READONLY },
+		]);
+	});
+
+	it('keeps extra accounts repeating the transfer accounts from gaining signer or writable roles', async () => {
+		const { rpc, validation } = await createHookRpc([
+			literalAccountMeta(AUTHORITY, true, true),
+			literalAccountMeta(SOURCE, false, true),
+			literalAccountMeta(EXTRA, true, true),
+			literalAccountMeta(EXTRA, true, false),
+		]);
+
+		const accounts = await resolveTransferHookAccounts({
+			amount: 10n,
+			authority: AUTHORITY,
+			destination: DESTINATION,
+			hookProgram: HOOK_PROGRAM,
+			mint: MINT,
+			rpc: rpc as never,
+			source: SOURCE,
+		});
+
+		expect(accounts).toEqual([
+			{ address: AUTHORITY, role: AccountRole.READONLY },
+			{ address: SOURCE, role: AccountRole.READONLY },
+			{ address: EXTRA, role: AccountRole.WRITABLE_SIGNER },
+			{ address: EXTRA, role: AccountRole.READONLY_SIGNER },
+			{ address: HOOK_PROGRAM, role: AccountRole.READONLY },
+			{ address: validation, role: AccountRole.READONLY },
+		]);
+	});
+});
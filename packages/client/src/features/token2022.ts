@@ -0,0 +1,640 @@
+import {
+	type AccountMeta,
+	AccountRole,
+	type AccountSignerMeta,
+	type Address,
+	addDecoderSizePrefix,
+	address,
+	type Commitment,
+	type GetAccountInfoApi,
+	getAddressDecoder,
+	getAddressEncoder,
+	getArrayDecoder,
+	getBase64Encoder,
+	getProgramDerivedAddress,
+	getStructDecoder,
+	getStructEncoder,
+	getTupleDecoder,
+	getU8Encoder,
+	getU16Decoder,
+	getU16Encoder,
+	getU32Decoder,
+	getU64Decoder,
+	getU64Encoder,
+	getUtf8Decoder,
+	getUtf8Encoder,
+	isSignerRole,
+	isWritableRole,
+	type ReadonlyUint8Array,
+	type Rpc,
+	type TransactionSigner,
+} from '@solana/kit';
+import { getTokenSize } from '@solana-program/token';
+
+import { TOKEN_2022_PROGRAM_ADDRESS } from '../client/accountDecoders';
+import { MEMO_PROGRAM_ADDRESS } from '../transactions/referenceKeys';
+
+export type TransferFee = Readonly<{
+	basisPoints: number;
+	/** First epoch the fee applies to. */
+	epoch: bigint;
+	maximumFee: bigint;
+}>;
+
+export type TransferFeeConfig = Readonly<{
+	newerTransferFee: TransferFee;
+	olderTransferFee: TransferFee;
+	transferFeeConfigAuthority?: Address;
+	withdrawWithheldAuthority?: Address;
+	/** Fees withheld on the mint itself, waiting to be withdrawn. */
+	withheldAmount: bigint;
+}>;
+
+export type TransferHookConfig = Readonly<{
+	authority?: Address;
+	/** Program invoked on every transfer; `undefined` when the hook is disabled. */
+	programId?: Address;
+}>;
+
+export type MetadataPointerConfig = Readonly<{
+	authority?: Address;
+	/** Account holding the mint's metadata; the mint itself when it carries the metadata extension. */
+	metadataAddress?: Address;
+}>;
+
+export type TokenMetadataFields = Readonly<{
+	additionalMetadata: readonly (readonly [key: string, value: string])[];
+	mint: Address;
+	name: string;
+	symbol: string;
+	updateAuthority?: Address;
+	uri: string;
+}>;
+
+export type TokenMintExtensions = Readonly<{
+	/** Name, symbol and URI stored on the mint by the token metadata extension. */
+	metadata?: TokenMetadataFields;
+	metadataPointer?: MetadataPointerConfig;
+	/** Every extension on the mint, including ones without a dedicated field. */
+	names: readonly string[];
+	nonTransferable: boolean;
+	transferFee?: TransferFeeConfig;
+	transferHook?: TransferHookConfig;
+}>;
+
+/** Extensions to initialize on a new Token-2022 mint. */
+export type TokenMintExtensionsInput = Readonly<{
+	/** Account allowed to close the mint once its supply is zero. */
+	closeAuthority?: Address | string;
+	/** State of new token accounts; `'frozen'` requires a freeze authority to thaw them. */
+	defaultAccountState?: 'frozen' | 'initialized';
+	metadataPointer?: Readonly<{
+		authority?: Address | string;
+		/** Usually the mint itself, once it carries the token metadata extension. */
+		metadataAddress?: Address | string;
+	}>;
+	nonTransferable?: boolean;
+	/** Account allowed to transfer or burn tokens from any account of the mint. */
+	permanentDelegate?: Address | string;
+	transferFee?: Readonly<{
+		basisPoints: number;
+		maximumFee: bigint;
+		transferFeeConfigAuthority?: Address | string;
+		withdrawWithheldAuthority?: Address | string;
+	}>;
+	transferHook?: Readonly<{
+		authority?: Address | string;
+		programId: Address | string;
+	}>;
+}>;
+
+export type TokenAccountExtensions = Readonly<{
+	/** Incoming transfers must be preceded by a memo instruction. */
+	memoTransferRequired: boolean;
+	/** Every extension on the account, including ones without a dedicated field. */
+	names: readonly string[];
+	/** Transfer fees withheld on the account, waiting to be harvested. */
+	withheldAmount: bigint;
+}>;
+
+type TokenExtensionEntry = Readonly<{
+	data: Uint8Array;
+	type: number;
+}>;
+
+type TransferCheckedWithFeeInput = Readonly<{
+	amount: bigint;
+	authority: TransactionSigner;
+	decimals: number;
+	destination: Address;
+	fee: bigint;
+	mint: Address;
+	source: Address;
+}>;
+
+type TokenInstruction = Readonly<{
+	accounts: readonly (AccountMeta | AccountSignerMeta)[];
+	data: ReadonlyUint8Array;
+	programAddress: Address;
+}>;
+
+export type ResolveTransferHookAccountsConfig = Readonly<{
+	amount: bigint;
+	authority: Address;
+	commitment?: Commitment;
+	destination: Address;
+	/** Transfer hook program configured on the mint. */
+	hookProgram: Address;
+	mint: Address;
+	rpc: Rpc<GetAccountInfoApi>;
+	source: Address;
+}>;
+
+// Token-2022 pads extended accounts past the base account size, then stores the account type and the extensions.
+const EXTENSIONS_OFFSET = getTokenSize() + 1;
+const EXTENSION_HEADER_SIZE = 4;
+
+const EXTENSION_NAMES = [
+	'uninitialized',
+	'transferFeeConfig',
+	'transferFeeAmount',
+	'mintCloseAuthority',
+	'confidentialTransferMint',
+	'confidentialTransferAccount',
+	'defaultAccountState',
+	'immutableOwner',
+	'memoTransfer',
+	'nonTransferable',
+	'interestBearingConfig',
+	'cpiGuard',
+	'permanentDelegate',
+	'nonTransferableAccount',
+	'transferHook',
+	'transferHookAccount',
+	'confidentialTransferFeeConfig',
+	'confidentialTransferFeeAmount',
+	'metadataPointer',
+	'tokenMetadata',
+	'groupPointer',
+	'tokenGroup',
+	'groupMemberPointer',
+	'tokenGroupMember',
+	'confidentialMintBurn',
+	'scaledUiAmountConfig',
+	'pausableConfig',
+	'pausableAccount',
+] as const;
+
+const EXTENSION_TYPE = {
+	memoTransfer: 8,
+	metadataPointer: 18,
+	nonTransferable: 9,
+	tokenMetadata: 19,
+	transferFeeAmount: 2,
+	transferFeeConfig: 1,
+	transferHook: 14,
+} as const;
+
+const TRANSFER_FEE_EXTENSION = 26;
+const TRANSFER_CHECKED_WITH_FEE = 1;
+const BASE_MINT_SIZE = 82;
+
+/** Instruction discriminators initializing each mint extension, and the size of the extension's data. */
+const MINT_EXTENSION_LAYOUT = {
+	closeAuthority: { discriminator: [25], size: 32 },
+	defaultAccountState: { discriminator: [28, 0], size: 1 },
+	metadataPointer: { discriminator: [39, 0], size: 64 },
+	nonTransferable: { discriminator: [32], size: 0 },
+	permanentDelegate: { discriminator: [35], size: 32 },
+	transferFee: { discriminator: [TRANSFER_FEE_EXTENSION, 0], size: 108 },
+	transferHook: { discriminator: [36, 0], size: 64 },
+} as const;
+
+const ONE_IN_BASIS_POINTS = 10_000n;
+const UNSET_ADDRESS = '11111111111111111111111111111111';
+
+/** `spl-transfer-hook-interface:execute` discriminator, which also prefixes the extra account metas list. */
+const EXECUTE_DISCRIMINATOR = new Uint8Array([105, 37, 101, 197, 75, 251, 102, 26]);
+const EXTRA_ACCOUNT_METAS_HEADER_SIZE = 16;
+const EXTRA_ACCOUNT_META_SIZE = 35;
+
+const transferFeeDecoder = getStructDecoder([
+	['epoch', getU64Decoder()],
+	['maximumFee', getU64Decoder()],
+	['basisPoints', getU16Decoder()],
+]);
+
+const transferFeeConfigDecoder = getStructDecoder([
+	['transferFeeConfigAuthority', getAddressDecoder()],
+	['withdrawWithheldAuthority', getAddressDecoder()],
+	['withheldAmount', getU64Decoder()],
+	['olderTransferFee', transferFeeDecoder],
+	['newerTransferFee', transferFeeDecoder],
+]);
+
+const transferHookDecoder = getStructDecoder([
+	['authority', getAddressDecoder()],
+	['programId', getAddressDecoder()],
+]);
+
+const metadataPointerDecoder = getStructDecoder([
+	['authority', getAddressDecoder()],
+	['metadataAddress', getAddressDecoder()],
+]);
+
+const stringDecoder = addDecoderSizePrefix(getUtf8Decoder(), getU32Decoder());
+
+const tokenMetadataDecoder = getStructDecoder([
+	['updateAuthority', getAddressDecoder()],
+	['mint', getAddressDecoder()],
+	['name', stringDecoder],
+	['symbol', stringDecoder],
+	['uri', stringDecoder],
+	['additionalMetadata', getArrayDecoder(getTupleDecoder([stringDecoder, stringDecoder]))],
+]);
+
+function optionalAddress(value: Address): Address | undefined {
+	return value === UNSET_ADDRESS ? undefined : value;
+}
+
+function decodeExtensionEntries(data: Uint8Array): readonly TokenExtensionEntry[] {
+	const entries: TokenExtensionEntry[] = [];
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	let offset = EXTENSIONS_OFFSET;
+	while (offset + EXTENSION_HEADER_SIZE <= data.length) {
+		const type = view.getUint16(offset, true);
+		const length = view.getUint16(offset + 2, true);
+		if (type === 0) {
+			break;
+		}
+		const start = offset + EXTENSION_HEADER_SIZE;
+		entries.push({ data: data.subarray(start, start + length), type });
+		offset = start + length;
+	}
+	return entries;
+}
+
+function getExtensionNames(entries: readonly TokenExtensionEntry[]): readonly string[] {
+	return Object.freeze(entries.map(({ type }) => EXTENSION_NAMES[type] ?? `unknown${type}`));
+}
+
+function findExtension(entries: readonly TokenExtensionEntry[], type: number): Uint8Array | undefined {
+	return entries.find((entry) => entry.type === type)?.data;
+}
+
+/**
+ * Decodes the Token-2022 extensions of a mint. Mints without extensions decode to an empty result.
+ *
+ * @param data - Raw mint account bytes.
+ * @returns Mint extensions.
+ */
+export function decodeMintExtensions(data: Uint8Array): TokenMintExtensions {
+	const entries = decodeExtensionEntries(data);
+	const transferFee = findExtension(entries, EXTENSION_TYPE.transferFeeConfig);
+	const transferHook = findExtension(entries, EXTENSION_TYPE.transferHook);
+	const metadataPointer = findExtension(entries, EXTENSION_TYPE.metadataPointer);
+	const tokenMetadata = findExtension(entries, EXTENSION_TYPE.tokenMetadata);
+	const fee = transferFee && transferFeeConfigDecoder.decode(transferFee);
+	const hook = transferHook && transferHookDecoder.decode(transferHook);
+	const pointer = metadataPointer && metadataPointerDecoder.decode(metadataPointer);
+	const metadata = tokenMetadata && tokenMetadataDecoder.decode(tokenMetadata);
+	return Object.freeze({
+		metadata: metadata && {
+			additionalMetadata: metadata.additionalMetadata,
+			mint: metadata.mint,
+			name: metadata.name,
+			symbol: metadata.symbol,
+			updateAuthority: optionalAddress(metadata.updateAuthority),
+			uri: metadata.uri,
+		},
+		metadataPointer: pointer && {
+			authority: optionalAddress(pointer.authority),
+			metadataAddress: optionalAddress(pointer.metadataAddress),
+		},
+		names: getExtensionNames(entries),
+		nonTransferable: findExtension(entries, EXTENSION_TYPE.nonTransferable) !== undefined,
+		transferFee: fee && {
+			newerTransferFee: fee.newerTransferFee,
+			olderTransferFee: fee.olderTransferFee,
+			transferFeeConfigAuthority: optionalAddress(fee.transferFeeConfigAuthority),
+			withdrawWithheldAuthority: optionalAddress(fee.withdrawWithheldAuthority),
+			withheldAmount: fee.withheldAmount,
+		},
+		transferHook: hook && {
+			authority: optionalAddress(hook.authority),
+			programId: optionalAddress(hook.programId),
+		},
+	});
+}
+
+/**
+ * Decodes the Token-2022 extensions of a token account. Accounts without extensions decode to an empty result.
+ *
+ * @param data - Raw token account bytes.
+ * @returns Token account extensions.
+ */
+export function decodeTokenAccountExtensions(data: Uint8Array): TokenAccountExtensions {
+	const entries = decodeExtensionEntries(data);
+	const memoTransfer = findExtension(entries, EXTENSION_TYPE.memoTransfer);
+	const transferFeeAmount = findExtension(entries, EXTENSION_TYPE.transferFeeAmount);
+	return Object.freeze({
+		memoTransferRequired: memoTransfer?.[0] === 1,
+		names: getExtensionNames(entries),
+		withheldAmount: transferFeeAmount ? getU64Decoder().decode(transferFeeAmount) : 0n,
+	});
+}
+
+/**
+ * Picks the transfer fee in force for an epoch; a newer fee takes over from its first epoch onwards.
+ *
+ * @param config - Transfer fee extension of the mint.
+ * @param epoch - Current epoch.
+ * @returns Applicable transfer fee.
+ */
+export function getEpochTransferFee(config: TransferFeeConfig, epoch: bigint): TransferFee {
+	return epoch >= config.newerTransferFee.epoch ? config.newerTransferFee : config.olderTransferFee;
+}
+
+/**
+ * Computes the fee withheld from a transfer, rounding up like the token program and capping it at the maximum fee.
+ *
+ * @param fee - Transfer fee in force.
+ * @param amount - Transferred amount in base units.
+ * @returns Fee in base units.
+ */
+export function calculateTransferFee(fee: TransferFee, amount: bigint): bigint {
+	if (fee.basisPoints === 0 || amount === 0n) {
+		return 0n;
+	}
+	const raw = (amount * BigInt(fee.basisPoints) + ONE_IN_BASIS_POINTS - 1n) / ONE_IN_BASIS_POINTS;
+	return raw > fee.maximumFee ? fee.maximumFee : raw;
+}
+
+/**
+ * Builds a Token-2022 `TransferCheckedWithFee` instruction, required for mints with a transfer fee.
+ *
+ * @param input - Accounts, amount and the fee expected to be withheld.
+ * @param programAddress - Token program; defaults to Token-2022.
+ * @returns Instruction.
+ */
+export function getTransferCheckedWithFeeInstruction(
+	input: TransferCheckedWithFeeInput,
+	programAddress: Address = TOKEN_2022_PROGRAM_ADDRESS,
+): TokenInstruction {
+	return {
+		accounts: [
+			{ address: input.source, role: AccountRole.WRITABLE },
+			{ address: input.mint, role: AccountRole.READONLY },
+			{ address: input.destination, role: AccountRole.WRITABLE },
+			{ address: input.authority.address, role: AccountRole.READONLY_SIGNER, signer: input.authority },
+		],
+		data: getStructEncoder([
+			['discriminator', getU8Encoder()],
+			['transferFeeDiscriminator', getU8Encoder()],
+			['amount', getU64Encoder()],
+			['decimals', getU8Encoder()],
+			['fee', getU64Encoder()],
+		]).encode({
+			amount: input.amount,
+			decimals: input.decimals,
+			discriminator: TRANSFER_FEE_EXTENSION,
+			fee: input.fee,
+			transferFeeDiscriminator: TRANSFER_CHECKED_WITH_FEE,
+		}),
+		programAddress,
+	};
+}
+
+/**
+ * Builds a memo instruction, e.g. for destinations that require a memo on incoming transfers.
+ *
+ * @param memo - UTF-8 memo text.
+ * @returns Instruction.
+ */
+export function getMemoInstruction(memo: string): TokenInstruction {
+	return { accounts: [], data: getUtf8Encoder().encode(memo), programAddress: MEMO_PROGRAM_ADDRESS };
+}
+
+function getEnabledMintExtensions(extensions: TokenMintExtensionsInput): (keyof typeof MINT_EXTENSION_LAYOUT)[] {
+	return (Object.keys(MINT_EXTENSION_LAYOUT) as (keyof typeof MINT_EXTENSION_LAYOUT)[]).filter((name) =>
+		name === 'nonTransferable' ? extensions.nonTransferable === true : extensions[name] !== undefined,
+	);
+}
+
+/**
+ * Computes the account size of a Token-2022 mint with the given extensions.
+ *
+ * @param extensions - Extensions to initialize.
+ * @returns Account size in bytes.
+ */
+export function getMintSizeWithExtensions(extensions: TokenMintExtensionsInput = {}): number {
+	const enabled = getEnabledMintExtensions(extensions);
+	if (!enabled.length) {
+		return BASE_MINT_SIZE;
+	}
+	// Extended mints are padded to the token account size so both account types share one layout.
+	return enabled.reduce(
+		(size, name) => size + EXTENSION_HEADER_SIZE + MINT_EXTENSION_LAYOUT[name].size,
+		EXTENSIONS_OFFSET,
+	);
+}
+
+// `COption<Pubkey>` as packed in instruction data: a one byte flag, followed by the key when present.
+function encodeOptionalKey(value: Address | string | undefined): number[] {
+	return value ? [1, ...getAddressEncoder().encode(address(value))] : [0];
+}
+
+// `OptionalNonZeroPubkey`: always 32 bytes, all zero when unset.
+function encodeNonZeroKey(value: Address | string | undefined): number[] {
+	return [...getAddressEncoder().encode(address(value ?? UNSET_ADDRESS))];
+}
+
+function encodeMintExtension(name: keyof typeof MINT_EXTENSION_LAYOUT, extensions: TokenMintExtensionsInput): number[] {
+	switch (name) {
+		case 'closeAuthority':
+			return encodeOptionalKey(extensions.closeAuthority);
+		case 'defaultAccountState':
+			return [extensions.defaultAccountState === 'frozen' ? 2 : 1];
+		case 'metadataPointer':
+			return [
+				...encodeNonZeroKey(extensions.metadataPointer?.authority),
+				...encodeNonZeroKey(extensions.metadataPointer?.metadataAddress),
+			];
+		case 'nonTransferable':
+			return [];
+		case 'permanentDelegate':
+			return [...getAddressEncoder().encode(address(extensions.permanentDelegate as string))];
+		case 'transferFee': {
+			const fee = extensions.transferFee as NonNullable<TokenMintExtensionsInput['transferFee']>;
+			return [
+				...encodeOptionalKey(fee.transferFeeConfigAuthority),
+				...encodeOptionalKey(fee.withdrawWithheldAuthority),
+				...getU16Encoder().encode(fee.basisPoints),
+				...getU64Encoder().encode(fee.maximumFee),
+			];
+		}
+		case 'transferHook':
+			return [
+				...encodeNonZeroKey(extensions.transferHook?.authority),
+				...encodeNonZeroKey(extensions.transferHook?.programId),
+			];
+	}
+}
+
+/**
+ * Builds the instructions initializing extensions of a new Token-2022 mint. They must run after the mint account is
+ * created with {@link getMintSizeWithExtensions} bytes and before the mint itself is initialized.
+ *
+ * @param mint - New mint account.
+ * @param extensions - Extensions to initialize.
+ * @returns Instructions, one per extension.
+ */
+export function getInitializeMintExtensionInstructions(
+	mint: Address,
+	extensions: TokenMintExtensionsInput,
+): readonly TokenInstruction[] {
+	return getEnabledMintExtensions(extensions).map((name) => ({
+		accounts: [{ address: mint, role: AccountRole.WRITABLE }],
+		data: new Uint8Array([...MINT_EXTENSION_LAYOUT[name].discriminator, ...encodeMintExtension(name, extensions)]),
+		programAddress: TOKEN_2022_PROGRAM_ADDRESS,
+	}));
+}
+
+function toAccountRole(isSigner: boolean, isWritable: boolean): AccountRole {
+	if (isSigner) {
+		return isWritable ? AccountRole.WRITABLE_SIGNER : AccountRole.READONLY_SIGNER;
+	}
+	return isWritable ? AccountRole.WRITABLE : AccountRole.READONLY;
+}
+
+/**
+ * Caps the role of an extra account at the highest role it already has among `accounts`, like spl-token's
+ * `deEscalateAccountMeta`, so a hook cannot make the transfer's own accounts signers or writable.
+ *
+ * @param meta - Resolved extra account.
+ * @param accounts - Accounts of the `Execute` instruction resolved so far.
+ * @returns Extra account with its role capped.
+ */
+function deEscalateAccountMeta(meta: AccountMeta, accounts: readonly AccountMeta[]): AccountMeta {
+	const existing = accounts.filter((account) => account.address === meta.address);
+	if (!existing.length) {
+		return meta;
+	}
+	const isSigner = isSignerRole(meta.role) && existing.some((account) => isSignerRole(account.role));
+	const isWritable = isWritableRole(meta.role) && existing.some((account) => isWritableRole(account.role));
+	return { address: meta.address, role: toAccountRole(isSigner, isWritable) };
+}
+
+function sliceSeed(source: Uint8Array | undefined, start: number, length: number, label: string): Uint8Array {
+	if (!source || source.length < start + length) {
+		throw new Error(`Transfer hook seed reads past the end of the ${label}.`);
+	}
+	return source.subarray(start, start + length);
+}
+
+/**
+ * Resolves the extra accounts a transfer hook program asks for, reading its extra account metas list. Extra accounts
+ * repeating the accounts of the transfer never gain signer or writable roles through the hook.
+ *
+ * @param config - Transfer details and the hook program of the mint.
+ * @returns Accounts to append to the transfer instruction, or none when the hook has no metas list.
+ */
+export async function resolveTransferHookAccounts(
+	config: ResolveTransferHookAccountsConfig,
+): Promise<readonly AccountMeta[]> {
+	const accountData = new Map<Address, Uint8Array | undefined>();
+	async function fetchData(account: Address): Promise<Uint8Array | undefined> {
+		if (!accountData.has(account)) {
+			const { value } = await config.rpc
+				.getAccountInfo(account, { commitment: config.commitment, encoding: 'base64' })
+				.send();
+			accountData.set(account, value ? new Uint8Array(getBase64Encoder().encode(value.data[0])) : undefined);
+		}
+		return accountData.get(account);
+	}
+
+	const [validation] = await getProgramDerivedAddress({
+		programAddress: config.hookProgram,
+		seeds: ['extra-account-metas', getAddressEncoder().encode(config.mint)],
+	});
+	const list = await fetchData(validation);
+	if (!list) {
+		return [];
+	}
+	if (!EXECUTE_DISCRIMINATOR.every((byte, index) => list[index] === byte)) {
+		throw new Error(`Account ${validation} is not a transfer hook extra account metas list.`);
+	}
+	const count = new DataView(list.buffer, list.byteOffset, list.byteLength).getUint32(12, true);
+	const instructionData = new Uint8Array([...EXECUTE_DISCRIMINATOR, ...getU64Encoder().encode(config.amount)]);
+	// Seeds refer to accounts by their position in the hook's `Execute` instruction.
+	const metas: AccountMeta[] = [
+		{ address: config.source, role: AccountRole.READONLY },
+		{ address: config.mint, role: AccountRole.READONLY },
+		{ address: config.destination, role: AccountRole.READONLY },
+		{ address: config.authority, role: AccountRole.READONLY },
+		{ address: validation, role: AccountRole.READONLY },
+	];
+	const accountAt = (index: number): Address => {
+		const meta = metas[index];
+		if (!meta) {
+			throw new Error(`Transfer hook account ${index} is referenced before it is resolved.`);
+		}
+		return meta.address;
+	};
+
+	async function unpackSeeds(seedConfig: Uint8Array): Promise<Uint8Array[]> {
+		const seeds: Uint8Array[] = [];
+		let offset = 0;
+		while (offset < seedConfig.length && seedConfig[offset] !== 0) {
+			const [kind, a, b, c] = seedConfig.subarray(offset, offset + 4);
+			if (kind === 1) {
+				seeds.push(sliceSeed(seedConfig, offset + 2, a, 'seed configuration'));
+				offset += 2 + a;
+			} else if (kind === 2) {
+				seeds.push(sliceSeed(instructionData, a, b, 'instruction data'));
+				offset += 3;
+			} else if (kind === 3) {
+				seeds.push(new Uint8Array(getAddressEncoder().encode(accountAt(a))));
+				offset += 2;
+			} else if (kind === 4) {
+				seeds.push(sliceSeed(await fetchData(accountAt(a)), b, c, `data of account ${accountAt(a)}`));
+				offset += 4;
+			} else {
+				throw new Error(`Unsupported transfer hook seed type ${kind}.`);
+			}
+		}
+		return seeds;
+	}
+
+	async function resolveAddress(discriminator: number, addressConfig: Uint8Array): Promise<Address> {
+		if (discriminator === 0) {
+			return getAddressDecoder().decode(addressConfig);
+		}
+		if (discriminator === 2) {
+			const [kind, a, b] = addressConfig;
+			const source =
+				kind === 1
+					? sliceSeed(instructionData, a, 32, 'instruction data')
+					: sliceSeed(await fetchData(accountAt(a)), b, 32, `data of account ${accountAt(a)}`);
+			return getAddressDecoder().decode(source);
+		}
+		const programAddress = discriminator === 1 ? config.hookProgram : accountAt(discriminator - 128);
+		const [pda] = await getProgramDerivedAddress({ programAddress, seeds: await unpackSeeds(addressConfig) });
+		return pda;
+	}
+
+	for (let index = 0; index < count; index++) {
+		const start = EXTRA_ACCOUNT_METAS_HEADER_SIZE + index * EXTRA_ACCOUNT_META_SIZE;
+		const entry = sliceSeed(list, start, EXTRA_ACCOUNT_META_SIZE, 'extra account metas list');
+		const meta = {
+			address: await resolveAddress(entry[0], entry.subarray(1, 33)),
+			role: toAccountRole(entry[33] === 1, entry[34] === 1),
+		};
+		metas.push(deEscalateAccountMeta(meta, metas));
+	}
+	return Object.freeze([
+		...metas.slice(5),
+		{ address: config.hookProgram, role: AccountRole.READONLY },
+		{ address: validation, role: AccountRole.READONLY },
+	]);
+}
@@ -0,0 +1,142 @@
+import {
+	addEncoderSizePrefix,
+	address,
+	getAddressEncoder,
+	getArrayEncoder,
+	getBase64Decoder,
+	getStructEncoder,
+	getTupleEncoder,
+	getU16Encoder,
+	getU32Encoder,
+	getUtf8Encoder,
+} from '@solana/kit';
+import { getMintSize, getTokenSize } from '@solana-program/token';
+import { describe, expect, it, vi } from 'vitest';
+
+import { TOKEN_2022_PROGRAM_ADDRESS } from '../client/accountDecoders';
+import {
+	createTokenMetadataResolver,
+	decodeMetaplexMetadata,
+	findMetaplexMetadataPda,
+	METAPLEX_TOKEN_METADATA_PROGRAM_ADDRESS,
+} from './tokenMetadata';
+
+const MINT = address('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+const AUTHORITY = address('9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin');
+const TOKEN_PROGRAM = address('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+
+const stringEncoder = addEncoderSizePrefix(getUtf8Encoder(), getU32Encoder());
+
+function metaplexAccount(name: string, symbol: string, uri: string): Uint8Array {
+	return new Uint8Array([
+		4,
+		...getAddressEncoder().encode(AUTHORITY),
+		...getAddressEncoder().encode(MINT),
+		...stringEncoder.encode(name.padEnd(32, '\0')),
+		...stringEncoder.encode(symbol.padEnd(10, '\0')),
+		...stringEncoder.encode(uri.padEnd(200, '\0')),
+	]);
+}
+
+function token2022MintWithMetadata(): Uint8Array {
+	const metadata = getStructEncoder([
+		['updateAuthority', getAddressEncoder()],
+		['mint', getAddressEncoder()],
+		['name', stringEncoder],
+		['symbol', stringEncoder],
+		['uri', stringEncoder],
+		['additionalMetadata', getArrayEncoder(getTupleEncoder([stringEncoder, stringEncoder]))],
+	]).encode({
+		additionalMetadata: [['website', 'https://example.com']],
+		mint: MINT,
+		name: 'Example Dollar',
+		symbol: 'EXD',
+		updateAuthority: AUTHORITY,
+		uri: 'https://example.com/exd.json',
+	});
+	return new Uint8Array([
+		...new Uint8Array(getTokenSize()),
+		1,
+		...getU16Encoder().encode(19),
+		...getU16Encoder().encode(metadata.length),
+		...metadata,
+	]);
+}
+
+function createRpc(accounts: readonly ({ data: Uint8Array; owner: string } | null)[]) {
+	return {
+		getMultipleAccounts: vi.fn(() => ({
+			send: vi.fn().mockResolvedValue({
+				value: accounts.map(
+					(account) =>
+						account && { data: [getBase64Decoder().decode(account.data), 'base64'], owner: account.owner },
+				),
+			}),
+		})),
+	};
+}
+
+describe('token metadata', () => {
+	it('strips the padding of Metaplex metadata fields', () => {
+		expect(decodeMetaplexMetadata(metaplexAccount('USD Coin', 'USDC', 'https://example.com/usdc.json'))).toEqual({
+			mint: MINT,
+			name: 'USD Coin',
+			source: 'metaplex',
+			symbol: 'USDC',
+			uri: 'https://example.com/usdc.json',
+		});
+	});
+
+	it('prefers the Token-2022 metadata extension and reads the image from the off-chain JSON', async () => {
+		const rpc = createRpc([
+			{ data: token2022MintWithMetadata(), owner: TOKEN_2022_PROGRAM_ADDRESS },
+			{ data: metaplexAccount('Other', 'OTH', ''), owner: METAPLEX_TOKEN_METADATA_PROGRAM_ADDRESS },
+		]);
+		const fetchJson = vi.fn().mockResolvedValue({ image: 'https://example.com/exd.png' });
+		const resolver = createTokenMetadataResolver({ fetchJson, rpc: rpc as never });
+
+		const metadata = await resolver.resolve(MINT, { commitment: 'confirmed' });
+
+		expect(rpc.getMultipleAccounts).toHaveBeenCalledWith([MINT, await findMetaplexMetadataPda(MINT)], {
+			commitment: 'confirmed',
+			encoding: 'base64',
+		});
+		expect(metadata).toMatchObject({
+			image: 'https://example.com/exd.png',
+			name: 'Example Dollar',
+			source: 'token-2022',
+			symbol: 'EXD',
+		});
+		expect(fetchJson).toHaveBeenCalledWith('https://example.com/exd.json', { abortSignal: undefined });
+	});
+
+	it('falls back to Metaplex, keeps on-chain fields when the JSON fails and caches per mint', async () => {
+		const rpc = createRpc([
+			{ data: new Uint8Array(getMintSize()), owner: TOKEN_PROGRAM },
+			{
+				data: metaplexAccount('USD Coin', 'USDC', 'https://down.example'),
+				owner: METAPLEX_TOKEN_METADATA_PROGRAM_ADDRESS,
+			},
+		]);
+		const fetchJson = vi.fn().mockRejectedValue(new Error('offline'));
+		const resolver = createTokenMetadataResolver({ fetchJson, rpc: rpc as never });
+
+		const metadata = await resolver.resolve(MINT);
+		await resolver.resolve(MINT);
+
+		expect(metadata).toMatchObject({ name: 'USD Coin', source: 'metaplex' });
+		expect(metadata?.image).toBeUndefined();
+		expect(rpc.getMultipleAccounts).toHaveBeenCalledTimes(1);
+
+		resolver.clear(MINT);
+		await resolver.resolve(MINT);
+		expect(rpc.getMultipleAccounts).toHaveBeenCalledTimes(2);
+	});
+
+	it('resolves to null for mints without metadata', async () => {
+		const rpc = createRpc([{ data: new Uint8Array(getMintSize()), owner: TOKEN_PROGRAM }, null]);
+		const resolver = createTokenMetadataResolver({ fetchJson: null, rpc: rpc as never });
+
+		await expect(resolver.resolve(MINT)).resolves.toBeNull();
+	});
+});
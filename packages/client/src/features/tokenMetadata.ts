@@ -0,0 +1,220 @@
+import {
+	type Address,
+	addDecoderSizePrefix,
+	address,
+	type Commitment,
+	type GetMultipleAccountsApi,
+	getAddressDecoder,
+	getAddressEncoder,
+	getBase64Encoder,
+	getProgramDerivedAddress,
+	getStructDecoder,
+	getU8Decoder,
+	getU32Decoder,
+	getUtf8Decoder,
+	type Rpc,
+} from '@solana/kit';
+
+import { TOKEN_2022_PROGRAM_ADDRESS } from '../client/accountDecoders';
+import { decodeMintExtensions } from './token2022';
+
+export const METAPLEX_TOKEN_METADATA_PROGRAM_ADDRESS = address('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+export type TokenMetadata = Readonly<{
+	/** Image URL from the off-chain JSON, when it could be fetched. */
+	image?: string;
+	/** Off-chain JSON the `uri` points to, when it could be fetched. */
+	json?: unknown;
+	mint: Address;
+	name: string;
+	/** Where the on-chain fields were read from. */
+	source: 'metaplex' | 'token-2022';
+	symbol: string;
+	uri: string;
+}>;
+
+export type TokenMetadataJsonFetcher = (
+	uri: string,
+	options: Readonly<{ abortSignal?: AbortSignal }>,
+) => Promise<unknown>;
+
+/** Storage for resolved metadata; a `Map` works, as does any LRU with the same methods. */
+export type TokenMetadataCache = Readonly<{
+	clear(): void;
+	delete(mint: string): unknown;
+	get(mint: string): Promise<TokenMetadata | null> | undefined;
+	set(mint: string, value: Promise<TokenMetadata | null>): unknown;
+}>;
+
+export type TokenMetadataResolverOptions = Readonly<{
+	cache?: TokenMetadataCache;
+	/** Loads the JSON behind `uri`. Defaults to `fetch`; pass `null` to only read on-chain fields. */
+	fetchJson?: TokenMetadataJsonFetcher | null;
+}>;
+
+type TokenMetadataRpc = Rpc<GetMultipleAccountsApi>;
+
+export type TokenMetadataResolverConfig = TokenMetadataResolverOptions &
+	Readonly<{
+		/** RPC client, or a getter read on every lookup when the client can be swapped, e.g. on a cluster switch. */
+		rpc: TokenMetadataRpc | (() => TokenMetadataRpc);
+	}>;
+
+export type TokenMetadataResolveConfig = Readonly<{
+	abortSignal?: AbortSignal;
+	commitment?: Commitment;
+}>;
+
+export type TokenMetadataResolver = Readonly<{
+	/** Drops one mint, or everything, from the cache. */
+	clear(mint?: Address | string): void;
+	/**
+	 * Resolves metadata for a mint, preferring the Token-2022 metadata extension over a Metaplex metadata account.
+	 * Resolves to `null` when the mint has neither.
+	 */
+	resolve(mint: Address | string, config?: TokenMetadataResolveConfig): Promise<TokenMetadata | null>;
+}>;
+
+type OnChainMetadata = Omit<TokenMetadata, 'image' | 'json'>;
+
+const metaplexStringDecoder = addDecoderSizePrefix(getUtf8Decoder(), getU32Decoder());
+
+const metaplexMetadataDecoder = getStructDecoder([
+	['key', getU8Decoder()],
+	['updateAuthority', getAddressDecoder()],
+	['mint', getAddressDecoder()],
+	['name', metaplexStringDecoder],
+	['symbol', metaplexStringDecoder],
+	['uri', metaplexStringDecoder],
+]);
+
+// Metaplex pads names, symbols and URIs to a fixed length with NUL bytes.
+function trimPadding(value: string): string {
+	return value.replace(/\0+$/, '').trim();
+}
+
+/**
+ * Decodes the name, symbol and URI of a Metaplex token metadata account.
+ *
+ * @param data - Raw metadata account bytes.
+ * @returns On-chain metadata fields.
+ */
+export function decodeMetaplexMetadata(data: Uint8Array): OnChainMetadata {
+	const decoded = metaplexMetadataDecoder.decode(data);
+	return Object.freeze({
+		mint: decoded.mint,
+		name: trimPadding(decoded.name),
+		source: 'metaplex',
+		symbol: trimPadding(decoded.symbol),
+		uri: trimPadding(decoded.uri),
+	});
+}
+
+/**
+ * Derives the Metaplex metadata account of a mint.
+ *
+ * @param mint - Mint address.
+ * @returns Metadata account address.
+ */
+export async function findMetaplexMetadataPda(mint: Address): Promise<Address> {
+	const [metadata] = await getProgramDerivedAddress({
+		programAddress: METAPLEX_TOKEN_METADATA_PROGRAM_ADDRESS,
+		seeds: [
+			'metadata',
+			getAddressEncoder().encode(METAPLEX_TOKEN_METADATA_PROGRAM_ADDRESS),
+			getAddressEncoder().encode(mint),
+		],
+	});
+	return metadata;
+}
+
+async function fetchJsonWithFetch(uri: string, { abortSignal }: Readonly<{ abortSignal?: AbortSignal }>) {
+	const response = await fetch(uri, { signal: abortSignal });
+	if (!response.ok) {
+		throw new Error(`Fetching token metadata from ${uri} failed with status ${response.status}.`);
+	}
+	return response.json();
+}
+
+function readImage(json: unknown): string | undefined {
+	if (json && typeof json === 'object' && 'image' in json && typeof json.image === 'string' && json.image) {
+		return json.image;
+	}
+	return undefined;
+}
+
+/**
+ * Creates a resolver for token names, symbols and logos.
+ *
+ * @param config - RPC plus optional off-chain fetcher and cache.
+ * @returns Metadata resolver.
+ */
+export function createTokenMetadataResolver({
+	cache = new Map(),
+	fetchJson = fetchJsonWithFetch,
+	rpc,
+}: TokenMetadataResolverConfig): TokenMetadataResolver {
+	async function readOnChain(mint: Address, config: TokenMetadataResolveConfig): Promise<OnChainMetadata | null> {
+		const metaplexAddress = await findMetaplexMetadataPda(mint);
+		const { value } = await (typeof rpc === 'function' ? rpc() : rpc)
+			.getMultipleAccounts([mint, metaplexAddress], { commitment: config.commitment, encoding: 'base64' })
+			.send({ abortSignal: config.abortSignal });
+		const [mintAccount, metaplexAccount] = value;
+		if (mintAccount?.owner === TOKEN_2022_PROGRAM_ADDRESS) {
+			const { metadata } = decodeMintExtensions(new Uint8Array(getBase64Encoder().encode(mintAccount.data[0])));
+			if (metadata) {
+				return Object.freeze({
+					mint,
+					name: metadata.name,
+					source: 'token-2022',
+					symbol: metadata.symbol,
+					uri: metadata.uri,
+				});
+			}
+		}
+		if (metaplexAccount?.owner === METAPLEX_TOKEN_METADATA_PROGRAM_ADDRESS) {
+			return decodeMetaplexMetadata(new Uint8Array(getBase64Encoder().encode(metaplexAccount.data[0])));
+		}
+		return null;
+	}
+
+	async function load(mint: Address, config: TokenMetadataResolveConfig): Promise<TokenMetadata | null> {
+		const onChain = await readOnChain(mint, config);
+		if (!onChain || !onChain.uri || !fetchJson) {
+			return onChain;
+		}
+		try {
+			const json = await fetchJson(onChain.uri, { abortSignal: config.abortSignal });
+			return Object.freeze({ ...onChain, image: readImage(json), json });
+		} catch {
+			// Off-chain hosts are often slow or gone; the on-chain name and symbol are still worth showing.
+			return onChain;
+		}
+	}
+
+	function resolve(mint: Address | string, config: TokenMetadataResolveConfig = {}) {
+		const mintAddress = typeof mint === 'string' ? address(mint) : mint;
+		const cached = cache.get(mintAddress);
+		if (cached) {
+			return cached;
+		}
+		const pending = load(mintAddress, config);
+		cache.set(mintAddress, pending);
+		pending.catch(() => {
+			if (cache.get(mintAddress) === pending) {
+				cache.delete(mintAddress);
+			}
+		});
+		return pending;
+	}
+
+	function clear(mint?: Address | string) {
+		if (mint !== undefined) {
+			cache.delete(String(mint));
+			return;
+		}
+		cache.clear();
+	}
+
+	return Object.freeze({ clear, resolve });
+}
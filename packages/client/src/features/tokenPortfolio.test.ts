@@ -0,0 +1,110 @@
+import { address } from '@solana/kit';
+import { findAssociatedTokenPda, TOKEN_PROGRAM_ADDRESS } from '@solana-program/token';
+import { describe, expect, it, vi } from 'vitest';
+
+import { TOKEN_2022_PROGRAM_ADDRESS } from '../client/accountDecoders';
+import { fetchTokenPortfolio } from './tokenPortfolio';
+
+const OWNER = address('9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin');
+const USDC = address('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+const PYUSD = address('2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo');
+const AUXILIARY = address('SysvarRent111111111111111111111111111111111');
+const EMPTY = address('SysvarC1ock11111111111111111111111111111111');
+
+function tokenAccount(pubkey: string, mint: string, amount: string, decimals: number, state = 'initialized') {
+	return {
+		account: { data: { parsed: { info: { mint, state, tokenAmount: { amount, decimals } } } } },
+		pubkey,
+	};
+}
+
+async function createRpc() {
+	const [usdcAta] = await findAssociatedTokenPda({ mint: USDC, owner: OWNER, tokenProgram: TOKEN_PROGRAM_ADDRESS });
+	const [pyusdAta] = await findAssociatedTokenPda({
+		mint: PYUSD,
+		owner: OWNER,
+		tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+	});
+	const accounts: Record<string, unknown[]> = {
+		[TOKEN_PROGRAM_ADDRESS]: [
+			tokenAccount(AUXILIARY, USDC, '250000', 6, 'frozen'),
+			tokenAccount(usdcAta, USDC, '1000000', 6),
+			tokenAccount(EMPTY, address('So11111111111111111111111111111111111111112'), '0', 9),
+		],
+		[TOKEN_2022_PROGRAM_ADDRESS]: [tokenAccount(pyusdAta, PYUSD, '1234', 2)],
+	};
+	const rpc = {
+		getTokenAccountsByOwner: vi.fn((_owner: string, { programId }: { programId: string }) => ({
+			send: vi.fn().mockResolvedValue({ value: accounts[programId] }),
+		})),
+	};
+	return { pyusdAta, rpc, usdcAta };
+}
+
+describe('fetchTokenPortfolio', () => {
+	it('merges associated and auxiliary accounts of both token programs per mint', async () => {
+		const { pyusdAta, rpc, usdcAta } = await createRpc();
+
+		const portfolio = await fetchTokenPortfolio({ commitment: 'confirmed', owner: OWNER, rpc: rpc as never });
+
+		expect(rpc.getTokenAccountsByOwner).toHaveBeenCalledWith(
+			OWNER,
+			{ programId: TOKEN_2022_PROGRAM_ADDRESS },
+			{ commitment: 'confirmed', encoding: 'jsonParsed' },
+		);
+		expect(portfolio.holdings).toEqual([
+			{
+				accounts: [{ address: pyusdAta, amount: 1234n, isAssociated: true, isFrozen: false }],
+				amount: 1234n,
+				decimals: 2,
+				mint: PYUSD,
+				tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+				uiAmount: '12.34',
+			},
+			{
+				accounts: [
+					{ address: usdcAta, amount: 1_000_000n, isAssociated: true, isFrozen: false },
+					{ address: AUXILIARY, amount: 250_000n, isAssociated: false, isFrozen: true },
+				],
+				amount: 1_250_000n,
+				decimals: 6,
+				mint: USDC,
+				tokenProgram: TOKEN_PROGRAM_ADDRESS,
+				uiAmount: '1.25',
+			},
+		]);
+	});
+
+	it('keeps empty mints only when asked to', async () => {
+		const { rpc } = await createRpc();
+
+		const portfolio = await fetchTokenPortfolio({ includeEmpty: true, owner: OWNER, rpc: rpc as never });
+
+		expect(portfolio.holdings.map((holding) => holding.uiAmount)).toEqual(['12.34', '1.25', '0']);
+	});
+
+	it('attaches metadata of every mint when asked to', async () => {
+		const { rpc } = await createRpc();
+		const metadataResolver = {
+			clear: vi.fn(),
+			resolve: vi.fn(async (mint: string) =>
+				mint === USDC
+					? { mint: USDC, name: 'USD Coin', source: 'metaplex' as const, symbol: 'USDC', uri: '' }
+					: null,
+			),
+		};
+
+		const portfolio = await fetchTokenPortfolio({
+			includeMetadata: true,
+			metadataResolver,
+			owner: OWNER,
+			rpc: rpc as never,
+		});
+
+		expect(portfolio.holdings.map((holding) => holding.metadata?.symbol ?? null)).toEqual([null, 'USDC']);
+		expect(metadataResolver.resolve).toHaveBeenCalledWith(USDC, { abortSignal: undefined, commitment: undefined });
+		await expect(fetchTokenPortfolio({ includeMetadata: true, owner: OWNER, rpc: rpc as never })).rejects.toThrow(
+			'Provide a metadataResolver',
+		);
+	});
+});
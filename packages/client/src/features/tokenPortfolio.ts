@@ -0,0 +1,156 @@
+import type { Address, Commitment, GetTokenAccountsByOwnerApi, Rpc } from '@solana/kit';
+import { address as parseAddress } from '@solana/kit';
+import { findAssociatedTokenPda, TOKEN_PROGRAM_ADDRESS } from '@solana-program/token';
+
+import { TOKEN_2022_PROGRAM_ADDRESS } from '../client/accountDecoders';
+import { createTokenAmount } from '../numeric/amounts';
+import type { TokenMetadata, TokenMetadataResolver } from './tokenMetadata';
+
+export type TokenPortfolioConfig = Readonly<{
+	abortSignal?: AbortSignal;
+	commitment?: Commitment;
+	/** Keep mints whose accounts are all empty. Defaults to `false`. */
+	includeEmpty?: boolean;
+	/** Resolve names, symbols and logos of every mint. Defaults to `false`. */
+	includeMetadata?: boolean;
+}>;
+
+export type FetchTokenPortfolioConfig = TokenPortfolioConfig &
+	Readonly<{
+		/** Required with `includeMetadata`. */
+		metadataResolver?: TokenMetadataResolver;
+		owner: Address | string;
+		rpc: Rpc<GetTokenAccountsByOwnerApi>;
+	}>;
+
+export type TokenPortfolioAccount = Readonly<{
+	address: Address;
+	amount: bigint;
+	/** Whether this is the owner's associated token account for the mint. */
+	isAssociated: boolean;
+	/** `true` when the account has been frozen by the mint's freeze authority. */
+	isFrozen: boolean;
+}>;
+
+export type TokenPortfolioHolding = Readonly<{
+	/** Accounts holding the mint, associated token account first. */
+	accounts: readonly TokenPortfolioAccount[];
+	/** Total across `accounts`, in base units. */
+	amount: bigint;
+	decimals: number;
+	/** Present with `includeMetadata`; `null` when the mint has no metadata. */
+	metadata?: TokenMetadata | null;
+	mint: Address;
+	tokenProgram: Address;
+	uiAmount: string;
+}>;
+
+export type TokenPortfolio = Readonly<{
+	holdings: readonly TokenPortfolioHolding[];
+	owner: Address;
+}>;
+
+type HoldingDraft = {
+	accounts: TokenPortfolioAccount[];
+	/** Owner's associated token account for the mint, derived once per mint. */
+	associated: Address;
+	decimals: number;
+	mint: Address;
+	tokenProgram: Address;
+};
+
+/** Programs whose accounts make up a portfolio, in the order they are queried. */
+export const TOKEN_PORTFOLIO_PROGRAM_ADDRESSES = [TOKEN_PROGRAM_ADDRESS, TOKEN_2022_PROGRAM_ADDRESS] as const;
+
+/**
+ * Reads every SPL Token and Token-2022 account of an owner and merges them per mint.
+ *
+ * @param config - Owner, RPC and optional commitment.
+ * @returns Holdings per mint, ordered by mint address.
+ */
+export async function fetchTokenPortfolio({
+	abortSignal,
+	commitment,
+	includeEmpty = false,
+	includeMetadata = false,
+	metadataResolver,
+	owner,
+	rpc,
+}: FetchTokenPortfolioConfig): Promise<TokenPortfolio> {
+	if (includeMetadata && !metadataResolver) {
+		throw new Error('Provide a metadataResolver to include token metadata in the portfolio.');
+	}
+	const ownerAddress = typeof owner === 'string' ? parseAddress(owner) : owner;
+	const responses = await Promise.all(
+		TOKEN_PORTFOLIO_PROGRAM_ADDRESSES.map((programId) =>
+			rpc
+				.getTokenAccountsByOwner(ownerAddress, { programId }, { commitment, encoding: 'jsonParsed' })
+				.send({ abortSignal }),
+		),
+	);
+	const drafts = new Map<string, HoldingDraft>();
+	for (const [index, { value }] of responses.entries()) {
+		const tokenProgram = TOKEN_PORTFOLIO_PROGRAM_ADDRESSES[index];
+		for (const { account, pubkey } of value) {
+			const { info } = account.data.parsed;
+			// The same mint cannot live under both programs, but key by both to keep them apart regardless.
+			const key = `${tokenProgram}:${info.mint}`;
+			let draft = drafts.get(key);
+			if (!draft) {
+				const [associated] = await findAssociatedTokenPda({
+					mint: info.mint,
+					owner: ownerAddress,
+					tokenProgram,
+				});
+				draft = {
+					accounts: [],
+					associated,
+					decimals: info.tokenAmount.decimals,
+					mint: info.mint,
+					tokenProgram,
+				};
+				drafts.set(key, draft);
+			}
+			draft.accounts.push(
+				Object.freeze({
+					address: pubkey,
+					amount: BigInt(info.tokenAmount.amount),
+					isAssociated: pubkey === draft.associated,
+					isFrozen: info.state === 'frozen',
+				}),
+			);
+		}
+	}
+
+	const holdings: TokenPortfolioHolding[] = [];
+	for (const draft of drafts.values()) {
+		const math = createTokenAmount(draft.decimals);
+		const amount = draft.accounts.reduce((total, account) => math.add(total, account.amount), 0n);
+		if (!includeEmpty && math.isZero(amount)) {
+			continue;
+		}
+		const accounts = [...draft.accounts].sort(
+			(lhs, rhs) => Number(rhs.isAssociated) - Number(lhs.isAssociated) || lhs.address.localeCompare(rhs.address),
+		);
+		holdings.push(
+			Object.freeze({
+				accounts: Object.freeze(accounts),
+				amount,
+				decimals: draft.decimals,
+				mint: draft.mint,
+				tokenProgram: draft.tokenProgram,
+				uiAmount: math.toDecimalString(amount),
+			}),
+		);
+	}
+	holdings.sort((lhs, rhs) => lhs.mint.localeCompare(rhs.mint));
+	if (includeMetadata && metadataResolver) {
+		const metadata = await Promise.all(
+			holdings.map((holding) => metadataResolver.resolve(holding.mint, { abortSignal, commitment })),
+		);
+		for (const [index, holding] of holdings.entries()) {
+			holdings[index] = Object.freeze({ ...holding, metadata: metadata[index] });
+		}
+	}
+	return Object.freeze({ holdings: Object.freeze(holdings), owner: ownerAddress });
+}
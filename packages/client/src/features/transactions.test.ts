@@ -1,6 +1,9 @@
 import type { Commitment, TransactionSigner } from '@solana/kit';
 import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
 
+import { createDefaultClientStore } from '../client/createClientStore';
+import { createTransactionRecorder } from '../client/transactionRecords';
+
 type MutableMessage = {
 	instructions: unknown[];
 	feePayer?: unknown;
@@ -13,7 +16,16 @@ const appendTransactionMessageInstructionsMock = vi.hoisted(() =>
 		instructions: [...message.instructions, ...instructions],
 	})),
 );
-const createTransactionMessageMock = vi.hoisted(() => vi.fn(() => ({ instructions: [] as unknown[] })));
+const createTransactionMessageMock = vi.hoisted(() =>
+	vi.fn(({ version }: { version: unknown }) => ({ instructions: [] as unknown[], version })),
+);
+const compressTransactionMessageUsingAddressLookupTablesMock = vi.hoisted(() =>
+	vi.fn((message: MutableMessage, tables: unknown) => ({ ...message, lookupTables: tables })),
+);
+const fetchAddressesForLookupTablesMock = vi.hoisted(() =>
+	vi.fn(async (addresses: string[]) => Object.fromEntries(addresses.map((address) => [address, ['account']]))),
+);
+const getTransactionMessageSizeMock = vi.hoisted(() => vi.fn((_message: unknown) => 200));
 const setTransactionMessageFeePayerMock = vi.hoisted(() =>
 	vi.fn((payer: unknown, message: MutableMessage) => ({
 		...message,
@@ -30,6 +42,7 @@ const setTransactionMessageLifetimeUsingBlockhashMock = vi.hoisted(() =>
 const signTransactionMessageWithSignersMock = vi.hoisted(() => vi.fn(async (message: unknown) => ({ message })));
 const signAndSendTransactionMessageWithSignersMock = vi.hoisted(() => vi.fn(async () => new Uint8Array([1, 2, 3])));
 const getBase64EncodedWireTransactionMock = vi.hoisted(() => vi.fn(() => 'wire-data'));
+const getSignatureFromTransactionMock = vi.hoisted(() => vi.fn(() => 'signed-signature'));
 const signatureMock = vi.hoisted(() => vi.fn((value: unknown) => `signature:${String(value)}`));
 const pipeMock = vi.hoisted(() =>
 	vi.fn((initial: unknown, ...fns: Array<(value: unknown) => unknown>) => fns.reduce((acc, fn) => fn(acc), initial)),
@@ -48,12 +61,20 @@ const prepareTransactionMock = vi.hoisted(() =>
 		instructions: [...transaction.instructions, { programAddress: 'compute' }],
 	})),
 );
+const waitForConfirmationMock = vi.hoisted(() => vi.fn(async () => undefined));
+const simulateTransactionMessageMock = vi.hoisted(() =>
+	vi.fn(async () => ({ err: null, logs: ['Program log: ok'], unitsConsumed: 1_000n })),
+);
 
 vi.mock('@solana/kit', () => ({
 	address: addressMock,
 	appendTransactionMessageInstructions: appendTransactionMessageInstructionsMock,
+	compressTransactionMessageUsingAddressLookupTables: compressTransactionMessageUsingAddressLookupTablesMock,
 	createTransactionMessage: createTransactionMessageMock,
+	fetchAddressesForLookupTables: fetchAddressesForLookupTablesMock,
 	getBase64EncodedWireTransaction: getBase64EncodedWireTransactionMock,
+	getSignatureFromTransaction: getSignatureFromTransactionMock,
+	getTransactionMessageSize: getTransactionMessageSizeMock,
 	isInstructionForProgram: isInstructionForProgramMock,
 	isInstructionWithData: isInstructionWithDataMock,
 	isTransactionSendingSigner: isTransactionSendingSignerMock,
@@ -64,6 +85,7 @@ vi.mock('@solana/kit', () => ({
 	signAndSendTransactionMessageWithSigners: signAndSendTransactionMessageWithSignersMock,
 	signTransactionMessageWithSigners: signTransactionMessageWithSignersMock,
 	signature: signatureMock,
+	TRANSACTION_SIZE_LIMIT: 1_232,
 }));
 
 vi.mock('@solana/codecs-strings', () => ({
@@ -80,6 +102,16 @@ vi.mock('@solana-program/compute-budget', () => ({
 	getSetComputeUnitPriceInstruction: vi.fn((config: unknown) => ({ type: 'price', config })),
 }));
 
+vi.mock('@solana/transaction-confirmation', () => ({
+	createRecentSignatureConfirmationPromiseFactory: vi.fn(),
+	getTimeoutPromise: vi.fn(),
+	waitForRecentTransactionConfirmationUntilTimeout: waitForConfirmationMock,
+}));
+
+vi.mock('../client/accountDecoders', () => ({
+	TOKEN_2022_PROGRAM_ADDRESS: 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
+}));
+
 vi.mock('../signers/walletTransactionSigner', () => ({
 	createWalletTransactionSigner: createWalletTransactionSignerMock,
 	isWalletSession: isWalletSessionMock,
@@ -90,6 +122,11 @@ vi.mock('../transactions/prepareTransaction', () => ({
 	prepareTransaction: prepareTransactionMock,
 }));
 
+vi.mock('../transactions/simulation', async (importOriginal) => ({
+	...(await importOriginal<typeof import('../transactions/simulation')>()),
+	simulateTransactionMessage: simulateTransactionMessageMock,
+}));
+
 let createTransactionHelper: typeof import('./transactions')['createTransactionHelper'];
 
 beforeAll(async () => {
@@ -172,6 +209,13 @@ describe('createTransactionHelper.prepare', () => {
 			getLatestBlockhash: vi.fn(() => ({
 				send: vi.fn().mockResolvedValue({ value: { blockhash: 'abc', lastValidBlockHeight: 123n } }),
 			})),
+			getRecentPrioritizationFees: vi.fn(() => ({
+				send: vi.fn().mockResolvedValue([
+					{ prioritizationFee: 100n, slot: 1n },
+					{ prioritizationFee: 300n, slot: 2n },
+					{ prioritizationFee: 200n, slot: 3n },
+				]),
+			})),
 			sendTransaction: vi.fn(),
 		},
 		rpcSubscriptions: {} as never,
@@ -181,6 +225,7 @@ describe('createTransactionHelper.prepare', () => {
 
 	beforeEach(() => {
 		vi.clearAllMocks();
+		getTransactionMessageSizeMock.mockImplementation(() => 200);
 	});
 
 	it('defaults to legacy when instructions do not reference address tables', async () => {
@@ -206,4 +251,266 @@ describe('createTransactionHelper.prepare', () => {
 		});
 		expect(createTransactionMessageMock).toHaveBeenCalledWith({ version: 0 });
 	});
+
+	it('compresses with cached lookup tables and only switches to version 0 when it saves space', async () => {
+		const helper = createTransactionHelper(runtime as never, getFallbackCommitment);
+		const request = {
+			addressLookupTables: ['table'],
+			authority,
+			instructions: [{ programAddress: 'Demo1111111111111111111111111111111111', data: new Uint8Array([1]) }],
+		};
+		getTransactionMessageSizeMock.mockImplementation((message) =>
+			(message as { lookupTables?: unknown }).lookupTables ? 150 : 300,
+		);
+
+		const compressed = await helper.prepare(request);
+		expect(compressed.version).toBe(0);
+		expect(compressed.message).toMatchObject({ lookupTables: { 'address:table': ['account'] } });
+
+		getTransactionMessageSizeMock.mockImplementation((message) =>
+			(message as { lookupTables?: unknown }).lookupTables ? 310 : 300,
+		);
+		const legacy = await helper.prepare(request);
+		expect(legacy.version).toBe('legacy');
+		expect(fetchAddressesForLookupTablesMock).toHaveBeenCalledTimes(1);
+		expect(fetchAddressesForLookupTablesMock).toHaveBeenCalledWith(['address:table'], runtime.rpc, {
+			abortSignal: undefined,
+			commitment: 'confirmed',
+		});
+	});
+
+	it('fails clearly when the message exceeds the size limit', async () => {
+		const helper = createTransactionHelper(runtime as never, getFallbackCommitment);
+		getTransactionMessageSizeMock.mockImplementation(() => 1_500);
+
+		await expect(
+			helper.prepare({
+				addressLookupTables: ['table'],
+				authority,
+				instructions: [{ programAddress: 'Demo1111111111111111111111111111111111', data: new Uint8Array([1]) }],
+			}),
+		).rejects.toThrow(
+			'Transaction is 1500 bytes, which exceeds the 1232-byte limit even with address lookup tables',
+		);
+		await expect(
+			helper.prepare({
+				addressLookupTables: ['table'],
+				authority,
+				instructions: [{ programAddress: 'Demo1111111111111111111111111111111111', data: new Uint8Array([1]) }],
+				version: 'legacy',
+			}),
+		).rejects.toThrow('Address lookup tables require a version 0 transaction.');
+	});
+
+	it('estimates the compute unit price from recent prioritization fees', async () => {
+		const helper = createTransactionHelper(runtime as never, getFallbackCommitment);
+		const prepared = await helper.prepare({
+			authority,
+			computeUnitPrice: { maxMicroLamports: 250, percentile: 90 },
+			instructions: [{ programAddress: 'Demo1111111111111111111111111111111111', data: new Uint8Array([1]) }],
+		});
+		expect(runtime.rpc.getRecentPrioritizationFees).toHaveBeenCalledWith(['payer']);
+		expect(prepared.priorityFee).toEqual({
+			capped: true,
+			maxMicroLamports: 250n,
+			microLamports: 250n,
+			percentile: 90,
+			samples: 3,
+		});
+		expect(prepared.message.instructions).toContainEqual({ config: { microLamports: 250 }, type: 'price' });
+	});
+
+	it('sizes the compute unit limit from a simulation with headroom', async () => {
+		const helper = createTransactionHelper(runtime as never, getFallbackCommitment);
+		const prepared = await helper.prepare({
+			authority,
+			computeUnitLimit: 'simulate',
+			computeUnitLimitMultiplier: 1.5,
+			instructions: [{ programAddress: 'Demo1111111111111111111111111111111111', data: new Uint8Array([1]) }],
+		});
+		expect(simulateTransactionMessageMock).toHaveBeenCalledWith(
+			expect.objectContaining({
+				commitment: 'confirmed',
+				message: expect.objectContaining({
+					instructions: expect.arrayContaining([{ config: { units: 1_400_000 }, type: 'limit' }]),
+				}),
+			}),
+		);
+		expect(prepared.computeUnitLimit).toBe(1_500n);
+		expect(prepared.simulation).toEqual({ err: null, logs: ['Program log: ok'], unitsConsumed: 1_000n });
+		expect(prepared.message.instructions).toContainEqual({ config: { units: 1_500 }, type: 'limit' });
+	});
+
+	it('throws a typed error when the simulation reverts', async () => {
+		const { TransactionSimulationError } = await import('../transactions/simulation');
+		simulateTransactionMessageMock.mockResolvedValueOnce({
+			err: 'AccountNotFound' as never,
+			logs: ['Program log: missing'],
+			unitsConsumed: 0n,
+		});
+		const helper = createTransactionHelper(runtime as never, getFallbackCommitment);
+		const promise = helper.prepare({
+			authority,
+			computeUnitLimit: 'simulate',
+			instructions: [{ programAddress: 'Demo1111111111111111111111111111111111', data: new Uint8Array([1]) }],
+		});
+		await expect(promise).rejects.toBeInstanceOf(TransactionSimulationError);
+		await expect(promise).rejects.toMatchObject({ simulation: { logs: ['Program log: missing'] } });
+	});
+
+	it('measures the message with placeholder compute budget instructions and no RPC calls', async () => {
+		const helper = createTransactionHelper(runtime as never, getFallbackCommitment);
+		getTransactionMessageSizeMock.mockImplementation(
+			(message) => 100 + (message as MutableMessage).instructions.length * 10,
+		);
+
+		const size = await helper.measure({
+			authority,
+			computeUnitLimit: 'simulate',
+			computeUnitPrice: 'auto',
+			instructions: [{ programAddress: 'Demo1111111111111111111111111111111111', data: new Uint8Array([1]) }],
+		});
+
+		expect(size).toBe(130);
+		expect(runtime.rpc.getLatestBlockhash).not.toHaveBeenCalled();
+		expect(runtime.rpc.getRecentPrioritizationFees).not.toHaveBeenCalled();
+		expect(simulateTransactionMessageMock).not.toHaveBeenCalled();
+	});
+});
+
+describe('createTransactionHelper.send with rebroadcast', () => {
+	const statuses: unknown[] = [];
+	const runtime = {
+		rpc: {
+			getBlockHeight: vi.fn(() => ({ send: vi.fn().mockResolvedValue(200n) })),
+			getLatestBlockhash: vi.fn(() => ({
+				send: vi.fn().mockResolvedValue({ value: { blockhash: 'fresh', lastValidBlockHeight: 300n } }),
+			})),
+			getSignatureStatuses: vi.fn(() => ({ send: vi.fn(async () => ({ value: [statuses.shift() ?? null] })) })),
+			getTransaction: vi.fn(() => ({
+				send: vi.fn().mockResolvedValue({ meta: { err: null, fee: 5_000n }, slot: 42n }),
+			})),
+			sendTransaction: vi.fn(() => ({ send: vi.fn().mockResolvedValue('wire-signature') })),
+		},
+		rpcSubscriptions: {} as never,
+	};
+	const getFallbackCommitment = () => 'confirmed' as Commitment;
+	const authority: TransactionSigner = { address: 'payer' } as TransactionSigner;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('re-signs with a fresh blockhash after expiry and records attempts', async () => {
+		statuses.push(null, null, { confirmationStatus: 'confirmed', err: null, slot: 40n });
+		getSignatureFromTransactionMock.mockReturnValueOnce('first-signature').mockReturnValueOnce('second-signature');
+		const store = createDefaultClientStore({ commitment: 'confirmed', endpoint: 'https://rpc.test' });
+		const recorder = createTransactionRecorder({ logger: vi.fn(), runtime: runtime as never, store });
+		const helper = createTransactionHelper(runtime as never, getFallbackCommitment, recorder);
+		const prepared = await helper.prepare({
+			authority,
+			instructions: [{ programAddress: 'Demo1111111111111111111111111111111111', data: new Uint8Array([1]) }],
+			lifetime: { blockhash: 'stale' as never, lastValidBlockHeight: 100n },
+		});
+
+		const result = await helper.send(prepared, { rebroadcast: { intervalMs: 1, maxResigns: 1 } });
+
+		expect(result).toBe('second-signature');
+		expect(runtime.rpc.getLatestBlockhash).toHaveBeenCalledWith({ commitment: 'confirmed' });
+		expect(setTransactionMessageLifetimeUsingBlockhashMock).toHaveBeenLastCalledWith(
+			{ blockhash: 'fresh', lastValidBlockHeight: 300n },
+			prepared.message,
+		);
+		await vi.waitFor(() => expect(store.getState().transactions['first-signature']?.fee).toBe(5_000n));
+		const record = store.getState().transactions['first-signature'];
+		expect(record).toMatchObject({ signature: 'second-signature', slot: 42n, status: 'confirmed' });
+		expect(record.confirmedAt).toBeTypeOf('number');
+		expect(record.attempts?.map((attempt) => attempt.signature)).toEqual(['first-signature', 'second-signature']);
+	});
+});
+
+describe('createTransactionHelper.send records', () => {
+	const runtime = {
+		rpc: {
+			getLatestBlockhash: vi.fn(() => ({
+				send: vi.fn().mockResolvedValue({ value: { blockhash: 'hash', lastValidBlockHeight: 100n } }),
+			})),
+			getSignatureStatuses: vi.fn(() => ({ send: vi.fn().mockResolvedValue({ value: [null] }) })),
+			getTransaction: vi.fn(() => ({ send: vi.fn().mockResolvedValue(null) })),
+			sendTransaction: vi.fn(() => ({ send: vi.fn().mockResolvedValue('wire-signature') })),
+		},
+		rpcSubscriptions: {} as never,
+	};
+	const authority: TransactionSigner = { address: 'payer' } as TransactionSigner;
+	const instructions = [{ programAddress: 'Demo1111111111111111111111111111111111', data: new Uint8Array([1]) }];
+
+	function createHelper() {
+		const store = createDefaultClientStore({ commitment: 'confirmed', endpoint: 'https://rpc.test' });
+		const recorder = createTransactionRecorder({ logger: vi.fn(), runtime: runtime as never, store });
+		const helper = createTransactionHelper(runtime as never, () => 'confirmed' as Commitment, recorder);
+		return { helper, store };
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		resolveSignerModeMock.mockReturnValue('partial');
+	});
+
+	it('records plain sends and settles them once they confirm', async () => {
+		const { helper, store } = createHelper();
+		const prepared = await helper.prepare({ authority, instructions });
+
+		await helper.send(prepared);
+
+		expect(waitForConfirmationMock).toHaveBeenCalledWith(
+			expect.objectContaining({ commitment: 'confirmed', signature: 'signature:wire-signature' }),
+		);
+		await vi.waitFor(() => expect(store.getState().transactions['signed-signature']?.status).toBe('confirmed'));
+	});
+
+	it('waits for confirmation before resolving when asked to', async () => {
+		const { helper, store } = createHelper();
+		const prepared = await helper.prepare({ authority, instructions });
+
+		await helper.send(prepared, { waitForConfirmation: true });
+		expect(store.getState().transactions['signed-signature']?.status).toBe('confirmed');
+
+		waitForConfirmationMock.mockRejectedValueOnce(new DOMException('Timeout elapsed after 1 ms', 'TimeoutError'));
+		await expect(helper.send(prepared, { waitForConfirmation: true })).rejects.toThrow('Timeout elapsed');
+		expect(store.getState().transactions['signed-signature']?.status).toBe('unknown');
+	});
+
+	it('records sends whose confirmation times out as unknown rather than failed', async () => {
+		const { helper, store } = createHelper();
+		waitForConfirmationMock.mockRejectedValueOnce(new DOMException('Timeout elapsed after 1 ms', 'TimeoutError'));
+		const prepared = await helper.prepare({ authority, instructions });
+
+		await helper.send(prepared);
+
+		await vi.waitFor(() => expect(store.getState().transactions['signed-signature']?.status).toBe('unknown'));
+		expect(store.getState().transactions['signed-signature']?.error).toBeUndefined();
+	});
+
+	it('records failed submissions', async () => {
+		const { helper, store } = createHelper();
+		runtime.rpc.sendTransaction.mockReturnValueOnce({ send: vi.fn().mockRejectedValue(new Error('preflight')) });
+		const prepared = await helper.prepare({ authority, instructions });
+
+		await expect(helper.send(prepared)).rejects.toThrow('preflight');
+
+		expect(store.getState().transactions['signed-signature']).toMatchObject({ status: 'failed' });
+		expect(waitForConfirmationMock).not.toHaveBeenCalled();
+	});
+
+	it('records transactions the wallet signs and sends itself', async () => {
+		const { helper, store } = createHelper();
+		resolveSignerModeMock.mockReturnValue('send');
+		isTransactionSendingSignerMock.mockReturnValueOnce(true);
+		const prepared = await helper.prepare({ authority, instructions });
+
+		const sent = await helper.send(prepared);
+
+		expect(prepared.mode).toBe('send');
+		await vi.waitFor(() => expect(store.getState().transactions[sent]?.status).toBe('confirmed'));
+	});
 });
@@ -1,17 +1,22 @@
 import { getBase58Decoder } from '@solana/codecs-strings';
 import type {
 	Address,
+	AddressesByLookupTableAddress,
 	appendTransactionMessageInstruction,
 	Blockhash,
 	Commitment,
 	Slot,
+	Transaction,
 	TransactionSigner,
 	TransactionVersion,
 } from '@solana/kit';
 import {
 	appendTransactionMessageInstructions,
+	compressTransactionMessageUsingAddressLookupTables,
 	createTransactionMessage,
 	getBase64EncodedWireTransaction,
+	getSignatureFromTransaction,
+	getTransactionMessageSize,
 	isInstructionForProgram,
 	isInstructionWithData,
 	isTransactionSendingSigner,
@@ -19,11 +24,16 @@ import {
 	pipe,
 	setTransactionMessageFeePayer,
 	setTransactionMessageFeePayerSigner,
-	setTransactionMessageLifetimeUsingBlockhash,
 	signAndSendTransactionMessageWithSigners,
 	signature,
 	signTransactionMessageWithSigners,
+	TRANSACTION_SIZE_LIMIT,
 } from '@solana/kit';
+import {
+	createRecentSignatureConfirmationPromiseFactory,
+	getTimeoutPromise,
+	waitForRecentTransactionConfirmationUntilTimeout,
+} from '@solana/transaction-confirmation';
 import {
 	COMPUTE_BUDGET_PROGRAM_ADDRESS,
 	ComputeBudgetInstruction,
@@ -31,12 +41,38 @@ import {
 	getSetComputeUnitPriceInstruction,
 } from '@solana-program/compute-budget';
 
+import type { TransactionRecorder } from '../client/transactionRecords';
+import { signTransactionMessagesWithSigners } from '../signers/signTransactionMessages';
 import { createWalletTransactionSigner, isWalletSession, resolveSignerMode } from '../signers/walletTransactionSigner';
+import { type AddressLookupTableCache, createAddressLookupTableCache } from '../transactions/addressLookupTables';
+import {
+	type DurableNonceLifetime,
+	type DurableNonceLifetimeConfig,
+	isDurableNonceLifetime,
+	resolveDurableNonceLifetime,
+	setTransactionMessageLifetime,
+} from '../transactions/nonceLifetime';
 import {
 	type PrepareTransactionMessage,
 	type PrepareTransactionOptions,
 	prepareTransaction as prepareTransactionUtility,
 } from '../transactions/prepareTransaction';
+import {
+	type ComputeUnitPriceInput,
+	estimateComputeUnitPrice,
+	type PriorityFeeEstimate,
+} from '../transactions/priorityFees';
+import { TransactionFailedError } from '../transactions/programErrors';
+import {
+	type RebroadcastTransaction,
+	sendWithRebroadcast,
+	type TransactionRebroadcastConfig,
+} from '../transactions/rebroadcast';
+import {
+	simulateTransactionMessage,
+	type TransactionSimulation,
+	TransactionSimulationError,
+} from '../transactions/simulation';
 import type { SolanaClientRuntime, WalletSession } from '../types';
 
 type BlockhashLifetime = Readonly<{
@@ -50,19 +86,34 @@ export type TransactionInstructionInput = TransactionInstruction;
 
 type SignableTransactionMessage = Parameters<typeof signTransactionMessageWithSigners>[0];
 
+type SignedTransaction = Awaited<ReturnType<typeof signTransactionMessageWithSigners>>;
+
 type TransactionAuthority = TransactionSigner | WalletSession;
 
 type PrepareTransactionOverrides = Omit<PrepareTransactionOptions<PrepareTransactionMessage>, 'transaction'>;
 
 export type TransactionPrepareRequest = Readonly<{
 	abortSignal?: AbortSignal;
+	/**
+	 * Lookup tables used to compress the message. Their contents are fetched and cached; with `version: 'auto'` the
+	 * message is only sent as version 0 when compression makes it smaller.
+	 */
+	addressLookupTables?: readonly (Address | string)[];
 	authority?: TransactionAuthority;
 	commitment?: Commitment;
-	computeUnitLimit?: bigint | number;
-	computeUnitPrice?: bigint | number;
+	/** Fixed limit, or `'simulate'` to size it from a simulation of the assembled message. */
+	computeUnitLimit?: bigint | number | 'simulate';
+	/** Headroom applied to simulated compute units when `computeUnitLimit` is `'simulate'`. Defaults to `1.1`. */
+	computeUnitLimitMultiplier?: number;
+	/** Fixed price in micro-lamports, or `'auto'`/a strategy to estimate it from recent prioritization fees. */
+	computeUnitPrice?: ComputeUnitPriceInput;
 	feePayer?: Address | string | TransactionSigner;
 	instructions: readonly TransactionInstruction[];
-	lifetime?: BlockhashLifetime;
+	/**
+	 * Recent blockhash to use, or a durable nonce for transactions signed long before they are sent. Durable nonces
+	 * prepend the instruction that advances the nonce.
+	 */
+	lifetime?: BlockhashLifetime | DurableNonceLifetimeConfig;
 	version?: TransactionVersion | 'auto';
 }>;
 
@@ -77,12 +128,18 @@ export type TransactionPrepared = Readonly<{
 	computeUnitPrice?: bigint;
 	feePayer: Address;
 	instructions: readonly TransactionInstruction[];
-	lifetime: BlockhashLifetime;
+	lifetime: BlockhashLifetime | DurableNonceLifetime;
 	message: SignableTransactionMessage;
 	mode: 'partial' | 'send';
+	/** Details of the estimate when `computeUnitPrice` was `'auto'` or a strategy. */
+	priorityFee?: PriorityFeeEstimate;
+	/** Simulation result when `computeUnitLimit` was `'simulate'`. */
+	simulation?: TransactionSimulation;
 	version: TransactionVersion;
 }>;
 
+type BlockhashTransactionPrepared = TransactionPrepared & Readonly<{ lifetime: BlockhashLifetime }>;
+
 export type TransactionSignOptions = Readonly<{
 	abortSignal?: AbortSignal;
 	minContextSlot?: Slot;
@@ -93,15 +150,41 @@ export type TransactionSendOptions = Readonly<{
 	commitment?: Commitment;
 	maxRetries?: bigint | number;
 	minContextSlot?: Slot;
+	/**
+	 * Re-submits the signed transaction until it confirms or its blockhash expires, then re-signs with a fresh
+	 * blockhash up to `maxResigns` times. Ignored when the wallet signs and sends the transaction itself, and for durable
+	 * nonce lifetimes, which do not expire.
+	 */
+	rebroadcast?: TransactionRebroadcastConfig;
+	/** Transaction already signed for this prepared message, e.g. while signing a batch up front. */
+	signedTransaction?: SignedTransaction;
 	skipPreflight?: boolean;
+	/**
+	 * Resolves once the transaction confirms at `commitment` rather than right after it is submitted, and rejects when
+	 * it fails or no confirmation is seen in time. Sends with `rebroadcast` always wait.
+	 */
+	waitForConfirmation?: boolean;
 }>;
 
 export type TransactionHelper = Readonly<{
+	/**
+	 * Compiled size in bytes of the message `prepare` would build, without fetching a blockhash, estimating fees or
+	 * simulating.
+	 */
+	measure(request: TransactionPrepareRequest): Promise<number>;
 	prepare(request: TransactionPrepareRequest): Promise<TransactionPrepared>;
 	sign(
 		prepared: TransactionPrepared,
 		options?: TransactionSignOptions,
 	): ReturnType<typeof signTransactionMessageWithSigners>;
+	/**
+	 * Signs several prepared transactions, asking each signer once. Wallet sessions exposing `signTransactions` show a
+	 * single prompt; others are asked for each transaction in turn.
+	 */
+	signAll(
+		prepared: readonly TransactionPrepared[],
+		options?: TransactionSignOptions,
+	): Promise<readonly SignedTransaction[]>;
 	toWire(prepared: TransactionPrepared, options?: TransactionSignOptions): Promise<string>;
 	send(prepared: TransactionPrepared, options?: TransactionSendOptions): Promise<ReturnType<typeof signature>>;
 	prepareAndSend(
@@ -110,6 +193,26 @@ export type TransactionHelper = Readonly<{
 	): Promise<ReturnType<typeof signature>>;
 }>;
 
+const DEFAULT_COMPUTE_UNIT_LIMIT_MULTIPLIER = 1.1;
+const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+// Stands in for the real lifetime when measuring; a blockhash always encodes to 32 bytes.
+const PLACEHOLDER_LIFETIME: BlockhashLifetime = {
+	blockhash: '11111111111111111111111111111111' as Blockhash,
+	lastValidBlockHeight: 0n,
+};
+// Nonce values are stored as base58 encoded 32-byte hashes too.
+const PLACEHOLDER_NONCE = '11111111111111111111111111111111';
+
+type TransactionMessageParts = Readonly<{
+	computeUnitPrice?: bigint;
+	feePayer: Address;
+	feePayerSigner?: TransactionSigner;
+	instructions: readonly TransactionInstruction[];
+	lifetime: BlockhashLifetime | DurableNonceLifetime;
+	lookupTables?: AddressesByLookupTableAddress;
+	version: TransactionVersion;
+}>;
+
 function toAddress(value: Address | string): Address {
 	return typeof value === 'string' ? parseAddress(value) : value;
 }
@@ -156,6 +259,74 @@ function resolveVersion(
 	return instructions.some(instructionUsesAddressLookup) ? 0 : 'legacy';
 }
 
+function isTimeoutError(error: unknown): boolean {
+	return error instanceof Error && error.name === 'TimeoutError';
+}
+
+function assertWithinSizeLimit(message: SignableTransactionMessage, compressed: boolean): void {
+	const size = getTransactionMessageSize(message);
+	if (size <= TRANSACTION_SIZE_LIMIT) {
+		return;
+	}
+	const advice = compressed
+		? 'even with address lookup tables. Add tables covering more of its accounts'
+		: 'Pass `addressLookupTables`';
+	throw new Error(
+		`Transaction is ${size} bytes, which exceeds the ${TRANSACTION_SIZE_LIMIT}-byte limit${compressed ? ' ' : '. '}${advice} or split the instructions across several transactions.`,
+	);
+}
+
+function buildTransactionMessage(
+	parts: TransactionMessageParts,
+	computeUnitLimit: bigint | undefined,
+	version: TransactionVersion,
+): SignableTransactionMessage {
+	const prefixInstructions: TransactionInstruction[] = [];
+	if (computeUnitLimit !== undefined) {
+		prefixInstructions.push(getSetComputeUnitLimitInstruction({ units: Number(computeUnitLimit) }));
+	}
+	if (parts.computeUnitPrice !== undefined) {
+		prefixInstructions.push(getSetComputeUnitPriceInstruction({ microLamports: Number(parts.computeUnitPrice) }));
+	}
+	const instructionSequence = [...prefixInstructions, ...parts.instructions];
+	return pipe(
+		createTransactionMessage({ version }),
+		(message) =>
+			parts.feePayerSigner
+				? setTransactionMessageFeePayerSigner(parts.feePayerSigner, message)
+				: setTransactionMessageFeePayer(parts.feePayer, message),
+		(message) => appendTransactionMessageInstructions(instructionSequence, message),
+		(message) => setTransactionMessageLifetime(parts.lifetime, message),
+	) as SignableTransactionMessage;
+}
+
+function assembleTransactionMessage(
+	parts: TransactionMessageParts,
+	computeUnitLimit: bigint | undefined,
+): SignableTransactionMessage {
+	if (!parts.lookupTables) {
+		return buildTransactionMessage(parts, computeUnitLimit, parts.version);
+	}
+	const compressed = compressTransactionMessageUsingAddressLookupTables(
+		buildTransactionMessage(parts, computeUnitLimit, 0) as Parameters<
+			typeof compressTransactionMessageUsingAddressLookupTables
+		>[0],
+		parts.lookupTables,
+	) as SignableTransactionMessage;
+	if (parts.version === 'legacy') {
+		// `version: 'auto'` without lookups in the instructions: keep legacy unless compression saves space.
+		const legacy = buildTransactionMessage(parts, computeUnitLimit, 'legacy');
+		if (getTransactionMessageSize(legacy) <= getTransactionMessageSize(compressed)) {
+			return legacy;
+		}
+	}
+	return compressed;
+}
+
+function hasBlockhashLifetime(prepared: TransactionPrepared): prepared is BlockhashTransactionPrepared {
+	return !isDurableNonceLifetime(prepared.lifetime);
+}
+
 function normaliseCommitment(request: TransactionPrepareRequest, getFallbackCommitment: () => Commitment): Commitment {
 	return request.commitment ?? getFallbackCommitment();
 }
@@ -187,40 +358,68 @@ function resolveFeePayerAddress(
 function resolveComputeUnitLimit(
 	request: TransactionPrepareRequest,
 	instructions: readonly TransactionInstruction[],
-): bigint | undefined {
+): bigint | 'simulate' | undefined {
 	const value = request.computeUnitLimit;
 	if (value === undefined || hasSetComputeUnitLimitInstruction(instructions)) {
 		return undefined;
 	}
+	if (value === 'simulate') {
+		return value;
+	}
 	return typeof value === 'bigint' ? value : BigInt(Math.floor(value));
 }
 
-function resolveComputeUnitPrice(
+function applyComputeUnitHeadroom(unitsConsumed: bigint | undefined, multiplier: number): bigint {
+	const units = Math.ceil(Number(unitsConsumed ?? 0n) * multiplier);
+	return BigInt(Math.min(MAX_COMPUTE_UNIT_LIMIT, Math.max(1, units)));
+}
+
+async function resolveComputeUnitPrice(
+	runtime: SolanaClientRuntime,
 	request: TransactionPrepareRequest,
 	instructions: readonly TransactionInstruction[],
-): bigint | undefined {
-	if (request.computeUnitPrice === undefined || hasSetComputeUnitPriceInstruction(instructions)) {
-		return undefined;
+	feePayer: Address,
+): Promise<{ computeUnitPrice?: bigint; priorityFee?: PriorityFeeEstimate }> {
+	const value = request.computeUnitPrice;
+	if (value === undefined || hasSetComputeUnitPriceInstruction(instructions)) {
+		return {};
+	}
+	if (typeof value === 'bigint') {
+		return { computeUnitPrice: value };
 	}
-	if (typeof request.computeUnitPrice === 'bigint') {
-		return request.computeUnitPrice;
+	if (typeof value === 'number') {
+		return { computeUnitPrice: BigInt(Math.floor(value)) };
 	}
-	return BigInt(Math.floor(request.computeUnitPrice));
+	const priorityFee = await estimateComputeUnitPrice({
+		abortSignal: request.abortSignal,
+		feePayer,
+		instructions,
+		rpc: runtime.rpc,
+		strategy: value,
+	});
+	return { computeUnitPrice: priorityFee.microLamports, priorityFee };
 }
 
 export function createTransactionHelper(
 	runtime: SolanaClientRuntime,
 	getFallbackCommitment: () => Commitment,
+	transactionRecorder?: TransactionRecorder,
+	lookupTableCache: AddressLookupTableCache = createAddressLookupTableCache(),
 ): TransactionHelper {
-	async function prepare(request: TransactionPrepareRequest): Promise<TransactionPrepared> {
+	function assertPreparable(request: TransactionPrepareRequest): void {
 		if (!request.instructions.length) {
 			throw new Error('Add at least one instruction before preparing a transaction.');
 		}
-
+		if (request.addressLookupTables?.length && request.version === 'legacy') {
+			throw new Error('Address lookup tables require a version 0 transaction.');
+		}
 		request.abortSignal?.throwIfAborted();
+	}
 
-		const commitment = normaliseCommitment(request, getFallbackCommitment);
-
+	function resolveSigners(
+		request: TransactionPrepareRequest,
+		commitment: Commitment,
+	): { feePayer: Address; feePayerSigner?: TransactionSigner; mode: 'partial' | 'send' } {
 		let authoritySigner: TransactionSigner | undefined;
 		let mode: 'partial' | 'send' = 'partial';
 		if (request.authority) {
@@ -241,39 +440,129 @@ export function createTransactionHelper(
 				mode = 'partial';
 			}
 		}
+		return { feePayer, feePayerSigner, mode };
+	}
+
+	async function fetchLookupTables(
+		request: TransactionPrepareRequest,
+		commitment: Commitment,
+	): Promise<AddressesByLookupTableAddress | undefined> {
+		if (!request.addressLookupTables?.length) {
+			return undefined;
+		}
+		return await lookupTableCache.fetch({
+			abortSignal: request.abortSignal,
+			addresses: request.addressLookupTables.map(toAddress),
+			commitment,
+			rpc: runtime.rpc,
+		});
+	}
+
+	async function measure(request: TransactionPrepareRequest): Promise<number> {
+		assertPreparable(request);
+		const commitment = normaliseCommitment(request, getFallbackCommitment);
+		const { feePayer, feePayerSigner } = resolveSigners(request, commitment);
+		const instructions = [...request.instructions];
+		const lookupTables = await fetchLookupTables(request, commitment);
+		const lifetime = isDurableNonceLifetime(request.lifetime)
+			? await resolveDurableNonceLifetime({
+					lifetime: { nonce: PLACEHOLDER_NONCE, ...request.lifetime },
+					rpc: runtime.rpc,
+				})
+			: (request.lifetime ?? PLACEHOLDER_LIFETIME);
+		// Compute budget instructions encode fixed-size values, so placeholders measure the same as the real ones.
+		const computeUnitLimit =
+			resolveComputeUnitLimit(request, instructions) === undefined ? undefined : BigInt(MAX_COMPUTE_UNIT_LIMIT);
+		const computeUnitPrice =
+			request.computeUnitPrice === undefined || hasSetComputeUnitPriceInstruction(instructions) ? undefined : 0n;
+		const message = assembleTransactionMessage(
+			{
+				computeUnitPrice,
+				feePayer,
+				feePayerSigner,
+				instructions,
+				lifetime,
+				lookupTables,
+				version: resolveVersion(request.version, instructions),
+			},
+			computeUnitLimit,
+		);
+		return getTransactionMessageSize(message);
+	}
+
+	async function prepare(request: TransactionPrepareRequest): Promise<TransactionPrepared> {
+		assertPreparable(request);
+
+		const commitment = normaliseCommitment(request, getFallbackCommitment);
+		const { feePayer, feePayerSigner, mode } = resolveSigners(request, commitment);
 
 		const baseInstructions = [...request.instructions];
 		const version = resolveVersion(request.version, baseInstructions);
 
-		const lifetime =
-			request.lifetime ??
-			(await runtime.rpc.getLatestBlockhash({ commitment }).send({ abortSignal: request.abortSignal })).value;
+		const lifetime = isDurableNonceLifetime(request.lifetime)
+			? await resolveDurableNonceLifetime({
+					abortSignal: request.abortSignal,
+					commitment,
+					lifetime: request.lifetime,
+					rpc: runtime.rpc,
+				})
+			: (request.lifetime ??
+				(await runtime.rpc.getLatestBlockhash({ commitment }).send({ abortSignal: request.abortSignal }))
+					.value);
+
+		const lookupTables = await fetchLookupTables(request, commitment);
 
 		request.abortSignal?.throwIfAborted();
 
-		const resolvedComputeUnitLimit = resolveComputeUnitLimit(request, baseInstructions);
-		const computeUnitPrice = resolveComputeUnitPrice(request, baseInstructions);
+		const requestedComputeUnitLimit = resolveComputeUnitLimit(request, baseInstructions);
+		const { computeUnitPrice, priorityFee } = await resolveComputeUnitPrice(
+			runtime,
+			request,
+			baseInstructions,
+			feePayer,
+		);
 
-		const prefixInstructions: TransactionInstruction[] = [];
-		if (resolvedComputeUnitLimit !== undefined) {
-			prefixInstructions.push(getSetComputeUnitLimitInstruction({ units: Number(resolvedComputeUnitLimit) }));
-		}
-		if (computeUnitPrice !== undefined) {
-			prefixInstructions.push(getSetComputeUnitPriceInstruction({ microLamports: Number(computeUnitPrice) }));
+		request.abortSignal?.throwIfAborted();
+
+		const parts: TransactionMessageParts = {
+			computeUnitPrice,
+			feePayer,
+			feePayerSigner,
+			instructions: baseInstructions,
+			lifetime,
+			lookupTables,
+			version,
+		};
+		const assembleMessage = (computeUnitLimit: bigint | undefined): SignableTransactionMessage => {
+			const message = assembleTransactionMessage(parts, computeUnitLimit);
+			assertWithinSizeLimit(message, lookupTables !== undefined);
+			return message;
+		};
+
+		let resolvedComputeUnitLimit: bigint | undefined;
+		let simulation: TransactionSimulation | undefined;
+		if (requestedComputeUnitLimit === 'simulate') {
+			// Simulate with the maximum limit so the measurement is not cut short by the default budget.
+			simulation = await simulateTransactionMessage({
+				abortSignal: request.abortSignal,
+				commitment,
+				message: assembleMessage(BigInt(MAX_COMPUTE_UNIT_LIMIT)),
+				rpc: runtime.rpc,
+			});
+			if (simulation.err) {
+				throw new TransactionSimulationError(simulation);
+			}
+			resolvedComputeUnitLimit = applyComputeUnitHeadroom(
+				simulation.unitsConsumed,
+				request.computeUnitLimitMultiplier ?? DEFAULT_COMPUTE_UNIT_LIMIT_MULTIPLIER,
+			);
+		} else {
+			resolvedComputeUnitLimit = requestedComputeUnitLimit;
 		}
-		const instructionSequence = [...prefixInstructions, ...baseInstructions];
 
 		request.abortSignal?.throwIfAborted();
 
-		const finalMessage = pipe(
-			createTransactionMessage({ version }),
-			(message) =>
-				feePayerSigner
-					? setTransactionMessageFeePayerSigner(feePayerSigner, message)
-					: setTransactionMessageFeePayer(feePayer, message),
-			(message) => appendTransactionMessageInstructions(instructionSequence, message),
-			(message) => setTransactionMessageLifetimeUsingBlockhash(lifetime, message),
-		) as SignableTransactionMessage;
+		const finalMessage = assembleMessage(resolvedComputeUnitLimit);
 
 		const prepared: TransactionPrepared = Object.freeze({
 			commitment,
@@ -284,7 +573,9 @@ export function createTransactionHelper(
 			lifetime,
 			message: finalMessage,
 			mode,
-			version,
+			priorityFee,
+			simulation,
+			version: finalMessage.version,
 		});
 		return prepared;
 	}
@@ -299,29 +590,196 @@ export function createTransactionHelper(
 		});
 	}
 
+	async function signAll(
+		prepared: readonly TransactionPrepared[],
+		options: TransactionSignOptions = {},
+	): Promise<readonly SignedTransaction[]> {
+		if (prepared.some((entry) => entry.mode === 'send')) {
+			throw new Error('The wallet can only sign and send transactions; send them one at a time instead.');
+		}
+		return await signTransactionMessagesWithSigners(
+			prepared.map((entry) => entry.message),
+			{
+				abortSignal: options.abortSignal,
+				minContextSlot: options.minContextSlot,
+			},
+		);
+	}
+
 	async function toWire(prepared: TransactionPrepared, options: TransactionSignOptions = {}) {
 		const signed = await sign(prepared, options);
 		return getBase64EncodedWireTransaction(signed);
 	}
 
+	function toRebroadcastTransaction(
+		prepared: BlockhashTransactionPrepared,
+		signed: SignedTransaction,
+	): RebroadcastTransaction & Pick<Transaction, 'messageBytes'> {
+		return {
+			lastValidBlockHeight: prepared.lifetime.lastValidBlockHeight,
+			messageBytes: signed.messageBytes,
+			signature: getSignatureFromTransaction(signed),
+			wireTransaction: getBase64EncodedWireTransaction(signed),
+		};
+	}
+
+	async function signForRebroadcast(
+		prepared: BlockhashTransactionPrepared,
+		options: TransactionSendOptions,
+	): Promise<RebroadcastTransaction & Pick<Transaction, 'messageBytes'>> {
+		const signed = await sign(prepared, {
+			abortSignal: options.abortSignal,
+			minContextSlot: options.minContextSlot,
+		});
+		return toRebroadcastTransaction(prepared, signed);
+	}
+
+	async function sendAndRebroadcast(
+		prepared: BlockhashTransactionPrepared,
+		options: TransactionSendOptions,
+		rebroadcast: TransactionRebroadcastConfig,
+	): Promise<ReturnType<typeof signature>> {
+		const commitment = options.commitment ?? prepared.commitment;
+		const initial = options.signedTransaction
+			? toRebroadcastTransaction(prepared, options.signedTransaction)
+			: await signForRebroadcast(prepared, options);
+		const key = initial.signature.toString();
+		let current = prepared;
+		transactionRecorder?.start(key, initial.signature, initial);
+		try {
+			const confirmed = await sendWithRebroadcast({
+				...rebroadcast,
+				abortSignal: options.abortSignal,
+				commitment,
+				onAttempt: (attempt) => transactionRecorder?.recordAttempt(key, attempt),
+				onStatus: (status, slot) => transactionRecorder?.recordCommitment(key, status, slot),
+				async resign() {
+					const { value: lifetime } = await runtime.rpc
+						.getLatestBlockhash({ commitment })
+						.send({ abortSignal: options.abortSignal });
+					current = Object.freeze({
+						...current,
+						lifetime,
+						message: setTransactionMessageLifetime(lifetime, current.message),
+					});
+					return signForRebroadcast(current, options);
+				},
+				rpc: runtime.rpc,
+				skipPreflight: options.skipPreflight,
+				transaction: initial,
+			});
+			transactionRecorder?.confirm(key, commitment);
+			return confirmed;
+		} catch (error) {
+			const programError = await transactionRecorder?.fail(key, error);
+			throw programError ? new TransactionFailedError(initial.signature, programError, error) : error;
+		}
+	}
+
+	/**
+	 * Waits for a transaction submitted without the rebroadcast loop to confirm and settles its record. A record whose
+	 * confirmation times out is marked `unknown` rather than failed, since the transaction may still land.
+	 *
+	 * @param key - Record key.
+	 * @param sent - Signature of the submitted transaction.
+	 * @param commitment - Commitment to wait for.
+	 * @param abortSignal - Stops waiting.
+	 */
+	async function settleConfirmation(
+		key: string,
+		sent: ReturnType<typeof signature>,
+		commitment: Commitment,
+		abortSignal?: AbortSignal,
+	): Promise<void> {
+		try {
+			await waitForRecentTransactionConfirmationUntilTimeout({
+				abortSignal,
+				commitment,
+				getRecentSignatureConfirmationPromise: createRecentSignatureConfirmationPromiseFactory({
+					rpc: runtime.rpc,
+					rpcSubscriptions: runtime.rpcSubscriptions,
+				} as Parameters<typeof createRecentSignatureConfirmationPromiseFactory>[0]),
+				getTimeoutPromise,
+				signature: sent,
+			});
+		} catch (error) {
+			if (isTimeoutError(error)) {
+				transactionRecorder?.expire(key);
+				throw error;
+			}
+			const programError = await transactionRecorder?.fail(key, error);
+			throw programError ? new TransactionFailedError(sent, programError, error) : error;
+		}
+		transactionRecorder?.confirm(key, commitment);
+	}
+
+	/**
+	 * Settles the record of a submitted transaction in the background, without holding up the caller.
+	 *
+	 * @param key - Record key.
+	 * @param sent - Signature of the submitted transaction.
+	 * @param commitment - Commitment the record is settled at.
+	 */
+	function trackConfirmation(key: string, sent: ReturnType<typeof signature>, commitment: Commitment): void {
+		if (!transactionRecorder) {
+			return;
+		}
+		// The record carries the outcome; nobody awaits this promise.
+		settleConfirmation(key, sent, commitment).catch(() => undefined);
+	}
+
+	/**
+	 * Waits for confirmation when the caller asked for it, or settles the record in the background otherwise.
+	 *
+	 * @param key - Record key.
+	 * @param sent - Signature of the submitted transaction.
+	 * @param commitment - Commitment to wait for.
+	 * @param options - Send options.
+	 * @returns Signature of the submitted transaction.
+	 */
+	async function finishSend(
+		key: string,
+		sent: ReturnType<typeof signature>,
+		commitment: Commitment,
+		options: TransactionSendOptions,
+	): Promise<ReturnType<typeof signature>> {
+		if (options.waitForConfirmation) {
+			await settleConfirmation(key, sent, commitment, options.abortSignal);
+		} else {
+			trackConfirmation(key, sent, commitment);
+		}
+		return sent;
+	}
+
 	async function send(
 		prepared: TransactionPrepared,
 		options: TransactionSendOptions = {},
 	): Promise<ReturnType<typeof signature>> {
 		const commitment = options.commitment ?? prepared.commitment;
+		if (options.rebroadcast && prepared.mode === 'partial' && hasBlockhashLifetime(prepared)) {
+			return sendAndRebroadcast(prepared, options, options.rebroadcast);
+		}
 		if (prepared.mode === 'send') {
 			const signatureBytes = await signAndSendTransactionMessageWithSigners(prepared.message, {
 				abortSignal: options.abortSignal,
 				minContextSlot: options.minContextSlot,
 			});
 			const base58Decoder = getBase58Decoder();
-			return signature(base58Decoder.decode(signatureBytes));
+			const sent = signature(base58Decoder.decode(signatureBytes));
+			// The wallet submitted the transaction itself, so there is nothing to record before this point.
+			transactionRecorder?.start(sent.toString(), sent);
+			return finishSend(sent.toString(), sent, commitment, options);
 		}
 
-		const signed = await sign(prepared, {
-			abortSignal: options.abortSignal,
-			minContextSlot: options.minContextSlot,
-		});
+		const signed =
+			options.signedTransaction ??
+			(await sign(prepared, {
+				abortSignal: options.abortSignal,
+				minContextSlot: options.minContextSlot,
+			}));
+		const signedSignature = getSignatureFromTransaction(signed);
+		const key = signedSignature.toString();
+		transactionRecorder?.start(key, signedSignature, signed);
 
 		const wire = getBase64EncodedWireTransaction(signed);
 		const maxRetries =
@@ -331,16 +789,22 @@ export function createTransactionHelper(
 					? options.maxRetries
 					: BigInt(options.maxRetries);
 
-		const response = await runtime.rpc
-			.sendTransaction(wire, {
-				encoding: 'base64',
-				maxRetries,
-				preflightCommitment: commitment,
-				skipPreflight: options.skipPreflight,
-			})
-			.send({ abortSignal: options.abortSignal });
+		let response: string;
+		try {
+			response = await runtime.rpc
+				.sendTransaction(wire, {
+					encoding: 'base64',
+					maxRetries,
+					preflightCommitment: commitment,
+					skipPreflight: options.skipPreflight,
+				})
+				.send({ abortSignal: options.abortSignal });
+		} catch (error) {
+			await transactionRecorder?.fail(key, error);
+			throw error;
+		}
 
-		return signature(response);
+		return finishSend(key, signature(response), commitment, options);
 	}
 
 	async function prepareAndSend(
@@ -356,6 +820,8 @@ export function createTransactionHelper(
 		const tunedMessage = (await prepareTransactionUtility({
 			blockhashReset: prepareConfig.blockhashReset ?? false,
 			...prepareConfig,
+			// Replacing the lifetime would orphan the advance nonce instruction.
+			...(hasBlockhashLifetime(prepared) ? {} : { blockhashReset: false }),
 			rpc: runtime.rpc as Parameters<typeof prepareTransactionUtility>[0]['rpc'],
 			transaction: prepared.message as unknown as PrepareTransactionMessage,
 		})) as SignableTransactionMessage;
@@ -367,8 +833,10 @@ export function createTransactionHelper(
 	}
 
 	return Object.freeze({
+		measure,
 		prepare,
 		sign,
+		signAll,
 		toWire,
 		send,
 		prepareAndSend,
@@ -1,3 +1,17 @@
+export { createAccountCache } from './client/accountCache';
+export {
+	type CodecAccountDecoderConfig,
+	createAccountDecoder,
+	createAccountDecoderRegistry,
+	decodeAccountInfo,
+	decodeStakeAccount,
+	getAccountDataBytes,
+	STAKE_PROGRAM_ADDRESS,
+	type StakeAccount,
+	type StakeDelegation,
+	type StakeMeta,
+	TOKEN_2022_PROGRAM_ADDRESS,
+} from './client/accountDecoders';
 export { createClient } from './client/createClient';
 export { createClientStore, createDefaultClientStore, createInitialClientState } from './client/createClientStore';
 export {
@@ -6,6 +20,24 @@ export {
 	type SolTransferControllerConfig,
 	type SolTransferInput,
 } from './controllers/solTransferController';
+export {
+	ADDRESS_LOOKUP_TABLE_PROGRAM_ADDRESS,
+	type AddressLookupTableAccount,
+	type AddressLookupTableCloseConfig,
+	type AddressLookupTableCreateConfig,
+	type AddressLookupTableDeactivateConfig,
+	type AddressLookupTableExtendConfig,
+	type AddressLookupTableHelper,
+	createAddressLookupTableHelper,
+	decodeAddressLookupTable,
+	type PreparedAddressLookupTableOperation,
+} from './features/addressLookupTable';
+export {
+	createDurableNonceHelper,
+	type DurableNonceCreateConfig,
+	type DurableNonceHelper,
+	type PreparedDurableNonceCreate,
+} from './features/durableNonce';
 export {
 	createSolTransferHelper,
 	type SolTransferHelper,
@@ -14,11 +46,70 @@ export {
 } from './features/sol';
 export {
 	createSplTokenHelper,
+	type PreparedSplTokenOperation,
+	type SplApprovePrepareConfig,
+	type SplBurnPrepareConfig,
+	type SplCloseAccountPrepareConfig,
+	type SplCreateAtaPrepareConfig,
+	type SplFreezePrepareConfig,
+	type SplRevokePrepareConfig,
 	type SplTokenBalance,
+	type SplTokenBalanceExtensions,
 	type SplTokenHelper,
 	type SplTokenHelperConfig,
 	type SplTransferPrepareConfig,
 } from './features/spl';
+export {
+	createSplMintHelper,
+	type PreparedSplCreateMint,
+	type SplCreateMintPrepareConfig,
+	type SplMintAuthorityType,
+	type SplMintHelper,
+	type SplMintToPrepareConfig,
+	type SplSetAuthorityPrepareConfig,
+} from './features/splMint';
+export {
+	calculateTransferFee,
+	decodeMintExtensions,
+	decodeTokenAccountExtensions,
+	getEpochTransferFee,
+	getInitializeMintExtensionInstructions,
+	getMemoInstruction,
+	getMintSizeWithExtensions,
+	getTransferCheckedWithFeeInstruction,
+	type MetadataPointerConfig,
+	type ResolveTransferHookAccountsConfig,
+	resolveTransferHookAccounts,
+	type TokenAccountExtensions,
+	type TokenMetadataFields,
+	type TokenMintExtensions,
+	type TokenMintExtensionsInput,
+	type TransferFee,
+	type TransferFeeConfig,
+	type TransferHookConfig,
+} from './features/token2022';
+export {
+	createTokenMetadataResolver,
+	decodeMetaplexMetadata,
+	findMetaplexMetadataPda,
+	METAPLEX_TOKEN_METADATA_PROGRAM_ADDRESS,
+	type TokenMetadata,
+	type TokenMetadataCache,
+	type TokenMetadataJsonFetcher,
+	type TokenMetadataResolveConfig,
+	type TokenMetadataResolver,
+	type TokenMetadataResolverConfig,
+	type TokenMetadataResolverOptions,
+} from './features/tokenMetadata';
+export {
+	type FetchTokenPortfolioConfig,
+	fetchTokenPortfolio,
+	TOKEN_PORTFOLIO_PROGRAM_ADDRESSES,
+	type TokenPortfolio,
+	type TokenPortfolioAccount,
+	type TokenPortfolioConfig,
+	type TokenPortfolioHolding,
+} from './features/tokenPortfolio';
 export {
 	createTransactionHelper,
 	type TransactionHelper,
@@ -48,6 +139,26 @@ export {
 	toBigint,
 } from './numeric/math';
 export { type ApplyRatioOptions, applyRatio, createRatio, type Ratio, type RoundingMode } from './numeric/rational';
+export type {
+	ClientPersistence,
+	ClientPersistenceConfig,
+	PersistedClientState,
+	PersistedSlice,
+	PersistenceMigration,
+} from './persistence/clientPersistence';
+export {
+	type ClientStorageAdapter,
+	createIndexedDbStorageAdapter,
+	createLocalStorageAdapter,
+	createMemoryStorageAdapter,
+	type IndexedDbStorageAdapterConfig,
+} from './persistence/storage';
+export {
+	type AccountBatcher,
+	type AccountBatchingConfig,
+	type BatchedAccountResult,
+	createAccountBatcher,
+} from './rpc/accountBatcher';
 export {
 	type CreateSolanaRpcClientConfig,
 	createSolanaRpcClient,
@@ -55,6 +166,16 @@ export {
 	type SimulateTransactionOptions,
 	type SolanaRpcClient,
 } from './rpc/createSolanaRpcClient';
+export {
+	createFailoverRpcTransport,
+	type FailoverRpcTransport,
+	isRetryableRpcError,
+	type RpcEndpointConfig,
+	type RpcEndpointHealth,
+	type RpcEndpointInput,
+	type RpcFailoverConfig,
+	type RpcFailoverStrategy,
+} from './rpc/failover';
 export { bigintFromJson, bigintToJson, lamportsFromJson, lamportsToJson } from './serialization/json';
 export {
 	type ConfirmationCommitment,
@@ -65,22 +186,78 @@ export {
 	type SignatureLike,
 	type SignatureStatusLike,
 } from './signatures/status';
+export {
+	type SignTransactionMessagesConfig,
+	signTransactionMessagesWithSigners,
+} from './signers/signTransactionMessages';
 export { type AsyncState, type AsyncStatus, createAsyncState, createInitialAsyncState } from './state/asyncState';
+export {
+	type AddressLookupTableCache,
+	type AddressLookupTableCacheConfig,
+	createAddressLookupTableCache,
+} from './transactions/addressLookupTables';
 export {
 	transactionToBase64,
 	transactionToBase64WithSigners,
 } from './transactions/base64';
+export { type SplitInstructionsConfig, splitInstructionsBySize } from './transactions/instructionBatches';
+export {
+	type DurableNonceLifetime,
+	type DurableNonceLifetimeConfig,
+	fetchNonceAccount,
+	isDurableNonceLifetime,
+	type NonceAccount,
+	resolveDurableNonceLifetime,
+	setTransactionMessageLifetime,
+} from './transactions/nonceLifetime';
 export {
 	type PrepareTransactionConfig,
 	type PrepareTransactionMessage,
 	type PrepareTransactionOptions,
 	prepareTransaction,
 } from './transactions/prepareTransaction';
-export { insertReferenceKey, insertReferenceKeys } from './transactions/referenceKeys';
+export {
+	type ComputeUnitPriceInput,
+	type ComputeUnitPriceStrategy,
+	estimateComputeUnitPrice,
+	getFeePercentile,
+	getWritableAccounts,
+	type PriorityFeeEstimate,
+} from './transactions/priorityFees';
+export {
+	createProgramErrorRegistry,
+	describeTransactionProgramError,
+	isTransactionFailedError,
+	TransactionFailedError,
+} from './transactions/programErrors';
+export {
+	type RebroadcastTransaction,
+	sendWithRebroadcast,
+	type TransactionRebroadcastConfig,
+} from './transactions/rebroadcast';
+export { insertReferenceKey, insertReferenceKeys, MEMO_PROGRAM_ADDRESS } from './transactions/referenceKeys';
+export {
+	isTransactionSimulationError,
+	simulateTransactionMessage,
+	type TransactionSimulation,
+	TransactionSimulationError,
+} from './transactions/simulation';
+export {
+	decodeTransactionError,
+	summarizeTransaction,
+	type TransactionSummary,
+} from './transactions/transactionDetails';
 export {
 	createTransactionPoolController,
 	type LatestBlockhashCache,
+	type TransactionBatchEntry,
+	type TransactionBatchEntryStatus,
+	type TransactionBatchMode,
+	type TransactionBatchState,
+	type TransactionBatchStatus,
 	type TransactionInstructionList,
+	type TransactionPoolAddOptions,
+	type TransactionPoolBatchSendOptions,
 	type TransactionPoolConfig,
 	type TransactionPoolController,
 	type TransactionPoolPrepareAndSendOptions,
@@ -90,7 +267,12 @@ export {
 } from './transactions/transactionPoolController';
 export type {
 	AccountCache,
+	AccountCacheConfig,
+	AccountCacheController,
 	AccountCacheEntry,
+	AccountCacheRetainOptions,
+	AccountDecoder,
+	AccountDecoderRegistry,
 	AccountWatcherConfig,
 	BalanceWatcherConfig,
 	ClientActions,
@@ -98,13 +280,37 @@ export type {
 	ClientState,
 	ClientStore,
 	ClientWatchers,
+	DecodedAccountData,
+	LogsNotification,
+	LogsWatcherConfig,
+	ProgramAccountsFilter,
+	ProgramAccountsWatcherConfig,
+	ProgramErrorDescription,
+	ProgramErrorMap,
+	ProgramErrorRegistry,
+	ResolvedProgramError,
+	SendTransactionOptions,
+	SetClusterConfig,
+	SignatureWatcherConfig,
+	SlotNotification,
 	SolanaClient,
 	SolanaClientConfig,
+	SubscriptionReconnectConfig,
+	SubscriptionState,
+	SubscriptionStatus,
+	TransactionInstructionSummary,
+	TransactionProgramError,
+	TransactionRecord,
+	TransactionSendAttempt,
+	WalletAccount,
+	WalletAutoConnectConfig,
+	WalletAutoConnectPolicy,
 	WalletConnector,
 	WalletConnectorMetadata,
 	WalletRegistry,
 	WalletSession,
 	WalletStatus,
+	WatchSubscription,
 } from './types';
 export { type AddressLike, toAddress, toAddressString } from './utils/addressLike';
 export { stableStringify } from './utils/stableStringify';
@@ -112,5 +318,6 @@ export { createWalletRegistry } from './wallet/registry';
 export {
 	createWalletStandardConnector,
 	getWalletStandardConnectors,
+	type WalletStandardDiscoveryOptions,
 	watchWalletStandardConnectors,
 } from './wallet/standard';
@@ -0,0 +1,147 @@
+import type { Address, Lamports, Signature } from '@solana/kit';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createDefaultClientStore } from '../client/createClientStore';
+import type { ClientStore } from '../types';
+import {
+	createClientPersistence,
+	deserializePersistedState,
+	selectPersistedState,
+	serializePersistedState,
+} from './clientPersistence';
+import { createMemoryStorageAdapter } from './storage';
+
+const STORAGE_KEY = 'solana-client:state';
+
+describe('client persistence', () => {
+	let store: ClientStore;
+	const logger = vi.fn();
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		logger.mockReset();
+		store = createDefaultClientStore({
+			commitment: 'confirmed',
+			endpoint: 'https://rpc.default',
+			websocketEndpoint: 'wss://rpc.default',
+		});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('round-trips bigint values through serialization', () => {
+		store.setState((state) => ({
+			...state,
+			accounts: {
+				addr: {
+					address: 'addr' as Address,
+					fetching: true,
+					lamports: 500n as Lamports,
+					slot: 12n,
+				},
+			},
+		}));
+		const persisted = selectPersistedState(store.getState(), ['accounts']);
+		const raw = serializePersistedState(persisted, 1);
+		expect(raw).toContain('"__type":"bigint"');
+		const restored = deserializePersistedState(raw, 1);
+		expect(restored.accounts?.addr).toEqual({
+			address: 'addr',
+			fetching: false,
+			lamports: 500n,
+			slot: 12n,
+		});
+	});
+
+	it('applies migrations up to the configured version', () => {
+		const raw = serializePersistedState({ cluster: undefined }, 1);
+		const migration = vi.fn(() => ({ wallet: { lastConnectorId: 'phantom' } }));
+		expect(deserializePersistedState(raw, 2, { 2: migration })).toEqual({ wallet: { lastConnectorId: 'phantom' } });
+		expect(migration).toHaveBeenCalledWith({});
+		expect(() => deserializePersistedState(raw, 3, { 2: migration })).toThrow(/version 3/);
+		expect(() => deserializePersistedState(serializePersistedState({}, 4), 3)).toThrow(/newer/);
+	});
+
+	it('rehydrates the cluster, wallet connector and transactions', async () => {
+		const signature = 'sig' as Signature;
+		const storage = createMemoryStorageAdapter({
+			[STORAGE_KEY]: serializePersistedState(
+				{
+					cluster: {
+						commitment: 'finalized',
+						endpoint: 'https://rpc.persisted',
+						websocketEndpoint: 'wss://rpc.persisted',
+					},
+					transactions: { sig: { lastUpdatedAt: 1, signature, status: 'confirmed' } },
+					wallet: { lastConnectorId: 'phantom' },
+				},
+				1,
+			),
+		});
+		const persistence = createClientPersistence({ config: { storage }, logger, store });
+
+		await persistence.hydrate();
+
+		const state = store.getState();
+		expect(persistence.isHydrated()).toBe(true);
+		expect(state.cluster).toMatchObject({
+			commitment: 'finalized',
+			endpoint: 'https://rpc.persisted',
+			status: { status: 'idle' },
+			websocketEndpoint: 'wss://rpc.persisted',
+		});
+		expect(state.wallet).toEqual({ lastConnectorId: 'phantom', status: 'disconnected' });
+		expect(state.transactions.sig).toEqual({ lastUpdatedAt: 1, signature, status: 'confirmed' });
+	});
+
+	it('writes changed slices after hydration and remembers connected wallets', async () => {
+		const storage = createMemoryStorageAdapter();
+		const persistence = createClientPersistence({ config: { debounceMs: 10, storage }, logger, store });
+		await persistence.hydrate();
+
+		store.setState((state) => ({
+			...state,
+			wallet: { connectorId: 'solflare', session: {} as never, status: 'connected' },
+		}));
+		store.setState((state) => ({
+			...state,
+			transactions: {
+				sig: { error: new Error('boom'), lastUpdatedAt: 2, signature: 'sig' as Signature, status: 'failed' },
+			},
+		}));
+		expect(storage.getItem(STORAGE_KEY)).toBeNull();
+
+		await vi.advanceTimersByTimeAsync(10);
+
+		const persisted = deserializePersistedState(storage.getItem(STORAGE_KEY) as string, 1);
+		expect(persisted.wallet).toEqual({ lastConnectorId: 'solflare' });
+		expect(persisted.transactions?.sig.error).toBe('boom');
+		expect(persisted.accounts).toBeUndefined();
+
+		store.setState((state) => ({ ...state, wallet: { status: 'disconnected' } }));
+		await persistence.flush();
+		expect(deserializePersistedState(storage.getItem(STORAGE_KEY) as string, 1).wallet).toEqual({});
+	});
+
+	it('ignores unreadable payloads and stops writing once stopped', async () => {
+		const storage = createMemoryStorageAdapter({ [STORAGE_KEY]: '{not json' });
+		const setItem = vi.spyOn(storage, 'setItem');
+		const persistence = createClientPersistence({ config: { storage }, logger, store });
+
+		await persistence.hydrate();
+		expect(logger).toHaveBeenCalledWith(
+			expect.objectContaining({ level: 'warn', message: 'client state rehydration failed' }),
+		);
+		expect(store.getState().cluster.endpoint).toBe('https://rpc.default');
+
+		persistence.stop();
+		store.setState((state) => ({ ...state, transactions: {} }));
+		await vi.runAllTimersAsync();
+		expect(setItem).not.toHaveBeenCalled();
+
+		await persistence.clear();
+		expect(storage.getItem(STORAGE_KEY)).toBeNull();
+	});
+});
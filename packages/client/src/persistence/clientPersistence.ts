@@ -0,0 +1,392 @@
+import { createLogger, formatError } from '../logging/logger';
+import { bigintFromJson, bigintToJson, lamportsFromJson } from '../serialization/json';
+import type {
+	AccountCache,
+	ClientLogger,
+	ClientState,
+	ClientStore,
+	ClusterState,
+	TransactionState,
+	WalletStatus,
+} from '../types';
+import { now, toErrorMessage } from '../utils';
+import type { ClientStorageAdapter } from './storage';
+
+export type PersistedSlice = 'accounts' | 'cluster' | 'transactions' | 'wallet';
+
+export type PersistedClientState = Readonly<{
+	accounts?: AccountCache;
+	cluster?: Pick<ClusterState, 'commitment' | 'endpoint' | 'websocketEndpoint'>;
+	transactions?: TransactionState;
+	wallet?: Readonly<{ lastConnectorId?: string }>;
+}>;
+
+export type PersistenceMigration = (state: unknown) => unknown;
+
+export type ClientPersistenceConfig = Readonly<{
+	/** Milliseconds to wait before writing so bursts of store updates collapse into a single write. */
+	debounceMs?: number;
+	key?: string;
+	/** Migrations keyed by the version they upgrade a payload to. */
+	migrations?: Readonly<Record<number, PersistenceMigration>>;
+	slices?: readonly PersistedSlice[];
+	storage: ClientStorageAdapter;
+	version?: number;
+}>;
+
+export type ClientPersistence = Readonly<{
+	clear(): Promise<void>;
+	flush(): Promise<void>;
+	hydrate(): Promise<void>;
+	isHydrated(): boolean;
+	stop(): void;
+}>;
+
+type PersistedEnvelope = Readonly<{
+	state: unknown;
+	version: number;
+}>;
+
+type PersistenceDeps = Readonly<{
+	config: ClientPersistenceConfig;
+	logger?: ClientLogger;
+	store: ClientStore;
+}>;
+
+const DEFAULT_PERSISTENCE_KEY = 'solana-client:state';
+const DEFAULT_PERSISTED_SLICES: readonly PersistedSlice[] = ['cluster', 'transactions', 'wallet'];
+const DEFAULT_DEBOUNCE_MS = 50;
+
+/**
+ * JSON replacer that tags bigint values so they survive a round trip.
+ *
+ * @param _key - Property name being serialized.
+ * @param value - Property value being serialized.
+ * @returns JSON-compatible value.
+ */
+function replaceBigints(_key: string, value: unknown): unknown {
+	if (typeof value === 'bigint') {
+		return { __type: 'bigint', value: bigintToJson(value) };
+	}
+	return value;
+}
+
+/**
+ * JSON reviver that restores values tagged by {@link replaceBigints}.
+ *
+ * @param _key - Property name being parsed.
+ * @param value - Parsed property value.
+ * @returns Restored value.
+ */
+function reviveBigints(_key: string, value: unknown): unknown {
+	if (
+		typeof value === 'object' &&
+		value !== null &&
+		(value as { __type?: unknown }).__type === 'bigint' &&
+		typeof (value as { value?: unknown }).value === 'string'
+	) {
+		return bigintFromJson((value as { value: string }).value);
+	}
+	return value;
+}
+
+/**
+ * Resolves the connector that should be remembered for the provided wallet status.
+ *
+ * @param wallet - Current wallet status.
+ * @param previous - Connector identifier that was remembered previously.
+ * @returns Connector identifier to persist, if any.
+ */
+function resolveLastConnectorId(wallet: WalletStatus, previous: string | undefined): string | undefined {
+	switch (wallet.status) {
+		case 'connected':
+			return wallet.connectorId;
+		case 'disconnected':
+			return wallet.lastConnectorId;
+		default:
+			return previous;
+	}
+}
+
+/**
+ * Extracts the configured slices from the client state.
+ *
+ * @param state - Current client state.
+ * @param slices - Slices that should be persisted.
+ * @param lastConnectorId - Previously persisted connector identifier.
+ * @returns Serializable subset of the client state.
+ */
+export function selectPersistedState(
+	state: ClientState,
+	slices: readonly PersistedSlice[],
+	lastConnectorId?: string,
+): PersistedClientState {
+	const persisted: {
+		-readonly [K in keyof PersistedClientState]: PersistedClientState[K];
+	} = {};
+	if (slices.includes('accounts')) {
+		const accounts: Record<string, AccountCache[string]> = {};
+		for (const [key, entry] of Object.entries(state.accounts)) {
+			accounts[key] = {
+				address: entry.address,
+				data: entry.data,
+				fetching: false,
+				lamports: entry.lamports,
+				lastFetchedAt: entry.lastFetchedAt,
+				slot: entry.slot,
+			};
+		}
+		persisted.accounts = accounts;
+	}
+	if (slices.includes('cluster')) {
+		persisted.cluster = {
+			commitment: state.cluster.commitment,
+			endpoint: state.cluster.endpoint,
+			websocketEndpoint: state.cluster.websocketEndpoint,
+		};
+	}
+	if (slices.includes('transactions')) {
+		const transactions: Record<string, TransactionState[string]> = {};
+		for (const [key, record] of Object.entries(state.transactions)) {
+			const attempts = record.attempts?.map((attempt) =>
+				attempt.error === undefined ? attempt : { ...attempt, error: toErrorMessage(attempt.error) },
+			);
+			const serialisable = attempts ? { ...record, attempts } : record;
+			transactions[key] =
+				serialisable.error === undefined
+					? serialisable
+					: { ...serialisable, error: toErrorMessage(serialisable.error) };
+		}
+		persisted.transactions = transactions;
+	}
+	if (slices.includes('wallet')) {
+		persisted.wallet = { lastConnectorId: resolveLastConnectorId(state.wallet, lastConnectorId) };
+	}
+	return persisted;
+}
+
+/**
+ * Serializes a persisted state payload together with its schema version.
+ *
+ * @param state - Persisted state subset.
+ * @param version - Schema version of the payload.
+ * @returns JSON string with bigint values encoded as tagged strings.
+ */
+export function serializePersistedState(state: PersistedClientState, version: number): string {
+	return JSON.stringify({ state, version } satisfies PersistedEnvelope, replaceBigints);
+}
+
+/**
+ * Parses a persisted payload and upgrades it to the requested version.
+ *
+ * @param raw - JSON string produced by {@link serializePersistedState}.
+ * @param version - Version the payload should be migrated to.
+ * @param migrations - Migrations keyed by the version they produce.
+ * @returns Persisted state at the requested version.
+ * @throws When the payload is malformed, newer than `version`, or a migration is missing.
+ */
+export function deserializePersistedState(
+	raw: string,
+	version: number,
+	migrations: Readonly<Record<number, PersistenceMigration>> = {},
+): PersistedClientState {
+	const envelope = JSON.parse(raw, reviveBigints) as Partial<PersistedEnvelope> | null;
+	if (!envelope || typeof envelope.version !== 'number' || typeof envelope.state !== 'object') {
+		throw new Error('Persisted client state is malformed.');
+	}
+	if (envelope.version > version) {
+		throw new Error(
+			`Persisted client state version ${envelope.version} is newer than the supported version ${version}.`,
+		);
+	}
+	let state: unknown = envelope.state;
+	for (let next = envelope.version + 1; next <= version; next++) {
+		const migrate = migrations[next];
+		if (!migrate) {
+			throw new Error(`No persistence migration registered for version ${next}.`);
+		}
+		state = migrate(state);
+	}
+	return (state ?? {}) as PersistedClientState;
+}
+
+/**
+ * Merges a persisted payload into the live client state.
+ *
+ * @param state - Current client state.
+ * @param persisted - Persisted subset to restore.
+ * @returns Client state with the persisted slices applied.
+ */
+function applyPersistedState(state: ClientState, persisted: PersistedClientState): ClientState {
+	let next = state;
+	if (persisted.cluster) {
+		next = {
+			...next,
+			cluster: {
+				...next.cluster,
+				commitment: persisted.cluster.commitment,
+				endpoint: persisted.cluster.endpoint,
+				websocketEndpoint: persisted.cluster.websocketEndpoint,
+			},
+		};
+	}
+	if (persisted.accounts) {
+		const accounts: Record<string, AccountCache[string]> = {};
+		for (const [key, entry] of Object.entries(persisted.accounts)) {
+			accounts[key] = {
+				...entry,
+				fetching: false,
+				lamports: entry.lamports === null ? null : lamportsFromJson(entry.lamports),
+			};
+		}
+		next = { ...next, accounts: { ...accounts, ...next.accounts } };
+	}
+	if (persisted.transactions) {
+		next = { ...next, transactions: { ...persisted.transactions, ...next.transactions } };
+	}
+	if (persisted.wallet?.lastConnectorId && next.wallet.status === 'disconnected') {
+		next = {
+			...next,
+			wallet: { lastConnectorId: persisted.wallet.lastConnectorId, status: 'disconnected' },
+		};
+	}
+	return next === state ? state : { ...next, lastUpdatedAt: now() };
+}
+
+/**
+ * Returns whether any persisted slice changed between two state snapshots.
+ *
+ * @param state - Next state snapshot.
+ * @param previous - Previous state snapshot.
+ * @param slices - Slices that are persisted.
+ * @returns `true` when a write is required.
+ */
+function hasPersistedChanges(state: ClientState, previous: ClientState, slices: readonly PersistedSlice[]): boolean {
+	return slices.some((slice) => state[slice] !== previous[slice]);
+}
+
+/**
+ * Creates a persistence controller that rehydrates and saves selected slices of {@link ClientState}.
+ *
+ * Writes only start once {@link ClientPersistence.hydrate} has completed so the initial state never
+ * overwrites a previously persisted payload.
+ *
+ * @param deps - Persistence configuration, logger and the store to synchronize.
+ * @returns Controller exposing hydration, flushing and teardown helpers.
+ */
+export function createClientPersistence({ config, logger: inputLogger, store }: PersistenceDeps): ClientPersistence {
+	const logger = inputLogger ?? createLogger();
+	const key = config.key ?? DEFAULT_PERSISTENCE_KEY;
+	const slices = config.slices ?? DEFAULT_PERSISTED_SLICES;
+	const version = config.version ?? 1;
+	const debounceMs = config.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+	const storage = config.storage;
+	let hydrated = false;
+	let hydration: Promise<void> | undefined;
+	let lastConnectorId: string | undefined;
+	let pendingWrite: ReturnType<typeof setTimeout> | undefined;
+	let writeQueue: Promise<void> = Promise.resolve();
+	let unsubscribe: (() => void) | undefined;
+	let stopped = false;
+
+	/**
+	 * Writes the current state to storage, serializing writes so the latest snapshot wins.
+	 *
+	 * @returns Promise that resolves once the write has completed.
+	 */
+	function write(): Promise<void> {
+		pendingWrite = undefined;
+		const persisted = selectPersistedState(store.getState(), slices, lastConnectorId);
+		if (persisted.wallet) {
+			lastConnectorId = persisted.wallet.lastConnectorId;
+		}
+		const payload = serializePersistedState(persisted, version);
+		writeQueue = writeQueue
+			.then(() => storage.setItem(key, payload))
+			.catch((error) => {
+				logger({
+					data: { key, ...formatError(error) },
+					level: 'warn',
+					message: 'client state persistence failed',
+				});
+			});
+		return writeQueue;
+	}
+
+	function scheduleWrite(): void {
+		if (pendingWrite !== undefined) {
+			return;
+		}
+		pendingWrite = setTimeout(() => {
+			void write();
+		}, debounceMs);
+	}
+
+	async function hydrate(): Promise<void> {
+		if (hydration) {
+			return hydration;
+		}
+		hydration = (async () => {
+			try {
+				const raw = await storage.getItem(key);
+				if (raw !== null && !stopped) {
+					const persisted = deserializePersistedState(raw, version, config.migrations);
+					lastConnectorId = persisted.wallet?.lastConnectorId;
+					store.setState((state) => applyPersistedState(state, persisted));
+				}
+			} catch (error) {
+				logger({
+					data: { key, ...formatError(error) },
+					level: 'warn',
+					message: 'client state rehydration failed',
+				});
+			}
+			hydrated = true;
+			if (!stopped) {
+				unsubscribe = store.subscribe((state, previous) => {
+					if (hasPersistedChanges(state, previous, slices)) {
+						scheduleWrite();
+					}
+				});
+			}
+		})();
+		return hydration;
+	}
+
+	async function flush(): Promise<void> {
+		if (pendingWrite !== undefined) {
+			clearTimeout(pendingWrite);
+			await write();
+			return;
+		}
+		await writeQueue;
+	}
+
+	async function clear(): Promise<void> {
+		if (pendingWrite !== undefined) {
+			clearTimeout(pendingWrite);
+			pendingWrite = undefined;
+		}
+		lastConnectorId = undefined;
+		await writeQueue;
+		await storage.removeItem(key);
+	}
+
+	function stop(): void {
+		stopped = true;
+		if (pendingWrite !== undefined) {
+			clearTimeout(pendingWrite);
+			void write();
+		}
+		unsubscribe?.();
+		unsubscribe = undefined;
+	}
+
+	return {
+		clear,
+		flush,
+		hydrate,
+		isHydrated: () => hydrated,
+		stop,
+	};
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createIndexedDbStorageAdapter, createLocalStorageAdapter, createMemoryStorageAdapter } from './storage';
+
+describe('storage adapters', () => {
+	it('stores values in memory', () => {
+		const storage = createMemoryStorageAdapter({ seeded: 'value' });
+		expect(storage.getItem('seeded')).toBe('value');
+		storage.setItem('key', 'next');
+		expect(storage.getItem('key')).toBe('next');
+		storage.removeItem('key');
+		expect(storage.getItem('key')).toBeNull();
+	});
+
+	it('delegates to the provided web storage', () => {
+		const backing = {
+			getItem: vi.fn(() => 'stored'),
+			removeItem: vi.fn(),
+			setItem: vi.fn(),
+		};
+		const storage = createLocalStorageAdapter(backing);
+		expect(storage.getItem('key')).toBe('stored');
+		storage.setItem('key', 'value');
+		storage.removeItem('key');
+		expect(backing.setItem).toHaveBeenCalledWith('key', 'value');
+		expect(backing.removeItem).toHaveBeenCalledWith('key');
+	});
+
+	it('falls back to a no-op when web storage is unavailable', () => {
+		const storage = createLocalStorageAdapter();
+		expect(storage.getItem('key')).toBeNull();
+		expect(() => storage.setItem('key', 'value')).not.toThrow();
+	});
+
+	it('rejects when IndexedDB is unavailable', async () => {
+		const storage = createIndexedDbStorageAdapter();
+		await expect(storage.getItem('key')).rejects.toThrow(/IndexedDB is not available/);
+	});
+});
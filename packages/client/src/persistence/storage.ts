@@ -0,0 +1,137 @@
+type MaybePromise<T> = Promise<T> | T;
+
+export type ClientStorageAdapter = Readonly<{
+	getItem(key: string): MaybePromise<string | null>;
+	removeItem(key: string): MaybePromise<void>;
+	setItem(key: string, value: string): MaybePromise<void>;
+}>;
+
+type WebStorageLike = Pick<Storage, 'getItem' | 'removeItem' | 'setItem'>;
+
+export type IndexedDbStorageAdapterConfig = Readonly<{
+	databaseName?: string;
+	indexedDB?: IDBFactory;
+	storeName?: string;
+}>;
+
+const DEFAULT_INDEXED_DB_NAME = 'solana-client';
+const DEFAULT_INDEXED_DB_STORE = 'state';
+
+/**
+ * Creates a storage adapter that keeps values in memory for the lifetime of the adapter.
+ *
+ * @param initial - Optional entries used to seed the adapter.
+ * @returns Storage adapter backed by a {@link Map}.
+ */
+export function createMemoryStorageAdapter(initial: Readonly<Record<string, string>> = {}): ClientStorageAdapter {
+	const entries = new Map<string, string>(Object.entries(initial));
+	return {
+		getItem: (key) => entries.get(key) ?? null,
+		removeItem: (key) => {
+			entries.delete(key);
+		},
+		setItem: (key, value) => {
+			entries.set(key, value);
+		},
+	};
+}
+
+/**
+ * Creates a storage adapter backed by the Web Storage API.
+ *
+ * Falls back to a no-op adapter when no storage is available (for example during SSR).
+ *
+ * @param storage - Storage implementation to use. Defaults to `globalThis.localStorage`.
+ * @returns Storage adapter that reads and writes synchronously.
+ */
+export function createLocalStorageAdapter(storage?: WebStorageLike): ClientStorageAdapter {
+	const resolveStorage = (): WebStorageLike | undefined => {
+		if (storage) {
+			return storage;
+		}
+		try {
+			return typeof globalThis.localStorage === 'undefined' ? undefined : globalThis.localStorage;
+		} catch {
+			return undefined;
+		}
+	};
+	return {
+		getItem: (key) => resolveStorage()?.getItem(key) ?? null,
+		removeItem: (key) => {
+			resolveStorage()?.removeItem(key);
+		},
+		setItem: (key, value) => {
+			resolveStorage()?.setItem(key, value);
+		},
+	};
+}
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ *
+ * @param request - Request returned by an IndexedDB operation.
+ * @returns Promise resolving with the request result.
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+/**
+ * Creates a storage adapter backed by a single IndexedDB object store.
+ *
+ * The database is opened lazily on first access and reused for subsequent operations.
+ *
+ * @param config - Optional database, store and factory overrides.
+ * @returns Storage adapter that reads and writes asynchronously.
+ */
+export function createIndexedDbStorageAdapter(config: IndexedDbStorageAdapterConfig = {}): ClientStorageAdapter {
+	const databaseName = config.databaseName ?? DEFAULT_INDEXED_DB_NAME;
+	const storeName = config.storeName ?? DEFAULT_INDEXED_DB_STORE;
+	let database: Promise<IDBDatabase> | undefined;
+
+	function openDatabase(): Promise<IDBDatabase> {
+		if (database) {
+			return database;
+		}
+		const factory = config.indexedDB ?? globalThis.indexedDB;
+		if (!factory) {
+			return Promise.reject(new Error('IndexedDB is not available in this environment.'));
+		}
+		const request = factory.open(databaseName, 1);
+		request.onupgradeneeded = () => {
+			if (!request.result.objectStoreNames.contains(storeName)) {
+				request.result.createObjectStore(storeName);
+			}
+		};
+		database = promisifyRequest(request).catch((error) => {
+			database = undefined;
+			throw error;
+		});
+		return database;
+	}
+
+	async function runTransaction<T>(
+		mode: IDBTransactionMode,
+		operation: (store: IDBObjectStore) => IDBRequest<T>,
+	): Promise<T> {
+		const db = await openDatabase();
+		const transaction = db.transaction(storeName, mode);
+		return promisifyRequest(operation(transaction.objectStore(storeName)));
+	}
+
+	return {
+		async getItem(key) {
+			const value = await runTransaction<unknown>('readonly', (store) => store.get(key));
+			return typeof value === 'string' ? value : null;
+		},
+		async removeItem(key) {
+			await runTransaction('readwrite', (store) => store.delete(key));
+		},
+		async setItem(key, value) {
+			await runTransaction('readwrite', (store) => store.put(value, key));
+		},
+	};
+}
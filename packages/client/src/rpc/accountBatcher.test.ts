@@ -0,0 +1,58 @@
+import type { Address } from '@solana/kit';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { SolanaClientRuntime } from '../types';
+import { createAccountBatcher } from './accountBatcher';
+
+describe('account batcher', () => {
+	let runtime: SolanaClientRuntime;
+	const getMultipleAccounts = vi.fn((addresses: readonly Address[]) => ({
+		send: vi.fn(async () => ({
+			context: { slot: 7n },
+			value: addresses.map((address) => (address === 'missing' ? null : { lamports: BigInt(address.length) })),
+		})),
+	}));
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		getMultipleAccounts.mockClear();
+		runtime = {
+			rpc: { getMultipleAccounts } as unknown as SolanaClientRuntime['rpc'],
+			rpcSubscriptions: {} as SolanaClientRuntime['rpcSubscriptions'],
+		};
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('waits for the batch window and groups reads by commitment', async () => {
+		const batcher = createAccountBatcher(runtime, { windowMs: 5 });
+		const first = batcher.load('aa' as Address, 'confirmed');
+		const second = batcher.load('missing' as Address, 'confirmed');
+		const finalized = batcher.load('bbb' as Address, 'finalized');
+		expect(getMultipleAccounts).not.toHaveBeenCalled();
+
+		await vi.advanceTimersByTimeAsync(5);
+
+		expect(getMultipleAccounts).toHaveBeenCalledTimes(2);
+		await expect(first).resolves.toEqual({ slot: 7n, value: { lamports: 2n } });
+		await expect(second).resolves.toEqual({ slot: 7n, value: null });
+		await expect(finalized).resolves.toEqual({ slot: 7n, value: { lamports: 3n } });
+	});
+
+	it('dedupes in-flight reads and sends full batches immediately', async () => {
+		const batcher = createAccountBatcher(runtime, { maxBatchSize: 2 });
+		const first = batcher.load('a' as Address, 'confirmed');
+		expect(batcher.load('a' as Address, 'confirmed')).toBe(first);
+		batcher.load('b' as Address, 'confirmed');
+
+		expect(getMultipleAccounts).toHaveBeenCalledWith(['a', 'b'], { commitment: 'confirmed', encoding: 'base64' });
+		expect(batcher.load('a' as Address, 'confirmed')).toBe(first);
+		await first;
+
+		batcher.load('a' as Address, 'confirmed');
+		await vi.runAllTimersAsync();
+		expect(getMultipleAccounts).toHaveBeenCalledTimes(2);
+	});
+});
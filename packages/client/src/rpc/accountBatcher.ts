@@ -0,0 +1,134 @@
+import type { Address, Commitment } from '@solana/kit';
+
+import type { SolanaClientRuntime } from '../types';
+
+type MultipleAccountsResponse = Awaited<
+	ReturnType<ReturnType<SolanaClientRuntime['rpc']['getMultipleAccounts']>['send']>
+>;
+
+export type BatchedAccountInfo = MultipleAccountsResponse['value'][number];
+
+export type BatchedAccountResult = Readonly<{
+	slot: bigint;
+	value: BatchedAccountInfo;
+}>;
+
+export type AccountBatchingConfig = Readonly<{
+	/** Maximum number of addresses per `getMultipleAccounts` call. Defaults to 100 (the RPC limit). */
+	maxBatchSize?: number;
+	/** How long reads are collected before a batch is sent. Defaults to 10ms. */
+	windowMs?: number;
+}>;
+
+export type AccountBatcher = Readonly<{
+	load(address: Address, commitment: Commitment): Promise<BatchedAccountResult>;
+}>;
+
+type PendingBatch = {
+	addresses: Address[];
+	commitment: Commitment;
+	requests: Map<string, Deferred>;
+	timer?: ReturnType<typeof setTimeout>;
+};
+
+type Deferred = {
+	promise: Promise<BatchedAccountResult>;
+	reject(error: unknown): void;
+	resolve(result: BatchedAccountResult): void;
+};
+
+const DEFAULT_MAX_BATCH_SIZE = 100;
+const DEFAULT_WINDOW_MS = 10;
+
+/**
+ * Creates a promise together with its settle functions.
+ *
+ * @returns Deferred promise handle.
+ */
+function createDeferred(): Deferred {
+	let resolve: Deferred['resolve'] = () => undefined;
+	let reject: Deferred['reject'] = () => undefined;
+	const promise = new Promise<BatchedAccountResult>((innerResolve, innerReject) => {
+		resolve = innerResolve;
+		reject = innerReject;
+	});
+	return { promise, reject, resolve };
+}
+
+/**
+ * Coalesces concurrent account reads into `getMultipleAccounts` requests.
+ *
+ * Reads for the same address and commitment share a single in-flight promise until the response arrives, so
+ * repeated calls within a batch window (or while a batch is in flight) never hit the network twice.
+ *
+ * @param runtime - Client runtime; the RPC instance is read when each batch is sent.
+ * @param config - Optional batching window and size overrides.
+ * @returns Batcher exposing a `load` function.
+ */
+export function createAccountBatcher(runtime: SolanaClientRuntime, config: AccountBatchingConfig = {}): AccountBatcher {
+	const maxBatchSize = Math.min(DEFAULT_MAX_BATCH_SIZE, Math.max(1, config.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE));
+	const windowMs = config.windowMs ?? DEFAULT_WINDOW_MS;
+	const pending = new Map<Commitment, PendingBatch>();
+	const inFlight = new Map<string, Promise<BatchedAccountResult>>();
+
+	/**
+	 * Sends a batch and settles every request waiting on it.
+	 *
+	 * @param batch - Batch that should be dispatched.
+	 */
+	async function flush(batch: PendingBatch): Promise<void> {
+		if (pending.get(batch.commitment) === batch) {
+			pending.delete(batch.commitment);
+		}
+		clearTimeout(batch.timer);
+		try {
+			const response = await runtime.rpc
+				.getMultipleAccounts(batch.addresses, { commitment: batch.commitment, encoding: 'base64' })
+				.send({ abortSignal: AbortSignal.timeout(10_000) });
+			batch.addresses.forEach((address, index) => {
+				batch.requests
+					.get(address)
+					?.resolve({ slot: response.context.slot, value: response.value[index] ?? null });
+			});
+		} catch (error) {
+			for (const request of batch.requests.values()) {
+				request.reject(error);
+			}
+		}
+	}
+
+	/**
+	 * Queues an account read, reusing any identical read that has not settled yet.
+	 *
+	 * @param address - Account address to read.
+	 * @param commitment - Commitment for the read.
+	 * @returns Promise resolving with the account info and the slot it was read at.
+	 */
+	function load(address: Address, commitment: Commitment): Promise<BatchedAccountResult> {
+		const key = `${commitment}:${address}`;
+		const existing = inFlight.get(key);
+		if (existing) {
+			return existing;
+		}
+		let batch = pending.get(commitment);
+		if (!batch) {
+			const created: PendingBatch = { addresses: [], commitment, requests: new Map() };
+			created.timer = setTimeout(() => void flush(created), windowMs);
+			pending.set(commitment, created);
+			batch = created;
+		}
+		const deferred = createDeferred();
+		batch.addresses.push(address);
+		batch.requests.set(address, deferred);
+		const promise = deferred.promise.finally(() => {
+			inFlight.delete(key);
+		});
+		inFlight.set(key, promise);
+		if (batch.addresses.length >= maxBatchSize) {
+			void flush(batch);
+		}
+		return promise;
+	}
+
+	return Object.freeze({ load });
+}
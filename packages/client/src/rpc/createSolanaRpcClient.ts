@@ -2,6 +2,7 @@ import {
 	type ClusterUrl,
 	type Commitment,
 	createSolanaRpc,
+	createSolanaRpcFromTransport,
 	createSolanaRpcSubscriptions,
 	getBase64EncodedWireTransaction,
 	type SendableTransaction,
@@ -15,6 +16,14 @@ import {
 	waitForRecentTransactionConfirmation,
 } from '@solana/transaction-confirmation';
 
+import {
+	createFailoverRpcTransport,
+	normalizeRpcEndpoints,
+	type RpcEndpointHealth,
+	type RpcEndpointInput,
+	type RpcFailoverConfig,
+} from './failover';
+
 type SolanaRpcInstance = ReturnType<typeof createSolanaRpc>;
 type SolanaRpcSubscriptionsInstance = ReturnType<typeof createSolanaRpcSubscriptions>;
 
@@ -41,6 +50,10 @@ export type SimulateTransactionOptions = Readonly<{
 export type SolanaRpcClient = Readonly<{
 	commitment: Commitment;
 	endpoint: ClusterUrl;
+	/** Endpoint that served the most recent successful request. */
+	getActiveEndpoint(): ClusterUrl;
+	getEndpointHealth(): readonly RpcEndpointHealth[];
+	onActiveEndpointChange(listener: (endpoint: ClusterUrl) => void): () => void;
 	rpc: SolanaRpcInstance;
 	rpcSubscriptions: SolanaRpcSubscriptionsInstance;
 	sendAndConfirmTransaction(
@@ -57,6 +70,9 @@ export type SolanaRpcClient = Readonly<{
 export type CreateSolanaRpcClientConfig = Readonly<{
 	commitment?: Commitment;
 	endpoint: ClusterUrl;
+	/** Fallback endpoints; when provided requests fail over between `endpoint` and these URLs. */
+	endpoints?: readonly RpcEndpointInput[];
+	failover?: RpcFailoverConfig;
 	rpcConfig?: Parameters<typeof createSolanaRpc>[1];
 	rpcSubscriptionsConfig?: Parameters<typeof createSolanaRpcSubscriptions>[1];
 	websocketEndpoint?: ClusterUrl;
@@ -99,7 +115,16 @@ export function createSolanaRpcClient(config: CreateSolanaRpcClientConfig): Sola
 	const endpoint = config.endpoint;
 	const websocketEndpoint = config.websocketEndpoint ?? endpoint;
 	const commitment = config.commitment ?? 'confirmed';
-	const rpc = createSolanaRpc(endpoint, config.rpcConfig);
+	const failover = config.endpoints?.length
+		? createFailoverRpcTransport({
+				endpoints: normalizeRpcEndpoints(endpoint, config.endpoints),
+				failover: config.failover,
+				transportConfig: config.rpcConfig,
+			})
+		: undefined;
+	const rpc = failover
+		? (createSolanaRpcFromTransport(failover.transport) as SolanaRpcInstance)
+		: createSolanaRpc(endpoint, config.rpcConfig);
 	const rpcSubscriptions = createSolanaRpcSubscriptions(websocketEndpoint, config.rpcSubscriptionsConfig);
 
 	async function sendAndConfirmTransaction(
@@ -166,6 +191,10 @@ export function createSolanaRpcClient(config: CreateSolanaRpcClientConfig): Sola
 	return {
 		commitment,
 		endpoint,
+		getActiveEndpoint: () => failover?.getActiveEndpoint() ?? endpoint,
+		getEndpointHealth: () =>
+			failover?.getEndpointHealth() ?? [{ consecutiveFailures: 0, healthy: true, url: endpoint, weight: 1 }],
+		onActiveEndpointChange: (listener) => failover?.onActiveEndpointChange(listener) ?? (() => undefined),
 		rpc,
 		rpcSubscriptions,
 		sendAndConfirmTransaction,
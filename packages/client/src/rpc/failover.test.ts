@@ -0,0 +1,119 @@
+import { type ClusterUrl, SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR, SolanaError } from '@solana/kit';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createFailoverRpcTransport, isRetryableRpcError, normalizeRpcEndpoints } from './failover';
+
+const transports = vi.hoisted(() => new Map<string, ReturnType<typeof vi.fn>>());
+
+vi.mock('@solana/kit', async (importOriginal) => {
+	const actual = await importOriginal<typeof import('@solana/kit')>();
+	return {
+		...actual,
+		createDefaultRpcTransport: vi.fn(({ url }: { url: string }) => {
+			const transport = vi.fn();
+			transports.set(url, transport);
+			return transport;
+		}),
+	};
+});
+
+function httpError(statusCode: number, headers: Record<string, string> = {}) {
+	return new SolanaError(SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR, {
+		headers: new Headers(headers),
+		message: 'HTTP error',
+		statusCode,
+	});
+}
+
+const PRIMARY = 'https://primary.rpc' as ClusterUrl;
+const BACKUP = 'https://backup.rpc' as ClusterUrl;
+const request = { payload: { method: 'getSlot' } };
+
+describe('failover rpc transport', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		transports.clear();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('normalizes endpoints with the primary first', () => {
+		expect(normalizeRpcEndpoints(PRIMARY, [BACKUP, { url: PRIMARY, weight: 3 }])).toEqual([
+			{ url: PRIMARY, weight: 3 },
+			{ url: BACKUP },
+		]);
+	});
+
+	it('classifies retryable transport failures', () => {
+		expect(isRetryableRpcError(httpError(429))).toBe(true);
+		expect(isRetryableRpcError(httpError(503))).toBe(true);
+		expect(isRetryableRpcError(new TypeError('fetch failed'))).toBe(true);
+		expect(isRetryableRpcError(httpError(401))).toBe(false);
+		expect(isRetryableRpcError(new Error('boom'))).toBe(false);
+	});
+
+	it('fails over on rate limits and reports the active endpoint', async () => {
+		const failover = createFailoverRpcTransport({ endpoints: [PRIMARY, BACKUP] });
+		const listener = vi.fn();
+		failover.onActiveEndpointChange(listener);
+		transports.get(PRIMARY)?.mockRejectedValueOnce(httpError(429));
+		transports.get(BACKUP)?.mockResolvedValue({ result: 1 });
+
+		await expect(failover.transport(request)).resolves.toEqual({ result: 1 });
+
+		expect(failover.getActiveEndpoint()).toBe(BACKUP);
+		expect(listener).toHaveBeenCalledWith(BACKUP);
+		expect(failover.getEndpointHealth()).toEqual([
+			expect.objectContaining({ consecutiveFailures: 1, healthy: false, url: PRIMARY }),
+			expect.objectContaining({ consecutiveFailures: 0, healthy: true, url: BACKUP }),
+		]);
+
+		await failover.transport(request);
+		expect(transports.get(PRIMARY)).toHaveBeenCalledTimes(1);
+	});
+
+	it('retries with backoff once every endpoint failed', async () => {
+		const failover = createFailoverRpcTransport({
+			endpoints: [PRIMARY],
+			failover: { backoffMs: 100, maxAttempts: 2 },
+		});
+		transports.get(PRIMARY)?.mockRejectedValueOnce(new TypeError('fetch failed')).mockResolvedValue({ result: 2 });
+
+		const pending = failover.transport(request);
+		await vi.advanceTimersByTimeAsync(99);
+		expect(transports.get(PRIMARY)).toHaveBeenCalledTimes(1);
+		await vi.advanceTimersByTimeAsync(1);
+
+		await expect(pending).resolves.toEqual({ result: 2 });
+		expect(transports.get(PRIMARY)).toHaveBeenCalledTimes(2);
+	});
+
+	it('does not retry non-retryable errors', async () => {
+		const failover = createFailoverRpcTransport({ endpoints: [PRIMARY, BACKUP] });
+		transports.get(PRIMARY)?.mockRejectedValueOnce(httpError(403));
+
+		await expect(failover.transport(request)).rejects.toThrow();
+		expect(transports.get(BACKUP)).not.toHaveBeenCalled();
+	});
+
+	it('spreads requests by weight', async () => {
+		const failover = createFailoverRpcTransport({
+			endpoints: [
+				{ url: PRIMARY, weight: 1 },
+				{ url: BACKUP, weight: 3 },
+			],
+			failover: { strategy: 'weighted' },
+		});
+		transports.get(PRIMARY)?.mockResolvedValue({ result: 'primary' });
+		transports.get(BACKUP)?.mockResolvedValue({ result: 'backup' });
+		const random = vi.spyOn(Math, 'random');
+
+		random.mockReturnValueOnce(0.1);
+		await expect(failover.transport(request)).resolves.toEqual({ result: 'primary' });
+		random.mockReturnValueOnce(0.5);
+		await expect(failover.transport(request)).resolves.toEqual({ result: 'backup' });
+		random.mockRestore();
+	});
+});
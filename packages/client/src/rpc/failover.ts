@@ -0,0 +1,300 @@
+import {
+	type ClusterUrl,
+	createDefaultRpcTransport,
+	isSolanaError,
+	type RpcTransport,
+	SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR,
+} from '@solana/kit';
+
+import { now } from '../utils';
+
+type RpcTransportOptions = Omit<Parameters<typeof createDefaultRpcTransport>[0], 'url'>;
+
+export type RpcEndpointConfig = Readonly<{
+	url: ClusterUrl;
+	/** Relative share of traffic when the `weighted` strategy is used. Defaults to `1`. */
+	weight?: number;
+}>;
+
+export type RpcEndpointInput = ClusterUrl | RpcEndpointConfig;
+
+export type RpcFailoverStrategy = 'priority' | 'weighted';
+
+export type RpcFailoverConfig = Readonly<{
+	/** Delay before the first retry against an endpoint that already failed; doubled per attempt. Defaults to 250ms. */
+	backoffMs?: number;
+	/** How long a failing endpoint is skipped before it is tried again. Defaults to 30s. */
+	cooldownMs?: number;
+	/** Maximum number of attempts per request across all endpoints. Defaults to 3. */
+	maxAttempts?: number;
+	/** Upper bound for the retry delay. Defaults to 5s. */
+	maxBackoffMs?: number;
+	/** `priority` prefers the earliest healthy endpoint, `weighted` spreads requests by weight. */
+	strategy?: RpcFailoverStrategy;
+}>;
+
+export type RpcEndpointHealth = Readonly<{
+	consecutiveFailures: number;
+	healthy: boolean;
+	lastError?: unknown;
+	lastFailureAt?: number;
+	lastLatencyMs?: number;
+	url: ClusterUrl;
+	weight: number;
+}>;
+
+export type FailoverRpcTransport = Readonly<{
+	getActiveEndpoint(): ClusterUrl;
+	getEndpointHealth(): readonly RpcEndpointHealth[];
+	onActiveEndpointChange(listener: (endpoint: ClusterUrl) => void): () => void;
+	transport: RpcTransport;
+}>;
+
+type CreateFailoverRpcTransportConfig = Readonly<{
+	endpoints: readonly RpcEndpointInput[];
+	failover?: RpcFailoverConfig;
+	transportConfig?: RpcTransportOptions;
+}>;
+
+type EndpointState = {
+	consecutiveFailures: number;
+	lastError?: unknown;
+	lastFailureAt?: number;
+	lastLatencyMs?: number;
+	transport: RpcTransport;
+	unhealthyUntil: number;
+	url: ClusterUrl;
+	weight: number;
+};
+
+const DEFAULT_BACKOFF_MS = 250;
+const DEFAULT_COOLDOWN_MS = 30_000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_MAX_BACKOFF_MS = 5_000;
+
+/**
+ * Builds the ordered endpoint list used for failover, keeping the primary endpoint first.
+ *
+ * @param primary - Endpoint configured as the cluster's main RPC URL.
+ * @param endpoints - Additional endpoints, optionally weighted.
+ * @returns Deduplicated endpoint configurations.
+ */
+export function normalizeRpcEndpoints(
+	primary: ClusterUrl,
+	endpoints: readonly RpcEndpointInput[] = [],
+): readonly RpcEndpointConfig[] {
+	const seen = new Map<string, RpcEndpointConfig>();
+	for (const entry of [primary, ...endpoints]) {
+		const config = typeof entry === 'string' ? { url: entry } : entry;
+		const existing = seen.get(config.url);
+		if (!existing || (existing.weight === undefined && config.weight !== undefined)) {
+			seen.set(config.url, config);
+		}
+	}
+	return [...seen.values()];
+}
+
+/**
+ * Returns whether a transport failure should be retried against another endpoint.
+ *
+ * Rate limits (429), timeouts (408), server errors (5xx) and network failures are retryable; other HTTP errors and
+ * aborted requests are not.
+ *
+ * @param error - Error thrown by an RPC transport.
+ * @returns `true` when the request may succeed elsewhere.
+ */
+export function isRetryableRpcError(error: unknown): boolean {
+	if (isSolanaError(error, SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR)) {
+		const { statusCode } = error.context;
+		return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+	}
+	return error instanceof TypeError;
+}
+
+/**
+ * Reads the `Retry-After` header of a rate-limited response.
+ *
+ * @param error - Error thrown by an RPC transport.
+ * @returns Requested delay in milliseconds, if any.
+ */
+function getRetryAfterMs(error: unknown): number | undefined {
+	if (!isSolanaError(error, SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR)) {
+		return undefined;
+	}
+	const header = error.context.headers?.get?.('retry-after');
+	const seconds = header ? Number(header) : Number.NaN;
+	return Number.isFinite(seconds) ? seconds * 1_000 : undefined;
+}
+
+/**
+ * Waits for the provided duration unless the request is aborted first.
+ *
+ * @param ms - Milliseconds to wait.
+ * @param signal - Abort signal of the pending request.
+ * @returns Promise that resolves after the delay or rejects when aborted.
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+/**
+ * Creates an RPC transport that spreads requests over several endpoints and fails over when one misbehaves.
+ *
+ * Endpoints that fail with a retryable error are put on cooldown and skipped until it expires. When every endpoint
+ * has been tried, the transport backs off exponentially before retrying.
+ *
+ * @param config - Endpoint list, failover tuning and options forwarded to each HTTP transport.
+ * @returns Transport plus accessors for endpoint health and the endpoint currently serving requests.
+ */
+export function createFailoverRpcTransport({
+	endpoints,
+	failover = {},
+	transportConfig,
+}: CreateFailoverRpcTransportConfig): FailoverRpcTransport {
+	if (!endpoints.length) {
+		throw new Error('At least one RPC endpoint is required.');
+	}
+	const backoffMs = failover.backoffMs ?? DEFAULT_BACKOFF_MS;
+	const cooldownMs = failover.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+	const maxAttempts = Math.max(1, failover.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+	const maxBackoffMs = failover.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+	const strategy = failover.strategy ?? 'priority';
+	const states: EndpointState[] = endpoints.map((entry) => {
+		const { url, weight } = typeof entry === 'string' ? { url: entry, weight: undefined } : entry;
+		return {
+			consecutiveFailures: 0,
+			transport: createDefaultRpcTransport({ ...transportConfig, url }),
+			unhealthyUntil: 0,
+			url,
+			weight: Math.max(0, weight ?? 1),
+		};
+	});
+	const listeners = new Set<(endpoint: ClusterUrl) => void>();
+	let activeEndpoint = states[0].url;
+
+	/**
+	 * Chooses the endpoint for the next attempt, preferring healthy endpoints that were not tried yet.
+	 *
+	 * @param tried - Endpoints already attempted for the current request.
+	 * @returns Endpoint state or `undefined` when every endpoint was tried.
+	 */
+	function pickEndpoint(tried: ReadonlySet<EndpointState>): EndpointState | undefined {
+		const candidates = states.filter((state) => !tried.has(state));
+		if (!candidates.length) {
+			return undefined;
+		}
+		const timestamp = now();
+		const healthy = candidates.filter((state) => state.unhealthyUntil <= timestamp);
+		if (!healthy.length) {
+			return candidates.reduce((best, state) => (state.unhealthyUntil < best.unhealthyUntil ? state : best));
+		}
+		if (strategy === 'priority') {
+			return healthy[0];
+		}
+		const totalWeight = healthy.reduce((sum, state) => sum + state.weight, 0);
+		let target = Math.random() * totalWeight;
+		for (const state of healthy) {
+			target -= state.weight;
+			if (target < 0) {
+				return state;
+			}
+		}
+		return healthy[healthy.length - 1];
+	}
+
+	/**
+	 * Records a successful response and publishes endpoint switches.
+	 *
+	 * @param state - Endpoint that served the request.
+	 * @param latencyMs - Time spent waiting for the response.
+	 */
+	function markSuccess(state: EndpointState, latencyMs: number): void {
+		state.consecutiveFailures = 0;
+		state.lastLatencyMs = latencyMs;
+		state.unhealthyUntil = 0;
+		if (activeEndpoint !== state.url) {
+			activeEndpoint = state.url;
+			for (const listener of listeners) {
+				listener(activeEndpoint);
+			}
+		}
+	}
+
+	/**
+	 * Puts an endpoint on cooldown after a retryable failure.
+	 *
+	 * @param state - Endpoint that failed.
+	 * @param error - Failure reported by the transport.
+	 */
+	function markFailure(state: EndpointState, error: unknown): void {
+		const timestamp = now();
+		state.consecutiveFailures += 1;
+		state.lastError = error;
+		state.lastFailureAt = timestamp;
+		state.unhealthyUntil = timestamp + Math.max(cooldownMs, getRetryAfterMs(error) ?? 0);
+	}
+
+	const transport: RpcTransport = async <TResponse>(request: Parameters<RpcTransport>[0]) => {
+		const tried = new Set<EndpointState>();
+		let lastError: unknown;
+		for (let attempt = 0; attempt < maxAttempts; attempt++) {
+			let state = pickEndpoint(tried);
+			if (!state) {
+				tried.clear();
+				state = pickEndpoint(tried) as EndpointState;
+				await delay(Math.min(backoffMs * 2 ** (attempt - 1), maxBackoffMs), request.signal);
+			}
+			tried.add(state);
+			const startedAt = now();
+			try {
+				const response = await state.transport<TResponse>(request);
+				markSuccess(state, now() - startedAt);
+				return response;
+			} catch (error) {
+				if (request.signal?.aborted || !isRetryableRpcError(error)) {
+					throw error;
+				}
+				markFailure(state, error);
+				lastError = error;
+			}
+		}
+		throw lastError;
+	};
+
+	return {
+		getActiveEndpoint: () => activeEndpoint,
+		getEndpointHealth: () => {
+			const timestamp = now();
+			return states.map((state) => ({
+				consecutiveFailures: state.consecutiveFailures,
+				healthy: state.unhealthyUntil <= timestamp,
+				lastError: state.lastError,
+				lastFailureAt: state.lastFailureAt,
+				lastLatencyMs: state.lastLatencyMs,
+				url: state.url,
+				weight: state.weight,
+			}));
+		},
+		onActiveEndpointChange(listener) {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+		transport,
+	};
+}
@@ -0,0 +1,64 @@
+import {
+	AccountRole,
+	address,
+	appendTransactionMessageInstruction,
+	type Blockhash,
+	createTransactionMessage,
+	pipe,
+	setTransactionMessageFeePayerSigner,
+	setTransactionMessageLifetimeUsingBlockhash,
+	type TransactionPartialSigner,
+} from '@solana/kit';
+import { describe, expect, it, vi } from 'vitest';
+
+import { signTransactionMessagesWithSigners } from './signTransactionMessages';
+
+const PROGRAM = address('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+function createSigner(value: string): TransactionPartialSigner {
+	const signerAddress = address(value);
+	return {
+		address: signerAddress,
+		signTransactions: vi.fn(async (transactions) =>
+			transactions.map(() => ({ [signerAddress]: new Uint8Array(64).fill(1) })),
+		),
+	} as TransactionPartialSigner;
+}
+
+function createMessage(feePayer: TransactionPartialSigner, cosigner?: TransactionPartialSigner) {
+	return pipe(
+		createTransactionMessage({ version: 0 }),
+		(message) => setTransactionMessageFeePayerSigner(feePayer, message),
+		(message) =>
+			appendTransactionMessageInstruction(
+				{
+					accounts: cosigner
+						? [{ address: cosigner.address, role: AccountRole.READONLY_SIGNER, signer: cosigner }]
+						: [],
+					data: new Uint8Array([1]),
+					programAddress: PROGRAM,
+				},
+				message,
+			),
+		(message) =>
+			setTransactionMessageLifetimeUsingBlockhash(
+				{ blockhash: '11111111111111111111111111111111' as Blockhash, lastValidBlockHeight: 1n },
+				message,
+			),
+	);
+}
+
+describe('signTransactionMessagesWithSigners', () => {
+	it('asks each signer once for every transaction it appears in', async () => {
+		const payer = createSigner('9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin');
+		const cosigner = createSigner('SysvarC1ock11111111111111111111111111111111');
+
+		const signed = await signTransactionMessagesWithSigners([createMessage(payer), createMessage(payer, cosigner)]);
+
+		expect(payer.signTransactions).toHaveBeenCalledTimes(1);
+		expect(vi.mocked(payer.signTransactions).mock.calls[0][0]).toHaveLength(2);
+		expect(vi.mocked(cosigner.signTransactions).mock.calls[0][0]).toHaveLength(1);
+		expect(Object.keys(signed[0].signatures)).toEqual([payer.address]);
+		expect(Object.keys(signed[1].signatures).sort()).toEqual([payer.address, cosigner.address].sort());
+	});
+});
@@ -0,0 +1,98 @@
+import {
+	type Address,
+	assertIsFullySignedTransaction,
+	compileTransaction,
+	getSignersFromTransactionMessage,
+	isTransactionModifyingSigner,
+	isTransactionPartialSigner,
+	type Slot,
+	type signTransactionMessageWithSigners,
+	type Transaction,
+	type TransactionSigner,
+	type TransactionWithinSizeLimit,
+	type TransactionWithLifetime,
+} from '@solana/kit';
+
+type SignableTransactionMessage = Parameters<typeof signTransactionMessageWithSigners>[0];
+
+type SignedTransaction = Awaited<ReturnType<typeof signTransactionMessageWithSigners>>;
+
+type CompiledTransaction = Transaction & TransactionWithinSizeLimit & TransactionWithLifetime;
+
+export type SignTransactionMessagesConfig = Readonly<{
+	abortSignal?: AbortSignal;
+	minContextSlot?: Slot;
+}>;
+
+type SignerAssignment = {
+	indices: number[];
+	signer: TransactionSigner;
+};
+
+/**
+ * Signs several transaction messages, asking each signer once for all the transactions it appears in.
+ *
+ * Modifying signers (such as wallets) run first, one after another, because they may rewrite the transaction; partial
+ * signers then sign in parallel. Signers that can only sign and send are not supported.
+ *
+ * @param messages - Messages whose embedded signers should sign.
+ * @param config - Optional abort signal and minimum context slot forwarded to every signer.
+ * @returns Fully signed transactions in the same order as the messages.
+ */
+export async function signTransactionMessagesWithSigners(
+	messages: readonly SignableTransactionMessage[],
+	config: SignTransactionMessagesConfig = {},
+): Promise<readonly SignedTransaction[]> {
+	const transactions = messages.map((message) => compileTransaction(message) as CompiledTransaction);
+	const assignments = new Map<Address, SignerAssignment>();
+	messages.forEach((message, index) => {
+		for (const signer of getSignersFromTransactionMessage(message)) {
+			const assignment = assignments.get(signer.address) ?? { indices: [], signer };
+			assignment.indices.push(index);
+			assignments.set(signer.address, assignment);
+		}
+	});
+
+	for (const { indices, signer } of assignments.values()) {
+		config.abortSignal?.throwIfAborted();
+		if (!isTransactionModifyingSigner(signer)) {
+			continue;
+		}
+		const modified = await signer.modifyAndSignTransactions(
+			indices.map((index) => transactions[index]),
+			config,
+		);
+		indices.forEach((index, position) => {
+			transactions[index] = modified[position] as CompiledTransaction;
+		});
+	}
+
+	const partialSignings: Promise<void>[] = [];
+	for (const { indices, signer } of assignments.values()) {
+		if (isTransactionModifyingSigner(signer) || !isTransactionPartialSigner(signer)) {
+			continue;
+		}
+		partialSignings.push(
+			signer
+				.signTransactions(
+					indices.map((index) => transactions[index]),
+					config,
+				)
+				.then((signatures) => {
+					indices.forEach((index, position) => {
+						const transaction = transactions[index];
+						transactions[index] = Object.freeze({
+							...transaction,
+							signatures: Object.freeze({ ...transaction.signatures, ...signatures[position] }),
+						});
+					});
+				}),
+		);
+	}
+	await Promise.all(partialSignings);
+
+	for (const transaction of transactions) {
+		assertIsFullySignedTransaction(transaction);
+	}
+	return Object.freeze(transactions) as readonly SignedTransaction[];
+}
@@ -56,6 +56,26 @@ describe('wallet transaction signer', () => {
 		expect(signatureDictionaries[0][addressKey]).toBe(signatureStub);
 	});
 
+	it('signs several transactions with a single wallet request when supported', async () => {
+		const signatureStub = new Uint8Array([4]);
+		const sign = (transaction: SessionTransaction) => ({
+			...transaction,
+			signatures: { ...transaction.signatures, [addressKey]: signatureStub },
+		});
+		const signTransaction = vi.fn(async (transaction: SessionTransaction) => sign(transaction));
+		const signTransactions = vi.fn(async (transactions: readonly SessionTransaction[]) => transactions.map(sign));
+		const { signer } = createWalletTransactionSigner(createSession({ signTransaction, signTransactions }));
+		const inputTx = { messageBytes: new Uint8Array([0]), signatures: {} } as Parameters<
+			typeof signer.modifyAndSignTransactions
+		>[0][number];
+
+		const signed = await signer.modifyAndSignTransactions([inputTx, inputTx]);
+
+		expect(signTransactions).toHaveBeenCalledTimes(1);
+		expect(signTransaction).not.toHaveBeenCalled();
+		expect(signed.map((transaction) => transaction.signatures[addressKey])).toEqual([signatureStub, signatureStub]);
+	});
+
 	it('wraps sending wallets', async () => {
 		const signatureBytes = new Uint8Array(64).fill(1);
 		const signatureString = getBase58Decoder().decode(signatureBytes);
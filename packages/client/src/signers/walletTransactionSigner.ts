@@ -57,20 +57,37 @@ export function createWalletTransactionSigner(
 
 	if (session.signTransaction) {
 		const signTransaction = session.signTransaction.bind(session);
+		const signTransactions = session.signTransactions?.bind(session);
 
 		const modifyingSigner: TransactionModifyingSigner & TransactionPartialSigner = Object.freeze({
 			address,
 			async modifyAndSignTransactions(
 				transactions: readonly (Transaction | (Transaction & TransactionWithLifetime))[],
 			): Promise<readonly (Transaction & TransactionWithinSizeLimit & TransactionWithLifetime)[]> {
-				const signedTransactions: (Transaction & TransactionWithinSizeLimit & TransactionWithLifetime)[] = [];
-				for (const transaction of transactions) {
-					const castTransaction = transaction as Transaction &
-						TransactionWithinSizeLimit &
-						TransactionWithLifetime;
-					const signed = await signTransaction(
-						castTransaction as unknown as SendableTransaction & Transaction,
+				const castTransactions = transactions as readonly (Transaction &
+					TransactionWithinSizeLimit &
+					TransactionWithLifetime)[];
+				const walletSigned: (SendableTransaction & Transaction)[] = [];
+				if (signTransactions && castTransactions.length > 1) {
+					// One wallet prompt for the whole set instead of one per transaction.
+					walletSigned.push(
+						...(await signTransactions(
+							castTransactions as unknown as readonly (SendableTransaction & Transaction)[],
+						)),
 					);
+				} else {
+					for (const transaction of castTransactions) {
+						walletSigned.push(
+							await signTransaction(transaction as unknown as SendableTransaction & Transaction),
+						);
+					}
+				}
+				const signedTransactions: (Transaction & TransactionWithinSizeLimit & TransactionWithLifetime)[] = [];
+				for (const [index, castTransaction] of castTransactions.entries()) {
+					const signed = walletSigned[index];
+					if (!signed) {
+						throw new Error('Wallet did not return every signed transaction.');
+					}
 					const signature = signed.signatures[address];
 					if (!signature) {
 						throw new Error('Wallet did not populate the expected fee payer signature.');
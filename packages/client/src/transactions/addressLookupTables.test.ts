@@ -0,0 +1,61 @@
+import type { Address } from '@solana/kit';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createAddressLookupTableCache } from './addressLookupTables';
+
+const fetchAddressesForLookupTablesMock = vi.hoisted(() =>
+	vi.fn(async (addresses: Address[]) =>
+		Object.fromEntries(addresses.map((address) => [address, [`${address}-entry` as Address]])),
+	),
+);
+const nowMock = vi.hoisted(() => vi.fn(() => 0));
+
+vi.mock('@solana/kit', async (original) => ({
+	...(await original()),
+	fetchAddressesForLookupTables: fetchAddressesForLookupTablesMock,
+}));
+
+vi.mock('../utils', async (original) => ({
+	...(await original()),
+	now: nowMock,
+}));
+
+const TABLE_A = 'table-a' as Address;
+const TABLE_B = 'table-b' as Address;
+
+describe('address lookup table cache', () => {
+	const rpc = {} as never;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		nowMock.mockReturnValue(0);
+	});
+
+	it('only reads tables that are missing or older than the ttl', async () => {
+		const cache = createAddressLookupTableCache({ ttlMs: 1_000 });
+
+		await cache.fetch({ addresses: [TABLE_A], rpc });
+		nowMock.mockReturnValue(500);
+		const tables = await cache.fetch({ addresses: [TABLE_A, TABLE_B, TABLE_B], commitment: 'confirmed', rpc });
+
+		expect(tables).toEqual({ [TABLE_A]: ['table-a-entry'], [TABLE_B]: ['table-b-entry'] });
+		expect(fetchAddressesForLookupTablesMock).toHaveBeenLastCalledWith([TABLE_B], rpc, {
+			abortSignal: undefined,
+			commitment: 'confirmed',
+		});
+
+		nowMock.mockReturnValue(1_200);
+		await cache.fetch({ addresses: [TABLE_A, TABLE_B], rpc });
+		expect(fetchAddressesForLookupTablesMock).toHaveBeenLastCalledWith([TABLE_A], rpc, expect.anything());
+	});
+
+	it('reads invalidated tables again', async () => {
+		const cache = createAddressLookupTableCache();
+
+		await cache.fetch({ addresses: [TABLE_A], rpc });
+		cache.invalidate(TABLE_A);
+		await cache.fetch({ addresses: [TABLE_A], rpc });
+
+		expect(fetchAddressesForLookupTablesMock).toHaveBeenCalledTimes(2);
+	});
+});
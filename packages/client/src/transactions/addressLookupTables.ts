@@ -0,0 +1,82 @@
+import type { Address, AddressesByLookupTableAddress, Commitment, GetMultipleAccountsApi, Rpc } from '@solana/kit';
+import { fetchAddressesForLookupTables } from '@solana/kit';
+
+import { now } from '../utils';
+
+export type AddressLookupTableCacheConfig = Readonly<{
+	/** How long fetched table contents are reused before being read again. Defaults to 60 seconds. */
+	ttlMs?: number;
+}>;
+
+type FetchAddressLookupTablesConfig = Readonly<{
+	abortSignal?: AbortSignal;
+	addresses: readonly Address[];
+	commitment?: Commitment;
+	rpc: Rpc<GetMultipleAccountsApi>;
+}>;
+
+export type AddressLookupTableCache = Readonly<{
+	clear(): void;
+	/** Returns the addresses stored in each table, reading only tables that are missing or stale in the cache. */
+	fetch(config: FetchAddressLookupTablesConfig): Promise<AddressesByLookupTableAddress>;
+	/** Drops a table so the next `fetch` reads it again, e.g. after extending it. */
+	invalidate(address: Address): void;
+}>;
+
+type CachedLookupTable = Readonly<{
+	addresses: readonly Address[];
+	fetchedAt: number;
+}>;
+
+const DEFAULT_LOOKUP_TABLE_TTL_MS = 60_000;
+
+/**
+ * Creates a cache of address lookup table contents shared by transaction preparation.
+ *
+ * @param config - Optional freshness window for cached tables.
+ * @returns Address lookup table cache.
+ */
+export function createAddressLookupTableCache({
+	ttlMs = DEFAULT_LOOKUP_TABLE_TTL_MS,
+}: AddressLookupTableCacheConfig = {}): AddressLookupTableCache {
+	const tables = new Map<Address, CachedLookupTable>();
+
+	async function fetch({
+		abortSignal,
+		addresses,
+		commitment,
+		rpc,
+	}: FetchAddressLookupTablesConfig): Promise<AddressesByLookupTableAddress> {
+		const unique = [...new Set(addresses)];
+		const fetchedBefore = now() - ttlMs;
+		const stale = unique.filter((address) => {
+			const cached = tables.get(address);
+			return !cached || cached.fetchedAt < fetchedBefore;
+		});
+		if (stale.length) {
+			const fetched = await fetchAddressesForLookupTables(stale, rpc, { abortSignal, commitment });
+			const fetchedAt = now();
+			for (const [address, contents] of Object.entries(fetched)) {
+				tables.set(address as Address, { addresses: Object.freeze([...contents]), fetchedAt });
+			}
+		}
+		const result: AddressesByLookupTableAddress = {};
+		for (const address of unique) {
+			const cached = tables.get(address);
+			if (cached) {
+				result[address] = [...cached.addresses];
+			}
+		}
+		return result;
+	}
+
+	return Object.freeze({
+		clear() {
+			tables.clear();
+		},
+		fetch,
+		invalidate(address: Address) {
+			tables.delete(address);
+		},
+	});
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+
+import type { TransactionInstructionInput } from '../features/transactions';
+import { splitInstructionsBySize } from './instructionBatches';
+
+function createInstruction(size: number): TransactionInstructionInput {
+	return { data: new Uint8Array(size), programAddress: 'Demo1111111111111111111111111111111111' } as never;
+}
+
+const measure = async (instructions: readonly TransactionInstructionInput[]) =>
+	instructions.reduce((total, instruction) => total + (instruction.data?.length ?? 0), 0);
+
+describe('splitInstructionsBySize', () => {
+	it('keeps instructions together when they fit', async () => {
+		const instructions = [createInstruction(10), createInstruction(20)];
+
+		await expect(
+			splitInstructionsBySize({ groups: instructions.map((instruction) => [instruction]), limit: 100, measure }),
+		).resolves.toEqual([instructions]);
+	});
+
+	it('packs groups in order without splitting them', async () => {
+		const [a, b, c, d] = [
+			createInstruction(50),
+			createInstruction(30),
+			createInstruction(30),
+			createInstruction(50),
+		];
+
+		const batches = await splitInstructionsBySize({ groups: [[a], [b, c], [d]], limit: 100, measure });
+
+		expect(batches).toEqual([[a], [b, c], [d]]);
+	});
+
+	it('fails when a single group does not fit on its own', async () => {
+		const small = createInstruction(10);
+
+		await expect(
+			splitInstructionsBySize({
+				groups: [[small], [createInstruction(60), createInstruction(60)]],
+				limit: 100,
+				measure,
+			}),
+		).rejects.toThrow(
+			'Atomic group of instructions 1-2 needs a 120-byte transaction on its own, which exceeds the 100-byte limit.',
+		);
+	});
+});
@@ -0,0 +1,61 @@
+import { TRANSACTION_SIZE_LIMIT } from '@solana/kit';
+
+import type { TransactionInstructionInput } from '../features/transactions';
+
+type InstructionList = readonly TransactionInstructionInput[];
+
+export type SplitInstructionsConfig = Readonly<{
+	/** Instructions in order; each group always lands in a single transaction. */
+	groups: readonly InstructionList[];
+	/** Defaults to the packet size limit of 1232 bytes. */
+	limit?: number;
+	/** Returns the compiled size of a transaction carrying the given instructions. */
+	measure(instructions: InstructionList): Promise<number>;
+}>;
+
+/**
+ * Packs instruction groups into as few transactions as fit the size limit, keeping their order.
+ *
+ * @param config - Groups to pack and how to measure a candidate transaction.
+ * @returns Instruction lists, one per transaction.
+ */
+export async function splitInstructionsBySize({
+	groups,
+	limit = TRANSACTION_SIZE_LIMIT,
+	measure,
+}: SplitInstructionsConfig): Promise<readonly InstructionList[]> {
+	const nonEmpty = groups.filter((group) => group.length > 0);
+	const all = nonEmpty.flat();
+	if ((await measure(all)) <= limit) {
+		return [all];
+	}
+	const batches: InstructionList[] = [];
+	let current: TransactionInstructionInput[] = [];
+	let groupStart = 0;
+	for (const group of nonEmpty) {
+		const candidate = [...current, ...group];
+		if (current.length && (await measure(candidate)) <= limit) {
+			current = candidate;
+		} else {
+			if (current.length) {
+				batches.push(current);
+			}
+			const size = await measure(group);
+			if (size > limit) {
+				const subject =
+					group.length === 1
+						? `Instruction ${groupStart}`
+						: `Atomic group of instructions ${groupStart}-${groupStart + group.length - 1}`;
+				throw new Error(
+					`${subject} needs a ${size}-byte transaction on its own, which exceeds the ${limit}-byte limit.`,
+				);
+			}
+			current = [...group];
+		}
+		groupStart += group.length;
+	}
+	if (current.length) {
+		batches.push(current);
+	}
+	return batches;
+}
@@ -0,0 +1,98 @@
+import {
+	address,
+	createTransactionMessage,
+	getBase64Decoder,
+	getSignersFromTransactionMessage,
+	isAdvanceNonceAccountInstruction,
+	pipe,
+	setTransactionMessageFeePayer,
+	type TransactionSigner,
+} from '@solana/kit';
+import { getNonceEncoder, NonceState, NonceVersion, SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+	fetchNonceAccount,
+	isDurableNonceLifetime,
+	resolveDurableNonceLifetime,
+	setTransactionMessageLifetime,
+} from './nonceLifetime';
+
+const NONCE_ACCOUNT = address('SysvarC1ock11111111111111111111111111111111');
+const AUTHORITY = address('9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin');
+const NONCE = address('So11111111111111111111111111111111111111112');
+
+function createRpc(state: NonceState | null) {
+	const data =
+		state === null
+			? null
+			: getNonceEncoder().encode({
+					authority: AUTHORITY,
+					blockhash: NONCE,
+					lamportsPerSignature: 5000n,
+					state,
+					version: NonceVersion.Current,
+				});
+	return {
+		getAccountInfo: vi.fn(() => ({
+			send: vi.fn().mockResolvedValue({
+				value: data && {
+					data: [getBase64Decoder().decode(data), 'base64'],
+					executable: false,
+					lamports: 1_447_680n,
+					owner: SYSTEM_PROGRAM_ADDRESS,
+					rentEpoch: 0n,
+					space: BigInt(data.length),
+				},
+			}),
+		})),
+	} as unknown as Parameters<typeof fetchNonceAccount>[0];
+}
+
+describe('durable nonce lifetimes', () => {
+	it('reads the current nonce and authority from the nonce account', async () => {
+		await expect(fetchNonceAccount(createRpc(NonceState.Initialized), NONCE_ACCOUNT)).resolves.toEqual({
+			address: NONCE_ACCOUNT,
+			authority: AUTHORITY,
+			lamportsPerSignature: 5000n,
+			nonce: NONCE,
+		});
+		await expect(fetchNonceAccount(createRpc(null), NONCE_ACCOUNT)).resolves.toBeNull();
+		await expect(fetchNonceAccount(createRpc(NonceState.Uninitialized), NONCE_ACCOUNT)).rejects.toThrow(
+			'has not been initialized',
+		);
+	});
+
+	it('only reads the account when the nonce is not given and checks the authority', async () => {
+		const rpc = createRpc(NonceState.Initialized);
+
+		await expect(
+			resolveDurableNonceLifetime({ lifetime: { nonceAccount: NONCE_ACCOUNT, nonceAuthority: AUTHORITY }, rpc }),
+		).resolves.toEqual({ nonce: NONCE, nonceAccount: NONCE_ACCOUNT, nonceAuthority: AUTHORITY });
+		await expect(
+			resolveDurableNonceLifetime({
+				lifetime: { nonce: 'abc', nonceAccount: NONCE_ACCOUNT, nonceAuthority: AUTHORITY },
+				rpc,
+			}),
+		).resolves.toMatchObject({ nonce: 'abc' });
+		expect(rpc.getAccountInfo).toHaveBeenCalledTimes(1);
+		await expect(
+			resolveDurableNonceLifetime({ lifetime: { nonceAccount: NONCE_ACCOUNT, nonceAuthority: NONCE }, rpc }),
+		).rejects.toThrow(`is advanced by ${AUTHORITY}, not by ${NONCE}`);
+	});
+
+	it('prepends the advance instruction and attaches a signing authority', () => {
+		const authority = { address: AUTHORITY, signTransactions: vi.fn() } as unknown as TransactionSigner;
+		const lifetime = { nonce: NONCE, nonceAccount: NONCE_ACCOUNT, nonceAuthority: authority } as const;
+		const message = setTransactionMessageLifetime(
+			lifetime as Parameters<typeof setTransactionMessageLifetime>[0],
+			pipe(createTransactionMessage({ version: 0 }), (m) => setTransactionMessageFeePayer(NONCE_ACCOUNT, m)),
+		);
+
+		expect(isDurableNonceLifetime(lifetime)).toBe(true);
+		expect(isDurableNonceLifetime({ blockhash: NONCE, lastValidBlockHeight: 1n })).toBe(false);
+		expect(message.lifetimeConstraint).toEqual({ nonce: NONCE });
+		expect(isAdvanceNonceAccountInstruction(message.instructions[0])).toBe(true);
+		expect(getSignersFromTransactionMessage(message)).toEqual([authority]);
+	});
+});
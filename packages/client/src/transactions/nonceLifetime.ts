@@ -0,0 +1,167 @@
+import type {
+	Address,
+	Blockhash,
+	Commitment,
+	ExcludeTransactionMessageLifetime,
+	Nonce,
+	TransactionMessageWithLifetime,
+	TransactionSigner,
+} from '@solana/kit';
+import {
+	addSignersToTransactionMessage,
+	address as parseAddress,
+	setTransactionMessageLifetimeUsingBlockhash,
+	setTransactionMessageLifetimeUsingDurableNonce,
+} from '@solana/kit';
+import { fetchMaybeNonce, NonceState } from '@solana-program/system';
+
+type BlockhashLifetime = Readonly<{
+	blockhash: Blockhash;
+	lastValidBlockHeight: bigint;
+}>;
+
+type NonceRpc = Parameters<typeof fetchMaybeNonce>[0];
+
+type LifetimeMessage = Parameters<typeof setTransactionMessageLifetimeUsingBlockhash>[1];
+
+export type DurableNonceLifetimeConfig = Readonly<{
+	/** Nonce value to use. Read from the nonce account when omitted. */
+	nonce?: string;
+	nonceAccount: Address | string;
+	/**
+	 * Account allowed to advance the nonce. Pass a signer unless the authority is also the fee payer, so it signs
+	 * alongside the other signers.
+	 */
+	nonceAuthority: Address | string | TransactionSigner;
+}>;
+
+/** Durable nonce lifetime with the nonce value resolved, as stored on prepared transactions. */
+export type DurableNonceLifetime = Readonly<{
+	nonce: Nonce;
+	nonceAccount: Address;
+	nonceAuthority: Address | TransactionSigner;
+}>;
+
+export type NonceAccount = Readonly<{
+	address: Address;
+	authority: Address;
+	lamportsPerSignature: bigint;
+	nonce: Nonce;
+}>;
+
+type FetchNonceAccountConfig = Readonly<{
+	abortSignal?: AbortSignal;
+	commitment?: Commitment;
+}>;
+
+type ResolveDurableNonceLifetimeConfig = FetchNonceAccountConfig &
+	Readonly<{
+		lifetime: DurableNonceLifetimeConfig;
+		rpc: NonceRpc;
+	}>;
+
+function toAddress(value: Address | string): Address {
+	return typeof value === 'string' ? parseAddress(value) : value;
+}
+
+function getAuthorityAddress(authority: DurableNonceLifetimeConfig['nonceAuthority']): Address {
+	return typeof authority === 'string' ? parseAddress(authority) : authority.address;
+}
+
+/**
+ * Tells durable nonce lifetimes apart from blockhash lifetimes.
+ *
+ * @param lifetime - Lifetime passed to or returned from a prepare call.
+ * @returns `true` when the lifetime names a nonce account.
+ */
+export function isDurableNonceLifetime(lifetime: object | undefined): lifetime is DurableNonceLifetimeConfig {
+	return lifetime !== undefined && 'nonceAccount' in lifetime;
+}
+
+/**
+ * Reads a nonce account.
+ *
+ * @param rpc - RPC able to read accounts.
+ * @param nonceAccount - Address of the nonce account.
+ * @param config - Optional abort signal and commitment.
+ * @returns The current nonce and authority, or `null` when the account does not exist.
+ */
+export async function fetchNonceAccount(
+	rpc: NonceRpc,
+	nonceAccount: Address | string,
+	config: FetchNonceAccountConfig = {},
+): Promise<NonceAccount | null> {
+	const accountAddress = toAddress(nonceAccount);
+	const account = await fetchMaybeNonce(rpc, accountAddress, config);
+	if (!account.exists) {
+		return null;
+	}
+	if (account.data.state !== NonceState.Initialized) {
+		throw new Error(`Nonce account ${accountAddress} has not been initialized.`);
+	}
+	return Object.freeze({
+		address: accountAddress,
+		authority: account.data.authority,
+		lamportsPerSignature: account.data.lamportsPerSignature,
+		nonce: account.data.blockhash as string as Nonce,
+	});
+}
+
+/**
+ * Fills in the nonce value of a durable nonce lifetime, reading it from the nonce account when it was not given.
+ *
+ * @param config - Lifetime to resolve and the RPC used to read the nonce account.
+ * @returns Lifetime ready to be applied to a transaction message.
+ */
+export async function resolveDurableNonceLifetime({
+	lifetime,
+	rpc,
+	...fetchConfig
+}: ResolveDurableNonceLifetimeConfig): Promise<DurableNonceLifetime> {
+	const nonceAccount = toAddress(lifetime.nonceAccount);
+	const nonceAuthority =
+		typeof lifetime.nonceAuthority === 'string' ? parseAddress(lifetime.nonceAuthority) : lifetime.nonceAuthority;
+	if (lifetime.nonce !== undefined) {
+		return Object.freeze({ nonce: lifetime.nonce as Nonce, nonceAccount, nonceAuthority });
+	}
+	const account = await fetchNonceAccount(rpc, nonceAccount, fetchConfig);
+	if (!account) {
+		throw new Error(`Nonce account ${nonceAccount} does not exist.`);
+	}
+	const authorityAddress = getAuthorityAddress(nonceAuthority);
+	if (account.authority !== authorityAddress) {
+		throw new Error(
+			`Nonce account ${nonceAccount} is advanced by ${account.authority}, not by ${authorityAddress}.`,
+		);
+	}
+	return Object.freeze({ nonce: account.nonce, nonceAccount, nonceAuthority });
+}
+
+/**
+ * Applies a blockhash or durable nonce lifetime to a message. Durable nonces also prepend the instruction that advances
+ * the nonce and attach the nonce authority when it is a signer.
+ *
+ * @param lifetime - Lifetime to apply.
+ * @param message - Message to update.
+ * @returns Message with the lifetime set.
+ */
+export function setTransactionMessageLifetime<TMessage extends LifetimeMessage>(
+	lifetime: BlockhashLifetime | DurableNonceLifetime,
+	message: TMessage,
+): ExcludeTransactionMessageLifetime<TMessage> & TransactionMessageWithLifetime {
+	if (!isDurableNonceLifetime(lifetime)) {
+		return setTransactionMessageLifetimeUsingBlockhash(lifetime, message);
+	}
+	const { nonce, nonceAccount, nonceAuthority } = lifetime;
+	const withNonce = setTransactionMessageLifetimeUsingDurableNonce(
+		{ nonce, nonceAccountAddress: nonceAccount, nonceAuthorityAddress: getAuthorityAddress(nonceAuthority) },
+		message,
+	);
+	// Kit retypes the instruction list to include the prepended advance instruction; the rest of the message is unchanged.
+	return (typeof nonceAuthority === 'string'
+		? withNonce
+		: addSignersToTransactionMessage(
+				[nonceAuthority],
+				withNonce,
+			)) as unknown as ExcludeTransactionMessageLifetime<TMessage> & TransactionMessageWithLifetime;
+}
@@ -0,0 +1,68 @@
+import { AccountRole, type Address } from '@solana/kit';
+import { describe, expect, it, vi } from 'vitest';
+
+import { estimateComputeUnitPrice, getFeePercentile, getWritableAccounts } from './priorityFees';
+
+const PAYER = 'payer' as Address;
+const instructions = [
+	{
+		accounts: [
+			{ address: 'writable' as Address, role: AccountRole.WRITABLE },
+			{ address: 'readonly' as Address, role: AccountRole.READONLY },
+			{ address: 'signer' as Address, role: AccountRole.WRITABLE_SIGNER },
+			{ address: PAYER, role: AccountRole.WRITABLE_SIGNER },
+		],
+	},
+];
+
+function createRpc(fees: readonly number[]) {
+	return {
+		getRecentPrioritizationFees: vi.fn(() => ({
+			send: vi.fn(async () => fees.map((fee, slot) => ({ prioritizationFee: BigInt(fee), slot: BigInt(slot) }))),
+		})),
+	};
+}
+
+describe('priority fees', () => {
+	it('collects writable accounts including the fee payer', () => {
+		expect(getWritableAccounts(instructions, PAYER)).toEqual([PAYER, 'writable', 'signer']);
+	});
+
+	it('picks fees by nearest-rank percentile', () => {
+		const fees = [40n, 10n, 30n, 20n];
+		expect(getFeePercentile(fees, 50)).toBe(20n);
+		expect(getFeePercentile(fees, 75)).toBe(30n);
+		expect(getFeePercentile(fees, 100)).toBe(40n);
+		expect(getFeePercentile(fees, 0)).toBe(10n);
+		expect(getFeePercentile([], 50)).toBe(0n);
+	});
+
+	it('estimates the median for auto and samples the writable accounts', async () => {
+		const rpc = createRpc([0, 100, 300, 200, 500]);
+		const estimate = await estimateComputeUnitPrice({
+			feePayer: PAYER,
+			instructions,
+			rpc: rpc as never,
+			strategy: 'auto',
+		});
+
+		expect(rpc.getRecentPrioritizationFees).toHaveBeenCalledWith([PAYER, 'writable', 'signer']);
+		expect(estimate).toEqual({ capped: false, microLamports: 200n, percentile: 50, samples: 5 });
+	});
+
+	it('caps the percentile value at maxMicroLamports', async () => {
+		const estimate = await estimateComputeUnitPrice({
+			instructions,
+			rpc: createRpc([1_000, 5_000, 9_000]) as never,
+			strategy: { maxMicroLamports: 4_000, percentile: 90 },
+		});
+
+		expect(estimate).toEqual({
+			capped: true,
+			maxMicroLamports: 4_000n,
+			microLamports: 4_000n,
+			percentile: 90,
+			samples: 3,
+		});
+	});
+});
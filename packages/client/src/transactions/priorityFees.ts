@@ -0,0 +1,108 @@
+import type { AccountRole, Address, GetRecentPrioritizationFeesApi, Rpc } from '@solana/kit';
+
+export type ComputeUnitPriceStrategy = Readonly<{
+	/** Upper bound for the estimated price, in micro-lamports per compute unit. */
+	maxMicroLamports?: bigint | number;
+	/** Percentile (0-100) of recent prioritization fees to pay. Defaults to 50 (the median). */
+	percentile?: number;
+}>;
+
+export type ComputeUnitPriceInput = bigint | number | 'auto' | ComputeUnitPriceStrategy;
+
+export type PriorityFeeEstimate = Readonly<{
+	/** Whether the percentile value exceeded `maxMicroLamports` and was capped. */
+	capped: boolean;
+	maxMicroLamports?: bigint;
+	microLamports: bigint;
+	percentile: number;
+	/** Number of recent slots the estimate was based on. */
+	samples: number;
+}>;
+
+type PriorityFeeInstruction = Readonly<{
+	accounts?: readonly Readonly<{ address: Address; role: AccountRole }>[];
+}>;
+
+type EstimateComputeUnitPriceConfig = Readonly<{
+	abortSignal?: AbortSignal;
+	feePayer?: Address;
+	instructions: readonly PriorityFeeInstruction[];
+	rpc: Rpc<GetRecentPrioritizationFeesApi>;
+	strategy: 'auto' | ComputeUnitPriceStrategy;
+}>;
+
+const DEFAULT_PERCENTILE = 50;
+// `getRecentPrioritizationFees` accepts at most 128 accounts.
+const MAX_PRIORITIZATION_FEE_ACCOUNTS = 128;
+
+/**
+ * Collects the writable accounts referenced by a set of instructions; fees are local to the accounts they lock.
+ *
+ * @param instructions - Instructions that will be sent.
+ * @param feePayer - Fee payer, which is always writable.
+ * @returns Deduplicated writable account addresses.
+ */
+export function getWritableAccounts(
+	instructions: readonly PriorityFeeInstruction[],
+	feePayer?: Address,
+): readonly Address[] {
+	const writable = new Set<Address>(feePayer ? [feePayer] : []);
+	for (const instruction of instructions) {
+		for (const account of instruction.accounts ?? []) {
+			// AccountRole.WRITABLE and AccountRole.WRITABLE_SIGNER have the lowest bit set.
+			if ((account.role & 1) === 1) {
+				writable.add(account.address);
+			}
+		}
+	}
+	return [...writable];
+}
+
+/**
+ * Picks the fee at the given percentile using the nearest-rank method.
+ *
+ * @param fees - Recent prioritization fees.
+ * @param percentile - Percentile between 0 and 100.
+ * @returns Fee at the percentile, or `0n` when there are no samples.
+ */
+export function getFeePercentile(fees: readonly bigint[], percentile: number): bigint {
+	if (!fees.length) {
+		return 0n;
+	}
+	const sorted = [...fees].sort((left, right) => (left < right ? -1 : left > right ? 1 : 0));
+	const clamped = Math.min(100, Math.max(0, percentile));
+	const rank = Math.max(1, Math.ceil((clamped / 100) * sorted.length));
+	return sorted[rank - 1];
+}
+
+/**
+ * Estimates a compute unit price from `getRecentPrioritizationFees` for the accounts a transaction writes to.
+ *
+ * @param config - RPC, instructions, fee payer and the pricing strategy.
+ * @returns Chosen price together with the inputs that produced it.
+ */
+export async function estimateComputeUnitPrice({
+	abortSignal,
+	feePayer,
+	instructions,
+	rpc,
+	strategy,
+}: EstimateComputeUnitPriceConfig): Promise<PriorityFeeEstimate> {
+	const { maxMicroLamports: rawMax, percentile = DEFAULT_PERCENTILE } = strategy === 'auto' ? {} : strategy;
+	const maxMicroLamports =
+		rawMax === undefined ? undefined : typeof rawMax === 'bigint' ? rawMax : BigInt(Math.floor(rawMax));
+	const accounts = getWritableAccounts(instructions, feePayer).slice(0, MAX_PRIORITIZATION_FEE_ACCOUNTS);
+	const recent = await rpc.getRecentPrioritizationFees(accounts).send({ abortSignal });
+	const value = getFeePercentile(
+		recent.map((entry) => BigInt(entry.prioritizationFee)),
+		percentile,
+	);
+	const capped = maxMicroLamports !== undefined && value > maxMicroLamports;
+	return Object.freeze({
+		capped,
+		maxMicroLamports,
+		microLamports: capped ? maxMicroLamports : value,
+		percentile,
+		samples: recent.length,
+	});
+}
@@ -0,0 +1,78 @@
+import { address, type Signature } from '@solana/kit';
+import { TOKEN_PROGRAM_ADDRESS } from '@solana-program/token';
+import { describe, expect, it } from 'vitest';
+
+import {
+	createProgramErrorRegistry,
+	describeTransactionProgramError,
+	isTransactionFailedError,
+	TransactionFailedError,
+} from './programErrors';
+
+const TOKEN_2022_PROGRAM_ADDRESS = address('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+const PROGRAM_ADDRESS = address('So11111111111111111111111111111111111111112');
+
+describe('program error registry', () => {
+	it('knows the SPL Token and Token-2022 specific codes', () => {
+		const registry = createProgramErrorRegistry();
+
+		expect(registry.resolve(TOKEN_PROGRAM_ADDRESS, 17)).toEqual({
+			message: 'Account is frozen',
+			name: 'AccountFrozen',
+			programName: 'Token',
+		});
+		expect(registry.resolve(TOKEN_2022_PROGRAM_ADDRESS, 37)).toMatchObject({ name: 'NonTransferable' });
+		expect(registry.resolve(TOKEN_PROGRAM_ADDRESS, 37)).toEqual({ programName: 'Token' });
+		expect(registry.resolve(PROGRAM_ADDRESS, 0)).toBeUndefined();
+	});
+
+	it('prefers later maps and falls back to earlier ones for unknown codes', () => {
+		const registry = createProgramErrorRegistry();
+		const unregister = registry.register({
+			errors: { 1: { message: 'Wallet is empty', name: 'Empty' } },
+			programAddress: TOKEN_PROGRAM_ADDRESS,
+			programName: 'Patched Token',
+		});
+
+		expect(registry.resolve(TOKEN_PROGRAM_ADDRESS, 1)).toEqual({
+			message: 'Wallet is empty',
+			name: 'Empty',
+			programName: 'Patched Token',
+		});
+		expect(registry.resolve(TOKEN_PROGRAM_ADDRESS, 2)).toMatchObject({
+			name: 'InvalidMint',
+			programName: 'Patched Token',
+		});
+
+		unregister();
+		expect(registry.resolve(TOKEN_PROGRAM_ADDRESS, 1)).toMatchObject({
+			name: 'InsufficientFunds',
+			programName: 'Token',
+		});
+	});
+
+	it('describes failures in a single line on the thrown error', () => {
+		const programError = {
+			code: 1,
+			error: { InstructionError: [2, { Custom: 1 }] },
+			instructionIndex: 2,
+			message: 'Insufficient funds',
+			name: 'InsufficientFunds',
+			programAddress: TOKEN_PROGRAM_ADDRESS,
+			programName: 'Token',
+		} as const;
+		const cause = new Error('confirmation failed');
+		const error = new TransactionFailedError('sig' as Signature, programError, cause);
+
+		expect(error.message).toBe('Instruction 2 (Token) failed: InsufficientFunds: Insufficient funds');
+		expect(error.cause).toBe(cause);
+		expect(isTransactionFailedError(error)).toBe(true);
+		expect(
+			describeTransactionProgramError({
+				error: 'BlockhashNotFound',
+				message: 'Blockhash not found',
+				name: 'BlockhashNotFound',
+			}),
+		).toBe('Transaction failed: BlockhashNotFound: Blockhash not found');
+	});
+});
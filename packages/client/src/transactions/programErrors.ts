@@ -0,0 +1,232 @@
+import type { Address, Signature } from '@solana/kit';
+import { COMPUTE_BUDGET_PROGRAM_ADDRESS } from '@solana-program/compute-budget';
+import { SYSTEM_PROGRAM_ADDRESS } from '@solana-program/system';
+import { ASSOCIATED_TOKEN_PROGRAM_ADDRESS, TOKEN_PROGRAM_ADDRESS } from '@solana-program/token';
+
+import { TOKEN_2022_PROGRAM_ADDRESS } from '../client/accountDecoders';
+import type {
+	ProgramErrorDescription,
+	ProgramErrorMap,
+	ProgramErrorRegistry,
+	ResolvedProgramError,
+	TransactionProgramError,
+} from '../types';
+
+function toErrorDescriptions(entries: readonly (readonly [string, string])[]): Record<number, ProgramErrorDescription> {
+	const errors: Record<number, ProgramErrorDescription> = {};
+	entries.forEach(([name, message], code) => {
+		errors[code] = Object.freeze({ message, name });
+	});
+	return errors;
+}
+
+const SYSTEM_ERRORS = toErrorDescriptions([
+	['AccountAlreadyInUse', 'An account with the same address already exists'],
+	['ResultWithNegativeLamports', 'Account does not have enough SOL to perform the operation'],
+	['InvalidProgramId', 'Cannot assign account to this program id'],
+	['InvalidAccountDataLength', 'Cannot allocate account data of this length'],
+	['MaxSeedLengthExceeded', 'Length of requested seed is too long'],
+	['AddressWithSeedMismatch', 'Provided address does not match addressed derived from seed'],
+	['NonceNoRecentBlockhashes', 'Advancing stored nonce requires a populated RecentBlockhashes sysvar'],
+	['NonceBlockhashNotExpired', 'Stored nonce is still in recent_blockhashes'],
+	['NonceUnexpectedBlockhashValue', 'Specified nonce does not match stored nonce'],
+]);
+
+const TOKEN_ERROR_ENTRIES: readonly (readonly [string, string])[] = [
+	['NotRentExempt', 'Lamport balance below rent-exempt threshold'],
+	['InsufficientFunds', 'Insufficient funds'],
+	['InvalidMint', 'Invalid Mint'],
+	['MintMismatch', 'Account not associated with this Mint'],
+	['OwnerMismatch', 'Owner does not match'],
+	['FixedSupply', 'Fixed supply'],
+	['AlreadyInUse', 'Already in use'],
+	['InvalidNumberOfProvidedSigners', 'Invalid number of provided signers'],
+	['InvalidNumberOfRequiredSigners', 'Invalid number of required signers'],
+	['UninitializedState', 'State is uninitialized'],
+	['NativeNotSupported', 'Instruction does not support native tokens'],
+	['NonNativeHasBalance', 'Non-native account can only be closed if its balance is zero'],
+	['InvalidInstruction', 'Invalid instruction'],
+	['InvalidState', 'State is invalid for requested operation'],
+	['Overflow', 'Operation overflowed'],
+	['AuthorityTypeNotSupported', 'Account does not support specified authority type'],
+	['MintCannotFreeze', 'This token mint cannot freeze accounts'],
+	['AccountFrozen', 'Account is frozen'],
+	['MintDecimalsMismatch', 'The provided decimals value different from the Mint decimals'],
+	['NonNativeNotSupported', 'Instruction does not support non-native tokens'],
+];
+
+const TOKEN_ERRORS = toErrorDescriptions(TOKEN_ERROR_ENTRIES);
+
+const TOKEN_2022_ERRORS = toErrorDescriptions([
+	...TOKEN_ERROR_ENTRIES,
+	['ExtensionTypeMismatch', 'Extension type does not match already existing extensions'],
+	['ExtensionBaseMismatch', 'Extension does not match the base type provided'],
+	['ExtensionAlreadyInitialized', 'Extension already initialized on this account'],
+	['ConfidentialTransferAccountHasBalance', 'An account can only be closed if its confidential balance is zero'],
+	['ConfidentialTransferAccountNotApproved', 'Account not approved for confidential transfers'],
+	['ConfidentialTransferDepositsAndTransfersDisabled', 'Account not accepting deposits or transfers'],
+	['ConfidentialTransferElGamalPubkeyMismatch', 'ElGamal public key mismatch'],
+	['ConfidentialTransferBalanceMismatch', 'Balance mismatch'],
+	['MintHasSupply', 'Mint has non-zero supply. Burn all tokens before closing the mint'],
+	['NoAuthorityExists', 'No authority exists to perform the desired operation'],
+	['TransferFeeExceedsMaximum', 'Transfer fee exceeds maximum of 10,000 basis points'],
+	['MintRequiredForTransfer', 'Mint required for this account to transfer tokens, use `transfer_checked`'],
+	['FeeMismatch', 'Calculated fee does not match expected fee'],
+	['FeeParametersMismatch', 'Fee parameters do not match the fee parameters in the mint'],
+	['ImmutableOwner', 'The owner authority cannot be changed'],
+	['AccountHasWithheldTransferFees', 'An account can only be closed if its withheld fee balance is zero'],
+	['NoMemo', 'No memo in previous instruction; required for recipient to receive a transfer'],
+	['NonTransferable', 'Transfer is disabled for this mint'],
+	[
+		'NonTransferableNeedsImmutableOwnership',
+		"Non-transferable tokens can't be minted to an account without immutable ownership",
+	],
+	['MaximumPendingBalanceCounterExceeded', 'The maximum pending balance credit counter was exceeded'],
+	['MaximumDepositAmountExceeded', 'Deposit amount exceeds maximum limit'],
+	['CpiGuardSettingsLocked', 'CPI Guard cannot be enabled or disabled in CPI'],
+	[
+		'CpiGuardTransferBlocked',
+		'CPI Guard is enabled, and a program attempted to transfer user funds without using a delegate',
+	],
+	[
+		'CpiGuardBurnBlocked',
+		'CPI Guard is enabled, and a program attempted to burn user funds without using a delegate',
+	],
+	[
+		'CpiGuardCloseAccountBlocked',
+		'CPI Guard is enabled, and a program attempted to close an account without returning lamports to the owner',
+	],
+	['CpiGuardApproveBlocked', 'CPI Guard is enabled, and a program attempted to approve a delegate'],
+	['CpiGuardSetAuthorityBlocked', 'CPI Guard is enabled, and a program attempted to add or replace an authority'],
+	['CpiGuardOwnerChangeBlocked', 'Account ownership cannot be changed while CPI Guard is enabled'],
+	['ExtensionNotFound', 'Extension not found in account data'],
+]);
+
+const builtinProgramErrors: readonly ProgramErrorMap[] = [
+	{ errors: SYSTEM_ERRORS, programAddress: SYSTEM_PROGRAM_ADDRESS, programName: 'System' },
+	{ errors: TOKEN_ERRORS, programAddress: TOKEN_PROGRAM_ADDRESS, programName: 'Token' },
+	{ errors: TOKEN_2022_ERRORS, programAddress: TOKEN_2022_PROGRAM_ADDRESS, programName: 'Token-2022' },
+	{
+		errors: toErrorDescriptions([
+			['InvalidOwner', 'Associated token account owner does not match address derivation'],
+		]),
+		programAddress: ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
+		programName: 'Associated Token',
+	},
+	// The compute budget program only fails with built-in instruction errors, so it is registered for its name.
+	{ errors: {}, programAddress: COMPUTE_BUDGET_PROGRAM_ADDRESS, programName: 'Compute Budget' },
+];
+
+/**
+ * Turns a built-in error variant such as `InvalidAccountData` into `Invalid account data`.
+ *
+ * @param name - Variant name reported by the cluster.
+ * @returns Sentence-cased message.
+ */
+export function humanizeErrorName(name: string): string {
+	const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+	return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Creates the registry that maps program addresses to their custom error codes.
+ *
+ * System, SPL Token, Token-2022, Associated Token and Compute Budget errors are known out of the box. Maps passed in or
+ * registered later take precedence over earlier ones for the same program and code.
+ *
+ * @param maps - Additional program error maps, e.g. built from Codama-generated clients or Anchor IDLs.
+ * @returns Program error registry.
+ */
+export function createProgramErrorRegistry(maps: readonly ProgramErrorMap[] = []): ProgramErrorRegistry {
+	const entries: ProgramErrorMap[] = [...builtinProgramErrors, ...maps];
+
+	/**
+	 * Adds an error map with the highest precedence.
+	 *
+	 * @param map - Error map to register.
+	 * @returns Function that removes the map again.
+	 */
+	function register(map: ProgramErrorMap): () => void {
+		entries.push(map);
+		return () => {
+			const index = entries.lastIndexOf(map);
+			if (index !== -1) {
+				entries.splice(index, 1);
+			}
+		};
+	}
+
+	/**
+	 * Looks up the program name and, for custom errors, the error name and message.
+	 *
+	 * @param programAddress - Program that returned the error.
+	 * @param code - Custom error code, when the failure was a `Custom` instruction error.
+	 * @returns Resolved description, or `undefined` when the program is unknown.
+	 */
+	function resolve(programAddress: Address, code?: number): ResolvedProgramError | undefined {
+		let programName: string | undefined;
+		for (let index = entries.length - 1; index >= 0; index--) {
+			const map = entries[index];
+			if (map.programAddress !== programAddress) {
+				continue;
+			}
+			programName ??= map.programName;
+			const description = code === undefined ? undefined : map.errors[code];
+			if (description) {
+				return { ...description, programName };
+			}
+		}
+		return programName === undefined ? undefined : { programName };
+	}
+
+	return Object.freeze({
+		list: () => [...entries],
+		register,
+		resolve,
+	});
+}
+
+/**
+ * Formats a decoded failure as a single line, e.g. `Instruction 1 (Token) failed: InsufficientFunds: Insufficient funds`.
+ *
+ * @param programError - Decoded transaction failure.
+ * @returns Human-readable description.
+ */
+export function describeTransactionProgramError(programError: TransactionProgramError): string {
+	const reason = [programError.name, programError.message].filter(Boolean).join(': ');
+	if (programError.instructionIndex === undefined) {
+		return `Transaction failed: ${reason}`;
+	}
+	const program = programError.programName ?? programError.programAddress;
+	const subject = program
+		? `Instruction ${programError.instructionIndex} (${program})`
+		: `Instruction ${programError.instructionIndex}`;
+	return `${subject} failed: ${reason}`;
+}
+
+/**
+ * Thrown when a sent transaction landed but failed on-chain.
+ */
+export class TransactionFailedError extends Error {
+	readonly cause: unknown;
+	readonly programError: TransactionProgramError;
+	readonly signature: Signature;
+
+	constructor(signature: Signature, programError: TransactionProgramError, cause?: unknown) {
+		super(describeTransactionProgramError(programError));
+		this.name = 'TransactionFailedError';
+		this.cause = cause;
+		this.programError = programError;
+		this.signature = signature;
+	}
+}
+
+/**
+ * Checks whether an error was raised because a sent transaction failed on-chain.
+ *
+ * @param error - Value to inspect.
+ * @returns `true` when the value is a {@link TransactionFailedError}.
+ */
+export function isTransactionFailedError(error: unknown): error is TransactionFailedError {
+	return error instanceof TransactionFailedError;
+}
@@ -0,0 +1,202 @@
+import {
+	type Base64EncodedWireTransaction,
+	isSolanaError,
+	type Signature,
+	SOLANA_ERROR__BLOCK_HEIGHT_EXCEEDED,
+	SOLANA_ERROR__TRANSACTION_ERROR__ACCOUNT_NOT_FOUND,
+} from '@solana/kit';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { type RebroadcastTransaction, sendWithRebroadcast } from './rebroadcast';
+
+type SignatureStatus = { confirmationStatus: string | null; err: unknown } | null;
+
+function createTransaction(id: string, lastValidBlockHeight = 100n): RebroadcastTransaction {
+	return {
+		lastValidBlockHeight,
+		signature: `sig-${id}` as Signature,
+		wireTransaction: `wire-${id}` as Base64EncodedWireTransaction,
+	};
+}
+
+function createRpc({ blockHeights = [], statuses = [] }: { blockHeights?: bigint[]; statuses?: SignatureStatus[] }) {
+	const sendTransactionSend = vi.fn().mockResolvedValue('sig');
+	return {
+		getBlockHeight: vi.fn(() => ({ send: vi.fn(async () => blockHeights.shift() ?? 0n) })),
+		getSignatureStatuses: vi.fn(() => ({ send: vi.fn(async () => ({ value: [statuses.shift() ?? null] })) })),
+		sendTransaction: vi.fn(() => ({ send: sendTransactionSend })),
+		sendTransactionSend,
+	};
+}
+
+describe('sendWithRebroadcast', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('re-submits the same wire transaction until it reaches the commitment', async () => {
+		const rpc = createRpc({ statuses: [null, null, { confirmationStatus: 'confirmed', err: null }] });
+		rpc.sendTransactionSend.mockResolvedValueOnce('sig').mockRejectedValueOnce(new Error('node busy'));
+		const onAttempt = vi.fn();
+
+		const promise = sendWithRebroadcast({
+			commitment: 'confirmed',
+			intervalMs: 1_000,
+			onAttempt,
+			rpc: rpc as never,
+			transaction: createTransaction('a'),
+		});
+		await vi.advanceTimersByTimeAsync(3_000);
+
+		await expect(promise).resolves.toBe('sig-a');
+		expect(rpc.sendTransaction).toHaveBeenCalledTimes(3);
+		expect(rpc.sendTransaction).toHaveBeenNthCalledWith(1, 'wire-a', {
+			encoding: 'base64',
+			maxRetries: 0n,
+			preflightCommitment: 'confirmed',
+			skipPreflight: undefined,
+		});
+		expect(rpc.sendTransaction).toHaveBeenLastCalledWith(
+			'wire-a',
+			expect.objectContaining({ skipPreflight: true }),
+		);
+		expect(onAttempt.mock.calls.map(([attempt]) => [attempt.attempt, attempt.error?.message])).toEqual([
+			[1, undefined],
+			[2, 'node busy'],
+			[3, undefined],
+		]);
+	});
+
+	it('stops re-submitting once the signature landed and only polls for the commitment', async () => {
+		const rpc = createRpc({
+			statuses: [
+				{ confirmationStatus: 'processed', err: null },
+				{ confirmationStatus: 'processed', err: null },
+				null,
+				{ confirmationStatus: 'confirmed', err: null },
+			],
+		});
+
+		const promise = sendWithRebroadcast({
+			commitment: 'confirmed',
+			intervalMs: 10,
+			rpc: rpc as never,
+			transaction: createTransaction('a'),
+		});
+		await vi.advanceTimersByTimeAsync(20);
+		expect(rpc.sendTransaction).toHaveBeenCalledTimes(1);
+		await vi.advanceTimersByTimeAsync(20);
+
+		await expect(promise).resolves.toBe('sig-a');
+		// The status vanishing again, e.g. with a dropped fork, resumes re-submitting.
+		expect(rpc.sendTransaction).toHaveBeenCalledTimes(2);
+		expect(rpc.getSignatureStatuses).toHaveBeenCalledTimes(4);
+	});
+
+	it('throws when the first submission fails preflight', async () => {
+		const rpc = createRpc({});
+		rpc.sendTransactionSend.mockRejectedValueOnce(new Error('preflight failed'));
+		const onAttempt = vi.fn();
+
+		await expect(
+			sendWithRebroadcast({
+				commitment: 'confirmed',
+				onAttempt,
+				rpc: rpc as never,
+				transaction: createTransaction('a'),
+			}),
+		).rejects.toThrow('preflight failed');
+		expect(onAttempt).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, error: expect.any(Error) }));
+	});
+
+	it('surfaces on-chain errors reported by the signature status', async () => {
+		const rpc = createRpc({ statuses: [{ confirmationStatus: 'processed', err: 'AccountNotFound' }] });
+
+		const promise = sendWithRebroadcast({
+			commitment: 'confirmed',
+			rpc: rpc as never,
+			transaction: createTransaction('a'),
+		});
+		const assertion = expect(promise).rejects.toSatisfy((error) =>
+			isSolanaError(error, SOLANA_ERROR__TRANSACTION_ERROR__ACCOUNT_NOT_FOUND),
+		);
+		await vi.advanceTimersByTimeAsync(2_000);
+		await assertion;
+	});
+
+	it('gives up once the blockhash expires without re-signing', async () => {
+		const rpc = createRpc({ blockHeights: [101n] });
+
+		const promise = sendWithRebroadcast({
+			commitment: 'confirmed',
+			rpc: rpc as never,
+			transaction: createTransaction('a'),
+		});
+		const assertion = expect(promise).rejects.toSatisfy((error) =>
+			isSolanaError(error, SOLANA_ERROR__BLOCK_HEIGHT_EXCEEDED),
+		);
+		await vi.advanceTimersByTimeAsync(2_000);
+		await assertion;
+	});
+
+	it('re-signs with a fresh blockhash up to maxResigns times', async () => {
+		const rpc = createRpc({
+			blockHeights: [101n],
+			statuses: [null, null, null, { confirmationStatus: 'finalized', err: null }],
+		});
+		const resign = vi.fn(async () => createTransaction('b', 200n));
+		const onAttempt = vi.fn();
+
+		const promise = sendWithRebroadcast({
+			commitment: 'confirmed',
+			intervalMs: 10,
+			maxResigns: 1,
+			onAttempt,
+			resign,
+			rpc: rpc as never,
+			transaction: createTransaction('a'),
+		});
+		await vi.advanceTimersByTimeAsync(30);
+
+		await expect(promise).resolves.toBe('sig-b');
+		expect(resign).toHaveBeenCalledTimes(1);
+		expect(onAttempt.mock.calls.map(([attempt]) => attempt.signature)).toEqual(['sig-a', 'sig-b', 'sig-b']);
+		expect(rpc.sendTransaction).toHaveBeenNthCalledWith(
+			2,
+			'wire-b',
+			expect.objectContaining({ skipPreflight: undefined }),
+		);
+	});
+
+	it('keeps waiting for a signature that landed instead of expiring or re-signing', async () => {
+		const rpc = createRpc({
+			blockHeights: [101n],
+			statuses: [
+				null,
+				{ confirmationStatus: 'processed', err: null },
+				{ confirmationStatus: 'processed', err: null },
+				{ confirmationStatus: 'confirmed', err: null },
+			],
+		});
+		const resign = vi.fn(async () => createTransaction('b', 200n));
+
+		const promise = sendWithRebroadcast({
+			commitment: 'confirmed',
+			intervalMs: 10,
+			maxResigns: 1,
+			resign,
+			rpc: rpc as never,
+			transaction: createTransaction('a'),
+		});
+		await vi.advanceTimersByTimeAsync(30);
+
+		await expect(promise).resolves.toBe('sig-a');
+		expect(resign).not.toHaveBeenCalled();
+		expect(rpc.getSignatureStatuses).toHaveBeenNthCalledWith(2, ['sig-a'], { searchTransactionHistory: true });
+		expect(rpc.getBlockHeight).toHaveBeenCalledTimes(1);
+	});
+});
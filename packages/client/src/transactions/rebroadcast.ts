@@ -0,0 +1,173 @@
+import type {
+	Base64EncodedWireTransaction,
+	Commitment,
+	GetBlockHeightApi,
+	GetSignatureStatusesApi,
+	Rpc,
+	SendTransactionApi,
+	Signature,
+} from '@solana/kit';
+import { getSolanaErrorFromTransactionError, SOLANA_ERROR__BLOCK_HEIGHT_EXCEEDED, SolanaError } from '@solana/kit';
+
+import type { TransactionSendAttempt } from '../types';
+import { now, wait } from '../utils';
+
+export type TransactionRebroadcastConfig = Readonly<{
+	/** Delay between re-submissions of the same wire transaction. Defaults to 2000ms. */
+	intervalMs?: number;
+	/** How many times to re-sign with a fresh blockhash once the current one expires. Defaults to 0. */
+	maxResigns?: number;
+}>;
+
+export type RebroadcastTransaction = Readonly<{
+	lastValidBlockHeight: bigint;
+	signature: Signature;
+	wireTransaction: Base64EncodedWireTransaction;
+}>;
+
+type SendWithRebroadcastConfig = TransactionRebroadcastConfig &
+	Readonly<{
+		abortSignal?: AbortSignal;
+		commitment: Commitment;
+		/** Called after every submission, including failed re-submissions. */
+		onAttempt?(attempt: TransactionSendAttempt): void;
+		/** Called with every confirmation status observed while polling. */
+		onStatus?(commitment: Commitment, slot: bigint): void;
+		/** Produces a freshly signed transaction; re-signing is disabled when omitted. */
+		resign?(): Promise<RebroadcastTransaction>;
+		rpc: Rpc<GetBlockHeightApi & GetSignatureStatusesApi & SendTransactionApi>;
+		skipPreflight?: boolean;
+		transaction: RebroadcastTransaction;
+	}>;
+
+const DEFAULT_REBROADCAST_INTERVAL_MS = 2_000;
+
+const COMMITMENT_RANK: Record<Commitment, number> = {
+	confirmed: 1,
+	finalized: 2,
+	processed: 0,
+};
+
+function hasReachedCommitment(status: Commitment | 'pending' | null, target: Commitment): boolean {
+	return status !== null && status !== 'pending' && COMMITMENT_RANK[status] >= COMMITMENT_RANK[target];
+}
+
+/**
+ * Sends a signed transaction and keeps re-submitting it until it confirms or its blockhash expires.
+ *
+ * The RPC's own retry queue is disabled (`maxRetries: 0`) so the loop controls delivery. Only the first submission
+ * of each signature runs preflight; failures of later re-submissions are recorded on the attempt and the loop keeps
+ * going. Once the signature has a status it has landed, so re-submitting stops and the loop only polls until it
+ * reaches the commitment, whatever the block height. When the blockhash expires before the signature lands, the full
+ * status history is checked once more and `resign` is used up to `maxResigns` times before giving up.
+ *
+ * @param config - RPC, signed transaction, target commitment and rebroadcast policy.
+ * @returns Signature of the transaction that confirmed.
+ */
+export async function sendWithRebroadcast({
+	abortSignal,
+	commitment,
+	intervalMs = DEFAULT_REBROADCAST_INTERVAL_MS,
+	maxResigns = 0,
+	onAttempt,
+	onStatus,
+	resign,
+	rpc,
+	skipPreflight,
+	transaction,
+}: SendWithRebroadcastConfig): Promise<Signature> {
+	let current = transaction;
+	let attempt = 0;
+	let resigns = 0;
+	let resubmission = false;
+	// Set while the signature has a status; it resumes being sent if the status disappears, e.g. with a dropped fork.
+	let landed = false;
+
+	/**
+	 * Reads the status of the current signature, reporting it and surfacing on-chain errors.
+	 *
+	 * @param searchTransactionHistory - Also look beyond the RPC's recent status cache.
+	 * @returns Confirmation status, or `null` while the transaction has not landed.
+	 */
+	async function readStatus(searchTransactionHistory: boolean): Promise<Commitment | 'pending' | null> {
+		const {
+			value: [status],
+		} = await rpc
+			.getSignatureStatuses(
+				[current.signature],
+				searchTransactionHistory ? { searchTransactionHistory } : undefined,
+			)
+			.send({ abortSignal });
+		if (!status) {
+			return null;
+		}
+		if (status.confirmationStatus) {
+			onStatus?.(status.confirmationStatus, status.slot);
+		}
+		if (status.err) {
+			throw getSolanaErrorFromTransactionError(status.err);
+		}
+		return status.confirmationStatus ?? 'pending';
+	}
+
+	while (true) {
+		abortSignal?.throwIfAborted();
+		if (!landed) {
+			attempt += 1;
+			const sentAt = now();
+			try {
+				await rpc
+					.sendTransaction(current.wireTransaction, {
+						encoding: 'base64',
+						maxRetries: 0n,
+						preflightCommitment: commitment,
+						skipPreflight: resubmission || skipPreflight,
+					})
+					.send({ abortSignal });
+				onAttempt?.({ attempt, sentAt, signature: current.signature });
+			} catch (error) {
+				onAttempt?.({ attempt, error, sentAt, signature: current.signature });
+				if (!resubmission || abortSignal?.aborted) {
+					throw error;
+				}
+			}
+			resubmission = true;
+		}
+
+		await wait(intervalMs, abortSignal);
+		abortSignal?.throwIfAborted();
+
+		const status = await readStatus(false);
+		if (hasReachedCommitment(status, commitment)) {
+			return current.signature;
+		}
+		landed = status !== null;
+		if (landed) {
+			// Landed below the target commitment: the blockhash expiring no longer matters, only this signature does.
+			continue;
+		}
+
+		const blockHeight = await rpc.getBlockHeight({ commitment }).send({ abortSignal });
+		if (blockHeight > current.lastValidBlockHeight) {
+			// The recent status cache can miss a transaction that landed just before expiry; re-signing then would
+			// execute it twice.
+			const lateStatus = await readStatus(true);
+			if (hasReachedCommitment(lateStatus, commitment)) {
+				return current.signature;
+			}
+			landed = lateStatus !== null;
+			if (landed) {
+				continue;
+			}
+			if (!resign || resigns >= maxResigns) {
+				throw new SolanaError(SOLANA_ERROR__BLOCK_HEIGHT_EXCEEDED, {
+					currentBlockHeight: blockHeight,
+					lastValidBlockHeight: current.lastValidBlockHeight,
+				});
+			}
+			resigns += 1;
+			current = await resign();
+			resubmission = false;
+		}
+	}
+}
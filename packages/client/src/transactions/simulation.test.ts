@@ -0,0 +1,68 @@
+import type { Rpc, SimulateTransactionApi } from '@solana/kit';
+import {
+	address,
+	appendTransactionMessageInstruction,
+	type Blockhash,
+	createTransactionMessage,
+	pipe,
+	setTransactionMessageFeePayer,
+	setTransactionMessageLifetimeUsingBlockhash,
+} from '@solana/kit';
+import { describe, expect, it, vi } from 'vitest';
+
+import { isTransactionSimulationError, simulateTransactionMessage, TransactionSimulationError } from './simulation';
+
+const FEE_PAYER = address('11111111111111111111111111111111');
+const PROGRAM_ADDRESS = address('So11111111111111111111111111111111111111112');
+
+function createMessage() {
+	return pipe(
+		createTransactionMessage({ version: 0 }),
+		(message) => setTransactionMessageFeePayer(FEE_PAYER, message),
+		(message) =>
+			appendTransactionMessageInstruction(
+				{ accounts: [], data: new Uint8Array([1]), programAddress: PROGRAM_ADDRESS },
+				message,
+			),
+		(message) =>
+			setTransactionMessageLifetimeUsingBlockhash(
+				{ blockhash: FEE_PAYER as unknown as Blockhash, lastValidBlockHeight: 10n },
+				message,
+			),
+	);
+}
+
+function createRpc(value: Record<string, unknown>) {
+	const send = vi.fn().mockResolvedValue({ value });
+	return {
+		rpc: { simulateTransaction: vi.fn(() => ({ send })) } as unknown as Rpc<SimulateTransactionApi>,
+		send,
+	};
+}
+
+describe('simulateTransactionMessage', () => {
+	it('simulates without signature verification and normalises the result', async () => {
+		const { rpc } = createRpc({ err: null, logs: ['Program log: ok'], unitsConsumed: 1_234 });
+		const simulation = await simulateTransactionMessage({ commitment: 'processed', message: createMessage(), rpc });
+
+		expect(rpc.simulateTransaction).toHaveBeenCalledWith(expect.any(String), {
+			commitment: 'processed',
+			encoding: 'base64',
+			replaceRecentBlockhash: false,
+			sigVerify: false,
+		});
+		expect(simulation).toEqual({ err: null, logs: ['Program log: ok'], unitsConsumed: 1_234n });
+	});
+
+	it('describes reverted simulations through a typed error', async () => {
+		const { rpc } = createRpc({ err: { InstructionError: [0, { Custom: 6n }] }, logs: null });
+		const simulation = await simulateTransactionMessage({ message: createMessage(), rpc });
+		const error = new TransactionSimulationError(simulation);
+
+		expect(simulation.logs).toEqual([]);
+		expect(isTransactionSimulationError(error)).toBe(true);
+		expect(isTransactionSimulationError(new Error('other'))).toBe(false);
+		expect(error.message).toBe('Transaction simulation failed: {"InstructionError":[0,{"Custom":"6"}]}');
+		expect(error.simulation).toBe(simulation);
+	});
+});
@@ -0,0 +1,78 @@
+import type {
+	Commitment,
+	Rpc,
+	SimulateTransactionApi,
+	TransactionError,
+	TransactionMessage,
+	TransactionMessageWithFeePayer,
+} from '@solana/kit';
+
+import { transactionToBase64 } from './base64';
+
+export type TransactionSimulation = Readonly<{
+	/** Error the transaction would fail with, or `null` when it succeeds. */
+	err: TransactionError | null;
+	logs: readonly string[];
+	unitsConsumed?: bigint;
+}>;
+
+type SimulateTransactionMessageConfig = Readonly<{
+	abortSignal?: AbortSignal;
+	commitment?: Commitment;
+	message: TransactionMessage & TransactionMessageWithFeePayer;
+	rpc: Rpc<SimulateTransactionApi>;
+}>;
+
+function describeTransactionError(err: TransactionError | null): string {
+	return JSON.stringify(err, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+}
+
+/**
+ * Thrown when simulating a transaction shows it would revert on-chain.
+ */
+export class TransactionSimulationError extends Error {
+	readonly simulation: TransactionSimulation;
+
+	constructor(simulation: TransactionSimulation) {
+		super(`Transaction simulation failed: ${describeTransactionError(simulation.err)}`);
+		this.name = 'TransactionSimulationError';
+		this.simulation = simulation;
+	}
+}
+
+/**
+ * Checks whether an error was raised because a transaction simulation reverted.
+ *
+ * @param error - Value to inspect.
+ * @returns `true` when the value is a {@link TransactionSimulationError}.
+ */
+export function isTransactionSimulationError(error: unknown): error is TransactionSimulationError {
+	return error instanceof TransactionSimulationError;
+}
+
+/**
+ * Simulates an unsigned transaction message without signature verification.
+ *
+ * @param config - RPC, message and optional commitment/abort signal.
+ * @returns Simulation error, logs and consumed compute units.
+ */
+export async function simulateTransactionMessage({
+	abortSignal,
+	commitment,
+	message,
+	rpc,
+}: SimulateTransactionMessageConfig): Promise<TransactionSimulation> {
+	const { value } = await rpc
+		.simulateTransaction(transactionToBase64(message), {
+			commitment,
+			encoding: 'base64',
+			replaceRecentBlockhash: false,
+			sigVerify: false,
+		})
+		.send({ abortSignal });
+	return Object.freeze({
+		err: value.err ?? null,
+		logs: Object.freeze([...(value.logs ?? [])]),
+		unitsConsumed: value.unitsConsumed === undefined ? undefined : BigInt(value.unitsConsumed),
+	});
+}
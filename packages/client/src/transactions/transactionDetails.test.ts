@@ -0,0 +1,105 @@
+import {
+	AccountRole,
+	address,
+	appendTransactionMessageInstruction,
+	type Blockhash,
+	compileTransaction,
+	createTransactionMessage,
+	pipe,
+	setTransactionMessageFeePayer,
+	setTransactionMessageLifetimeUsingBlockhash,
+} from '@solana/kit';
+import { TOKEN_PROGRAM_ADDRESS } from '@solana-program/token';
+import { describe, expect, it } from 'vitest';
+
+import { createProgramErrorRegistry } from './programErrors';
+import { decodeTransactionError, summarizeTransaction } from './transactionDetails';
+
+const FEE_PAYER = address('11111111111111111111111111111111');
+const PROGRAM_ADDRESS = address('So11111111111111111111111111111111111111112');
+const ACCOUNT = address('SysvarC1ock11111111111111111111111111111111');
+
+describe('transaction details', () => {
+	it('summarises the fee payer and instructions of a compiled transaction', () => {
+		const transaction = compileTransaction(
+			pipe(
+				createTransactionMessage({ version: 0 }),
+				(message) => setTransactionMessageFeePayer(FEE_PAYER, message),
+				(message) =>
+					appendTransactionMessageInstruction(
+						{
+							accounts: [{ address: ACCOUNT, role: AccountRole.READONLY }],
+							data: new Uint8Array([1, 2, 3]),
+							programAddress: PROGRAM_ADDRESS,
+						},
+						message,
+					),
+				(message) =>
+					setTransactionMessageLifetimeUsingBlockhash(
+						{ blockhash: FEE_PAYER as unknown as Blockhash, lastValidBlockHeight: 1n },
+						message,
+					),
+			),
+		);
+
+		expect(summarizeTransaction(transaction)).toEqual({
+			feePayer: FEE_PAYER,
+			instructions: [{ accountCount: 1, dataLength: 3, programAddress: PROGRAM_ADDRESS }],
+		});
+	});
+
+	it('maps instruction errors to the failing instruction and program', () => {
+		const instructions = [
+			{ accountCount: 0, dataLength: 5, programAddress: FEE_PAYER },
+			{ accountCount: 1, dataLength: 3, programAddress: PROGRAM_ADDRESS },
+		];
+
+		expect(decodeTransactionError({ InstructionError: [1, { Custom: 6 }] }, instructions)).toEqual({
+			code: 6,
+			error: { InstructionError: [1, { Custom: 6 }] },
+			instructionIndex: 1,
+			message: 'Custom program error 6',
+			name: undefined,
+			programAddress: PROGRAM_ADDRESS,
+			programName: undefined,
+		});
+		expect(decodeTransactionError({ InstructionError: [0, 'InvalidArgument'] }, instructions)).toMatchObject({
+			code: undefined,
+			instructionIndex: 0,
+			message: 'Invalid argument',
+			name: 'InvalidArgument',
+			programAddress: FEE_PAYER,
+			programName: 'System',
+		});
+		expect(decodeTransactionError('AccountNotFound')).toEqual({
+			error: 'AccountNotFound',
+			message: 'Account not found',
+			name: 'AccountNotFound',
+		});
+	});
+
+	it('names custom codes of built-in and registered programs', () => {
+		const registry = createProgramErrorRegistry([
+			{
+				errors: { 6: { message: 'Counter overflowed', name: 'Overflow' } },
+				programAddress: PROGRAM_ADDRESS,
+				programName: 'Counter',
+			},
+		]);
+		const instructions = [
+			{ accountCount: 3, dataLength: 9, programAddress: TOKEN_PROGRAM_ADDRESS },
+			{ accountCount: 1, dataLength: 3, programAddress: PROGRAM_ADDRESS },
+		];
+
+		expect(decodeTransactionError({ InstructionError: [0, { Custom: 1 }] }, instructions, registry)).toMatchObject({
+			message: 'Insufficient funds',
+			name: 'InsufficientFunds',
+			programName: 'Token',
+		});
+		expect(decodeTransactionError({ InstructionError: [1, { Custom: 6 }] }, instructions, registry)).toMatchObject({
+			message: 'Counter overflowed',
+			name: 'Overflow',
+			programName: 'Counter',
+		});
+	});
+});
@@ -0,0 +1,83 @@
+import type { Address, Transaction, TransactionError } from '@solana/kit';
+import { getCompiledTransactionMessageDecoder } from '@solana/kit';
+
+import type { ProgramErrorRegistry, TransactionInstructionSummary, TransactionProgramError } from '../types';
+import { createProgramErrorRegistry, humanizeErrorName } from './programErrors';
+
+export type TransactionSummary = Readonly<{
+	feePayer: Address;
+	instructions: readonly TransactionInstructionSummary[];
+}>;
+
+let defaultProgramErrorRegistry: ProgramErrorRegistry | undefined;
+
+function getDefaultProgramErrorRegistry(): ProgramErrorRegistry {
+	defaultProgramErrorRegistry ??= createProgramErrorRegistry();
+	return defaultProgramErrorRegistry;
+}
+
+/**
+ * Decodes the message of a compiled transaction into the fee payer and a per-instruction summary.
+ *
+ * @param transaction - Compiled (optionally signed) transaction.
+ * @returns Fee payer and instruction summaries in message order.
+ */
+export function summarizeTransaction(transaction: Pick<Transaction, 'messageBytes'>): TransactionSummary {
+	const message = getCompiledTransactionMessageDecoder().decode(transaction.messageBytes);
+	return Object.freeze({
+		feePayer: message.staticAccounts[0],
+		instructions: Object.freeze(
+			message.instructions.map((instruction) =>
+				Object.freeze({
+					accountCount: instruction.accountIndices?.length ?? 0,
+					dataLength: instruction.data?.length ?? 0,
+					programAddress: message.staticAccounts[instruction.programAddressIndex],
+				}),
+			),
+		),
+	});
+}
+
+function getErrorVariantName(error: object | string): string {
+	return typeof error === 'string' ? error : (Object.keys(error)[0] ?? 'Unknown');
+}
+
+/**
+ * Maps an on-chain transaction error to the instruction and program that produced it.
+ *
+ * Custom error codes are resolved through `registry`, which knows the System, Token, Token-2022, Associated Token and
+ * Compute Budget programs by default. Built-in errors get a message derived from their name.
+ *
+ * @param error - Error reported by the cluster for a landed transaction.
+ * @param instructions - Instruction summaries of the sent message, used to resolve the failing program.
+ * @param registry - Program error maps used to name custom error codes.
+ * @returns Decoded error; `instructionIndex` is only set for `InstructionError` failures.
+ */
+export function decodeTransactionError(
+	error: TransactionError,
+	instructions?: readonly TransactionInstructionSummary[],
+	registry: ProgramErrorRegistry = getDefaultProgramErrorRegistry(),
+): TransactionProgramError {
+	if (typeof error !== 'object' || !('InstructionError' in error)) {
+		const name = getErrorVariantName(error);
+		return Object.freeze({ error, message: humanizeErrorName(name), name });
+	}
+	const [index, instructionError] = error.InstructionError;
+	const instructionIndex = Number(index);
+	const code =
+		typeof instructionError === 'object' && 'Custom' in instructionError
+			? Number(instructionError.Custom)
+			: undefined;
+	const programAddress = instructions?.[instructionIndex]?.programAddress;
+	const resolved = programAddress ? registry.resolve(programAddress, code) : undefined;
+	const name = resolved?.name ?? (code === undefined ? getErrorVariantName(instructionError) : undefined);
+	return Object.freeze({
+		code,
+		error,
+		instructionIndex,
+		message: resolved?.message ?? (name ? humanizeErrorName(name) : `Custom program error ${code}`),
+		name,
+		programAddress,
+		programName: resolved?.programName,
+	});
+}
@@ -14,10 +14,12 @@ function createHelper(overrides: Partial<TransactionHelper> = {}): TransactionHe
 		version: 0,
 	};
 	return {
+		measure: vi.fn().mockResolvedValue(200),
 		prepare: vi.fn().mockResolvedValue(prepared),
 		prepareAndSend: vi.fn().mockResolvedValue('sig-prep-send'),
 		send: vi.fn().mockResolvedValue('sig-send'),
 		sign: vi.fn(),
+		signAll: vi.fn(),
 		toWire: vi.fn(),
 		...(overrides as TransactionHelper),
 	} as TransactionHelper;
@@ -79,4 +81,98 @@ describe('createTransactionPoolController', () => {
 			undefined,
 		);
 	});
+
+	test('splits oversized instruction lists into a batch that keeps atomic groups together', async () => {
+		const [a, b, c] = [{ id: 'a' }, { id: 'b' }, { id: 'c' }] as unknown as TransactionInstructionInput[];
+		const lifetime = { blockhash: 'first', lastValidBlockHeight: 5n };
+		const helper = createHelper({
+			measure: vi.fn(async ({ instructions }) => instructions.length * 700),
+			prepare: vi.fn(
+				async (request) => ({ instructions: request.instructions, lifetime }) as TransactionPrepared,
+			),
+		});
+		const controller = createTransactionPoolController({ helper });
+		controller.addInstruction(a);
+		controller.addInstructions([b, c], { atomic: true });
+
+		await expect(controller.prepareBatch()).rejects.toThrow('Atomic group of instructions 1-2');
+
+		vi.mocked(helper.measure).mockImplementation(async ({ instructions }) => instructions.length * 500);
+		const batch = await controller.prepareBatch();
+
+		expect(batch.map((prepared) => prepared.instructions)).toEqual([[a], [b, c]]);
+		expect(helper.prepare).toHaveBeenLastCalledWith(expect.objectContaining({ instructions: [b, c], lifetime }));
+		expect(controller.getBatchState()).toMatchObject({ sent: 0, status: 'prepared', total: 2 });
+
+		const nonce = { nonceAccount: 'nonce-account', nonceAuthority: 'nonce-authority' };
+		await expect(controller.prepareBatch({ lifetime: nonce as never })).rejects.toThrow(
+			'a durable nonce can only be used by one',
+		);
+	});
+
+	test('signs the whole batch before sending and aggregates progress', async () => {
+		const order: string[] = [];
+		const helper = createHelper({
+			send: vi.fn(async (prepared, options) => {
+				order.push(`send:${options?.signedTransaction}`);
+				if (prepared.feePayer === 'bad') {
+					throw new Error('send failed');
+				}
+				return `sig:${prepared.feePayer}` as never;
+			}),
+			signAll: vi.fn(async (batch) => {
+				order.push(`sign:${batch.map((prepared) => prepared.feePayer).join(',')}`);
+				return batch.map((prepared) => `signed:${prepared.feePayer}`) as never;
+			}),
+		});
+		const controller = createTransactionPoolController({ helper });
+		const prepared = (feePayer: string) => ({ feePayer, mode: 'partial' }) as unknown as TransactionPrepared;
+
+		await expect(controller.sendBatch({ prepared: [prepared('a'), prepared('b')] })).resolves.toEqual([
+			'sig:a',
+			'sig:b',
+		]);
+		expect(order).toEqual(['sign:a,b', 'send:signed:a', 'send:signed:b']);
+		expect(controller.getBatchState()).toMatchObject({ sent: 2, status: 'success', total: 2 });
+
+		await expect(
+			controller.sendBatch({ mode: 'parallel', prepared: [prepared('bad'), prepared('c')] }),
+		).rejects.toThrow('send failed');
+		const state = controller.getBatchState();
+		expect(state).toMatchObject({ sent: 1, status: 'error', total: 2 });
+		expect(state.entries.map((entry) => entry.status)).toEqual(['failed', 'sent']);
+	});
+
+	test('sends each transaction of a sequential batch once the previous one confirmed', async () => {
+		const confirmed = new Set<string>();
+		const helper = createHelper({
+			send: vi.fn(async (prepared, options) => {
+				const feePayer = String(prepared.feePayer);
+				// The second transaction uses an account the first one creates, so preflight needs it confirmed.
+				if (feePayer === 'uses-account' && !confirmed.has('creates-account')) {
+					throw new Error('preflight: account not found');
+				}
+				const confirm = () => confirmed.add(feePayer);
+				if (options?.waitForConfirmation) {
+					await new Promise((resolve) => setTimeout(resolve, 0));
+					confirm();
+				} else {
+					setTimeout(confirm, 0);
+				}
+				return `sig:${feePayer}` as never;
+			}),
+			signAll: vi.fn(async (batch) => batch as never),
+		});
+		const controller = createTransactionPoolController({ helper });
+		const prepared = (feePayer: string) => ({ feePayer, mode: 'partial' }) as unknown as TransactionPrepared;
+		const batch = [prepared('creates-account'), prepared('uses-account')];
+
+		await expect(controller.sendBatch({ mode: 'parallel', prepared: batch })).rejects.toThrow('account not found');
+		confirmed.clear();
+		await expect(controller.sendBatch({ prepared: batch })).resolves.toEqual([
+			'sig:creates-account',
+			'sig:uses-account',
+		]);
+		expect(helper.send).toHaveBeenLastCalledWith(batch[1], expect.objectContaining({ waitForConfirmation: true }));
+	});
 });
@@ -8,6 +8,8 @@ import type {
 	TransactionSignOptions,
 } from '../features/transactions';
 import { type AsyncState, createAsyncState, createInitialAsyncState } from '../state/asyncState';
+import { splitInstructionsBySize } from './instructionBatches';
+import { isDurableNonceLifetime } from './nonceLifetime';
 
 type Listener = () => void;
 
@@ -15,6 +17,8 @@ export type TransactionInstructionList = readonly TransactionInstructionInput[];
 
 type TransactionSignature = Awaited<ReturnType<TransactionHelper['send']>>;
 
+type SignedTransaction = Awaited<ReturnType<TransactionHelper['signAll']>>[number];
+
 export type LatestBlockhashCache = Readonly<{
 	updatedAt: number;
 	value: NonNullable<TransactionPrepareRequest['lifetime']>;
@@ -42,6 +46,44 @@ export type TransactionPoolPrepareAndSendOptions = Readonly<
 	}
 >;
 
+export type TransactionPoolAddOptions = Readonly<{
+	/** Keeps the added instructions in the same transaction when the pool splits into a batch. */
+	atomic?: boolean;
+}>;
+
+export type TransactionBatchMode = 'parallel' | 'sequential';
+
+export type TransactionPoolBatchSendOptions = Readonly<
+	Omit<TransactionSendOptions, 'signedTransaction'> & {
+		/**
+		 * `sequential` (default) submits each transaction once the previous one confirmed at `commitment`, so later
+		 * transactions can rely on the state earlier ones create. `parallel` submits all of them at once.
+		 */
+		mode?: TransactionBatchMode;
+		prepared?: readonly TransactionPrepared[];
+	}
+>;
+
+export type TransactionBatchEntryStatus = 'failed' | 'prepared' | 'sent' | 'signed';
+
+export type TransactionBatchEntry = Readonly<{
+	error?: unknown;
+	prepared: TransactionPrepared;
+	signature?: TransactionSignature;
+	status: TransactionBatchEntryStatus;
+}>;
+
+export type TransactionBatchStatus = 'error' | 'idle' | 'prepared' | 'preparing' | 'sending' | 'signing' | 'success';
+
+export type TransactionBatchState = Readonly<{
+	entries: readonly TransactionBatchEntry[];
+	error?: unknown;
+	/** Number of transactions submitted so far. */
+	sent: number;
+	status: TransactionBatchStatus;
+	total: number;
+}>;
+
 type Store<T> = Readonly<{
 	getSnapshot(): T;
 	setSnapshot(next: T): void;
@@ -72,10 +114,25 @@ function freezeInstructions(list: TransactionInstructionList): TransactionInstru
 	return Object.freeze([...list]);
 }
 
+function createBatchState(
+	status: TransactionBatchStatus,
+	entries: readonly TransactionBatchEntry[] = [],
+	error?: unknown,
+): TransactionBatchState {
+	return Object.freeze({
+		entries: Object.freeze([...entries]),
+		error,
+		sent: entries.filter((entry) => entry.status === 'sent').length,
+		status,
+		total: entries.length,
+	});
+}
+
 export type TransactionPoolController = Readonly<{
 	addInstruction(instruction: TransactionInstructionInput): void;
-	addInstructions(instructionSet: TransactionInstructionList): void;
+	addInstructions(instructionSet: TransactionInstructionList, options?: TransactionPoolAddOptions): void;
 	clearInstructions(): void;
+	getBatchState(): TransactionBatchState;
 	getInstructions(): TransactionInstructionList;
 	getPrepareState(): AsyncState<TransactionPrepared>;
 	getPrepared(): TransactionPrepared | null;
@@ -86,12 +143,24 @@ export type TransactionPoolController = Readonly<{
 		request?: TransactionPoolPrepareAndSendOptions,
 		sendOptions?: TransactionSendOptions,
 	): Promise<TransactionSignature>;
+	prepareAndSendBatch(
+		request?: TransactionPoolPrepareOptions,
+		sendOptions?: TransactionPoolBatchSendOptions,
+	): Promise<readonly TransactionSignature[]>;
+	/**
+	 * Prepares the instructions as one transaction when they fit the packet size limit, or as an ordered batch of
+	 * transactions otherwise. Instructions added with `atomic: true` are never split apart.
+	 */
+	prepareBatch(options?: TransactionPoolPrepareOptions): Promise<readonly TransactionPrepared[]>;
 	removeInstruction(index: number): void;
 	replaceInstructions(instructionSet: TransactionInstructionList): void;
 	reset(): void;
 	send(options?: TransactionPoolSendOptions): Promise<TransactionSignature>;
+	/** Signs every transaction of the prepared batch in one pass, then submits them. */
+	sendBatch(options?: TransactionPoolBatchSendOptions): Promise<readonly TransactionSignature[]>;
 	setLatestBlockhashCache(cache: LatestBlockhashCache | undefined): void;
 	sign(options?: TransactionPoolSignOptions): ReturnType<TransactionHelper['sign']>;
+	subscribeBatchState(listener: Listener): () => void;
 	subscribeInstructions(listener: Listener): () => void;
 	subscribePrepareState(listener: Listener): () => void;
 	subscribePrepared(listener: Listener): () => void;
@@ -114,11 +183,15 @@ export function createTransactionPoolController(config: TransactionPoolConfig):
 	const sendStateStore = createStore<AsyncState<TransactionSignature>>(
 		createInitialAsyncState<TransactionSignature>(),
 	);
+	const batchStateStore = createStore<TransactionBatchState>(createBatchState('idle'));
+	// Instructions added together with `atomic: true` share a group marker.
+	let atomicGroups = new WeakMap<TransactionInstructionInput, object>();
 
 	function resetDerivedState() {
 		preparedStore.setSnapshot(null);
 		prepareStateStore.setSnapshot(createInitialAsyncState<TransactionPrepared>());
 		sendStateStore.setSnapshot(createInitialAsyncState<TransactionSignature>());
+		batchStateStore.setSnapshot(createBatchState('idle'));
 	}
 
 	function commitInstructions(next: TransactionInstructionList) {
@@ -131,19 +204,27 @@ export function createTransactionPoolController(config: TransactionPoolConfig):
 		commitInstructions(next);
 	}
 
-	function addInstructions(instructionSet: TransactionInstructionList) {
+	function addInstructions(instructionSet: TransactionInstructionList, options: TransactionPoolAddOptions = {}) {
 		if (!instructionSet.length) {
 			return;
 		}
+		if (options.atomic) {
+			const group = {};
+			for (const instruction of instructionSet) {
+				atomicGroups.set(instruction, group);
+			}
+		}
 		const next = [...instructionsStore.getSnapshot(), ...instructionSet];
 		commitInstructions(next);
 	}
 
 	function replaceInstructions(instructionSet: TransactionInstructionList) {
+		atomicGroups = new WeakMap();
 		commitInstructions(instructionSet);
 	}
 
 	function clearInstructions() {
+		atomicGroups = new WeakMap();
 		commitInstructions([]);
 	}
 
@@ -157,9 +238,25 @@ export function createTransactionPoolController(config: TransactionPoolConfig):
 	}
 
 	function reset() {
+		atomicGroups = new WeakMap();
 		commitInstructions(initialInstructions);
 	}
 
+	function groupInstructions(instructionList: TransactionInstructionList): TransactionInstructionList[] {
+		const groups: TransactionInstructionInput[][] = [];
+		let previousGroup: object | undefined;
+		for (const instruction of instructionList) {
+			const group = atomicGroups.get(instruction);
+			if (group && group === previousGroup) {
+				groups[groups.length - 1].push(instruction);
+			} else {
+				groups.push([instruction]);
+			}
+			previousGroup = group;
+		}
+		return groups;
+	}
+
 	function ensureInstructions(
 		instructionList: TransactionInstructionList,
 	): asserts instructionList is TransactionInstructionList & { length: number } {
@@ -257,6 +354,120 @@ export function createTransactionPoolController(config: TransactionPoolConfig):
 		}
 	}
 
+	async function prepareBatch(options: TransactionPoolPrepareOptions = {}): Promise<readonly TransactionPrepared[]> {
+		const { instructions: overrideInstructions, ...rest } = options;
+		const nextInstructions = overrideInstructions ?? instructionsStore.getSnapshot();
+		ensureInstructions(nextInstructions);
+		batchStateStore.setSnapshot(createBatchState('preparing'));
+		try {
+			const request = resolveLifetimeOptions(rest) as Omit<TransactionPrepareRequest, 'instructions'>;
+			const batches = await splitInstructionsBySize({
+				groups: groupInstructions(nextInstructions),
+				measure: (instructions) => helper.measure({ ...request, instructions }),
+			});
+			if (batches.length > 1 && isDurableNonceLifetime(request.lifetime)) {
+				throw new Error(
+					`The instructions need ${batches.length} transactions, but a durable nonce can only be used by one.`,
+				);
+			}
+			const preparedBatch: TransactionPrepared[] = [];
+			// Every transaction reuses the first blockhash so the batch expires together.
+			let lifetime = request.lifetime;
+			for (const instructions of batches) {
+				const prepared = await helper.prepare({ ...request, instructions, lifetime });
+				lifetime ??= prepared.lifetime;
+				preparedBatch.push(prepared);
+			}
+			batchStateStore.setSnapshot(
+				createBatchState(
+					'prepared',
+					preparedBatch.map((prepared) => ({ prepared, status: 'prepared' })),
+				),
+			);
+			return Object.freeze(preparedBatch);
+		} catch (error) {
+			batchStateStore.setSnapshot(createBatchState('error', [], error));
+			throw error;
+		}
+	}
+
+	async function sendBatch(options: TransactionPoolBatchSendOptions = {}): Promise<readonly TransactionSignature[]> {
+		const { mode = 'sequential', prepared: overridePrepared, ...sendOptions } = options;
+		const preparedBatch = overridePrepared ?? batchStateStore.getSnapshot().entries.map((entry) => entry.prepared);
+		if (!preparedBatch.length) {
+			throw new Error('Prepare a batch before sending.');
+		}
+		const entries: TransactionBatchEntry[] = preparedBatch.map((prepared) => ({ prepared, status: 'prepared' }));
+		let status: TransactionBatchStatus = 'signing';
+		const update = (index: number, entry: Partial<TransactionBatchEntry>) => {
+			entries[index] = { ...entries[index], ...entry };
+			batchStateStore.setSnapshot(createBatchState(status, entries));
+		};
+		batchStateStore.setSnapshot(createBatchState(status, entries));
+		try {
+			// Wallets that sign and send in one step are left to sign while sending.
+			const signable = [...preparedBatch.keys()].filter((index) => preparedBatch[index].mode === 'partial');
+			const signed: (SignedTransaction | undefined)[] = [];
+			if (signable.length) {
+				const transactions = await helper.signAll(
+					signable.map((index) => preparedBatch[index]),
+					{
+						abortSignal: sendOptions.abortSignal,
+						minContextSlot: sendOptions.minContextSlot,
+					},
+				);
+				signable.forEach((index, position) => {
+					signed[index] = transactions[position];
+					entries[index] = { ...entries[index], status: 'signed' };
+				});
+			}
+			status = 'sending';
+			batchStateStore.setSnapshot(createBatchState(status, entries));
+			const sendEntry = async (index: number) => {
+				try {
+					const signature = await helper.send(preparedBatch[index], {
+						...sendOptions,
+						signedTransaction: signed[index],
+						// The next transaction is only simulated and sent once the state of this one is visible.
+						waitForConfirmation: sendOptions.waitForConfirmation || mode === 'sequential',
+					});
+					update(index, { signature, status: 'sent' });
+					return signature;
+				} catch (error) {
+					update(index, { error, status: 'failed' });
+					throw error;
+				}
+			};
+			const signatures: TransactionSignature[] = [];
+			if (mode === 'parallel') {
+				const results = await Promise.allSettled(preparedBatch.map((_, index) => sendEntry(index)));
+				for (const result of results) {
+					if (result.status === 'rejected') {
+						throw result.reason;
+					}
+					signatures.push(result.value);
+				}
+			} else {
+				for (const index of preparedBatch.keys()) {
+					signatures.push(await sendEntry(index));
+				}
+			}
+			batchStateStore.setSnapshot(createBatchState('success', entries));
+			return Object.freeze(signatures);
+		} catch (error) {
+			batchStateStore.setSnapshot(createBatchState('error', entries, error));
+			throw error;
+		}
+	}
+
+	async function prepareAndSendBatch(
+		request: TransactionPoolPrepareOptions = {},
+		sendOptions: TransactionPoolBatchSendOptions = {},
+	): Promise<readonly TransactionSignature[]> {
+		const prepared = await prepareBatch(request);
+		return sendBatch({ ...sendOptions, prepared });
+	}
+
 	function sign(options: TransactionPoolSignOptions = {}) {
 		const { prepared: overridePrepared, ...rest } = options;
 		const target = resolvePrepared(overridePrepared);
@@ -269,6 +480,10 @@ export function createTransactionPoolController(config: TransactionPoolConfig):
 		return helper.toWire(target, rest);
 	}
 
+	function subscribeBatchState(listener: Listener) {
+		return batchStateStore.subscribe(listener);
+	}
+
 	function subscribeInstructions(listener: Listener) {
 		return instructionsStore.subscribe(listener);
 	}
@@ -296,6 +511,7 @@ export function createTransactionPoolController(config: TransactionPoolConfig):
 		get helper() {
 			return helper;
 		},
+		getBatchState: batchStateStore.getSnapshot,
 		getInstructions: instructionsStore.getSnapshot,
 		getPrepareState: prepareStateStore.getSnapshot,
 		getPrepared: preparedStore.getSnapshot,
@@ -303,12 +519,16 @@ export function createTransactionPoolController(config: TransactionPoolConfig):
 		getLatestBlockhashCache: () => latestBlockhashCache,
 		prepare,
 		prepareAndSend,
+		prepareAndSendBatch,
+		prepareBatch,
 		removeInstruction,
 		replaceInstructions,
 		reset,
 		send,
+		sendBatch,
 		setLatestBlockhashCache,
 		sign,
+		subscribeBatchState,
 		subscribeInstructions,
 		subscribePrepareState,
 		subscribePrepared,
@@ -2,19 +2,33 @@ import type {
 	Address,
 	ClusterUrl,
 	Commitment,
+	GetProgramAccountsDatasizeFilter,
+	GetProgramAccountsMemcmpFilter,
 	Lamports,
 	SendableTransaction,
 	Signature,
+	Slot,
 	Transaction,
+	TransactionError,
 	TransactionMessageWithBlockhashLifetime,
 } from '@solana/kit';
 import type { TransactionWithLastValidBlockHeight } from '@solana/transaction-confirmation';
 import type { StoreApi } from 'zustand/vanilla';
+import type { AddressLookupTableHelper } from './features/addressLookupTable';
+import type { DurableNonceHelper } from './features/durableNonce';
 import type { SolTransferHelper } from './features/sol';
 import type { SplTokenHelper, SplTokenHelperConfig } from './features/spl';
+import type { SplMintHelper } from './features/splMint';
+import type { TokenMetadataResolver, TokenMetadataResolverOptions } from './features/tokenMetadata';
+import type { TokenPortfolio, TokenPortfolioConfig } from './features/tokenPortfolio';
 import type { TransactionHelper } from './features/transactions';
+import type { ClientPersistence, ClientPersistenceConfig } from './persistence/clientPersistence';
+import type { AccountBatchingConfig } from './rpc/accountBatcher';
 import type { SolanaRpcClient } from './rpc/createSolanaRpcClient';
+import type { RpcEndpointInput, RpcFailoverConfig } from './rpc/failover';
 import type { PrepareTransactionMessage, PrepareTransactionOptions } from './transactions/prepareTransaction';
+import type { TransactionRebroadcastConfig } from './transactions/rebroadcast';
+import type { WalletStandardDiscoveryOptions } from './wallet/standard';
 
 type SolanaRpcInstance = ReturnType<typeof import('@solana/kit')['createSolanaRpc']>;
 type SolanaSubscriptionsInstance = ReturnType<typeof import('@solana/kit')['createSolanaRpcSubscriptions']>;
@@ -37,15 +51,26 @@ export type WalletAccount = Readonly<{
 }>;
 
 export type WalletSession = Readonly<{
+	/** Account that signs requests made through this session. */
 	account: WalletAccount;
+	/** Every account the wallet authorized; defaults to `[account]` when omitted. */
+	accounts?: readonly WalletAccount[];
 	connector: WalletConnectorMetadata;
 	disconnect(): Promise<void>;
+	/** Subscribes to changes of the authorized account list (for example Wallet Standard `change` events). */
+	onAccountsChanged?(listener: (accounts: readonly WalletAccount[]) => void): () => void;
+	/** Returns a session bound to another authorized account. */
+	selectAccount?(address: Address): WalletSession;
 	sendTransaction?(
 		transaction: SendableTransaction & Transaction,
 		config?: Readonly<{ commitment?: Commitment }>,
 	): Promise<Signature>;
 	signMessage?(message: Uint8Array): Promise<Uint8Array>;
 	signTransaction?(transaction: SendableTransaction & Transaction): Promise<SendableTransaction & Transaction>;
+	/** Signs several transactions with a single wallet prompt; results are in the same order as the input. */
+	signTransactions?(
+		transactions: readonly (SendableTransaction & Transaction)[],
+	): Promise<readonly (SendableTransaction & Transaction)[]>;
 }>;
 
 export type WalletConnector = WalletConnectorMetadata & {
@@ -65,7 +90,13 @@ type WalletStatusConnecting = Readonly<{
 	status: 'connecting';
 }>;
 
+type WalletStatusRestoring = Readonly<{
+	connectorId: string;
+	status: 'restoring';
+}>;
+
 type WalletStatusDisconnected = Readonly<{
+	lastConnectorId?: string;
 	status: 'disconnected';
 }>;
 
@@ -79,7 +110,22 @@ export type WalletStatus =
 	| WalletStatusConnected
 	| WalletStatusConnecting
 	| WalletStatusDisconnected
-	| WalletStatusError;
+	| WalletStatusError
+	| WalletStatusRestoring;
+
+export type WalletAutoConnectPolicy = 'always' | 'if-supported' | 'never';
+
+export type WalletAutoConnectConfig = Readonly<{
+	/** Connector to restore when nothing was remembered from a previous session. */
+	connectorId?: string;
+	/**
+	 * `if-supported` (default) only restores connectors that report `canAutoConnect`, `always` ignores
+	 * that flag and `never` disables automatic reconnection.
+	 */
+	policy?: WalletAutoConnectPolicy;
+	/** Milliseconds to wait for the connector to register and the silent connection to settle. */
+	timeoutMs?: number;
+}>;
 
 type ClusterStatusConnecting = Readonly<{ status: 'connecting' }>;
 
@@ -98,6 +144,8 @@ type ClusterStatusReady = Readonly<{
 export type ClusterStatus = ClusterStatusConnecting | ClusterStatusError | ClusterStatusIdle | ClusterStatusReady;
 
 export type ClusterState = Readonly<{
+	/** Endpoint currently serving RPC requests; differs from `endpoint` after a failover. */
+	activeEndpoint?: ClusterUrl;
 	commitment: Commitment;
 	endpoint: ClusterUrl;
 	status: ClusterStatus;
@@ -107,20 +155,134 @@ export type ClusterState = Readonly<{
 export type AccountCacheEntry = Readonly<{
 	address: Address;
 	data?: unknown;
+	/** Account data decoded by the first registered decoder that understands the owner program's layout. */
+	decoded?: DecodedAccountData;
 	error?: unknown;
 	fetching: boolean;
 	lamports: Lamports | null;
 	lastFetchedAt?: number;
+	/** Program owning the account; `undefined` until it is fetched or when the account does not exist. */
+	owner?: Address;
 	slot: bigint | null;
 }>;
 
 export type AccountCache = Record<string, AccountCacheEntry>;
 
+export type AccountCacheConfig = Readonly<{
+	/** How long an unused entry stays in the store before it is evicted. Defaults to 5 minutes. */
+	cacheTime?: number;
+	/** How long a fetched entry is considered fresh, skipping automatic refetches. Defaults to `0`. */
+	staleTime?: number;
+}>;
+
+export type AccountCacheRetainOptions = Readonly<{
+	cacheTime?: number;
+}>;
+
+export type AccountCacheController = Readonly<{
+	cacheTime: number;
+	evict(address: Address): void;
+	isFresh(address: Address, staleTime?: number): boolean;
+	retain(address: Address, options?: AccountCacheRetainOptions): () => void;
+	staleTime: number;
+	stop(): void;
+}>;
+
+export type AccountDecoder<TData = unknown> = Readonly<{
+	/** Decodes raw account bytes. Thrown errors are treated as "not decodable". */
+	decode(data: Uint8Array): TData;
+	/** Returns whether the bytes use this decoder's layout. Defaults to accepting every account of the program. */
+	matches?(data: Uint8Array): boolean;
+	/** Program that owns the accounts this decoder understands. */
+	programAddress: Address;
+	/** Account type recorded on decoded entries, e.g. `mint` or `token`. */
+	type: string;
+}>;
+
+export type DecodedAccountData<TData = unknown> = Readonly<{
+	data: TData;
+	programAddress: Address;
+	type: string;
+}>;
+
+export type AccountDecoderRegistry = Readonly<{
+	decode(owner: Address, data: Uint8Array): DecodedAccountData | undefined;
+	list(): readonly AccountDecoder[];
+	register(decoder: AccountDecoder): () => void;
+}>;
+
+export type TransactionSendAttempt = Readonly<{
+	/** 1-based attempt number across every signature sent for the record. */
+	attempt: number;
+	/** RPC error raised by a re-submission; the loop keeps going until the blockhash expires. */
+	error?: unknown;
+	sentAt: number;
+	signature: Signature;
+}>;
+
+export type TransactionInstructionSummary = Readonly<{
+	/** Number of accounts the instruction references. */
+	accountCount: number;
+	dataLength: number;
+	programAddress: Address;
+}>;
+
+export type TransactionProgramError = Readonly<{
+	/** Custom error code returned by the program when the failure was a `Custom` instruction error. */
+	code?: number;
+	/** Raw error reported by the cluster. */
+	error: TransactionError;
+	instructionIndex?: number;
+	/** Human-readable reason, from the program's error map or derived from the built-in error name. */
+	message?: string;
+	/** Error name, e.g. `InsufficientFunds` for a decoded custom code or `InvalidAccountData` for a built-in error. */
+	name?: string;
+	programAddress?: Address;
+	/** Display name of the failing program when it is known to the program error registry. */
+	programName?: string;
+}>;
+
+export type ProgramErrorDescription = Readonly<{
+	message: string;
+	name: string;
+}>;
+
+export type ProgramErrorMap = Readonly<{
+	/** Custom error codes returned by the program, keyed by code. */
+	errors: Readonly<Record<number, ProgramErrorDescription>>;
+	programAddress: Address;
+	/** Display name used in decoded errors, e.g. `Token`. */
+	programName: string;
+}>;
+
+export type ResolvedProgramError = Partial<ProgramErrorDescription> & Readonly<{ programName: string }>;
+
+export type ProgramErrorRegistry = Readonly<{
+	list(): readonly ProgramErrorMap[];
+	register(map: ProgramErrorMap): () => void;
+	resolve(programAddress: Address, code?: number): ResolvedProgramError | undefined;
+}>;
+
 export type TransactionRecord = Readonly<{
+	/** Submissions made by the rebroadcast send loop, oldest first. */
+	attempts?: readonly TransactionSendAttempt[];
+	confirmedAt?: number;
 	error?: unknown;
+	/** Fee charged by the cluster, read from the landed transaction. */
+	fee?: Lamports;
+	feePayer?: Address;
+	finalizedAt?: number;
+	/** Instructions of the sent message, in order, including compute budget instructions. */
+	instructions?: readonly TransactionInstructionSummary[];
 	lastUpdatedAt: number;
+	processedAt?: number;
+	/** On-chain failure mapped to the failing instruction and program. */
+	programError?: TransactionProgramError;
+	sentAt?: number;
 	signature?: Signature;
-	status: 'confirmed' | 'failed' | 'idle' | 'sending' | 'waiting';
+	slot?: Slot;
+	/** `unknown` when confirmation was not observed before the wait timed out; the transaction may still land. */
+	status: 'confirmed' | 'failed' | 'idle' | 'sending' | 'unknown' | 'waiting';
 }>;
 
 export type TransactionState = Record<string, TransactionRecord>;
@@ -133,15 +295,31 @@ type SubscriptionStatusError = Readonly<{ error: unknown; status: 'error' }>;
 
 type SubscriptionStatusInactive = Readonly<{ status: 'inactive' }>;
 
+type SubscriptionStatusReconnecting = Readonly<{ attempt: number; error: unknown; status: 'reconnecting' }>;
+
 export type SubscriptionStatus =
 	| SubscriptionStatusActivating
 	| SubscriptionStatusActive
 	| SubscriptionStatusError
-	| SubscriptionStatusInactive;
+	| SubscriptionStatusInactive
+	| SubscriptionStatusReconnecting;
+
+export type SubscriptionReconnectConfig = Readonly<{
+	/** Delay before the first resubscribe attempt; doubled per attempt. Defaults to 500ms. */
+	backoffMs?: number;
+	/** Attempts before the subscription is reported as `error`. Defaults to 10. */
+	maxAttempts?: number;
+	/** Upper bound for the resubscribe delay. Defaults to 30s. */
+	maxBackoffMs?: number;
+}>;
 
 export type SubscriptionState = Readonly<{
 	account: Record<string, SubscriptionStatus>;
+	logs: Record<string, SubscriptionStatus>;
+	programAccounts: Record<string, SubscriptionStatus>;
+	root: Record<string, SubscriptionStatus>;
 	signature: Record<string, SubscriptionStatus>;
+	slot: Record<string, SubscriptionStatus>;
 }>;
 
 export type ClientState = Readonly<{
@@ -158,12 +336,32 @@ export type ClientStore = StoreApi<ClientState>;
 export type CreateStoreFn = (state: ClientState) => ClientStore;
 
 export type SolanaClientConfig = Readonly<{
+	/** Tunes how concurrent account reads are coalesced into `getMultipleAccounts` requests. */
+	accountBatching?: AccountBatchingConfig;
+	accountCache?: AccountCacheConfig;
+	/** Extra decoders, e.g. built from Codama-generated clients. They take precedence over the built-in ones. */
+	accountDecoders?: readonly AccountDecoder[];
+	autoConnect?: boolean | WalletAutoConnectConfig;
 	commitment?: Commitment;
 	createStore?: CreateStoreFn;
 	endpoint: ClusterUrl;
+	/** Fallback RPC endpoints used for failover and load balancing. */
+	endpoints?: readonly RpcEndpointInput[];
 	logger?: ClientLogger;
+	persistence?: ClientPersistenceConfig;
+	/** Custom error maps for your programs, used to decode failed transactions. They take precedence over built-ins. */
+	programErrors?: readonly ProgramErrorMap[];
+	rpcFailover?: RpcFailoverConfig;
 	rpcClient?: SolanaRpcClient;
+	/** Resubscribe policy for watchers whose websocket dropped. Pass `false` to give up on the first failure. */
+	subscriptionReconnect?: false | SubscriptionReconnectConfig;
+	/** Off-chain JSON fetcher and cache used by `helpers.tokenMetadata`. */
+	tokenMetadata?: TokenMetadataResolverOptions;
+	/** Maximum number of settled records kept in `state.transactions`; oldest are dropped first. Defaults to 100. */
+	transactionHistoryLimit?: number;
 	walletConnectors?: readonly WalletConnector[];
+	/** Registers Wallet Standard wallets with the client registry as they appear (browser only). */
+	walletStandard?: boolean | WalletStandardDiscoveryOptions;
 	websocketEndpoint?: ClusterUrl;
 }>;
 
@@ -188,35 +386,91 @@ export type SignatureWatcherConfig = Readonly<{
 	signature: Signature;
 }>;
 
+export type LogsWatcherConfig = Readonly<{
+	commitment?: Commitment;
+	/** Only report transactions that mention this address. Defaults to all non-vote transactions. */
+	mentions?: Address;
+}>;
+
+export type LogsNotification = Readonly<{
+	err: unknown;
+	logs: readonly string[];
+	signature: Signature;
+	slot: bigint;
+}>;
+
+export type ProgramAccountsFilter = Readonly<GetProgramAccountsDatasizeFilter | GetProgramAccountsMemcmpFilter>;
+
+export type ProgramAccountsWatcherConfig = Readonly<{
+	commitment?: Commitment;
+	filters?: readonly ProgramAccountsFilter[];
+	programAddress: Address;
+}>;
+
+export type SlotNotification = Readonly<{
+	parent: bigint;
+	root: bigint;
+	slot: bigint;
+}>;
+
 export type WatchSubscription = Readonly<{
 	abort(): void;
 }>;
 
+export type SendTransactionOptions = Readonly<{
+	/** Re-submits the signed transaction until it confirms; already-signed transactions cannot be re-signed. */
+	rebroadcast?: Omit<TransactionRebroadcastConfig, 'maxResigns'>;
+}>;
+
+export type SetClusterConfig = Readonly<{
+	commitment?: Commitment;
+	/** Fallback RPC endpoints used for failover and load balancing. */
+	endpoints?: readonly RpcEndpointInput[];
+	failover?: RpcFailoverConfig;
+	websocketEndpoint?: ClusterUrl;
+}>;
+
 export type ClientActions = Readonly<{
+	/** Removes every record from `state.transactions`. */
+	clearTransactions(): void;
 	connectWallet(connectorId: string, options?: Readonly<{ autoConnect?: boolean }>): Promise<void>;
 	disconnectWallet(): Promise<void>;
 	fetchAccount(address: Address, commitment?: Commitment): Promise<AccountCacheEntry>;
 	fetchBalance(address: Address, commitment?: Commitment): Promise<Lamports>;
 	requestAirdrop(address: Address, lamports: Lamports): Promise<Signature>;
+	selectWalletAccount(address: Address): void;
 	sendTransaction(
 		transaction: SendableTransaction & Transaction & TransactionWithLastValidBlockHeight,
 		commitment?: Commitment,
+		options?: SendTransactionOptions,
 	): Promise<Signature>;
-	setCluster(
-		endpoint: ClusterUrl,
-		config?: Readonly<{ commitment?: Commitment; websocketEndpoint?: ClusterUrl }>,
-	): Promise<void>;
+	setCluster(endpoint: ClusterUrl, config?: SetClusterConfig): Promise<void>;
 }>;
 
 export type ClientWatchers = Readonly<{
 	watchAccount(config: AccountWatcherConfig, listener: (account: AccountCacheEntry) => void): WatchSubscription;
 	watchBalance(config: BalanceWatcherConfig, listener: (lamports: Lamports) => void): WatchSubscription;
+	watchLogs(config: LogsWatcherConfig, listener: (notification: LogsNotification) => void): WatchSubscription;
+	/** Streams changed accounts owned by a program; each update is also written to the account cache. */
+	watchProgramAccounts(
+		config: ProgramAccountsWatcherConfig,
+		listener: (account: AccountCacheEntry) => void,
+	): WatchSubscription;
+	watchRoot(listener: (root: bigint) => void): WatchSubscription;
 	watchSignature(config: SignatureWatcherConfig, listener: (notification: unknown) => void): WatchSubscription;
+	watchSlot(listener: (notification: SlotNotification) => void): WatchSubscription;
 }>;
 
 export type ClientHelpers = Readonly<{
+	addressLookupTable: AddressLookupTableHelper;
+	durableNonce: DurableNonceHelper;
 	solTransfer: SolTransferHelper;
+	/** Creates mints, mints supply and rotates mint authorities through `transaction.prepare`. */
+	splMint: SplMintHelper;
 	splToken(config: SplTokenHelperConfig): SplTokenHelper;
+	tokenMetadata: TokenMetadataResolver;
+	/** Token and Token-2022 holdings of an owner, merged per mint. */
+	tokenPortfolio(owner: Address | string, config?: TokenPortfolioConfig): Promise<TokenPortfolio>;
 	transaction: TransactionHelper;
 	prepareTransaction<TMessage extends PrepareTransactionMessage>(
 		config: PrepareTransactionOptions<TMessage>,
@@ -226,13 +480,19 @@ export type ClientHelpers = Readonly<{
 export type WalletRegistry = Readonly<{
 	all: readonly WalletConnector[];
 	get(id: string): WalletConnector | undefined;
+	register(connectors: readonly WalletConnector[]): () => void;
+	subscribe(listener: (connectors: readonly WalletConnector[]) => void): () => void;
 }>;
 
 export type SolanaClient = Readonly<{
+	accountCache: AccountCacheController;
+	accountDecoders: AccountDecoderRegistry;
 	actions: ClientActions;
 	config: SolanaClientConfig;
 	connectors: WalletRegistry;
 	destroy(): void;
+	persistence?: ClientPersistence;
+	programErrors: ProgramErrorRegistry;
 	runtime: Readonly<SolanaClientRuntime>;
 	store: ClientStore;
 	watchers: ClientWatchers;
@@ -25,6 +25,31 @@ export function now(): number {
 	return Date.now();
 }
 
+/**
+ * Waits for the provided duration, resolving early when the signal aborts.
+ *
+ * @param ms - Milliseconds to wait.
+ * @param signal - Optional abort signal that ends the wait early.
+ * @returns Promise that resolves after the delay or on abort.
+ */
+export function wait(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		if (signal?.aborted) {
+			resolve();
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			resolve();
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
 /**
  * Converts optional errors to a serializable string for logging.
  *
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createDefaultClientStore } from '../client/createClientStore';
+import type { ClientStore, WalletConnector } from '../types';
+import { startWalletAutoConnect } from './autoConnect';
+import { createWalletRegistry } from './registry';
+
+describe('wallet auto-connect', () => {
+	let store: ClientStore;
+	const logger = vi.fn();
+
+	const connector = (id: string, canAutoConnect = true): WalletConnector => ({
+		canAutoConnect,
+		connect: vi.fn(),
+		disconnect: vi.fn(async () => undefined),
+		id,
+		isSupported: () => true,
+		name: id,
+	});
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		logger.mockReset();
+		store = createDefaultClientStore({ commitment: 'confirmed', endpoint: 'https://rpc.test' });
+		store.setState((state) => ({ ...state, wallet: { lastConnectorId: 'phantom', status: 'disconnected' } }));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('silently connects the remembered connector', () => {
+		const connectWallet = vi.fn(async () => undefined);
+		const connectors = createWalletRegistry([connector('phantom')]);
+
+		startWalletAutoConnect({ actions: { connectWallet }, connectors, logger, store });
+
+		expect(connectWallet).toHaveBeenCalledWith('phantom', { autoConnect: true });
+	});
+
+	it('waits for late registrations before connecting', () => {
+		const connectWallet = vi.fn(async () => undefined);
+		const connectors = createWalletRegistry([]);
+
+		startWalletAutoConnect({ actions: { connectWallet }, connectors, logger, store });
+		expect(connectWallet).not.toHaveBeenCalled();
+
+		connectors.register([connector('other')]);
+		expect(connectWallet).not.toHaveBeenCalled();
+		connectors.register([connector('phantom')]);
+		expect(connectWallet).toHaveBeenCalledTimes(1);
+	});
+
+	it('respects the policy and canAutoConnect metadata', () => {
+		const connectWallet = vi.fn(async () => undefined);
+		const connectors = createWalletRegistry([connector('phantom', false)]);
+
+		startWalletAutoConnect({ actions: { connectWallet }, connectors, logger, store });
+		startWalletAutoConnect({ actions: { connectWallet }, config: false, connectors, logger, store });
+		expect(connectWallet).not.toHaveBeenCalled();
+
+		startWalletAutoConnect({ actions: { connectWallet }, config: { policy: 'always' }, connectors, logger, store });
+		expect(connectWallet).toHaveBeenCalledTimes(1);
+	});
+
+	it('falls back to the configured connector when nothing was remembered', () => {
+		store.setState((state) => ({ ...state, wallet: { status: 'disconnected' } }));
+		const connectWallet = vi.fn(async () => undefined);
+		const connectors = createWalletRegistry([connector('backpack')]);
+
+		startWalletAutoConnect({
+			actions: { connectWallet },
+			config: { connectorId: 'backpack' },
+			connectors,
+			logger,
+			store,
+		});
+
+		expect(connectWallet).toHaveBeenCalledWith('backpack', { autoConnect: true });
+	});
+
+	it('abandons a restore that does not settle in time', async () => {
+		const connectWallet = vi.fn(() => {
+			store.setState((state) => ({ ...state, wallet: { connectorId: 'phantom', status: 'restoring' } }));
+			return new Promise<void>(() => undefined);
+		});
+		const connectors = createWalletRegistry([connector('phantom')]);
+
+		startWalletAutoConnect({ actions: { connectWallet }, config: { timeoutMs: 100 }, connectors, logger, store });
+		expect(store.getState().wallet.status).toBe('restoring');
+
+		await vi.advanceTimersByTimeAsync(100);
+
+		expect(store.getState().wallet).toEqual({ lastConnectorId: 'phantom', status: 'disconnected' });
+		expect(logger).toHaveBeenCalledWith(expect.objectContaining({ message: 'wallet restore timed out' }));
+	});
+
+	it('abandons a restore that is cancelled while connecting', () => {
+		const connectWallet = vi.fn(() => {
+			store.setState((state) => ({ ...state, wallet: { connectorId: 'phantom', status: 'restoring' } }));
+			return new Promise<void>(() => undefined);
+		});
+		const connectors = createWalletRegistry([connector('phantom')]);
+
+		const cancel = startWalletAutoConnect({ actions: { connectWallet }, connectors, logger, store });
+		cancel();
+
+		expect(store.getState().wallet).toEqual({ lastConnectorId: 'phantom', status: 'disconnected' });
+	});
+});
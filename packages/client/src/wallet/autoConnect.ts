@@ -0,0 +1,180 @@
+import { createLogger, formatError } from '../logging/logger';
+import type {
+	ClientActions,
+	ClientLogger,
+	ClientStore,
+	WalletAutoConnectConfig,
+	WalletConnector,
+	WalletRegistry,
+} from '../types';
+import { now } from '../utils';
+
+type AutoConnectDeps = Readonly<{
+	actions: Pick<ClientActions, 'connectWallet'>;
+	config?: boolean | WalletAutoConnectConfig;
+	connectors: WalletRegistry;
+	logger?: ClientLogger;
+	store: ClientStore;
+}>;
+
+const DEFAULT_AUTO_CONNECT_TIMEOUT_MS = 5_000;
+
+/**
+ * Normalizes the `autoConnect` client option into a config object.
+ *
+ * @param config - Boolean toggle or explicit configuration.
+ * @returns Resolved configuration.
+ */
+function resolveConfig(config: boolean | WalletAutoConnectConfig | undefined): WalletAutoConnectConfig {
+	if (config === false) {
+		return { policy: 'never' };
+	}
+	if (config === true || config === undefined) {
+		return {};
+	}
+	return config;
+}
+
+/**
+ * Returns whether the policy allows restoring the provided connector.
+ *
+ * @param connector - Connector that would be restored.
+ * @param config - Auto-connect configuration.
+ * @returns `true` when the connector may be connected silently.
+ */
+function isAllowed(connector: WalletConnector, config: WalletAutoConnectConfig): boolean {
+	switch (config.policy ?? 'if-supported') {
+		case 'always':
+			return true;
+		case 'never':
+			return false;
+		default:
+			return connector.canAutoConnect === true;
+	}
+}
+
+/**
+ * Silently reconnects the most recently used wallet once its connector is available.
+ *
+ * The connector is taken from the remembered `lastConnectorId` (restored by client persistence) or the configured
+ * `connectorId`. When the connector is not registered yet the helper waits for it to appear in the registry, which
+ * covers Wallet Standard wallets that register after page load.
+ *
+ * @param deps - Client actions, registry, store and configuration.
+ * @returns Function that cancels a pending restore; a session still connecting is disconnected once it resolves.
+ */
+export function startWalletAutoConnect({
+	actions,
+	config: inputConfig,
+	connectors,
+	logger: inputLogger,
+	store,
+}: AutoConnectDeps): () => void {
+	const config = resolveConfig(inputConfig);
+	const logger = inputLogger ?? createLogger();
+	const wallet = store.getState().wallet;
+	if (config.policy === 'never' || wallet.status !== 'disconnected') {
+		return () => undefined;
+	}
+	const connectorId = wallet.lastConnectorId ?? config.connectorId;
+	if (!connectorId) {
+		return () => undefined;
+	}
+	const timeoutMs = config.timeoutMs ?? DEFAULT_AUTO_CONNECT_TIMEOUT_MS;
+	let phase: 'connecting' | 'done' | 'waiting' = 'waiting';
+	let unsubscribe: (() => void) | undefined;
+
+	/**
+	 * Releases the registry listener and timer.
+	 */
+	function cleanup(): void {
+		phase = 'done';
+		unsubscribe?.();
+		unsubscribe = undefined;
+		clearTimeout(timer);
+	}
+
+	/**
+	 * Marks a pending silent connection as abandoned, so a session that still resolves later is disconnected instead
+	 * of being kept.
+	 */
+	function releaseRestore(): void {
+		const current = store.getState().wallet;
+		if (current.status === 'restoring' && current.connectorId === connectorId) {
+			store.setState((state) => ({
+				...state,
+				lastUpdatedAt: now(),
+				wallet: { lastConnectorId: connectorId, status: 'disconnected' },
+			}));
+		}
+	}
+
+	/**
+	 * Cancels the restore, abandoning the silent connection when it is already underway.
+	 */
+	function cancel(): void {
+		const cancelledPhase = phase;
+		cleanup();
+		if (cancelledPhase === 'connecting') {
+			releaseRestore();
+		}
+	}
+
+	/**
+	 * Abandons the restore when the connector never registered or the silent connection hangs.
+	 */
+	function onTimeout(): void {
+		const timedOutPhase = phase;
+		if (timedOutPhase === 'done') {
+			return;
+		}
+		cleanup();
+		releaseRestore();
+		logger({
+			data: { connectorId, phase: timedOutPhase, timeoutMs },
+			level: 'warn',
+			message: 'wallet restore timed out',
+		});
+	}
+
+	const timer = setTimeout(onTimeout, timeoutMs);
+
+	/**
+	 * Attempts the silent connection once the connector is registered.
+	 *
+	 * @param connector - Registered connector that should be restored.
+	 */
+	function attempt(connector: WalletConnector): void {
+		unsubscribe?.();
+		unsubscribe = undefined;
+		if (store.getState().wallet.status !== 'disconnected' || !isAllowed(connector, config)) {
+			cleanup();
+			return;
+		}
+		phase = 'connecting';
+		actions
+			.connectWallet(connector.id, { autoConnect: true })
+			.catch((error) => {
+				logger({
+					data: { connectorId, ...formatError(error) },
+					level: 'debug',
+					message: 'wallet auto-connect skipped',
+				});
+			})
+			.finally(cleanup);
+	}
+
+	const existing = connectors.get(connectorId);
+	if (existing) {
+		attempt(existing);
+	} else {
+		unsubscribe = connectors.subscribe(() => {
+			const registered = connectors.get(connectorId);
+			if (registered && phase === 'waiting') {
+				attempt(registered);
+			}
+		});
+	}
+
+	return cancel;
+}
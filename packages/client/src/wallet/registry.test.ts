@@ -1,4 +1,4 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 
 import type { WalletConnector } from '../types';
 import { createWalletRegistry } from './registry';
@@ -20,4 +20,19 @@ describe('wallet registry', () => {
 		expect(registry.get('a')?.id).toBe('a');
 		expect(registry.get('unknown')).toBeUndefined();
 	});
+
+	it('registers additional connectors and notifies subscribers', () => {
+		const registry = createWalletRegistry([connector('a')]);
+		const listener = vi.fn();
+		registry.subscribe(listener);
+
+		const unregister = registry.register([connector('a'), connector('late')]);
+		expect(registry.get('late')?.id).toBe('late');
+		expect(registry.all.map((entry) => entry.id)).toEqual(['a', 'late']);
+		expect(listener).toHaveBeenLastCalledWith(registry.all);
+
+		unregister();
+		expect(registry.get('late')).toBeUndefined();
+		expect(listener).toHaveBeenCalledTimes(2);
+	});
 });
@@ -1,20 +1,51 @@
 import type { WalletConnector, WalletRegistry } from '../types';
 
+type RegistryListener = (connectors: readonly WalletConnector[]) => void;
+
 /**
  * Creates an in-memory wallet registry from the provided connectors.
  *
+ * Additional connectors can be registered later (for example when Wallet Standard wallets register
+ * after page load). When several registrations share an identifier the earliest one wins.
+ *
  * @param connectors - Wallet connector implementations to register.
- * @returns A registry exposing iteration and lookup helpers.
+ * @returns A registry exposing iteration, lookup and registration helpers.
  */
 export function createWalletRegistry(connectors: readonly WalletConnector[]): WalletRegistry {
-	const byId = new Map<string, WalletConnector>();
-	for (const connector of connectors) {
-		if (!byId.has(connector.id)) {
-			byId.set(connector.id, connector);
+	const registrations: (readonly WalletConnector[])[] = [connectors];
+	const listeners = new Set<RegistryListener>();
+	let byId = new Map<string, WalletConnector>();
+	let all: readonly WalletConnector[] = [];
+
+	/**
+	 * Rebuilds the lookup table from every active registration and notifies listeners.
+	 *
+	 * @param notify - Whether listeners should be informed about the change.
+	 */
+	function rebuild(notify: boolean): void {
+		const next = new Map<string, WalletConnector>();
+		for (const registration of registrations) {
+			for (const connector of registration) {
+				if (!next.has(connector.id)) {
+					next.set(connector.id, connector);
+				}
+			}
+		}
+		byId = next;
+		all = [...next.values()];
+		if (notify) {
+			for (const listener of listeners) {
+				listener(all);
+			}
 		}
 	}
+
+	rebuild(false);
+
 	return {
-		all: [...byId.values()],
+		get all() {
+			return all;
+		},
 		/**
 		 * Looks up a connector by identifier.
 		 *
@@ -24,5 +55,35 @@ export function createWalletRegistry(connectors: readonly WalletConnector[]): Wa
 		get(id: string) {
 			return byId.get(id);
 		},
+		/**
+		 * Adds connectors to the registry.
+		 *
+		 * @param additional - Connectors to register.
+		 * @returns Function that removes the connectors added by this call.
+		 */
+		register(additional: readonly WalletConnector[]) {
+			const registration = [...additional];
+			registrations.push(registration);
+			rebuild(true);
+			return () => {
+				const index = registrations.indexOf(registration);
+				if (index !== -1) {
+					registrations.splice(index, 1);
+					rebuild(true);
+				}
+			};
+		},
+		/**
+		 * Subscribes to registry changes.
+		 *
+		 * @param listener - Callback invoked with the connector list whenever it changes.
+		 * @returns Function that removes the listener.
+		 */
+		subscribe(listener: RegistryListener) {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
 	};
 }
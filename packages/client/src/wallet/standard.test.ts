@@ -0,0 +1,110 @@
+import {
+	address,
+	type Blockhash,
+	compileTransaction,
+	createTransactionMessage,
+	getTransactionEncoder,
+	pipe,
+	setTransactionMessageFeePayer,
+	setTransactionMessageLifetimeUsingBlockhash,
+} from '@solana/kit';
+import { SolanaSignTransaction } from '@solana/wallet-standard-features';
+import type { Wallet, WalletAccount } from '@wallet-standard/base';
+import { StandardConnect, StandardEvents } from '@wallet-standard/features';
+import { describe, expect, it, vi } from 'vitest';
+
+import { createWalletStandardConnector } from './standard';
+
+const FIRST = '11111111111111111111111111111111';
+const SECOND = 'SysvarRent111111111111111111111111111111111';
+
+function account(address: string): WalletAccount {
+	return {
+		address,
+		chains: ['solana:devnet'],
+		features: [],
+		publicKey: new Uint8Array(32),
+	};
+}
+
+describe('createWalletStandardConnector', () => {
+	it('exposes every authorized account and follows change events', async () => {
+		let emitChange: (properties: { accounts?: readonly WalletAccount[] }) => void = () => undefined;
+		const off = vi.fn();
+		const wallet = {
+			accounts: [],
+			chains: ['solana:devnet'],
+			features: {
+				[StandardConnect]: {
+					connect: vi.fn(async () => ({ accounts: [account(FIRST), account(SECOND)] })),
+					version: '1.0.0',
+				},
+				[StandardEvents]: {
+					on: vi.fn((_event: 'change', listener: typeof emitChange) => {
+						emitChange = listener;
+						return off;
+					}),
+					version: '1.0.0',
+				},
+			},
+			icon: 'data:image/svg+xml;base64,',
+			name: 'Test Wallet',
+			version: '1.0.0',
+		} as unknown as Wallet;
+
+		const session = await createWalletStandardConnector(wallet).connect();
+		expect(session.account.address).toBe(FIRST);
+		expect(session.accounts?.map((entry) => entry.address)).toEqual([FIRST, SECOND]);
+
+		const switched = session.selectAccount?.(SECOND as never);
+		expect(switched?.account.address).toBe(SECOND);
+		expect(() => session.selectAccount?.('unknown' as never)).toThrow(/not authorized/);
+
+		const listener = vi.fn();
+		const unsubscribe = session.onAccountsChanged?.(listener);
+		emitChange({ accounts: [account(SECOND)] });
+		expect(listener).toHaveBeenCalledWith([expect.objectContaining({ address: SECOND })]);
+		expect(() => session.selectAccount?.(FIRST as never)).toThrow(/not authorized/);
+
+		unsubscribe?.();
+		expect(off).toHaveBeenCalled();
+	});
+
+	it('signs several transactions in one request and asks again for outputs the wallet skipped', async () => {
+		const transaction = compileTransaction(
+			pipe(
+				createTransactionMessage({ version: 0 }),
+				(message) => setTransactionMessageFeePayer(address(FIRST), message),
+				(message) =>
+					setTransactionMessageLifetimeUsingBlockhash(
+						{ blockhash: FIRST as Blockhash, lastValidBlockHeight: 1n },
+						message,
+					),
+			),
+		);
+		const signTransaction = vi.fn(async (...inputs: { transaction: Uint8Array }[]) =>
+			inputs.map(({ transaction: signedTransaction }) => ({ signedTransaction })),
+		);
+		const wallet = {
+			accounts: [account(FIRST)],
+			chains: ['solana:devnet'],
+			features: { [SolanaSignTransaction]: { signTransaction, version: '1.0.0' } },
+			icon: 'data:image/svg+xml;base64,',
+			name: 'Test Wallet',
+			version: '1.0.0',
+		} as unknown as Wallet;
+		const session = await createWalletStandardConnector(wallet).connect();
+
+		const signed = await session.signTransactions?.([transaction, transaction] as never);
+		expect(signTransaction).toHaveBeenCalledTimes(1);
+		expect(signTransaction.mock.calls[0]).toHaveLength(2);
+		expect(signed).toHaveLength(2);
+
+		signTransaction.mockImplementationOnce(async (first) => [{ signedTransaction: first.transaction }]);
+		await session.signTransactions?.([transaction, transaction] as never);
+		expect(signTransaction).toHaveBeenCalledTimes(3);
+		expect(signTransaction.mock.calls[2][0].transaction).toEqual(
+			new Uint8Array(getTransactionEncoder().encode(transaction)),
+		);
+	});
+});
@@ -1,5 +1,5 @@
 import { getBase58Decoder } from '@solana/codecs-strings';
-import type { Commitment, SendableTransaction, Signature, Transaction } from '@solana/kit';
+import type { Address, Commitment, SendableTransaction, Signature, Transaction } from '@solana/kit';
 import { address } from '@solana/kit';
 import { getTransactionDecoder, getTransactionEncoder } from '@solana/transactions';
 import type {
@@ -14,8 +14,12 @@ import {
 } from '@solana/wallet-standard-features';
 import { getWallets } from '@wallet-standard/app';
 import type { IdentifierString, Wallet, WalletAccount as WalletStandardAccount } from '@wallet-standard/base';
-import type { StandardConnectFeature, StandardDisconnectFeature } from '@wallet-standard/features';
-import { StandardConnect, StandardDisconnect } from '@wallet-standard/features';
+import type {
+	StandardConnectFeature,
+	StandardDisconnectFeature,
+	StandardEventsFeature,
+} from '@wallet-standard/features';
+import { StandardConnect, StandardDisconnect, StandardEvents } from '@wallet-standard/features';
 
 import type { WalletAccount, WalletConnector, WalletConnectorMetadata, WalletSession } from '../types';
 
@@ -149,9 +153,6 @@ export function createWalletStandardConnector(
 			}
 		}
 
-		const primaryAccount = getPrimaryAccount(walletAccounts);
-		const sessionAccount = toSessionAccount(primaryAccount);
-
 		const signMessageFeature = wallet.features[SolanaSignMessage] as
 			| SolanaSignMessageFeature[typeof SolanaSignMessage]
 			| undefined;
@@ -161,93 +162,179 @@ export function createWalletStandardConnector(
 		const signAndSendFeature = wallet.features[SolanaSignAndSendTransaction] as
 			| SolanaSignAndSendTransactionFeature[typeof SolanaSignAndSendTransaction]
 			| undefined;
-
-		const resolvedChain = options.defaultChain ?? getChain(primaryAccount);
+		const eventsFeature = wallet.features[StandardEvents] as
+			| StandardEventsFeature[typeof StandardEvents]
+			| undefined;
 
 		/**
-		 * Signs messages using the wallet standard feature when available.
+		 * Disconnects the session scoped to this connect invocation.
 		 *
-		 * @param message - Message payload to sign.
-		 * @returns Promise resolving with the signature.
+		 * @returns Promise that resolves once the wallet has been disconnected.
 		 */
-		const signMessage = signMessageFeature
-			? async (message: Uint8Array) => {
-					const [output] = await signMessageFeature.signMessage({
-						account: primaryAccount,
-						message,
-					});
-					return output.signature;
-				}
-			: undefined;
+		async function disconnectSession(): Promise<void> {
+			await disconnectWallet(wallet);
+		}
 
 		/**
-		 * Signs transactions using the wallet standard feature when available.
+		 * Listens for Wallet Standard `change` events that add or remove authorized accounts.
 		 *
-		 * @param transaction - Transaction to sign.
-		 * @returns Promise resolving with the signed transaction.
+		 * @param listener - Callback invoked with the updated account list.
+		 * @returns Function that removes the listener.
 		 */
-		const signTransaction = signTransactionFeature
-			? async (transaction: SendableTransaction & Transaction) => {
-					const wireBytes = new Uint8Array(transactionEncoder.encode(transaction));
-					const request = resolvedChain
-						? {
-								account: primaryAccount,
-								chain: resolvedChain,
-								transaction: wireBytes,
-							}
-						: {
-								account: primaryAccount,
-								transaction: wireBytes,
-							};
-					const [output] = await signTransactionFeature.signTransaction(request);
-					return transactionDecoder.decode(output.signedTransaction) as SendableTransaction & Transaction;
+		function onAccountsChanged(listener: (accounts: readonly WalletAccount[]) => void): () => void {
+			if (!eventsFeature) {
+				return () => undefined;
+			}
+			return eventsFeature.on('change', ({ accounts }) => {
+				if (!accounts) {
+					return;
 				}
-			: undefined;
+				walletAccounts = accounts;
+				listener(accounts.map(toSessionAccount));
+			});
+		}
 
 		/**
-		 * Signs and sends transactions using the wallet standard feature when available.
+		 * Builds a session whose signing helpers act on behalf of the provided account.
 		 *
-		 * @param transaction - Transaction to sign and submit.
-		 * @param config - Optional commitment override for the submission.
-		 * @returns Promise resolving with the submitted signature.
+		 * @param activeAccount - Wallet Standard account that should sign requests.
+		 * @returns Wallet session bound to the account.
 		 */
-		const sendTransaction = signAndSendFeature
-			? async (
-					transaction: SendableTransaction & Transaction,
-					config?: Readonly<{ commitment?: Commitment }>,
-				) => {
-					const wireBytes = new Uint8Array(transactionEncoder.encode(transaction));
-					const chain: IdentifierString =
-						options.defaultChain ?? getChain(primaryAccount) ?? 'solana:mainnet-beta';
-					const [output] = await signAndSendFeature.signAndSendTransaction({
-						account: primaryAccount,
-						chain,
-						options: {
-							commitment: mapCommitment(config?.commitment),
-						},
-						transaction: wireBytes,
-					});
-					return base58Decoder.decode(output.signature) as Signature;
-				}
-			: undefined;
+		function createSession(activeAccount: WalletStandardAccount): WalletSession {
+			const resolvedChain = options.defaultChain ?? getChain(activeAccount);
+
+			/**
+			 * Signs messages using the wallet standard feature when available.
+			 *
+			 * @param message - Message payload to sign.
+			 * @returns Promise resolving with the signature.
+			 */
+			const signMessage = signMessageFeature
+				? async (message: Uint8Array) => {
+						const [output] = await signMessageFeature.signMessage({
+							account: activeAccount,
+							message,
+						});
+						return output.signature;
+					}
+				: undefined;
+
+			/**
+			 * Builds a `solana:signTransaction` input for the active account.
+			 *
+			 * @param transaction - Transaction to sign.
+			 * @returns Wallet Standard sign request.
+			 */
+			const toSignTransactionInput = (transaction: SendableTransaction & Transaction) => {
+				const wireBytes = new Uint8Array(transactionEncoder.encode(transaction));
+				return resolvedChain
+					? {
+							account: activeAccount,
+							chain: resolvedChain,
+							transaction: wireBytes,
+						}
+					: {
+							account: activeAccount,
+							transaction: wireBytes,
+						};
+			};
+
+			/**
+			 * Signs transactions using the wallet standard feature when available.
+			 *
+			 * @param transaction - Transaction to sign.
+			 * @returns Promise resolving with the signed transaction.
+			 */
+			const signTransaction = signTransactionFeature
+				? async (transaction: SendableTransaction & Transaction) => {
+						const [output] = await signTransactionFeature.signTransaction(
+							toSignTransactionInput(transaction),
+						);
+						return transactionDecoder.decode(output.signedTransaction) as SendableTransaction & Transaction;
+					}
+				: undefined;
+
+			/**
+			 * Signs several transactions in one `solana:signTransaction` request. Wallets that only return the first
+			 * output are asked again for the remaining transactions one at a time.
+			 *
+			 * @param transactions - Transactions to sign.
+			 * @returns Promise resolving with the signed transactions in input order.
+			 */
+			const signTransactions =
+				signTransactionFeature && signTransaction
+					? async (transactions: readonly (SendableTransaction & Transaction)[]) => {
+							const outputs = await signTransactionFeature.signTransaction(
+								...transactions.map(toSignTransactionInput),
+							);
+							const signed = outputs.map(
+								(output) =>
+									transactionDecoder.decode(output.signedTransaction) as SendableTransaction &
+										Transaction,
+							);
+							for (const transaction of transactions.slice(signed.length)) {
+								signed.push(await signTransaction(transaction));
+							}
+							return signed;
+						}
+					: undefined;
+
+			/**
+			 * Signs and sends transactions using the wallet standard feature when available.
+			 *
+			 * @param transaction - Transaction to sign and submit.
+			 * @param config - Optional commitment override for the submission.
+			 * @returns Promise resolving with the submitted signature.
+			 */
+			const sendTransaction = signAndSendFeature
+				? async (
+						transaction: SendableTransaction & Transaction,
+						config?: Readonly<{ commitment?: Commitment }>,
+					) => {
+						const wireBytes = new Uint8Array(transactionEncoder.encode(transaction));
+						const chain: IdentifierString = resolvedChain ?? 'solana:mainnet-beta';
+						const [output] = await signAndSendFeature.signAndSendTransaction({
+							account: activeAccount,
+							chain,
+							options: {
+								commitment: mapCommitment(config?.commitment),
+							},
+							transaction: wireBytes,
+						});
+						return base58Decoder.decode(output.signature) as Signature;
+					}
+				: undefined;
+
+			return {
+				account: toSessionAccount(activeAccount),
+				accounts: walletAccounts.map(toSessionAccount),
+				connector: metadata,
+				disconnect: disconnectSession,
+				onAccountsChanged,
+				selectAccount,
+				sendTransaction,
+				signMessage,
+				signTransaction,
+				signTransactions,
+			};
+		}
 
 		/**
-		 * Disconnects the session scoped to this connect invocation.
+		 * Returns a session bound to another account authorized by the wallet.
 		 *
-		 * @returns Promise that resolves once the wallet has been disconnected.
+		 * @param accountAddress - Address of the account that should become active.
+		 * @returns Wallet session for the selected account.
+		 * @throws When the wallet has not authorized the address.
 		 */
-		async function disconnectSession(): Promise<void> {
-			await disconnectWallet(wallet);
+		function selectAccount(accountAddress: Address): WalletSession {
+			const next = walletAccounts.find((account) => account.address === accountAddress);
+			if (!next) {
+				throw new Error(`Wallet account ${accountAddress} is not authorized for this session.`);
+			}
+			return createSession(next);
 		}
 
-		return {
-			account: sessionAccount,
-			connector: metadata,
-			disconnect: disconnectSession,
-			sendTransaction,
-			signMessage,
-			signTransaction,
-		};
+		return createSession(getPrimaryAccount(walletAccounts));
 	}
 
 	/**
@@ -1,11 +1,13 @@
 // @vitest-environment jsdom
 
+import type { AccountDecoder } from '@solana/client';
 import { describe, expect, it } from 'vitest';
 
 import { createAccountEntry, createAddress, createLamports } from '../test/fixtures';
+import { createMockSolanaClient } from '../test/mocks';
 import { act, renderHookWithClient, waitFor } from '../test/utils';
 
-import { useAccount, useBalance } from './hooks';
+import { useAccount, useBalance, useDecodedAccount } from './hooks';
 
 describe('account hooks', () => {
 	it('fetches and watches an account by default', async () => {
@@ -110,4 +112,120 @@ describe('account hooks', () => {
 		});
 		expect(client.watchers.watchBalance).not.toHaveBeenCalled();
 	});
+
+	it('reuses fresh cache entries and releases them on unmount', async () => {
+		const address = createAddress(5);
+		const client = createMockSolanaClient({
+			config: { accountCache: { cacheTime: 0, staleTime: 60_000 } },
+			state: {
+				accounts: {
+					[address.toString()]: createAccountEntry({ address, lastFetchedAt: Date.now() }),
+				},
+			},
+		});
+
+		const { unmount } = renderHookWithClient(() => useBalance(address, { watch: false }), { client });
+		const { unmount: unmountAccount } = renderHookWithClient(() => useAccount(address, { staleTime: 0 }), {
+			client,
+		});
+
+		await waitFor(() => {
+			expect(client.actions.fetchAccount).toHaveBeenCalledTimes(1);
+		});
+		expect(client.actions.fetchBalance).not.toHaveBeenCalled();
+
+		unmount();
+		unmountAccount();
+		await waitFor(() => {
+			expect(client.store.getState().accounts[address.toString()]).toBeUndefined();
+		});
+	});
+
+	it('decodes account data with the provided decoder, preferring cached decoded data', () => {
+		const address = createAddress(6);
+		const programAddress = createAddress(7);
+		const decoder: AccountDecoder<number> = {
+			decode: (data) => data[0] ?? 0,
+			programAddress,
+			type: 'counter',
+		};
+		const { client, result } = renderHookWithClient(() => useDecodedAccount(address, decoder, { fetch: false }));
+		expect(result.current.data).toBeUndefined();
+
+		act(() => {
+			client.store.setState((state) => ({
+				...state,
+				accounts: {
+					...state.accounts,
+					[address.toString()]: createAccountEntry({
+						address,
+						data: ['BQ==', 'base64'],
+						owner: programAddress,
+					}),
+				},
+			}));
+		});
+		expect(result.current.data).toBe(5);
+
+		act(() => {
+			client.store.setState((state) => ({
+				...state,
+				accounts: {
+					...state.accounts,
+					[address.toString()]: createAccountEntry({
+						address,
+						data: ['BQ==', 'base64'],
+						decoded: { data: 9, programAddress, type: 'counter' },
+					}),
+				},
+			}));
+		});
+		expect(result.current.data).toBe(9);
+	});
+
+	it('does not decode accounts owned by another program or rejected by the decoder', () => {
+		const address = createAddress(8);
+		const programAddress = createAddress(9);
+		const decoder: AccountDecoder<number> = {
+			decode: (data) => data[0] ?? 0,
+			matches: (data) => data.length === 1,
+			programAddress,
+			type: 'counter',
+		};
+		const { client, result } = renderHookWithClient(() => useDecodedAccount(address, decoder, { fetch: false }));
+
+		act(() => {
+			client.store.setState((state) => ({
+				...state,
+				accounts: {
+					...state.accounts,
+					[address.toString()]: createAccountEntry({
+						address,
+						data: ['BQ==', 'base64'],
+						owner: createAddress(10),
+					}),
+				},
+			}));
+		});
+		expect(result.current.data).toBeUndefined();
+		expect(result.current.error).toEqual(expect.objectContaining({ message: expect.stringContaining('owned by') }));
+
+		act(() => {
+			client.store.setState((state) => ({
+				...state,
+				accounts: {
+					...state.accounts,
+					[address.toString()]: createAccountEntry({
+						address,
+						data: ['BQY=', 'base64'],
+						owner: programAddress,
+					}),
+				},
+			}));
+		});
+		expect(result.current.data).toBeUndefined();
+		expect(result.current.error).toEqual(
+			expect.objectContaining({ message: expect.stringContaining('`counter` account') }),
+		);
+	});
 });
@@ -11,6 +11,7 @@ import {
 	useConnectWallet,
 	useDisconnectWallet,
 	useWallet,
+	useWalletAccounts,
 	useWalletActions,
 	useWalletSession,
 } from './hooks';
@@ -79,6 +80,26 @@ describe('cluster and wallet hooks', () => {
 		expect(sessionResult.current).toBe(session);
 	});
 
+	it('lists wallet accounts and selects through the client actions', () => {
+		const session = createWalletSession();
+		const { client, result } = renderHookWithClient(() => useWalletAccounts());
+
+		expect(result.current.accounts).toEqual([]);
+		expect(result.current.activeAccount).toBeUndefined();
+
+		act(() => {
+			client.store.setState((state) => ({
+				...state,
+				wallet: { connectorId: session.connector.id, session, status: 'connected' },
+			}));
+		});
+
+		expect(result.current.accounts).toEqual([session.account]);
+		expect(result.current.activeAccount).toBe(session.account);
+		result.current.selectAccount(session.account.address);
+		expect(client.actions.selectWalletAccount).toHaveBeenCalledWith(session.account.address);
+	});
+
 	it('exposes the client actions directly', () => {
 		const { client, result } = renderHookWithClient(() => useWalletActions());
 		expect(result.current).toBe(client.actions);
@@ -6,7 +6,13 @@ import { describe, expect, it, vi } from 'vitest';
 import { createAddress } from '../test/fixtures';
 import { renderHookWithClient, waitFor } from '../test/utils';
 
-import { useLatestBlockhash, useProgramAccounts, useSimulateTransaction } from './queryHooks';
+import {
+	useAddressLookupTable,
+	useLatestBlockhash,
+	useProgramAccounts,
+	useSimulateTransaction,
+	useTokenPortfolio,
+} from './queryHooks';
 
 function createMockRpc(overrides: Partial<SolanaClient['runtime']['rpc']> = {}) {
 	return {
@@ -102,3 +108,84 @@ describe('useSimulateTransaction', () => {
 		});
 	});
 });
+
+describe('useAddressLookupTable', () => {
+	it('loads the table contents and reloads them when the account changes', async () => {
+		const lookupTable = createAddress(7);
+		const entries = [createAddress(8), createAddress(9)];
+		const fetch = vi
+			.fn()
+			.mockResolvedValueOnce({ address: lookupTable, addresses: entries.slice(0, 1), lastExtendedSlot: 1n })
+			.mockResolvedValue({ address: lookupTable, addresses: entries, lastExtendedSlot: 2n });
+
+		const { client, result, unmount } = renderHookWithClient(
+			() => useAddressLookupTable(lookupTable, { commitment: 'finalized', watch: true }),
+			{ clientOptions: { addressLookupTable: { fetch } } },
+		);
+
+		await waitFor(() => {
+			expect(result.current.addresses).toEqual(entries.slice(0, 1));
+		});
+		expect(fetch).toHaveBeenCalledWith(lookupTable, 'finalized');
+		const [config, listener] = client.watchers.watchAccount.mock.calls[0] ?? [];
+		expect(config).toEqual({ address: lookupTable, commitment: 'finalized' });
+
+		listener?.({} as never);
+		await waitFor(() => {
+			expect(result.current.addresses).toEqual(entries);
+		});
+		expect(result.current.table?.lastExtendedSlot).toBe(2n);
+
+		unmount();
+		expect(client.watchers.watchAccount.mock.results[0]?.value.abort).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('useTokenPortfolio', () => {
+	it('loads holdings and reloads them once when token accounts of the owner change', async () => {
+		const owner = createAddress(10);
+		const mint = createAddress(11);
+		const holding = {
+			accounts: [],
+			amount: 5n,
+			decimals: 0,
+			mint,
+			tokenProgram: createAddress(12),
+			uiAmount: '5',
+		};
+		const tokenPortfolio = vi
+			.fn()
+			.mockResolvedValueOnce({ holdings: [], owner })
+			.mockResolvedValue({ holdings: [holding], owner });
+
+		const { client, result, unmount } = renderHookWithClient(() => useTokenPortfolio(owner, { watchDelayMs: 20 }), {
+			clientOptions: { tokenPortfolio },
+		});
+
+		await waitFor(() => {
+			expect(result.current.portfolio?.owner).toBe(owner);
+		});
+		expect(tokenPortfolio).toHaveBeenCalledWith(owner, {
+			commitment: undefined,
+			includeEmpty: false,
+			includeMetadata: false,
+		});
+		expect(client.watchers.watchProgramAccounts).toHaveBeenCalledTimes(2);
+		const [config, listener] = client.watchers.watchProgramAccounts.mock.calls[1] ?? [];
+		const [, otherListener] = client.watchers.watchProgramAccounts.mock.calls[0] ?? [];
+		expect(config?.filters).toEqual([{ memcmp: { bytes: owner, encoding: 'base58', offset: 32n } }]);
+
+		listener?.({} as never);
+		listener?.({} as never);
+		otherListener?.({} as never);
+		await waitFor(() => {
+			expect(result.current.holdings).toEqual([holding]);
+		});
+		expect(tokenPortfolio).toHaveBeenCalledTimes(2);
+
+		unmount();
+		for (const { value } of client.watchers.watchProgramAccounts.mock.results) {
+			expect(value.abort).toHaveBeenCalledTimes(1);
+		}
+	});
+});
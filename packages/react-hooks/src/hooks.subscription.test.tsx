@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+
+import { describe, expect, it } from 'vitest';
+
+import { createAccountEntry, createAddress, createSignature } from '../test/fixtures';
+import { act, renderHookWithClient } from '../test/utils';
+
+import { useLogs, useProgramAccountsLive, useSlot } from './hooks';
+
+describe('subscription hooks', () => {
+	it('collects log notifications up to the limit', () => {
+		const mentions = createAddress(1);
+		const { client, result, unmount } = renderHookWithClient(() => useLogs({ limit: 2, mentions }));
+
+		const [config, listener] = client.watchers.watchLogs.mock.calls[0] ?? [];
+		expect(config).toEqual({ commitment: undefined, mentions });
+		act(() => {
+			for (const slot of [1n, 2n, 3n]) {
+				listener?.({ err: null, logs: [`slot ${slot}`], signature: createSignature(1), slot });
+			}
+		});
+
+		expect(result.current.logs.map((entry) => entry.slot)).toEqual([3n, 2n]);
+		act(() => result.current.clear());
+		expect(result.current.logs).toEqual([]);
+
+		unmount();
+		expect(client.watchers.watchLogs.mock.results[0]?.value.abort).toHaveBeenCalledTimes(1);
+	});
+
+	it('keeps the latest version of each changed program account without resubscribing', () => {
+		const program = createAddress(2);
+		const account = createAddress(3);
+		const { client, rerender, result } = renderHookWithClient(() =>
+			useProgramAccountsLive(program, { filters: [{ dataSize: 165n }] }),
+		);
+		rerender();
+
+		expect(client.watchers.watchProgramAccounts).toHaveBeenCalledTimes(1);
+		const listener = client.watchers.watchProgramAccounts.mock.calls[0]?.[1];
+		act(() => {
+			listener?.(createAccountEntry({ address: account, slot: 1n }));
+			listener?.(createAccountEntry({ address: account, slot: 2n }));
+		});
+
+		expect(result.current.accounts).toEqual([expect.objectContaining({ address: account, slot: 2n })]);
+	});
+
+	it('tracks the latest slot and reports subscription status', () => {
+		const { client, result } = renderHookWithClient(() => useSlot());
+
+		act(() => {
+			client.store.setState((state) => ({
+				...state,
+				subscriptions: { ...state.subscriptions, slot: { slot: { status: 'active' } } },
+			}));
+			client.watchers.watchSlot.mock.calls[0]?.[0]({ parent: 9n, root: 1n, slot: 10n });
+		});
+
+		expect(result.current).toEqual({ parent: 9n, root: 1n, slot: 10n, status: { status: 'active' } });
+	});
+});
@@ -1,12 +1,12 @@
 // @vitest-environment jsdom
 
-import type { TransactionPrepareAndSendRequest } from '@solana/client';
+import type { TransactionPrepareAndSendRequest, TransactionPrepared } from '@solana/client';
 import { describe, expect, it, vi } from 'vitest';
 
-import { createAddress, createWalletSession } from '../test/fixtures';
+import { createAddress, createSignature, createWalletSession } from '../test/fixtures';
 import { act, renderHookWithClient } from '../test/utils';
 
-import { useSendTransaction, useTransactionPool } from './hooks';
+import { useSendTransaction, useSignAllTransactions, useTransactionHistory, useTransactionPool } from './hooks';
 
 function createInstruction(seed: number) {
 	return {
@@ -67,6 +67,51 @@ describe('useTransactionPool.prepareAndSend', () => {
 	});
 });
 
+describe('useTransactionPool batches', () => {
+	it('splits an oversized pool into a batch and reports progress', async () => {
+		const instructions = [createInstruction(5), createInstruction(6), createInstruction(7)];
+		const measure = vi.fn(async ({ instructions: candidate }: { instructions: readonly unknown[] }) =>
+			candidate.length > 1 ? 2_000 : 500,
+		);
+		const { client, result } = renderHookWithClient(() => useTransactionPool({ instructions }), {
+			clientOptions: { transaction: { measure } },
+		});
+
+		let signatures: readonly unknown[] = [];
+		await act(async () => {
+			signatures = await result.current.prepareAndSendBatch();
+		});
+
+		expect(client.helpers.transaction.prepare).toHaveBeenCalledTimes(3);
+		expect(client.helpers.transaction.send).toHaveBeenCalledTimes(3);
+		expect(signatures).toHaveLength(3);
+		expect(result.current.batch).toMatchObject({ sent: 3, status: 'success', total: 3 });
+	});
+});
+
+describe('useSignAllTransactions', () => {
+	it('signs every prepared transaction in one helper call and surfaces failures', async () => {
+		const prepared = [{ feePayer: 'a' }, { feePayer: 'b' }] as unknown as TransactionPrepared[];
+		const { client, result } = renderHookWithClient(() => useSignAllTransactions());
+
+		await act(async () => {
+			await result.current.signAll(prepared);
+		});
+
+		expect(client.helpers.transaction.signAll).toHaveBeenCalledWith(prepared, undefined);
+		expect(result.current.status).toBe('success');
+		expect(result.current.signed).toHaveLength(2);
+
+		const failure = new Error('rejected');
+		client.helpers.transaction.signAll.mockRejectedValueOnce(failure);
+		await act(async () => {
+			await expect(result.current.signAll(prepared)).rejects.toBe(failure);
+		});
+		expect(result.current.error).toBe(failure);
+		expect(result.current.isSigning).toBe(false);
+	});
+});
+
 describe('useSendTransaction', () => {
 	it('calls prepareAndSend and tracks status', async () => {
 		const instructions = [createInstruction(4)];
@@ -135,3 +180,26 @@ describe('useSendTransaction', () => {
 		expect(result.current.error).toBe(error);
 	});
 });
+
+describe('useTransactionHistory', () => {
+	it('lists filtered records newest first and clears through the client', () => {
+		const { client, result } = renderHookWithClient(() =>
+			useTransactionHistory({ filter: (entry) => entry.status !== 'failed' }),
+		);
+
+		act(() => {
+			client.store.setState((state) => ({
+				...state,
+				transactions: {
+					a: { lastUpdatedAt: 1, sentAt: 1, signature: createSignature(1), status: 'confirmed' },
+					b: { lastUpdatedAt: 3, sentAt: 3, signature: createSignature(2), status: 'sending' },
+					c: { lastUpdatedAt: 2, sentAt: 2, signature: createSignature(3), status: 'failed' },
+				},
+			}));
+		});
+
+		expect(result.current.transactions.map((entry) => entry.key)).toEqual(['b', 'a']);
+		act(() => result.current.clear());
+		expect(client.actions.clearTransactions).toHaveBeenCalledTimes(1);
+	});
+});
@@ -1,6 +1,6 @@
 // @vitest-environment jsdom
 
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 
 import { createAddress, createLamports, createSignature, createWalletSession } from '../test/fixtures';
 import { createMockSplTokenHelper } from '../test/mocks';
@@ -194,4 +194,23 @@ describe('transfer hooks', () => {
 
 		expect(helper.fetchBalance).toHaveBeenCalledTimes(2);
 	});
+
+	it('resolves the mint metadata unless disabled', async () => {
+		const mint = createAddress(60);
+		const metadata = { mint, name: 'Mock Token', source: 'metaplex' as const, symbol: 'MOCK', uri: '' };
+		const resolve = vi.fn().mockResolvedValue(metadata);
+
+		const { client, result } = renderHookWithClient(() => useSplToken(mint), {
+			clientOptions: { tokenMetadata: { resolve } },
+		});
+
+		await waitFor(() => {
+			expect(result.current.metadata).toEqual(metadata);
+		});
+		expect(resolve).toHaveBeenCalledWith(String(mint), { commitment: undefined });
+
+		const disabled = renderHookWithClient(() => useSplToken(createAddress(61), { metadata: false }), { client });
+		expect(disabled.result.current.metadata).toBeNull();
+		expect(resolve).toHaveBeenCalledTimes(1);
+	});
 });
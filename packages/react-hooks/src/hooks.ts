@@ -1,5 +1,6 @@
 import {
 	type AccountCacheEntry,
+	type AccountDecoder,
 	type AddressLike,
 	type AsyncState,
 	type ClientState,
@@ -10,11 +11,15 @@ import {
 	createSolTransferController,
 	createTransactionPoolController,
 	deriveConfirmationStatus,
+	getAccountDataBytes,
 	getWalletStandardConnectors,
 	type LatestBlockhashCache,
+	type LogsNotification,
 	normalizeSignature,
+	type ProgramAccountsFilter,
 	SIGNATURE_STATUS_TIMEOUT_MS,
 	type SignatureLike,
+	type SlotNotification,
 	type SolanaClient,
 	type SolTransferHelper,
 	type SolTransferInput,
@@ -23,9 +28,15 @@ import {
 	type SplTokenHelper,
 	type SplTokenHelperConfig,
 	type SplTransferPrepareConfig,
+	type SubscriptionStatus,
+	stableStringify,
+	type TokenMetadata,
+	type TransactionBatchState,
 	type TransactionHelper,
 	type TransactionInstructionInput,
 	type TransactionInstructionList,
+	type TransactionPoolAddOptions,
+	type TransactionPoolBatchSendOptions,
 	type TransactionPoolController,
 	type TransactionPoolPrepareAndSendOptions,
 	type TransactionPoolPrepareOptions,
@@ -33,14 +44,17 @@ import {
 	type TransactionPoolSignOptions,
 	type TransactionPrepareAndSendRequest,
 	type TransactionPrepared,
+	type TransactionRecord,
 	type TransactionSendOptions,
+	type TransactionSignOptions,
 	toAddress,
+	type WalletAccount,
 	type WalletConnector,
 	type WalletSession,
 	type WalletStatus,
 	watchWalletStandardConnectors,
 } from '@solana/client';
-import type { Commitment, Lamports, Signature } from '@solana/kit';
+import type { Address, Commitment, Lamports, Signature } from '@solana/kit';
 import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
 import useSWR from 'swr';
 
@@ -66,12 +80,36 @@ type SignatureStatusValue = SignatureStatusesResponse['value'][number];
 type SignatureStatusConfig = Parameters<RpcInstance['getSignatureStatuses']>[1];
 
 type UseAccountOptions = Readonly<{
+	/** How long the entry stays cached after the last consumer unmounts. Defaults to the client `cacheTime`. */
+	cacheTime?: number;
 	commitment?: Commitment;
 	fetch?: boolean;
 	skip?: boolean;
+	/** Skip the initial fetch when the cached entry is younger than this. Defaults to the client `staleTime`. */
+	staleTime?: number;
 	watch?: boolean;
 }>;
 
+type UseLogsOptions = Readonly<{
+	commitment?: Commitment;
+	/** Maximum number of notifications kept, newest first. Defaults to 100. */
+	limit?: number;
+	mentions?: AddressLike;
+	skip?: boolean;
+}>;
+
+type UseTransactionHistoryOptions = Readonly<{
+	/** Keeps only the records the predicate accepts. */
+	filter?: (entry: TransactionHistoryEntry) => boolean;
+	limit?: number;
+}>;
+
+type UseProgramAccountsLiveOptions = Readonly<{
+	commitment?: Commitment;
+	filters?: readonly ProgramAccountsFilter[];
+	skip?: boolean;
+}>;
+
 type UseBalanceOptions = Readonly<{
 	watch?: boolean;
 }> &
@@ -128,6 +166,27 @@ export function useWalletSession(): WalletSession | undefined {
 	return undefined;
 }
 
+/**
+ * Lists the accounts authorized by the connected wallet and exposes a helper to switch the active one.
+ */
+export function useWalletAccounts(): Readonly<{
+	accounts: readonly WalletAccount[];
+	activeAccount: WalletAccount | undefined;
+	selectAccount(address: Address): void;
+}> {
+	const client = useSolanaClient();
+	const session = useWalletSession();
+	const selectAccount = useCallback((address: Address) => client.actions.selectWalletAccount(address), [client]);
+	return useMemo(
+		() => ({
+			accounts: session ? (session.accounts ?? [session.account]) : [],
+			activeAccount: session?.account,
+			selectAccount,
+		}),
+		[selectAccount, session],
+	);
+}
+
 /**
  * Access the headless client actions.
  */
@@ -223,6 +282,8 @@ type SplTransferInput = Omit<SplTransferPrepareConfig, 'authority' | 'sourceOwne
 type UseSplTokenOptions = Readonly<{
 	commitment?: Commitment;
 	config?: Omit<SplTokenHelperConfig, 'commitment' | 'mint'>;
+	/** Resolve the mint's name, symbol and logo into `metadata`. Defaults to `true`. */
+	metadata?: boolean;
 	owner?: AddressLike;
 	revalidateOnFocus?: boolean;
 }>;
@@ -239,6 +300,8 @@ export function useSplToken(
 	helper: SplTokenHelper;
 	isFetching: boolean;
 	isSending: boolean;
+	/** `null` while loading, when disabled, or when the mint has no metadata. */
+	metadata: TokenMetadata | null;
 	owner: string | null;
 	refresh(): Promise<SplTokenBalanceResult | undefined>;
 	refreshing: boolean;
@@ -281,6 +344,15 @@ export function useSplToken(
 		revalidateOnFocus: options.revalidateOnFocus ?? false,
 	});
 
+	const metadataKey =
+		(options.metadata ?? true) ? ['spl-metadata', normalizedMint, options.commitment ?? null] : null;
+	// Metadata rarely changes, and the resolver caches it per mint anyway.
+	const { data: metadata } = useSWR<TokenMetadata | null>(
+		metadataKey,
+		() => client.helpers.tokenMetadata.resolve(normalizedMint, { commitment: options.commitment }),
+		{ revalidateOnFocus: false },
+	);
+
 	const [sendState, setSendState] = useState<AsyncState<SplTransferSignature>>(() =>
 		createInitialAsyncState<SplTransferSignature>(),
 	);
@@ -339,6 +411,7 @@ export function useSplToken(
 		helper,
 		isFetching: Boolean(owner) && (isLoading || isValidating),
 		isSending: sendState.status === 'loading',
+		metadata: metadata ?? null,
 		owner,
 		refresh,
 		refreshing: Boolean(owner) && isValidating,
@@ -372,17 +445,18 @@ export function useAccount(addressLike?: AddressLike, options: UseAccountOptions
 			return;
 		}
 		const commitment = options.commitment;
-		if (options.fetch !== false) {
+		const release = client.accountCache.retain(address, { cacheTime: options.cacheTime });
+		if (options.fetch !== false && !client.accountCache.isFresh(address, options.staleTime)) {
 			void client.actions.fetchAccount(address, commitment).catch(() => undefined);
 		}
-		if (options.watch) {
-			const subscription = client.watchers.watchAccount({ address, commitment }, () => undefined);
-			return () => {
-				subscription.abort();
-			};
-		}
-		return undefined;
-	}, [address, client, options.commitment, options.fetch, options.watch]);
+		const subscription = options.watch
+			? client.watchers.watchAccount({ address, commitment }, () => undefined)
+			: undefined;
+		return () => {
+			subscription?.abort();
+			release();
+		};
+	}, [address, client, options.cacheTime, options.commitment, options.fetch, options.staleTime, options.watch]);
 
 	return account;
 }
@@ -402,12 +476,14 @@ export function useBalance(
 }> {
 	const mergedOptions = useMemo(
 		() => ({
+			cacheTime: options.cacheTime,
 			commitment: options.commitment,
 			fetch: options.fetch ?? true,
 			skip: options.skip,
+			staleTime: options.staleTime,
 			watch: options.watch ?? true,
 		}),
-		[options.commitment, options.fetch, options.skip, options.watch],
+		[options.cacheTime, options.commitment, options.fetch, options.skip, options.staleTime, options.watch],
 	);
 	const client = useSolanaClient();
 	const shouldSkip = mergedOptions.skip ?? !addressLike;
@@ -426,17 +502,26 @@ export function useBalance(
 			return;
 		}
 		const commitment = mergedOptions.commitment;
-		if (mergedOptions.fetch !== false) {
+		const release = client.accountCache.retain(address, { cacheTime: mergedOptions.cacheTime });
+		if (mergedOptions.fetch !== false && !client.accountCache.isFresh(address, mergedOptions.staleTime)) {
 			void client.actions.fetchBalance(address, commitment).catch(() => undefined);
 		}
-		if (mergedOptions.watch) {
-			const watcher = client.watchers.watchBalance({ address, commitment }, () => undefined);
-			return () => {
-				watcher.abort();
-			};
-		}
-		return undefined;
-	}, [address, client, mergedOptions.commitment, mergedOptions.fetch, mergedOptions.watch]);
+		const watcher = mergedOptions.watch
+			? client.watchers.watchBalance({ address, commitment }, () => undefined)
+			: undefined;
+		return () => {
+			watcher?.abort();
+			release();
+		};
+	}, [
+		address,
+		client,
+		mergedOptions.cacheTime,
+		mergedOptions.commitment,
+		mergedOptions.fetch,
+		mergedOptions.staleTime,
+		mergedOptions.watch,
+	]);
 
 	const lamports = account?.lamports ?? null;
 	const fetching = account?.fetching ?? false;
@@ -455,6 +540,184 @@ export function useBalance(
 	);
 }
 
+/**
+ * Reads an account and decodes its data with the provided decoder. Reuses the client's cached decoded data when the
+ * registry already decoded the entry with a decoder of the same program and type. Accounts owned by another program,
+ * or whose bytes the decoder's `matches` rejects, are not decoded and report an error instead.
+ */
+export function useDecodedAccount<TData>(
+	addressLike: AddressLike | undefined,
+	decoder: AccountDecoder<TData>,
+	options: UseAccountOptions = {},
+): Readonly<{
+	account?: AccountCacheEntry;
+	data: TData | undefined;
+	error?: unknown;
+	fetching: boolean;
+}> {
+	const account = useAccount(addressLike, options);
+	const decoded = useMemo((): Readonly<{ data?: TData; error?: unknown }> => {
+		if (!account) {
+			return {};
+		}
+		const cached = account.decoded;
+		if (cached && cached.programAddress === decoder.programAddress && cached.type === decoder.type) {
+			return { data: cached.data as TData };
+		}
+		const bytes = getAccountDataBytes(account.data);
+		if (!bytes) {
+			return {};
+		}
+		if (account.owner !== decoder.programAddress) {
+			return {
+				error: new Error(
+					`Account ${account.address} is owned by ${account.owner ?? 'an unknown program'}, not ${decoder.programAddress}.`,
+				),
+			};
+		}
+		if (decoder.matches && !decoder.matches(bytes)) {
+			return { error: new Error(`Account ${account.address} does not hold a \`${decoder.type}\` account.`) };
+		}
+		try {
+			return { data: decoder.decode(bytes) };
+		} catch (error) {
+			return { error };
+		}
+	}, [account, decoder]);
+
+	return useMemo(
+		() => ({
+			account,
+			data: decoded.data,
+			error: account?.error ?? decoded.error,
+			fetching: account?.fetching ?? false,
+		}),
+		[account, decoded],
+	);
+}
+
+/**
+ * Streams transaction logs, optionally limited to transactions that mention an address.
+ */
+export function useLogs(options: UseLogsOptions = {}): Readonly<{
+	clear(): void;
+	logs: readonly LogsNotification[];
+	status: SubscriptionStatus | undefined;
+}> {
+	const client = useSolanaClient();
+	const limit = options.limit ?? 100;
+	const shouldSkip = options.skip ?? false;
+	const mentions = useMemo(
+		() => (shouldSkip || !options.mentions ? undefined : toAddress(options.mentions)),
+		[options.mentions, shouldSkip],
+	);
+	const statusId = mentions?.toString() ?? 'all';
+	const status = useClientStore((state) => (shouldSkip ? undefined : state.subscriptions.logs[statusId]));
+	const [logs, setLogs] = useState<readonly LogsNotification[]>([]);
+
+	useEffect(() => {
+		if (shouldSkip) {
+			return;
+		}
+		const subscription = client.watchers.watchLogs({ commitment: options.commitment, mentions }, (notification) => {
+			setLogs((current) => [notification, ...current].slice(0, limit));
+		});
+		return () => {
+			subscription.abort();
+		};
+	}, [client, limit, mentions, options.commitment, shouldSkip]);
+
+	const clear = useCallback(() => setLogs([]), []);
+
+	return useMemo(() => ({ clear, logs, status }), [clear, logs, status]);
+}
+
+/**
+ * Streams accounts owned by a program as they change. Only accounts that changed while mounted are returned; pair
+ * with `useProgramAccounts` for an initial snapshot.
+ */
+export function useProgramAccountsLive(
+	programAddress?: AddressLike,
+	options: UseProgramAccountsLiveOptions = {},
+): Readonly<{
+	accounts: readonly AccountCacheEntry[];
+	status: SubscriptionStatus | undefined;
+}> {
+	const client = useSolanaClient();
+	const shouldSkip = options.skip ?? !programAddress;
+	const address = useMemo(
+		() => (shouldSkip || !programAddress ? undefined : toAddress(programAddress)),
+		[programAddress, shouldSkip],
+	);
+	const filtersKey = useMemo(() => stableStringify(options.filters ?? []), [options.filters]);
+	const filtersRef = useRef<Readonly<{ filters?: readonly ProgramAccountsFilter[]; key: string }> | undefined>(
+		undefined,
+	);
+	if (filtersRef.current?.key !== filtersKey) {
+		// Keep the previous array while the filters are structurally equal so inline literals do not resubscribe.
+		filtersRef.current = { filters: options.filters, key: filtersKey };
+	}
+	const filters = filtersRef.current.filters;
+	const statusKey = address?.toString();
+	const status = useClientStore((state) => (statusKey ? state.subscriptions.programAccounts[statusKey] : undefined));
+	const [accounts, setAccounts] = useState<ReadonlyMap<string, AccountCacheEntry>>(() => new Map());
+
+	useEffect(() => {
+		setAccounts(new Map());
+		if (!address) {
+			return;
+		}
+		const subscription = client.watchers.watchProgramAccounts(
+			{ commitment: options.commitment, filters, programAddress: address },
+			(account) => {
+				setAccounts((current) => new Map(current).set(account.address.toString(), account));
+			},
+		);
+		return () => {
+			subscription.abort();
+		};
+	}, [address, client, filters, options.commitment]);
+
+	const list = useMemo(() => [...accounts.values()], [accounts]);
+
+	return useMemo(() => ({ accounts: list, status }), [list, status]);
+}
+
+/**
+ * Tracks the latest processed slot reported by the validator.
+ */
+export function useSlot(options: Readonly<{ skip?: boolean }> = {}): Readonly<{
+	parent: bigint | undefined;
+	root: bigint | undefined;
+	slot: bigint | undefined;
+	status: SubscriptionStatus | undefined;
+}> {
+	const client = useSolanaClient();
+	const shouldSkip = options.skip ?? false;
+	const status = useClientStore((state) => (shouldSkip ? undefined : state.subscriptions.slot.slot));
+	const [notification, setNotification] = useState<SlotNotification | undefined>(undefined);
+
+	useEffect(() => {
+		if (shouldSkip) {
+			return;
+		}
+		const subscription = client.watchers.watchSlot(setNotification);
+		return () => {
+			subscription.abort();
+		};
+	}, [client, shouldSkip]);
+
+	return useMemo(
+		() => ({
+			parent: notification?.parent,
+			root: notification?.root,
+			slot: notification?.slot,
+			status,
+		}),
+		[notification, status],
+	);
+}
+
 /**
  * Collect Wallet Standard connectors and keep the list in sync with registration changes.
  */
@@ -496,7 +759,8 @@ type TransactionSignature = Signature;
  */
 export function useTransactionPool(config: UseTransactionPoolConfig = {}): Readonly<{
 	addInstruction(instruction: TransactionInstructionInput): void;
-	addInstructions(instructionSet: TransactionInstructionList): void;
+	addInstructions(instructionSet: TransactionInstructionList, options?: TransactionPoolAddOptions): void;
+	batch: TransactionBatchState;
 	clearInstructions(): void;
 	instructions: TransactionInstructionList;
 	isPreparing: boolean;
@@ -516,6 +780,12 @@ export function useTransactionPool(config: UseTransactionPoolConfig = {}): Reado
 		request?: UseTransactionPoolPrepareAndSendOptions,
 		sendOptions?: TransactionSendOptions,
 	): Promise<TransactionSignature>;
+	prepareAndSendBatch(
+		request?: UseTransactionPoolPrepareOptions,
+		sendOptions?: TransactionPoolBatchSendOptions,
+	): Promise<readonly TransactionSignature[]>;
+	prepareBatch(options?: UseTransactionPoolPrepareOptions): Promise<readonly TransactionPrepared[]>;
+	sendBatch(options?: TransactionPoolBatchSendOptions): Promise<readonly TransactionSignature[]>;
 	sign(options?: UseTransactionPoolSignOptions): ReturnType<TransactionHelper['sign']>;
 	toWire(options?: UseTransactionPoolSignOptions): ReturnType<TransactionHelper['toWire']>;
 	latestBlockhash: LatestBlockhashQueryResult;
@@ -571,10 +841,16 @@ export function useTransactionPool(config: UseTransactionPoolConfig = {}): Reado
 		controller.getSendState,
 		controller.getSendState,
 	);
+	const batch = useSyncExternalStore<TransactionBatchState>(
+		controller.subscribeBatchState,
+		controller.getBatchState,
+		controller.getBatchState,
+	);
 
 	return {
 		addInstruction: controller.addInstruction,
 		addInstructions: controller.addInstructions,
+		batch,
 		clearInstructions: controller.clearInstructions,
 		instructions,
 		isPreparing: prepareState.status === 'loading',
@@ -591,6 +867,9 @@ export function useTransactionPool(config: UseTransactionPoolConfig = {}): Reado
 		sendSignature: sendState.data ?? null,
 		sendStatus: sendState.status,
 		prepareAndSend: controller.prepareAndSend,
+		prepareAndSendBatch: controller.prepareAndSendBatch,
+		prepareBatch: controller.prepareBatch,
+		sendBatch: controller.sendBatch,
 		sign: controller.sign,
 		toWire: controller.toWire,
 		latestBlockhash,
@@ -680,6 +959,82 @@ export function useSendTransaction(): UseSendTransactionResult {
 	};
 }
 
+type SignedTransactions = Awaited<ReturnType<TransactionHelper['signAll']>>;
+
+type UseSignAllTransactionsResult = Readonly<{
+	error: unknown;
+	isSigning: boolean;
+	reset(): void;
+	signAll(prepared: readonly TransactionPrepared[], options?: TransactionSignOptions): Promise<SignedTransactions>;
+	signed: SignedTransactions | null;
+	status: AsyncState<SignedTransactions>['status'];
+}>;
+
+/**
+ * Signs several prepared transactions at once, with a single wallet prompt when the wallet supports it.
+ */
+export function useSignAllTransactions(): UseSignAllTransactionsResult {
+	const client = useSolanaClient();
+	const helper = client.helpers.transaction;
+	const [state, setState] = useState<AsyncState<SignedTransactions>>(() =>
+		createInitialAsyncState<SignedTransactions>(),
+	);
+
+	const signAll = useCallback(
+		async (prepared: readonly TransactionPrepared[], options?: TransactionSignOptions) => {
+			setState(createAsyncState<SignedTransactions>('loading'));
+			try {
+				const signed = await helper.signAll(prepared, options);
+				setState(createAsyncState<SignedTransactions>('success', { data: signed }));
+				return signed;
+			} catch (error) {
+				setState(createAsyncState<SignedTransactions>('error', { error }));
+				throw error;
+			}
+		},
+		[helper],
+	);
+
+	const reset = useCallback(() => {
+		setState(createInitialAsyncState<SignedTransactions>());
+	}, []);
+
+	return {
+		error: state.error ?? null,
+		isSigning: state.status === 'loading',
+		reset,
+		signAll,
+		signed: state.data ?? null,
+		status: state.status,
+	};
+}
+
+export type TransactionHistoryEntry = TransactionRecord & Readonly<{ key: string }>;
+
+/**
+ * Lists recorded transactions from `state.transactions`, newest first, for building activity panels.
+ */
+export function useTransactionHistory(options: UseTransactionHistoryOptions = {}): Readonly<{
+	clear(): void;
+	transactions: readonly TransactionHistoryEntry[];
+}> {
+	const client = useSolanaClient();
+	const records = useClientStore((state) => state.transactions);
+	const { filter, limit } = options;
+
+	const transactions = useMemo(() => {
+		const entries = Object.entries(records)
+			.map(([key, record]): TransactionHistoryEntry => ({ ...record, key }))
+			.filter((entry) => !filter || filter(entry))
+			.sort((left, right) => (right.sentAt ?? right.lastUpdatedAt) - (left.sentAt ?? left.lastUpdatedAt));
+		return limit === undefined ? entries : entries.slice(0, limit);
+	}, [filter, limit, records]);
+
+	const clear = useCallback(() => client.actions.clearTransactions(), [client]);
+
+	return useMemo(() => ({ clear, transactions }), [clear, transactions]);
+}
+
 export type UseSignatureStatusOptions = UseSolanaRpcQueryOptions<SignatureStatusValue | null> &
 	Readonly<{
 		config?: SignatureStatusConfig;
@@ -5,20 +5,33 @@ export {
 	useClusterState,
 	useClusterStatus,
 	useConnectWallet,
+	useDecodedAccount,
 	useDisconnectWallet,
+	useLogs,
+	useProgramAccountsLive,
 	useSendTransaction,
+	useSignAllTransactions,
 	useSignatureStatus,
+	useSlot,
 	useSolTransfer,
 	useSplToken,
+	useTransactionHistory,
 	useTransactionPool,
 	useWaitForSignature,
 	useWallet,
+	useWalletAccounts,
 	useWalletActions,
 	useWalletSession,
 	useWalletStandardConnectors,
 } from './hooks';
 export { SolanaQueryProvider } from './QueryProvider';
-export { useLatestBlockhash, useProgramAccounts, useSimulateTransaction } from './queryHooks';
+export {
+	useAddressLookupTable,
+	useLatestBlockhash,
+	useProgramAccounts,
+	useSimulateTransaction,
+	useTokenPortfolio,
+} from './queryHooks';
 export { useClientStore } from './useClientStore';
 export type { OnlySolanaChains } from './walletStandardHooks';
 export {
@@ -1,13 +1,26 @@
-import { type AddressLike, type SolanaClient, stableStringify, toAddress, toAddressString } from '@solana/client';
 import {
+	type AddressLike,
+	type AddressLookupTableAccount,
+	type SolanaClient,
+	stableStringify,
+	TOKEN_PORTFOLIO_PROGRAM_ADDRESSES,
+	type TokenPortfolio,
+	type TokenPortfolioHolding,
+	toAddress,
+	toAddressString,
+} from '@solana/client';
+import {
+	type Address,
+	type Base58EncodedBytes,
 	type Base64EncodedWireTransaction,
 	type Commitment,
 	getBase64EncodedWireTransaction,
 	type SendableTransaction,
 	type Transaction,
 } from '@solana/kit';
-import { useCallback, useMemo } from 'react';
+import { useCallback, useEffect, useMemo } from 'react';
 
+import { useSolanaClient } from './context';
 import type { SolanaQueryResult, UseSolanaRpcQueryOptions } from './query';
 import { useSolanaRpcQuery } from './query';
 
@@ -25,6 +38,7 @@ type SimulateTransactionConfig = Parameters<RpcInstance['simulateTransaction']>[
 type SimulateTransactionResponse = Awaited<ReturnType<SimulateTransactionPlan['send']>>;
 
 const DEFAULT_BLOCKHASH_REFRESH_INTERVAL = 30_000;
+const DEFAULT_TOKEN_PORTFOLIO_WATCH_DELAY = 500;
 
 export type UseLatestBlockhashOptions = Omit<UseSolanaRpcQueryOptions<LatestBlockhashResponse>, 'refreshInterval'> &
 	Readonly<{
@@ -119,6 +133,150 @@ export function useProgramAccounts(
 	};
 }
 
+export type UseAddressLookupTableOptions = UseSolanaRpcQueryOptions<AddressLookupTableAccount | null> &
+	Readonly<{
+		commitment?: Commitment;
+		/** Re-reads the table whenever its account changes, e.g. after it is extended. */
+		watch?: boolean;
+	}>;
+
+export type AddressLookupTableQueryResult = SolanaQueryResult<AddressLookupTableAccount | null> &
+	Readonly<{
+		addresses: readonly Address[];
+		table: AddressLookupTableAccount | null;
+	}>;
+
+export function useAddressLookupTable(
+	lookupTable?: AddressLike,
+	options: UseAddressLookupTableOptions = {},
+): AddressLookupTableQueryResult {
+	const { commitment, watch = false, ...queryOptions } = options;
+	const client = useSolanaClient();
+	const address = useMemo(() => (lookupTable ? toAddress(lookupTable) : undefined), [lookupTable]);
+	const addressKey = useMemo(() => (address ? toAddressString(address) : null), [address]);
+	const keyArgs = useMemo(() => [addressKey, commitment ?? null], [addressKey, commitment]);
+	const fetcher = useCallback(
+		async (currentClient: SolanaClient) => {
+			if (!address) {
+				throw new Error('Provide an address lookup table address before querying it.');
+			}
+			return currentClient.helpers.addressLookupTable.fetch(address, commitment);
+		},
+		[address, commitment],
+	);
+	const query = useSolanaRpcQuery<AddressLookupTableAccount | null>('addressLookupTable', keyArgs, fetcher, {
+		...queryOptions,
+		disabled: queryOptions.disabled ?? !address,
+	});
+	const { mutate } = query;
+
+	useEffect(() => {
+		if (!address || !watch) {
+			return;
+		}
+		const subscription = client.watchers.watchAccount({ address, commitment }, () => {
+			void mutate();
+		});
+		return () => {
+			subscription.abort();
+		};
+	}, [address, client, commitment, mutate, watch]);
+
+	return {
+		...query,
+		addresses: query.data?.addresses ?? [],
+		table: query.data ?? null,
+	};
+}
+
+export type UseTokenPortfolioOptions = UseSolanaRpcQueryOptions<TokenPortfolio> &
+	Readonly<{
+		commitment?: Commitment;
+		includeEmpty?: boolean;
+		/** Resolve names, symbols and logos into each holding's `metadata`. */
+		includeMetadata?: boolean;
+		/** Re-reads the portfolio whenever one of the owner's token accounts changes. Defaults to `true`. */
+		watch?: boolean;
+		/** Milliseconds during which account changes are gathered into a single re-read. Defaults to `500`. */
+		watchDelayMs?: number;
+	}>;
+
+export type TokenPortfolioQueryResult = SolanaQueryResult<TokenPortfolio> &
+	Readonly<{
+		holdings: readonly TokenPortfolioHolding[];
+		portfolio: TokenPortfolio | null;
+	}>;
+
+export function useTokenPortfolio(
+	owner?: AddressLike,
+	options: UseTokenPortfolioOptions = {},
+): TokenPortfolioQueryResult {
+	const {
+		commitment,
+		includeEmpty = false,
+		includeMetadata = false,
+		watch = true,
+		watchDelayMs = DEFAULT_TOKEN_PORTFOLIO_WATCH_DELAY,
+		...queryOptions
+	} = options;
+	const client = useSolanaClient();
+	const address = useMemo(() => (owner ? toAddress(owner) : undefined), [owner]);
+	const addressKey = useMemo(() => (address ? toAddressString(address) : null), [address]);
+	const keyArgs = useMemo(
+		() => [addressKey, commitment ?? null, includeEmpty, includeMetadata],
+		[addressKey, commitment, includeEmpty, includeMetadata],
+	);
+	const fetcher = useCallback(
+		async (currentClient: SolanaClient) => {
+			if (!address) {
+				throw new Error('Provide an owner address before querying its token portfolio.');
+			}
+			return currentClient.helpers.tokenPortfolio(address, { commitment, includeEmpty, includeMetadata });
+		},
+		[address, commitment, includeEmpty, includeMetadata],
+	);
+	const query = useSolanaRpcQuery<TokenPortfolio>('tokenPortfolio', keyArgs, fetcher, {
+		...queryOptions,
+		disabled: queryOptions.disabled ?? !address,
+	});
+	const { mutate } = query;
+
+	useEffect(() => {
+		if (!address || !watch) {
+			return;
+		}
+		// Token accounts of both programs store their owner at byte 32; an address is its own base58 encoding.
+		const bytes = address as string as Base58EncodedBytes;
+		const filters = [{ memcmp: { bytes, encoding: 'base58', offset: 32n } }] as const;
+		// A single transaction can touch several accounts, so changes arriving close together share one re-read.
+		let pendingRefresh: ReturnType<typeof setTimeout> | undefined;
+		const scheduleRefresh = () => {
+			if (pendingRefresh !== undefined) {
+				return;
+			}
+			pendingRefresh = setTimeout(() => {
+				pendingRefresh = undefined;
+				void mutate();
+			}, watchDelayMs);
+		};
+		const subscriptions = TOKEN_PORTFOLIO_PROGRAM_ADDRESSES.map((programAddress) =>
+			client.watchers.watchProgramAccounts({ commitment, filters, programAddress }, scheduleRefresh),
+		);
+		return () => {
+			clearTimeout(pendingRefresh);
+			for (const subscription of subscriptions) {
+				subscription.abort();
+			}
+		};
+	}, [address, client, commitment, mutate, watch, watchDelayMs]);
+
+	return {
+		...query,
+		holdings: query.data?.holdings ?? [],
+		portfolio: query.data ?? null,
+	};
+}
+
 export type UseSimulateTransactionOptions = Omit<
 	UseSolanaRpcQueryOptions<SimulateTransactionResponse>,
 	'refreshInterval'
@@ -1,10 +1,13 @@
 import {
 	type AccountCacheEntry,
+	type AddressLookupTableHelper,
 	type ClientActions,
 	type ClientHelpers,
 	type ClientState,
 	type ClientStore,
 	type ClientWatchers,
+	createAccountCache,
+	createAccountDecoderRegistry,
 	createClientStore,
 	createInitialClientState,
 	type SolanaClient,
@@ -12,13 +15,18 @@ import {
 	type SolTransferHelper,
 	type SplTokenHelper,
 	type SplTokenHelperConfig,
+	type TokenMetadataResolver,
 	type TransactionHelper,
 	type WalletConnector,
 	type WalletRegistry,
 } from '@solana/client';
-import type { Address, ClusterUrl, Lamports, Signature, TransactionSigner } from '@solana/kit';
+import type { Address, Blockhash, ClusterUrl, Lamports, Signature, TransactionSigner } from '@solana/kit';
 import { type MockedFunction, vi } from 'vitest';
 
+type MockedAddressLookupTableHelper = {
+	[K in keyof AddressLookupTableHelper]: MockedFunction<AddressLookupTableHelper[K]>;
+};
+
 type MockedActions = {
 	[K in keyof ClientActions]: MockedFunction<ClientActions[K]>;
 };
@@ -35,6 +43,10 @@ type MockedSplTokenHelper = {
 	[K in keyof SplTokenHelper]: MockedFunction<SplTokenHelper[K]>;
 };
 
+type MockedTokenMetadataResolver = {
+	[K in keyof TokenMetadataResolver]: MockedFunction<TokenMetadataResolver[K]>;
+};
+
 type MockedTransactionHelper = {
 	[K in keyof TransactionHelper]: MockedFunction<TransactionHelper[K]>;
 };
@@ -44,8 +56,11 @@ type CreateMockSplTokenHelper = (config: SplTokenHelperConfig) => MockedSplToken
 export type MockSolanaClient = SolanaClient & {
 	actions: MockedActions;
 	helpers: ClientHelpers & {
+		addressLookupTable: MockedAddressLookupTableHelper;
 		solTransfer: MockedSolTransferHelper;
 		splToken: MockedFunction<ClientHelpers['splToken']>;
+		tokenMetadata: MockedTokenMetadataResolver;
+		tokenPortfolio: MockedFunction<ClientHelpers['tokenPortfolio']>;
 		transaction: MockedTransactionHelper;
 	};
 	solTransfer: MockedSolTransferHelper;
@@ -59,6 +74,7 @@ export type MockSolanaClient = SolanaClient & {
 
 export type MockSolanaClientOptions = Readonly<{
 	actions?: Partial<MockedActions>;
+	addressLookupTable?: Partial<MockedAddressLookupTableHelper>;
 	config?: Partial<SolanaClientConfig>;
 	connectors?: readonly WalletConnector[];
 	createSplTokenHelper?: CreateMockSplTokenHelper;
@@ -66,6 +82,8 @@ export type MockSolanaClientOptions = Readonly<{
 	solTransfer?: Partial<MockedSolTransferHelper>;
 	state?: Partial<ClientState>;
 	store?: ClientStore;
+	tokenMetadata?: Partial<MockedTokenMetadataResolver>;
+	tokenPortfolio?: MockedFunction<ClientHelpers['tokenPortfolio']>;
 	transaction?: Partial<MockedTransactionHelper>;
 	watchers?: Partial<MockedWatchers>;
 }>;
@@ -124,7 +142,11 @@ function mergeClientState(current: ClientState, patch: Partial<ClientState>): Cl
 		subscriptions: patch.subscriptions
 			? {
 					account: patch.subscriptions.account ?? current.subscriptions.account,
+					logs: patch.subscriptions.logs ?? current.subscriptions.logs,
+					programAccounts: patch.subscriptions.programAccounts ?? current.subscriptions.programAccounts,
+					root: patch.subscriptions.root ?? current.subscriptions.root,
 					signature: patch.subscriptions.signature ?? current.subscriptions.signature,
+					slot: patch.subscriptions.slot ?? current.subscriptions.slot,
 				}
 			: current.subscriptions,
 		transactions: patch.transactions ?? current.transactions,
@@ -144,6 +166,7 @@ function createDefaultStore(): ClientStore {
 
 function createDefaultActions(): MockedActions {
 	return {
+		clearTransactions: vi.fn<ClientActions['clearTransactions']>(),
 		connectWallet: vi.fn<ClientActions['connectWallet']>(async () => undefined),
 		disconnectWallet: vi.fn<ClientActions['disconnectWallet']>(async () => undefined),
 		fetchAccount: vi.fn<ClientActions['fetchAccount']>(
@@ -157,6 +180,7 @@ function createDefaultActions(): MockedActions {
 		),
 		fetchBalance: vi.fn<ClientActions['fetchBalance']>(async () => 0n as Lamports),
 		requestAirdrop: vi.fn<ClientActions['requestAirdrop']>(async () => 'mock-signature' as Signature),
+		selectWalletAccount: vi.fn<ClientActions['selectWalletAccount']>(),
 		sendTransaction: vi.fn<ClientActions['sendTransaction']>(
 			async () => 'Tx1111111111111111111111111111111111111111111' as Signature,
 		),
@@ -168,7 +192,30 @@ function createDefaultWatchers(): MockedWatchers {
 	return {
 		watchAccount: vi.fn<ClientWatchers['watchAccount']>(() => createMockWatchSubscription()),
 		watchBalance: vi.fn<ClientWatchers['watchBalance']>(() => createMockWatchSubscription()),
+		watchLogs: vi.fn<ClientWatchers['watchLogs']>(() => createMockWatchSubscription()),
+		watchProgramAccounts: vi.fn<ClientWatchers['watchProgramAccounts']>(() => createMockWatchSubscription()),
+		watchRoot: vi.fn<ClientWatchers['watchRoot']>(() => createMockWatchSubscription()),
 		watchSignature: vi.fn<ClientWatchers['watchSignature']>(() => createMockWatchSubscription()),
+		watchSlot: vi.fn<ClientWatchers['watchSlot']>(() => createMockWatchSubscription()),
+	};
+}
+
+function createDefaultAddressLookupTableHelper(): MockedAddressLookupTableHelper {
+	const signature = 'MockLookupTableSignature1111111111111111' as Signature;
+	return {
+		close: vi.fn<AddressLookupTableHelper['close']>(async () => signature),
+		create: vi.fn<AddressLookupTableHelper['create']>(async () => ({
+			lookupTable: 'mock-lookup-table' as Address,
+			signature,
+		})),
+		deactivate: vi.fn<AddressLookupTableHelper['deactivate']>(async () => signature),
+		extend: vi.fn<AddressLookupTableHelper['extend']>(async () => signature),
+		fetch: vi.fn<AddressLookupTableHelper['fetch']>(async () => null),
+		prepareClose: vi.fn<AddressLookupTableHelper['prepareClose']>(),
+		prepareCreate: vi.fn<AddressLookupTableHelper['prepareCreate']>(),
+		prepareDeactivate: vi.fn<AddressLookupTableHelper['prepareDeactivate']>(),
+		prepareExtend: vi.fn<AddressLookupTableHelper['prepareExtend']>(),
+		sendPrepared: vi.fn<AddressLookupTableHelper['sendPrepared']>(async () => signature),
 	};
 }
 
@@ -190,8 +237,20 @@ function createDefaultSolTransferHelper(): MockedSolTransferHelper {
 	};
 }
 
+function createMockPreparedSplOperation(): Awaited<ReturnType<SplTokenHelper['prepareBurn']>> {
+	return {
+		commitment: 'confirmed',
+		lifetime: { blockhash: 'mock-blockhash' as Blockhash, lastValidBlockHeight: 0n },
+		message: {} as never,
+		mode: 'send',
+		signer: { address: 'mock' } as unknown as TransactionSigner,
+		tokenAccount: 'MockAta1111111111111111111111111111111111' as Address,
+	};
+}
+
 function createDefaultSplTokenHelper(): MockedSplTokenHelper {
 	return {
+		calculateTransferFee: vi.fn<SplTokenHelper['calculateTransferFee']>(async () => 0n),
 		deriveAssociatedTokenAddress: vi.fn<SplTokenHelper['deriveAssociatedTokenAddress']>(
 			async (owner: Address | string) => owner as Address,
 		),
@@ -202,17 +261,32 @@ function createDefaultSplTokenHelper(): MockedSplTokenHelper {
 			exists: false,
 			uiAmount: '0',
 		})),
+		fetchMintExtensions: vi.fn<SplTokenHelper['fetchMintExtensions']>(async () => ({
+			names: [],
+			nonTransferable: false,
+		})),
+		prepareApprove: vi.fn<SplTokenHelper['prepareApprove']>(async () => createMockPreparedSplOperation()),
+		prepareBurn: vi.fn<SplTokenHelper['prepareBurn']>(async () => createMockPreparedSplOperation()),
+		prepareCloseAccount: vi.fn<SplTokenHelper['prepareCloseAccount']>(async () => createMockPreparedSplOperation()),
+		prepareCreateAta: vi.fn<SplTokenHelper['prepareCreateAta']>(async () => createMockPreparedSplOperation()),
+		prepareFreeze: vi.fn<SplTokenHelper['prepareFreeze']>(async () => createMockPreparedSplOperation()),
+		prepareRevoke: vi.fn<SplTokenHelper['prepareRevoke']>(async () => createMockPreparedSplOperation()),
+		prepareThaw: vi.fn<SplTokenHelper['prepareThaw']>(async () => createMockPreparedSplOperation()),
 		prepareTransfer: vi.fn<SplTokenHelper['prepareTransfer']>(async () => ({
 			amount: 0n,
 			commitment: 'confirmed',
 			decimals: 9,
 			destinationAta: 'MockDestinationAta1111111111111111111111111' as Address,
+			fee: 0n,
 			lifetime: { blockhash: 'mock-blockhash', lastValidBlockHeight: 0n },
 			message: {} as unknown,
 			mode: 'send',
 			signer: { address: 'mock' } as unknown as TransactionSigner,
 			sourceAta: 'MockSourceAta11111111111111111111111111' as Address,
 		})),
+		sendPrepared: vi.fn<SplTokenHelper['sendPrepared']>(
+			async () => 'MockSplPreparedSignature111111111111111' as Signature,
+		),
 		sendPreparedTransfer: vi.fn<SplTokenHelper['sendPreparedTransfer']>(
 			async () => 'MockSplPreparedSignature111111111111111' as Signature,
 		),
@@ -224,10 +298,17 @@ function createDefaultSplTokenHelper(): MockedSplTokenHelper {
 
 function createDefaultTransactionHelper(): MockedTransactionHelper {
 	return {
+		measure: vi.fn<TransactionHelper['measure']>(async () => 200),
 		prepare: vi.fn<TransactionHelper['prepare']>(async (request) => ({
 			commitment: request.commitment ?? 'confirmed',
-			computeUnitLimit: request.computeUnitLimit ? BigInt(request.computeUnitLimit) : undefined,
-			computeUnitPrice: request.computeUnitPrice ? BigInt(request.computeUnitPrice) : undefined,
+			computeUnitLimit:
+				typeof request.computeUnitLimit === 'bigint' || typeof request.computeUnitLimit === 'number'
+					? BigInt(request.computeUnitLimit)
+					: undefined,
+			computeUnitPrice:
+				typeof request.computeUnitPrice === 'bigint' || typeof request.computeUnitPrice === 'number'
+					? BigInt(request.computeUnitPrice)
+					: undefined,
 			feePayer: 'mock-fee-payer' satisfies Address,
 			instructions: request.instructions,
 			lifetime: { blockhash: 'mock-blockhash', lastValidBlockHeight: 0n },
@@ -236,6 +317,7 @@ function createDefaultTransactionHelper(): MockedTransactionHelper {
 			version: 'legacy',
 		})),
 		sign: vi.fn<TransactionHelper['sign']>(async () => ({}) as unknown),
+		signAll: vi.fn<TransactionHelper['signAll']>(async (prepared) => prepared.map(() => ({}) as never)),
 		toWire: vi.fn<TransactionHelper['toWire']>(async () => 'MockWireTransaction1111111111111111111111111'),
 		send: vi.fn<TransactionHelper['send']>(async () => 'MockTxSignature1111111111111111111111111' as Signature),
 		prepareAndSend: vi.fn<TransactionHelper['prepareAndSend']>(
@@ -248,6 +330,8 @@ function createDefaultConnectors(connectors: readonly WalletConnector[] = []): W
 	return {
 		all: connectors,
 		get: (id: string) => connectors.find((connector) => connector.id === id),
+		register: () => () => undefined,
+		subscribe: () => () => undefined,
 	};
 }
 
@@ -289,6 +373,11 @@ export function createMockSolanaClient(options: MockSolanaClientOptions = {}): M
 		...(options.solTransfer ?? {}),
 	};
 
+	const addressLookupTableHelper: MockedAddressLookupTableHelper = {
+		...createDefaultAddressLookupTableHelper(),
+		...(options.addressLookupTable ?? {}),
+	};
+
 	const createSplHelper: CreateMockSplTokenHelper = options.createSplTokenHelper ?? createMockSplTokenHelper;
 	const splTokenFn: MockedFunction<SolanaClient['splToken']> = vi.fn((config: SplTokenHelperConfig) =>
 		createSplHelper(config),
@@ -309,12 +398,23 @@ export function createMockSolanaClient(options: MockSolanaClientOptions = {}): M
 	};
 
 	const helpers = {
+		addressLookupTable: addressLookupTableHelper,
 		solTransfer: solTransferHelper,
 		splToken: splTokenFn,
+		tokenMetadata: {
+			clear: vi.fn<TokenMetadataResolver['clear']>(),
+			resolve: vi.fn<TokenMetadataResolver['resolve']>(async () => null),
+			...(options.tokenMetadata ?? {}),
+		},
+		tokenPortfolio:
+			options.tokenPortfolio ??
+			vi.fn<ClientHelpers['tokenPortfolio']>(async (owner) => ({ holdings: [], owner: owner as Address })),
 		transaction: transactionHelper,
 	} as MockSolanaClient['helpers'];
 
 	const client: MockSolanaClient = {
+		accountCache: createAccountCache({ config: options.config?.accountCache, store }),
+		accountDecoders: createAccountDecoderRegistry(options.config?.accountDecoders),
 		actions,
 		config,
 		connectors,